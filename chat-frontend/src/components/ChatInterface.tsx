@@ -6,7 +6,7 @@ import UserSearch from './UserSearch';
 import GroupCreation from './GroupCreation';
 
 const ChatInterface: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, refresh } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -33,11 +33,13 @@ const ChatInterface: React.FC = () => {
     try {
       setIsLoading(true);
       
-      // Connect to WebSocket
+      // Connect to WebSocket, renewing its token through the auth context
+      chatService.setTokenRefresher(refresh);
       await chatService.connect();
       
       // Set up event handlers
       chatService.onConnection(setIsConnected);
+      chatService.onSessionEnded(logout);
       chatService.onMessage(handleNewMessage);
       
       // Load conversations
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import axios from 'axios';
 import type { ReactNode } from 'react';
 import type { AuthContextType, LoginRequest, User } from '../types/auth';
 import { authService } from '../services/auth.service';
@@ -54,11 +55,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setToken(null);
   };
 
+  const refresh = async (): Promise<string | null> => {
+    try {
+      const newToken = await authService.refresh();
+      setToken(newToken);
+      return newToken;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      // Only a rejected refresh token ends the session; network and server errors can be retried
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        logout();
+      }
+      return null;
+    }
+  };
+
   const value: AuthContextType = {
     user,
     token,
     login,
     logout,
+    refresh,
     isAuthenticated: !!user && !!token,
     isLoading,
   };
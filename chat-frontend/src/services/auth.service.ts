@@ -1,14 +1,20 @@
 import axios from 'axios';
-import type { LoginRequest, LoginResponse, User } from '../types/auth';
+import type { LoginRequest, LoginResponse, SessionTokensResponse, User } from '../types/auth';
 
 const EXTERNAL_API_BASE = 'https://dev.kaha.com.np/main/api/v3';
+const API_BASE = 'http://localhost:3000/api';
+const DEVICE_ID_KEY = 'chat_device_id';
+const USER_KEY = 'chat_user';
 
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshing: Promise<string> | null = null;
 
   constructor() {
     // Load token from localStorage on initialization
     this.token = localStorage.getItem('chat_token');
+    this.refreshToken = localStorage.getItem('chat_refresh_token');
   }
 
   async login(credentials: LoginRequest): Promise<{ user: User; token: string }> {
@@ -36,20 +42,47 @@ class AuthService {
         role,
       };
 
+      // kaha only checks the credentials; the chat backend's session tokens are
+      // the ones its /auth/refresh can rotate, so those are the ones we keep
+      const session = await axios.post<SessionTokensResponse>(
+        `${API_BASE}/auth/login`,
+        { userId: user.id, deviceId: this.getDeviceId() },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'accept': 'application/json',
+          },
+        }
+      );
+
       // Store token
-      this.token = accessToken;
-      localStorage.setItem('chat_token', accessToken);
+      this.storeTokens(session.data.data.accessToken, session.data.data.refreshToken);
+      // The backend's token carries only the user ID, so keep the profile kaha returned
+      localStorage.setItem(USER_KEY, JSON.stringify(user));
 
-      return { user, token: accessToken };
+      return { user, token: session.data.data.accessToken };
     } catch (error) {
       console.error('Login failed:', error);
       throw new Error('Login failed. Please check your credentials.');
     }
   }
 
+  // Exchange the refresh token for a new access token; concurrent callers share one request
+  refresh(): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
   logout(): void {
     this.token = null;
+    this.refreshToken = null;
     localStorage.removeItem('chat_token');
+    localStorage.removeItem('chat_refresh_token');
+    localStorage.removeItem(USER_KEY);
   }
 
   getToken(): string | null {
@@ -64,6 +97,11 @@ class AuthService {
     if (!this.token) return null;
     
     try {
+      const saved = localStorage.getItem(USER_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+
       const payload = this.decodeJWT(this.token);
       return {
         id: payload.id || payload.userId,
@@ -75,6 +113,47 @@ class AuthService {
     }
   }
 
+  // Stable per install, so signing in again replaces this device's session and keeps its sync cursor
+  getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  private async requestRefresh(): Promise<string> {
+    if (!this.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    const response = await axios.post<SessionTokensResponse>(
+      `${API_BASE}/auth/refresh`,
+      { refreshToken: this.refreshToken },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'accept': 'application/json',
+        },
+      }
+    );
+
+    const { accessToken, refreshToken } = response.data.data;
+    this.storeTokens(accessToken, refreshToken);
+    return accessToken;
+  }
+
+  private storeTokens(accessToken: string, refreshToken?: string): void {
+    this.token = accessToken;
+    localStorage.setItem('chat_token', accessToken);
+
+    if (refreshToken) {
+      this.refreshToken = refreshToken;
+      localStorage.setItem('chat_refresh_token', refreshToken);
+    }
+  }
+
   private decodeJWT(token: string): any {
     try {
       const base64Url = token.split('.')[1];
@@ -5,12 +5,31 @@ import { authService } from './auth.service';
 
 const API_BASE = 'http://localhost:3000/api';
 const WS_URL = 'http://localhost:3000/chat';
+const SYNC_CURSOR_KEY = 'chat_sync_cursor';
+const SEEN_MESSAGES_KEY = 'chat_seen_message_ids';
+const SEEN_MESSAGE_LIMIT = 1000;
+
+interface SyncBatch {
+  device_id: string;
+  messages: Message[];
+  cursor: string | null;
+  has_more: boolean;
+}
+
+type TokenRefresher = () => Promise<string | null>;
 
 class ChatService {
   private socket: Socket | null = null;
+  private tokenRefresher: TokenRefresher | null = null;
+  // Rejoined after a reconnect, which starts without rooms
+  private joinedConversations = new Set<string>();
   private messageHandlers: ((message: Message) => void)[] = [];
   private typingHandlers: ((data: any) => void)[] = [];
   private connectionHandlers: ((connected: boolean) => void)[] = [];
+  private sessionEndedHandlers: (() => void)[] = [];
+  // Sync batches can overlap with live events, so remember recent IDs; kept
+  // across reloads because a replay can arrive right after the page comes back
+  private seenMessageIds = this.loadSeenMessageIds();
 
   // WebSocket connection
   connect(): Promise<void> {
@@ -36,6 +55,33 @@ class ChatService {
 
       this.socket.on('connected', (data) => {
         console.log('Authentication successful:', data);
+        this.joinedConversations.forEach(conversationId => {
+          this.socket?.emit('join_conversation', { conversation_id: conversationId });
+        });
+        this.requestSync();
+      });
+
+      // The server warns ahead of expiry; a fresh token keeps this socket and its rooms
+      this.socket.on('token_expiring', () => {
+        this.reauthenticate();
+      });
+
+      this.socket.on('reauthenticate_error', (error) => {
+        console.error('Socket reauthentication failed:', error);
+      });
+
+      // Missed the window (e.g. the tab was asleep), so reconnect with a new token
+      this.socket.on('token_expired', () => {
+        this.reconnectWithFreshToken();
+      });
+
+      this.socket.on('sync_batch', (batch: SyncBatch) => {
+        batch.messages.forEach(message => this.dispatchMessage(message));
+
+        if (batch.cursor) {
+          localStorage.setItem(SYNC_CURSOR_KEY, batch.cursor);
+          this.socket?.emit('sync_ack', { device_id: batch.device_id, cursor: batch.cursor });
+        }
       });
 
       this.socket.on('disconnect', () => {
@@ -50,7 +96,12 @@ class ChatService {
 
       this.socket.on('new_message', (message: Message) => {
         console.log('New message received:', message);
-        this.messageHandlers.forEach(handler => handler(message));
+        this.dispatchMessage(message);
+        // Lets the server move this device's sync cursor past live messages too
+        this.socket?.emit('message_delivered', {
+          message_ids: [message.message_id],
+          device_id: authService.getDeviceId(),
+        });
       });
 
       this.socket.on('user_typing', (data) => {
@@ -64,15 +115,86 @@ class ChatService {
     });
   }
 
+  // AuthContext's refresh, used to renew the socket's token before it lapses
+  setTokenRefresher(refresher: TokenRefresher): void {
+    this.tokenRefresher = refresher;
+  }
+
+  private async reauthenticate(): Promise<void> {
+    const token = await this.tokenRefresher?.();
+    if (!token || !this.socket) {
+      return;
+    }
+
+    // Later reconnects should present the new token too
+    this.socket.auth = { token };
+    this.socket.emit('reauthenticate', { token });
+  }
+
+  private async reconnectWithFreshToken(): Promise<void> {
+    const token = await this.tokenRefresher?.();
+    if (!token) {
+      // The server has already dropped the socket and there is no token to come back with
+      this.socket?.disconnect();
+      this.sessionEndedHandlers.forEach(handler => handler());
+      return;
+    }
+    if (!this.socket) {
+      return;
+    }
+
+    this.socket.auth = { token };
+    // The server drops the socket right after token_expired; make sure it's closed first
+    this.socket.disconnect().connect();
+  }
+
+  // Catch up on anything missed while this device was offline
+  private requestSync(): void {
+    const cursor = localStorage.getItem(SYNC_CURSOR_KEY);
+    this.socket?.emit('sync_request', {
+      device_id: authService.getDeviceId(),
+      ...(cursor ? { cursor } : {}),
+    });
+  }
+
+  private dispatchMessage(message: Message): void {
+    const id = String(message.message_id);
+    if (this.seenMessageIds.has(id)) {
+      return;
+    }
+
+    this.seenMessageIds.add(id);
+    if (this.seenMessageIds.size > SEEN_MESSAGE_LIMIT) {
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenMessageIds.delete(oldest);
+      }
+    }
+    localStorage.setItem(SEEN_MESSAGES_KEY, JSON.stringify([...this.seenMessageIds]));
+
+    this.messageHandlers.forEach(handler => handler(message));
+  }
+
+  private loadSeenMessageIds(): Set<string> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SEEN_MESSAGES_KEY) || '[]');
+      return new Set(Array.isArray(stored) ? stored.map(String) : []);
+    } catch {
+      return new Set();
+    }
+  }
+
   disconnect(): void {
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
     }
+    this.joinedConversations.clear();
   }
 
   // Join conversation room
   joinConversation(conversationId: string): void {
+    this.joinedConversations.add(conversationId);
     if (this.socket) {
       this.socket.emit('join_conversation', { conversation_id: conversationId });
     }
@@ -80,6 +202,7 @@ class ChatService {
 
   // Leave conversation room
   leaveConversation(conversationId: string): void {
+    this.joinedConversations.delete(conversationId);
     if (this.socket) {
       this.socket.emit('leave_conversation', { conversation_id: conversationId });
     }
@@ -122,6 +245,11 @@ class ChatService {
     this.connectionHandlers.push(handler);
   }
 
+  // Called when the socket's token lapsed and couldn't be renewed
+  onSessionEnded(handler: () => void): void {
+    this.sessionEndedHandlers.push(handler);
+  }
+
   // REST API methods
   async getConversations(): Promise<Conversation[]> {
     const token = authService.getToken();
@@ -5,9 +5,21 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   accessToken: string;
+  refreshToken?: string;
   role: string;
 }
 
+// POST /api/auth/login and /api/auth/refresh on the chat backend
+export interface SessionTokensResponse {
+  message: string;
+  data: {
+    accessToken: string;
+    refreshToken: string;
+    sessionId: string;
+    deviceId: string;
+  };
+}
+
 export interface User {
   id: string;
   kahaId?: string;
@@ -20,6 +32,8 @@ export interface AuthContextType {
   token: string | null;
   login: (credentials: LoginRequest) => Promise<void>;
   logout: () => void;
+  // Resolves to the new access token, or null if it couldn't be renewed; only a 401 logs out
+  refresh: () => Promise<string | null>;
   isAuthenticated: boolean;
   isLoading: boolean;
 }
\ No newline at end of file
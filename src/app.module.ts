@@ -1,6 +1,7 @@
 import { Module, MiddlewareConsumer, NestModule } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AuthModule } from '@presentation/auth/auth.module';
 import { ChatModule } from '@presentation/chat/chat.module';
 import { UsersModule } from '@presentation/users/users.module';
@@ -29,6 +30,9 @@ import { databaseConfig } from '@infrastructure/database/database.config';
       inject: [],
     }),
     
+    // Cron jobs (message retention, cache metrics)
+    ScheduleModule.forRoot(),
+    
     // Infrastructure layer
     InfrastructureModule,
     
@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { AttachmentService } from '../attachment.service';
+
+describe('AttachmentService.sweepUnlinked', () => {
+  let attachmentRepository: { deleteUnlinkedBefore: jest.Mock };
+  let storage: { delete: jest.Mock };
+  let service: AttachmentService;
+
+  beforeEach(() => {
+    attachmentRepository = { deleteUnlinkedBefore: jest.fn().mockResolvedValue(['c1/a', 'c1/b']) };
+    storage = { delete: jest.fn() };
+    service = new AttachmentService(
+      attachmentRepository as any,
+      {} as any,
+      {} as any,
+      storage as any,
+      new ConfigService({ ATTACHMENT_UNLINKED_TTL_SECONDS: 3600, ATTACHMENT_SWEEP_BATCH_SIZE: 200 }),
+    );
+  });
+
+  it('deletes uploads older than the TTL and then their files', async () => {
+    const before = Date.now();
+
+    expect(await service.sweepUnlinked()).toBe(2);
+
+    const [cutoff, limit] = attachmentRepository.deleteUnlinkedBefore.mock.calls[0];
+    expect(limit).toBe(200);
+    expect(cutoff.getTime()).toBeGreaterThanOrEqual(before - 3600 * 1000);
+    expect(cutoff.getTime()).toBeLessThanOrEqual(Date.now() - 3600 * 1000);
+    expect(storage.delete).toHaveBeenCalledWith('c1/a');
+    expect(storage.delete).toHaveBeenCalledWith('c1/b');
+  });
+
+  it('carries on past a file that cannot be removed', async () => {
+    storage.delete.mockRejectedValueOnce(new Error('EACCES'));
+
+    expect(await service.sweepUnlinked()).toBe(2);
+    expect(storage.delete).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves the files alone when the records could not be deleted', async () => {
+    attachmentRepository.deleteUnlinkedBefore.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(service.sweepUnlinked()).rejects.toThrow('database unavailable');
+    expect(storage.delete).not.toHaveBeenCalled();
+  });
+
+  it('does not overlap a sweep that is still running', async () => {
+    let finish: (keys: string[]) => void;
+    attachmentRepository.deleteUnlinkedBefore.mockReturnValue(new Promise(resolve => (finish = resolve)));
+
+    const first = service.sweepUnlinked();
+    expect(await service.sweepUnlinked()).toBe(0);
+
+    finish!([]);
+    expect(await first).toBe(0);
+    expect(attachmentRepository.deleteUnlinkedBefore).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,295 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConversationAssignment } from '@domain/entities/conversation-assignment.entity';
+import { BusinessAgent, BusinessAgentRole } from '@domain/entities/business-agent.entity';
+import { Participant } from '@domain/entities/participant.entity';
+import { AssignmentChanges } from '@domain/repositories/conversation-assignment.repository.interface';
+import { BusinessInboxService } from '../business-inbox.service';
+
+describe('BusinessInboxService', () => {
+  let assignments: Map<string, ConversationAssignment>;
+  let assignmentRepository: Record<string, jest.Mock>;
+  let agents: BusinessAgent[];
+  let agentRepository: Record<string, jest.Mock>;
+  let participants: Set<string>;
+  let participantRepository: { findByConversationAndUser: jest.Mock };
+  let conversationRepository: { delete: jest.Mock };
+  let conversationService: Record<string, jest.Mock>;
+  let uow: { assignments: Record<string, jest.Mock>; participants: Record<string, jest.Mock>; publish: jest.Mock };
+  let transactionManager: { executeInTransaction: jest.Mock };
+  let online: Set<string>;
+  let chatGateway: Record<string, jest.Mock>;
+  let service: BusinessInboxService;
+
+  const agent = (agentId: string, role: BusinessAgentRole = 'agent'): BusinessAgent =>
+    Object.assign(new BusinessAgent(), { businessId: 'shop', agentId, role, lastAssignedAt: null });
+
+  const openAssignment = (status: 'queued' | 'assigned', agentId: string | null = null): ConversationAssignment => {
+    const assignment = Object.assign(new ConversationAssignment(), {
+      conversationId: 'conversation-1',
+      businessId: 'shop',
+      customerId: 'customer',
+      status,
+      agentId,
+      queuedAt: new Date('2024-05-01T00:00:00Z'),
+      assignedAt: agentId ? new Date('2024-05-01T00:01:00Z') : null,
+    });
+    assignments.set(assignment.conversationId, assignment);
+    if (agentId) {
+      participants.add(`conversation-1:${agentId}`);
+    }
+    return assignment;
+  };
+
+  beforeEach(() => {
+    assignments = new Map();
+    assignmentRepository = {
+      createOpen: jest.fn(async (assignment: ConversationAssignment) => {
+        assignments.set(assignment.conversationId, assignment);
+        return assignment;
+      }),
+      findByConversation: jest.fn(async (conversationId: string) => assignments.get(conversationId) ?? null),
+      findLatestForCustomer: jest.fn(async () => null),
+      findQueued: jest.fn(async () => [...assignments.values()].filter(a => a.status === 'queued')),
+      countAssignedByAgent: jest.fn(async () => new Map()),
+      transition: jest.fn(
+        async (conversationId: string, from: { statuses: string[]; agentId?: string | null }, changes: AssignmentChanges) => {
+          const current = assignments.get(conversationId);
+          if (!current || !from.statuses.includes(current.status) || (current.agentId ?? null) !== from.agentId) {
+            return null;
+          }
+          const updated = Object.assign(new ConversationAssignment(), current, changes);
+          assignments.set(conversationId, updated);
+          return updated;
+        },
+      ),
+    };
+
+    agents = [agent('agent-1'), agent('agent-2'), agent('boss', 'supervisor')];
+    agentRepository = {
+      find: jest.fn(async (_businessId: string, agentId: string) => agents.find(a => a.agentId === agentId) ?? null),
+      findByBusiness: jest.fn(async () => agents),
+      markAssigned: jest.fn(),
+    };
+
+    participants = new Set();
+    participantRepository = {
+      findByConversationAndUser: jest.fn(async (conversationId: string, userId: string) =>
+        participants.has(`${conversationId}:${userId}`) ? { userId } : null,
+      ),
+    };
+    conversationRepository = { delete: jest.fn() };
+    conversationService = {
+      createBusinessConversation: jest.fn(async () => ({ id: 'conversation-1' })),
+    };
+    uow = {
+      assignments: assignmentRepository,
+      participants: {
+        save: jest.fn(async (participant: Participant) => {
+          participants.add(`${participant.conversationId}:${participant.userId}`);
+          return participant;
+        }),
+        delete: jest.fn(async (conversationId: string, userId: string) => {
+          participants.delete(`${conversationId}:${userId}`);
+        }),
+      },
+      publish: jest.fn(),
+    };
+    // Puts the in-memory state back when the work throws, like a rollback would
+    transactionManager = {
+      executeInTransaction: jest.fn(async (work: (unit: typeof uow) => Promise<unknown>) => {
+        const snapshot = { assignments: new Map(assignments), participants: new Set(participants) };
+        try {
+          return await work(uow);
+        } catch (error) {
+          assignments = snapshot.assignments;
+          participants = snapshot.participants;
+          throw error;
+        }
+      }),
+    };
+
+    online = new Set(['agent-2']);
+    chatGateway = {
+      sendMessageToConversation: jest.fn(),
+      sendMessageToUser: jest.fn(),
+      removeUserFromConversation: jest.fn(),
+    };
+
+    service = new BusinessInboxService(
+      assignmentRepository as any,
+      agentRepository as any,
+      participantRepository as any,
+      conversationRepository as any,
+      transactionManager as any,
+      conversationService as any,
+      { sendSystemMessage: jest.fn() } as any,
+      {
+        getBatchPresence: jest.fn(async (userIds: string[]) =>
+          Object.fromEntries(userIds.map(id => [id, { status: online.has(id) ? 'online' : 'offline' }])),
+        ),
+      } as any,
+      { getBatchProfiles: jest.fn().mockResolvedValue({ users: [], businesses: [] }) } as any,
+      chatGateway as any,
+      new ConfigService({ BUSINESS_ROUTING_STRATEGY: 'least_loaded' }),
+    );
+  });
+
+  describe('startConversation', () => {
+    it('queues a new conversation and routes it to an online agent', async () => {
+      const view = await service.startConversation('customer', 'shop');
+
+      expect(conversationService.createBusinessConversation).toHaveBeenCalledWith({
+        customerId: 'customer',
+        businessId: 'shop',
+        agentId: undefined,
+      });
+      expect(assignmentRepository.createOpen).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'queued', agentId: null }),
+      );
+      expect(assignmentRepository.transition).toHaveBeenCalledWith(
+        'conversation-1',
+        { statuses: ['queued'], agentId: null },
+        expect.objectContaining({ status: 'assigned', agentId: 'agent-2' }),
+      );
+      expect(uow.participants.save).toHaveBeenCalledWith(
+        expect.objectContaining({ conversationId: 'conversation-1', userId: 'agent-2' }),
+      );
+      expect(uow.publish).toHaveBeenCalledWith(expect.objectContaining({ userId: 'agent-2', addedBy: 'shop' }));
+      expect(view).toEqual(expect.objectContaining({ status: 'assigned', agent_id: 'agent-2' }));
+    });
+
+    it('leaves the conversation queued while no agent is online', async () => {
+      online.clear();
+
+      const view = await service.startConversation('customer', 'shop');
+
+      expect(assignmentRepository.transition).not.toHaveBeenCalled();
+      expect(view).toEqual(expect.objectContaining({ status: 'queued', agent_id: null }));
+    });
+
+    it('hands the conversation straight to a preferred agent who is online', async () => {
+      const view = await service.startConversation('customer', 'shop', 'agent-2');
+
+      expect(conversationService.createBusinessConversation).toHaveBeenCalledWith(
+        expect.objectContaining({ agentId: 'agent-2' }),
+      );
+      expect(agentRepository.markAssigned).toHaveBeenCalledWith('shop', 'agent-2', expect.any(Date));
+      expect(view).toEqual(expect.objectContaining({ status: 'assigned', agent_id: 'agent-2' }));
+    });
+
+    it.each([
+      ['is offline', 'agent-1'],
+      ['is a supervisor', 'boss'],
+    ])('queues instead when the preferred agent %s', async (_reason, agentId) => {
+      online.add('boss');
+      online.delete('agent-2');
+
+      const view = await service.startConversation('customer', 'shop', agentId);
+
+      expect(conversationService.createBusinessConversation).toHaveBeenCalledWith(
+        expect.objectContaining({ agentId: undefined }),
+      );
+      expect(assignmentRepository.createOpen).toHaveBeenCalledWith(expect.objectContaining({ status: 'queued' }));
+      expect(view.agent_id).toBeNull();
+    });
+
+    it('returns the open conversation a concurrent start created and drops its own', async () => {
+      const winner = Object.assign(new ConversationAssignment(), {
+        conversationId: 'conversation-0',
+        businessId: 'shop',
+        customerId: 'customer',
+        status: 'queued',
+        agentId: null,
+        queuedAt: new Date('2024-05-01T00:00:00Z'),
+      });
+      assignmentRepository.createOpen.mockResolvedValue(null);
+      assignmentRepository.findLatestForCustomer.mockResolvedValueOnce(null).mockResolvedValueOnce(winner);
+
+      const view = await service.startConversation('customer', 'shop');
+
+      expect(conversationRepository.delete).toHaveBeenCalledWith('conversation-1');
+      expect(view.conversation_id).toBe('conversation-0');
+      expect(chatGateway.sendMessageToConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hand over', () => {
+    it('moves the conversation from one agent to the other on transfer', async () => {
+      openAssignment('assigned', 'agent-1');
+
+      const view = await service.transfer('agent-1', 'shop', 'conversation-1', 'agent-2');
+
+      expect(assignmentRepository.transition).toHaveBeenCalledWith(
+        'conversation-1',
+        { statuses: ['assigned'], agentId: 'agent-1' },
+        expect.objectContaining({ status: 'assigned', agentId: 'agent-2' }),
+      );
+      expect(uow.participants.delete).toHaveBeenCalledWith('conversation-1', 'agent-1');
+      expect(uow.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'agent-1', removedBy: 'agent-1', reason: 'transferred' }),
+      );
+      expect(chatGateway.removeUserFromConversation).toHaveBeenCalledWith('agent-1', 'conversation-1');
+      expect([...participants]).toEqual(['conversation-1:agent-2']);
+      // Both agents hear about it even though neither is in the room any more
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('agent-1', 'conversation_assigned', expect.anything());
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('agent-2', 'conversation_assigned', expect.anything());
+      expect(view).toEqual(expect.objectContaining({ status: 'assigned', agent_id: 'agent-2' }));
+    });
+
+    it('takes the agent out when the conversation goes back to the queue', async () => {
+      online.clear();
+      openAssignment('assigned', 'agent-1');
+
+      const view = await service.transfer('agent-1', 'shop', 'conversation-1');
+
+      expect(participants.size).toBe(0);
+      expect(uow.participants.save).not.toHaveBeenCalled();
+      expect(view).toEqual(expect.objectContaining({ status: 'queued', agent_id: null }));
+    });
+
+    it('lets a supervisor take over a conversation another agent has', async () => {
+      openAssignment('assigned', 'agent-1');
+
+      const view = await service.claim('boss', 'shop', 'conversation-1');
+
+      expect(view.agent_id).toBe('boss');
+      expect([...participants]).toEqual(['conversation-1:boss']);
+    });
+
+    it('refuses a claim when someone else changed the assignment first', async () => {
+      openAssignment('queued');
+      assignmentRepository.transition.mockResolvedValueOnce(null);
+
+      await expect(service.claim('agent-1', 'shop', 'conversation-1')).rejects.toBeInstanceOf(ConflictException);
+      expect(uow.participants.save).not.toHaveBeenCalled();
+    });
+
+    it('keeps the previous assignment when adding the new agent fails', async () => {
+      openAssignment('assigned', 'agent-1');
+      uow.participants.save.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.transfer('agent-1', 'shop', 'conversation-1', 'agent-2')).rejects.toThrow('connection reset');
+
+      expect(assignments.get('conversation-1')).toEqual(expect.objectContaining({ status: 'assigned', agentId: 'agent-1' }));
+      expect([...participants]).toEqual(['conversation-1:agent-1']);
+      expect(chatGateway.removeUserFromConversation).not.toHaveBeenCalled();
+      expect(chatGateway.sendMessageToConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('routing', () => {
+    it('keeps routing the queue past a conversation that fails to hand over', async () => {
+      const first = openAssignment('queued');
+      const second = Object.assign(new ConversationAssignment(), first, { conversationId: 'conversation-2' });
+      assignments.set('conversation-2', second);
+      assignmentRepository.findBusinessesWithQueue = jest.fn().mockResolvedValue(['shop']);
+      uow.participants.save.mockRejectedValueOnce(new Error('connection reset'));
+
+      expect(await service.routeAllQueues()).toBe(1);
+
+      expect(assignments.get('conversation-1')).toEqual(expect.objectContaining({ status: 'queued', agentId: null }));
+      expect(assignments.get('conversation-2')).toEqual(expect.objectContaining({ status: 'assigned', agentId: 'agent-2' }));
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { BadRequestException } from '@nestjs/common';
+import { Participant } from '@domain/entities/participant.entity';
+import { ConversationInboxService } from '../conversation-inbox.service';
+
+describe('ConversationInboxService', () => {
+  let participants: Map<string, Participant>;
+  let participantCommandRepository: Record<string, jest.Mock>;
+  let chatGateway: { sendMessageToUser: jest.Mock };
+  let service: ConversationInboxService;
+
+  const participant = (userId: string, fields: Partial<Participant> = {}) =>
+    Object.assign(new Participant(), { conversationId: 'c1', userId, isMuted: false, ...fields });
+
+  beforeEach(() => {
+    participants = new Map([
+      ['alice', participant('alice')],
+      ['bob', participant('bob', { archivedAt: new Date('2024-05-01T10:00:00Z') })],
+      ['carol', participant('carol', { archivedAt: new Date('2024-05-01T10:00:00Z'), isMuted: true })],
+    ]);
+
+    let pinned = 4;
+    participantCommandRepository = {
+      // Stands in for the row lock: the count is read and bumped in one step
+      pinWithinLimit: jest.fn(async (_conversationId: string, _userId: string, maxPinned: number) => {
+        await new Promise(resolve => setImmediate(resolve));
+        return pinned < maxPinned ? (pinned++, true) : false;
+      }),
+      unarchiveForNewMessage: jest.fn(async () =>
+        [...participants.values()]
+          .filter(p => p.archivedAt && !p.isCurrentlyMuted())
+          .map(p => ((p.archivedAt = undefined), p.userId)),
+      ),
+    };
+    chatGateway = { sendMessageToUser: jest.fn() };
+
+    service = new ConversationInboxService(
+      { findByConversationAndUser: jest.fn(async (_c: string, userId: string) => participants.get(userId) ?? null) } as any,
+      participantCommandRepository as any,
+      {} as any,
+      chatGateway as any,
+    );
+  });
+
+  describe('pin', () => {
+    it('pins up to the limit when two devices pin at once', async () => {
+      const results = await Promise.allSettled([service.pin('alice', 'c1'), service.pin('alice', 'c1')]);
+
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toEqual(
+        new BadRequestException('You can pin at most 5 conversations'),
+      );
+      expect(participantCommandRepository.pinWithinLimit).toHaveBeenCalledWith('c1', 'alice', 5);
+    });
+
+    it('does not count a conversation that is already pinned again', async () => {
+      participants.set('alice', participant('alice', { pinnedAt: new Date() }));
+
+      await service.pin('alice', 'c1');
+
+      expect(participantCommandRepository.pinWithinLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unarchiveOnNewMessage', () => {
+    it('brings the conversation back for participants who have not muted it', async () => {
+      await service.unarchiveOnNewMessage('c1');
+
+      expect(participants.get('bob')!.archivedAt).toBeUndefined();
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledTimes(1);
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith(
+        'bob',
+        'conversation_state_updated',
+        expect.objectContaining({ conversation_id: 'c1', archived_at: null }),
+      );
+    });
+
+    it('leaves it archived for a participant who muted it', async () => {
+      await service.unarchiveOnNewMessage('c1');
+
+      expect(participants.get('carol')!.archivedAt).toEqual(new Date('2024-05-01T10:00:00Z'));
+      expect(chatGateway.sendMessageToUser).not.toHaveBeenCalledWith('carol', expect.anything(), expect.anything());
+    });
+
+    it('unarchives once the mute has run out', async () => {
+      participants.get('carol')!.mutedUntil = new Date(Date.now() - 60000);
+
+      await service.unarchiveOnNewMessage('c1');
+
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith(
+        'carol',
+        'conversation_state_updated',
+        expect.objectContaining({ archived_at: null, is_muted: false }),
+      );
+    });
+
+    it('does not fail the message when unarchiving fails', async () => {
+      participantCommandRepository.unarchiveForNewMessage.mockRejectedValue(new Error('database unavailable'));
+
+      await expect(service.unarchiveOnNewMessage('c1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { ConfigService } from '@nestjs/config';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { EnhancedMessageRepository } from '@infrastructure/repositories/enhanced-message.repository';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { EnhancedMessageService } from '../enhanced-message.service';
+import { AttachmentService } from '../attachment.service';
+
+describe('EnhancedMessageService retention run', () => {
+  let repository: { expireMessages: jest.Mock; purgeDeletedMessages: jest.Mock };
+  let chatGateway: { sendMessageToConversation: jest.Mock };
+  let attachmentService: { deleteStoredFiles: jest.Mock };
+  let service: EnhancedMessageService;
+
+  const createService = (config: Record<string, any> = {}) =>
+    new EnhancedMessageService(
+      repository as unknown as EnhancedMessageRepository,
+      {} as any,
+      {} as any,
+      { log: jest.fn(), audit: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+      chatGateway as unknown as ChatGateway,
+      new ConfigService({ RETENTION_BATCH_SIZE: 2, RETENTION_MAX_BATCHES: 3, RETENTION_DEFAULT_DAYS: 90, ...config }),
+      attachmentService as unknown as AttachmentService,
+    );
+
+  beforeEach(() => {
+    repository = {
+      expireMessages: jest.fn().mockResolvedValue([]),
+      purgeDeletedMessages: jest.fn().mockResolvedValue({ purged: 0, storageKeys: [] }),
+    };
+    chatGateway = { sendMessageToConversation: jest.fn() };
+    attachmentService = { deleteStoredFiles: jest.fn() };
+    service = createService();
+  });
+
+  it('keeps taking batches until one comes back short', async () => {
+    repository.expireMessages
+      .mockResolvedValueOnce([
+        { id: 'm1', conversationId: 'c1' },
+        { id: 'm2', conversationId: 'c2' },
+      ])
+      .mockResolvedValueOnce([{ id: 'm3', conversationId: 'c1' }]);
+
+    const result = await service.applyRetentionPolicies();
+
+    expect(repository.expireMessages).toHaveBeenCalledTimes(2);
+    expect(repository.expireMessages).toHaveBeenCalledWith(
+      { defaultDays: 90, daysByType: { direct: null, group: null, business: null } },
+      2,
+    );
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith('c1', 'messages_expired', expect.objectContaining({ message_ids: ['m1'] }));
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith('c1', 'messages_expired', expect.objectContaining({ message_ids: ['m3'] }));
+    expect(result).toEqual({ expired: 3, purged: 0, complete: true });
+  });
+
+  it('stops at the batch cap and reports the run as incomplete', async () => {
+    repository.purgeDeletedMessages.mockResolvedValue({ purged: 2, storageKeys: [] });
+
+    const result = await service.applyRetentionPolicies();
+
+    expect(repository.purgeDeletedMessages).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ expired: 0, purged: 6, complete: false });
+  });
+
+  it('removes attachment files only after their batch has been purged', async () => {
+    const order: string[] = [];
+    repository.purgeDeletedMessages.mockImplementationOnce(async () => {
+      order.push('purge');
+      return { purged: 1, storageKeys: ['c1/file.png'] };
+    });
+    attachmentService.deleteStoredFiles.mockImplementation(async () => {
+      order.push('files');
+    });
+
+    await service.applyRetentionPolicies();
+
+    expect(order).toEqual(['purge', 'files']);
+    expect(attachmentService.deleteStoredFiles).toHaveBeenCalledWith(['c1/file.png']);
+  });
+
+  it('does nothing when retention is disabled', async () => {
+    service = createService({ RETENTION_ENABLED: false });
+
+    expect(await service.applyRetentionPolicies()).toBeNull();
+    expect(repository.expireMessages).not.toHaveBeenCalled();
+  });
+});
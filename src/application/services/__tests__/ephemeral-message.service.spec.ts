@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { Message } from '@domain/entities/message.entity';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { EphemeralMessageService } from '../ephemeral-message.service';
+import { AttachmentService } from '../attachment.service';
+
+describe('EphemeralMessageService', () => {
+  let messageRepository: { findExpiredEphemeral: jest.Mock; hardDeleteExpired: jest.Mock };
+  let attachmentService: { deleteStoredFiles: jest.Mock };
+  let chatGateway: { sendMessageToConversation: jest.Mock };
+  let service: EphemeralMessageService;
+
+  const expiredMessage = (id: string, conversationId: string): Message =>
+    Object.assign(new Message(), { id, conversationId, expiresAfterReadSeconds: 30 });
+
+  beforeEach(() => {
+    messageRepository = {
+      findExpiredEphemeral: jest.fn().mockResolvedValue([]),
+      hardDeleteExpired: jest.fn().mockResolvedValue({ deletedIds: [], storageKeys: [] }),
+    };
+    attachmentService = { deleteStoredFiles: jest.fn() };
+    chatGateway = { sendMessageToConversation: jest.fn() };
+    service = new EphemeralMessageService(
+      messageRepository as unknown as IMessageRepository,
+      attachmentService as unknown as AttachmentService,
+      chatGateway as unknown as ChatGateway,
+      new ConfigService({ EPHEMERAL_BATCH_SIZE: 25 }),
+    );
+  });
+
+  it('deletes a batch of expired messages and announces each one in its room', async () => {
+    messageRepository.findExpiredEphemeral.mockResolvedValue([
+      expiredMessage('m1', 'c1'),
+      expiredMessage('m2', 'c2'),
+    ]);
+    messageRepository.hardDeleteExpired.mockResolvedValue({ deletedIds: ['m1', 'm2'], storageKeys: [] });
+
+    const removed = await service.sweepExpired();
+
+    expect(removed).toBe(2);
+    expect(messageRepository.findExpiredEphemeral).toHaveBeenCalledWith(25);
+    expect(messageRepository.hardDeleteExpired).toHaveBeenCalledWith(['m1', 'm2']);
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith('c1', 'message_expired', expect.objectContaining({ message_id: 'm1' }));
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith('c2', 'message_expired', expect.objectContaining({ message_id: 'm2' }));
+  });
+
+  it('only announces the messages this instance deleted', async () => {
+    messageRepository.findExpiredEphemeral.mockResolvedValue([
+      expiredMessage('m1', 'c1'),
+      expiredMessage('m2', 'c1'),
+    ]);
+    messageRepository.hardDeleteExpired.mockResolvedValue({ deletedIds: ['m2'], storageKeys: [] });
+
+    const removed = await service.sweepExpired();
+
+    expect(removed).toBe(1);
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledTimes(1);
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith('c1', 'message_expired', expect.objectContaining({ message_id: 'm2' }));
+  });
+
+  it('removes attachment files after the delete has committed', async () => {
+    messageRepository.findExpiredEphemeral.mockResolvedValue([expiredMessage('m1', 'c1')]);
+    messageRepository.hardDeleteExpired.mockResolvedValue({ deletedIds: ['m1'], storageKeys: ['c1/photo.jpg'] });
+
+    await service.sweepExpired();
+
+    expect(attachmentService.deleteStoredFiles).toHaveBeenCalledWith(['c1/photo.jpg']);
+    expect(messageRepository.hardDeleteExpired.mock.invocationCallOrder[0]).toBeLessThan(
+      attachmentService.deleteStoredFiles.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('keeps the files when the delete fails', async () => {
+    messageRepository.findExpiredEphemeral.mockResolvedValue([expiredMessage('m1', 'c1')]);
+    messageRepository.hardDeleteExpired.mockRejectedValue(new Error('deadlock detected'));
+
+    await expect(service.sweepExpired()).rejects.toThrow('deadlock detected');
+    expect(attachmentService.deleteStoredFiles).not.toHaveBeenCalled();
+    expect(chatGateway.sendMessageToConversation).not.toHaveBeenCalled();
+  });
+
+  it('does not start a sweep while one is still running', async () => {
+    let finish: (messages: Message[]) => void = () => undefined;
+    messageRepository.findExpiredEphemeral.mockReturnValue(new Promise(resolve => (finish = resolve)));
+
+    const first = service.sweepExpired();
+    expect(await service.sweepExpired()).toBe(0);
+
+    finish([]);
+    expect(await first).toBe(0);
+    expect(messageRepository.findExpiredEphemeral).toHaveBeenCalledTimes(1);
+  });
+});
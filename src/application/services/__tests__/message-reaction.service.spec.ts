@@ -0,0 +1,156 @@
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+import { MessageReactionService } from '../message-reaction.service';
+
+describe('MessageReactionService', () => {
+  let stored: MessageReaction[];
+  let reactionRepository: Record<string, jest.Mock>;
+  let messageRepository: { findById: jest.Mock };
+  let participantRepository: { findByConversationAndUser: jest.Mock };
+  let chatGateway: { sendMessageToConversation: jest.Mock };
+  let service: MessageReactionService;
+
+  const reaction = (messageId: string, userId: string, emoji: string): MessageReaction =>
+    Object.assign(new MessageReaction(), { messageId, userId, emoji });
+
+  const request = (emoji: string, userId: string = 'alice') => ({
+    userId,
+    conversationId: 'conversation-1',
+    messageId: 'message-1',
+    emoji,
+  });
+
+  beforeEach(() => {
+    stored = [];
+    reactionRepository = {
+      add: jest.fn(async (messageId: string, userId: string, emoji: string) => {
+        if (stored.some(r => r.messageId === messageId && r.userId === userId && r.emoji === emoji)) {
+          return false;
+        }
+        stored.push(reaction(messageId, userId, emoji));
+        return true;
+      }),
+      remove: jest.fn(async (messageId: string, userId: string, emoji: string) => {
+        const before = stored.length;
+        stored = stored.filter(r => !(r.messageId === messageId && r.userId === userId && r.emoji === emoji));
+        return stored.length < before;
+      }),
+      findByMessage: jest.fn(async (messageId: string) => stored.filter(r => r.messageId === messageId)),
+      findByMessageIds: jest.fn(async (messageIds: string[]) => stored.filter(r => messageIds.includes(r.messageId))),
+    };
+    messageRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'message-1', conversationId: 'conversation-1', deletedAt: null }),
+    };
+    participantRepository = { findByConversationAndUser: jest.fn().mockResolvedValue({ userId: 'alice' }) };
+    chatGateway = { sendMessageToConversation: jest.fn() };
+
+    service = new MessageReactionService(
+      reactionRepository as any,
+      messageRepository as any,
+      participantRepository as any,
+      chatGateway as any,
+    );
+  });
+
+  it('adds a reaction and broadcasts the new totals to the conversation', async () => {
+    stored.push(reaction('message-1', 'bob', '👍'));
+
+    const response = await service.addReaction(request('👍'));
+
+    expect(response).toEqual({
+      success: true,
+      changed: true,
+      reactions: [{ emoji: '👍', count: 2, user_ids: ['bob', 'alice'] }],
+    });
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith(
+      'conversation-1',
+      'reaction_updated',
+      expect.objectContaining({ message_id: 'message-1', user_id: 'alice', emoji: '👍', action: 'added' }),
+    );
+  });
+
+  it('does not broadcast a reaction the user already has', async () => {
+    stored.push(reaction('message-1', 'alice', '👍'));
+
+    const response = await service.addReaction(request('👍'));
+
+    expect(response).toEqual(expect.objectContaining({ success: true, changed: false }));
+    expect(chatGateway.sendMessageToConversation).not.toHaveBeenCalled();
+  });
+
+  it('removes a reaction and broadcasts the removal', async () => {
+    stored.push(reaction('message-1', 'alice', '🎉'), reaction('message-1', 'bob', '🎉'));
+
+    const response = await service.removeReaction(request('🎉'));
+
+    expect(response.reactions).toEqual([{ emoji: '🎉', count: 1, user_ids: ['bob'] }]);
+    expect(chatGateway.sendMessageToConversation).toHaveBeenCalledWith(
+      'conversation-1',
+      'reaction_updated',
+      expect.objectContaining({ action: 'removed' }),
+    );
+  });
+
+  describe('emoji validation', () => {
+    it.each([
+      ['an emoji with VS16', '\u2764\uFE0F'],
+      ['a ZWJ sequence', '\u{1F469}\u200D\u{1F4BB}'],
+      ['a skin tone', '👍🏽'],
+      ['a flag', '🇳🇵'],
+      ['a shortcode', ':party_parrot:'],
+    ])('accepts %s', async (_kind, emoji) => {
+      expect(await service.addReaction(request(emoji))).toEqual(expect.objectContaining({ success: true }));
+    });
+
+    it.each([
+      ['plain text', 'lol'],
+      ['digits alone', '123'],
+      ['an empty string', '   '],
+      ['a malformed shortcode', ':Not Valid:'],
+      ['an over-long value', '😀'.repeat(40)],
+    ])('rejects %s', async (_kind, emoji) => {
+      expect(await service.addReaction(request(emoji))).toEqual({ success: false, error: 'Invalid emoji' });
+      expect(reactionRepository.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access', () => {
+    it('refuses users outside the conversation', async () => {
+      participantRepository.findByConversationAndUser.mockResolvedValue(null);
+
+      const response = await service.addReaction(request('👍', 'mallory'));
+
+      expect(response).toEqual({ success: false, error: 'User is not a participant in this conversation' });
+      expect(reactionRepository.add).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['missing', null],
+      ['in another conversation', { id: 'message-1', conversationId: 'conversation-2', deletedAt: null }],
+      ['deleted', { id: 'message-1', conversationId: 'conversation-1', deletedAt: new Date() }],
+    ])('refuses a message that is %s', async (_state, message) => {
+      messageRepository.findById.mockResolvedValue(message);
+
+      const response = await service.addReaction(request('👍'));
+
+      expect(response).toEqual({ success: false, error: 'Message not found in this conversation' });
+    });
+  });
+
+  it('groups reactions by message and emoji for a page of messages', async () => {
+    stored.push(
+      reaction('message-1', 'alice', '👍'),
+      reaction('message-1', 'bob', '👍'),
+      reaction('message-1', 'bob', '😂'),
+      reaction('message-2', 'carol', '🔥'),
+    );
+
+    const summaries = await service.getReactionSummaries(['message-1', 'message-2', 'message-3']);
+
+    expect(summaries.get('message-1')).toEqual([
+      { emoji: '👍', count: 2, user_ids: ['alice', 'bob'] },
+      { emoji: '😂', count: 1, user_ids: ['bob'] },
+    ]);
+    expect(summaries.get('message-2')).toEqual([{ emoji: '🔥', count: 1, user_ids: ['carol'] }]);
+    expect(summaries.has('message-3')).toBe(false);
+  });
+});
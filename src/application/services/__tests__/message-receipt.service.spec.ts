@@ -0,0 +1,156 @@
+import { Message } from '@domain/entities/message.entity';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { ReceiptStatus } from '@domain/value-objects/receipt-status.vo';
+import { MessageReceiptService } from '../message-receipt.service';
+
+describe('MessageReceiptService', () => {
+  let receipts: MessageReceipt[];
+  let receiptRepository: Record<string, jest.Mock>;
+  let messageRepository: { findById: jest.Mock; findByIds: jest.Mock };
+  let participantRepository: { findByConversation: jest.Mock; findByConversationAndUser: jest.Mock };
+  let chatGateway: { sendMessageToUser: jest.Mock };
+  let service: MessageReceiptService;
+
+  const messages = [
+    Object.assign(new Message(), { id: 'm1', conversationId: 'c1', senderId: 'alice', sentAt: new Date('2024-05-01T10:00:00Z') }),
+    Object.assign(new Message(), { id: 'm2', conversationId: 'c1', senderId: 'alice', sentAt: new Date('2024-05-01T10:01:00Z') }),
+    Object.assign(new Message(), { id: 'm3', conversationId: 'c1', senderId: 'carol', sentAt: new Date('2024-05-01T10:02:00Z') }),
+  ];
+
+  const receipt = (messageId: string, userId: string, status: ReceiptStatus): MessageReceipt =>
+    Object.assign(new MessageReceipt(), { messageId, userId, conversationId: 'c1', status });
+
+  beforeEach(() => {
+    receipts = [
+      receipt('m1', 'bob', ReceiptStatus.SENT),
+      receipt('m1', 'dave', ReceiptStatus.READ),
+      receipt('m2', 'bob', ReceiptStatus.SENT),
+      receipt('m3', 'bob', ReceiptStatus.SENT),
+    ];
+
+    const advance = (userId: string, messageIds: string[], status: ReceiptStatus) =>
+      receipts
+        .filter(r => r.userId === userId && messageIds.includes(r.messageId) && !r.status.equals(status))
+        .map(r => Object.assign(r, { status }));
+
+    receiptRepository = {
+      createForRecipients: jest.fn(),
+      findByMessage: jest.fn(async (messageId: string) => receipts.filter(r => r.messageId === messageId)),
+      findByMessageIds: jest.fn(async (messageIds: string[]) => receipts.filter(r => messageIds.includes(r.messageId))),
+      markDelivered: jest.fn(async (messageIds: string[], userId: string) =>
+        advance(userId, messageIds, ReceiptStatus.DELIVERED),
+      ),
+      markReadUpTo: jest.fn(async (_conversationId: string, userId: string, upTo: Date) =>
+        advance(userId, messages.filter(m => m.sentAt <= upTo).map(m => m.id), ReceiptStatus.READ),
+      ),
+    };
+    messageRepository = {
+      findById: jest.fn(async (id: string) => messages.find(m => m.id === id) ?? null),
+      findByIds: jest.fn(async (ids: string[]) => messages.filter(m => ids.includes(m.id))),
+    };
+    participantRepository = {
+      findByConversation: jest.fn().mockResolvedValue([{ userId: 'alice' }, { userId: 'bob' }, { userId: 'dave' }]),
+      findByConversationAndUser: jest.fn().mockResolvedValue({ userId: 'bob' }),
+    };
+    chatGateway = { sendMessageToUser: jest.fn() };
+
+    service = new MessageReceiptService(
+      receiptRepository as any,
+      messageRepository as any,
+      participantRepository as any,
+      chatGateway as any,
+    );
+  });
+
+  it('starts a sent receipt for everyone but the sender', async () => {
+    await service.recordSent(messages[0]);
+
+    expect(receiptRepository.createForRecipients).toHaveBeenCalledWith('m1', 'c1', ['bob', 'dave']);
+  });
+
+  describe('status updates', () => {
+    it('sends each sender one message_status event for all of their messages', async () => {
+      await service.markDelivered('bob', ['m1', 'm2', 'm3']);
+
+      expect(messageRepository.findByIds).toHaveBeenCalledTimes(1);
+      expect(receiptRepository.findByMessageIds).toHaveBeenCalledTimes(1);
+      expect(messageRepository.findById).not.toHaveBeenCalled();
+
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledTimes(2);
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('alice', 'message_status', {
+        statuses: [
+          {
+            message_id: 'm1',
+            conversation_id: 'c1',
+            user_id: 'bob',
+            status: 'delivered',
+            aggregate_status: 'delivered',
+            recipient_count: 2,
+            delivered_count: 2,
+            read_count: 1,
+          },
+          expect.objectContaining({ message_id: 'm2', status: 'delivered', aggregate_status: 'delivered' }),
+        ],
+        timestamp: expect.any(String),
+      });
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('carol', 'message_status', {
+        statuses: [expect.objectContaining({ message_id: 'm3' })],
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('stays quiet when nothing changed', async () => {
+      receiptRepository.markDelivered.mockResolvedValue([]);
+
+      await service.markDelivered('bob', ['m1']);
+
+      expect(messageRepository.findByIds).not.toHaveBeenCalled();
+      expect(chatGateway.sendMessageToUser).not.toHaveBeenCalled();
+    });
+
+    it('reads everything up to the given message', async () => {
+      await service.markRead('bob', 'c1', 'm2');
+
+      expect(receiptRepository.markReadUpTo).toHaveBeenCalledWith('c1', 'bob', messages[1].sentAt);
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledTimes(1);
+      expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('alice', 'message_status', {
+        statuses: [
+          expect.objectContaining({ message_id: 'm1', status: 'read', aggregate_status: 'read', read_count: 2 }),
+          expect.objectContaining({ message_id: 'm2', status: 'read', aggregate_status: 'read', read_count: 1 }),
+        ],
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('ignores a read marker from another conversation', async () => {
+      await service.markRead('bob', 'c2', 'm2');
+
+      expect(receiptRepository.markReadUpTo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReceiptSummary', () => {
+    it('reports who has received and read a message', async () => {
+      receipts[0].status = ReceiptStatus.DELIVERED;
+
+      const summary = await service.getReceiptSummary('m1', 'bob');
+
+      expect(summary).toEqual(
+        expect.objectContaining({
+          status: 'delivered',
+          recipient_count: 2,
+          delivered_count: 2,
+          read_count: 1,
+          read_by: [{ user_id: 'dave', read_at: undefined }],
+        }),
+      );
+    });
+
+    it('hides the receipts from users outside the conversation', async () => {
+      participantRepository.findByConversationAndUser.mockResolvedValue(null);
+
+      expect(await service.getReceiptSummary('m1', 'mallory')).toBeNull();
+      expect(receiptRepository.findByMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { Message } from '@domain/entities/message.entity';
+import { MessageSearchHit } from '@domain/repositories/message.repository.interface';
+import { SearchCursor } from '@domain/value-objects/search-cursor.vo';
+import { MessageSearchService } from '../message-search.service';
+
+describe('MessageSearchService', () => {
+  let messageRepository: { searchForUser: jest.Mock };
+  let service: MessageSearchService;
+
+  const hit = (id: string, rank: number, sentAt: string): MessageSearchHit => ({
+    message: Object.assign(new Message(), { id, sentAt: new Date(sentAt) }),
+    conversationType: 'direct',
+    rank,
+    snippet: `<mark>lunch</mark> ${id}`,
+  });
+
+  beforeEach(() => {
+    messageRepository = { searchForUser: jest.fn().mockResolvedValue([]) };
+    service = new MessageSearchService(messageRepository as any);
+  });
+
+  describe('cursor', () => {
+    it('hands out a cursor at the last hit of a full page', async () => {
+      messageRepository.searchForUser.mockResolvedValue([
+        hit('m1', 0.9, '2024-05-03T10:00:00Z'),
+        hit('m2', 0.5, '2024-05-02T10:00:00Z'),
+        hit('m3', 0.5, '2024-05-01T10:00:00Z'),
+      ]);
+
+      const page = await service.search({ userId: 'alice', query: 'lunch', limit: 2 });
+
+      expect(messageRepository.searchForUser).toHaveBeenCalledWith('alice', expect.anything(), 3);
+      expect(page.hits.map(h => h.message.id)).toEqual(['m1', 'm2']);
+      expect(page.hasMore).toBe(true);
+
+      const cursor = SearchCursor.decode(page.nextCursor!);
+      expect(cursor).toEqual(expect.objectContaining({ rank: 0.5, messageId: 'm2' }));
+      expect(cursor.sentAt.toISOString()).toBe('2024-05-02T10:00:00.000Z');
+    });
+
+    it('ends the results without a cursor', async () => {
+      messageRepository.searchForUser.mockResolvedValue([hit('m1', 0.9, '2024-05-03T10:00:00Z')]);
+
+      const page = await service.search({ userId: 'alice', query: 'lunch', limit: 2 });
+
+      expect(page).toEqual(expect.objectContaining({ hasMore: false, nextCursor: null }));
+    });
+
+    it('passes a cursor back to the repository as the position to continue from', async () => {
+      const encoded = SearchCursor.create(0.5, 'm2', new Date('2024-05-02T10:00:00Z')).encode();
+
+      await service.search({ userId: 'alice', query: 'lunch', cursor: encoded });
+
+      const [, criteria] = messageRepository.searchForUser.mock.calls[0];
+      expect(criteria.after).toEqual(expect.objectContaining({ rank: 0.5, messageId: 'm2' }));
+    });
+
+    it.each([
+      ['garbage', 'not-a-cursor'],
+      ['a cursor without a rank', Buffer.from('{"m":"m2","t":"2024-05-02T10:00:00Z"}').toString('base64url')],
+      ['a cursor with a bad timestamp', Buffer.from('{"r":0.5,"m":"m2","t":"soon"}').toString('base64url')],
+    ])('refuses %s', async (_kind, cursor) => {
+      await expect(service.search({ userId: 'alice', query: 'lunch', cursor })).rejects.toThrow(
+        new BadRequestException('Invalid search cursor'),
+      );
+      expect(messageRepository.searchForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request', () => {
+    it('always searches as the caller and passes the filters through', async () => {
+      const from = new Date('2024-04-01T00:00:00Z');
+
+      await service.search({ userId: 'alice', query: '  lunch  ', senderId: 'bob', conversationType: 'group', from });
+
+      expect(messageRepository.searchForUser).toHaveBeenCalledWith(
+        'alice',
+        expect.objectContaining({ query: 'lunch', senderId: 'bob', conversationType: 'group', from }),
+        21,
+      );
+    });
+
+    it.each([
+      [undefined, 21],
+      [500, 51],
+      [-3, 2],
+    ])('reads limit %p as %p rows including the look-ahead', async (limit, expected) => {
+      await service.search({ userId: 'alice', query: 'lunch', limit });
+
+      expect(messageRepository.searchForUser).toHaveBeenCalledWith('alice', expect.anything(), expected);
+    });
+
+    it.each([
+      ['an empty query', { query: '   ' }, 'Search query is required'],
+      ['an over-long query', { query: 'a'.repeat(201) }, 'Search query must be at most 200 characters'],
+      [
+        'a backwards date range',
+        { query: 'lunch', from: new Date('2024-05-02'), to: new Date('2024-05-01') },
+        'Search date range is invalid',
+      ],
+    ])('refuses %s', async (_kind, request, error) => {
+      await expect(service.search({ userId: 'alice', ...request })).rejects.toThrow(error);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { Message } from '@domain/entities/message.entity';
+import { MessageSyncService } from '../message-sync.service';
+
+describe('MessageSyncService.acknowledgeLive', () => {
+  let positions: Record<string, number>;
+  let liveSeqs: Record<string, number[]>;
+  let messageRepository: { findByIds: jest.Mock };
+  let cursorRepository: { advanceContiguous: jest.Mock };
+  let service: MessageSyncService;
+
+  const message = (id: string, conversationId: string, seq: number) =>
+    Object.assign(new Message(), { id, conversationId, seq });
+
+  beforeEach(() => {
+    positions = { c1: 3, c2: 0 };
+    // Sequence numbers that still have a deliverable message
+    liveSeqs = { c1: [1, 2, 3, 6, 7, 8], c2: [1, 2] };
+
+    messageRepository = { findByIds: jest.fn() };
+    // Mirrors the repository's rule: only deliverable messages in between hold the position back
+    cursorRepository = {
+      advanceContiguous: jest.fn(async (_userId: string, _deviceId: string, conversationId: string, seq: number) => {
+        const current = positions[conversationId] ?? 0;
+        const missing = liveSeqs[conversationId].some(s => s > current && s < seq);
+        if (current >= seq || missing) {
+          return false;
+        }
+        positions[conversationId] = seq;
+        return true;
+      }),
+    };
+
+    service = new MessageSyncService(messageRepository as any, cursorRepository as any);
+  });
+
+  it('acknowledges across sequence numbers left by deleted or purged messages', async () => {
+    messageRepository.findByIds.mockResolvedValue([message('m7', 'c1', 7), message('m6', 'c1', 6)]);
+
+    await service.acknowledgeLive('alice', 'phone', ['m7', 'm6']);
+
+    expect(cursorRepository.advanceContiguous.mock.calls.map(call => call[3])).toEqual([6, 7]);
+    expect(positions.c1).toBe(7);
+  });
+
+  it('still holds back behind a message the device never received', async () => {
+    messageRepository.findByIds.mockResolvedValue([message('m8', 'c1', 8)]);
+
+    await service.acknowledgeLive('alice', 'phone', ['m8']);
+
+    expect(positions.c1).toBe(3);
+  });
+
+  it('advances each conversation separately', async () => {
+    messageRepository.findByIds.mockResolvedValue([message('b2', 'c2', 2), message('a6', 'c1', 6), message('b1', 'c2', 1)]);
+
+    await service.acknowledgeLive('alice', 'phone', ['b2', 'a6', 'b1']);
+
+    expect(positions).toEqual({ c1: 6, c2: 2 });
+  });
+
+  it('refuses a missing device id', async () => {
+    await expect(service.acknowledgeLive('alice', ' ', ['m6'])).rejects.toThrow('A device ID of up to 128 characters is required');
+    expect(messageRepository.findByIds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { Message } from '@domain/entities/message.entity';
+import { MessageRevision } from '@domain/entities/message-revision.entity';
+import { MessageContent } from '@domain/value-objects/message-content.vo';
+import { MessageType } from '@domain/value-objects/message-type.vo';
+import { MessageRejectedError } from '@infrastructure/common/errors/moderation.errors';
+import { InputSanitizationService } from '@infrastructure/websocket/services/input-sanitization.service';
+import { MessageService } from '../message.service';
+
+describe('MessageService', () => {
+  let message: Message;
+  let saved: unknown[];
+  let messageRepository: { findOne: jest.Mock; manager: { transaction: jest.Mock } };
+  let participantRepository: { findOne: jest.Mock };
+  let revisionRepository: { find: jest.Mock };
+  let moderationService: { moderate: jest.Mock };
+  let service: MessageService;
+
+  beforeEach(() => {
+    message = Object.assign(new Message(), {
+      id: 'message-1',
+      conversationId: 'conversation-1',
+      senderId: 'alice',
+      content: MessageContent.create('see you at 5'),
+      type: MessageType.TEXT,
+      sentAt: new Date(),
+      deletedAt: null,
+    });
+
+    saved = [];
+    const manager = {
+      create: jest.fn((_entity: unknown, fields: object) => Object.assign(new MessageRevision(), fields)),
+      save: jest.fn(async (entity: unknown) => {
+        saved.push(entity);
+        return entity;
+      }),
+    };
+    messageRepository = {
+      findOne: jest.fn(async () => message),
+      manager: { transaction: jest.fn(async (work: (m: typeof manager) => Promise<unknown>) => work(manager)) },
+    };
+    participantRepository = { findOne: jest.fn().mockResolvedValue({ userId: 'bob' }) };
+    revisionRepository = { find: jest.fn().mockResolvedValue([]) };
+    moderationService = { moderate: jest.fn(async (content: string) => ({ content })) };
+
+    service = new MessageService(
+      messageRepository as any,
+      {} as any,
+      participantRepository as any,
+      revisionRepository as any,
+      { log: jest.fn(), audit: jest.fn() } as any,
+      moderationService as any,
+      new InputSanitizationService(),
+    );
+  });
+
+  describe('editMessage', () => {
+    it('keeps the previous content as a revision', async () => {
+      const edited = await service.editMessage('message-1', 'see you at 6', 'alice');
+
+      expect(edited.content.content).toBe('see you at 6');
+      expect(edited.editedAt).toBeInstanceOf(Date);
+      expect(messageRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(saved[0]).toEqual(
+        expect.objectContaining({ messageId: 'message-1', content: 'see you at 5', editedBy: 'alice' }),
+      );
+      expect(saved[1]).toBe(message);
+      expect(moderationService.moderate).toHaveBeenCalledWith('see you at 6', {
+        senderId: 'alice',
+        conversationId: 'conversation-1',
+        isEdit: true,
+      });
+    });
+
+    it('sanitizes the new content before moderating and saving it', async () => {
+      const edited = await service.editMessage(
+        'message-1',
+        '  see you <script>alert(1)</script>at   6 <a onclick=steal()>here</a> ',
+        'alice',
+      );
+
+      expect(moderationService.moderate).toHaveBeenCalledWith('see you at 6 <a steal()>here</a>', expect.anything());
+      expect(edited.content.content).toBe('see you at 6 <a steal()>here</a>');
+    });
+
+    it('refuses content that is empty once sanitized', async () => {
+      await expect(service.editMessage('message-1', '<script>alert(1)</script>', 'alice')).rejects.toThrow(
+        'Message content must be a non-empty string',
+      );
+      expect(messageRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('records no revision for an edit that changes nothing', async () => {
+      const edited = await service.editMessage('message-1', ' see you   at 5 ', 'alice');
+
+      expect(edited).toBe(message);
+      expect(edited.editedAt).toBeUndefined();
+      expect(messageRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('saves what moderation returns', async () => {
+      moderationService.moderate.mockResolvedValue({ content: 'see you at ***' });
+
+      const edited = await service.editMessage('message-1', 'see you at damn 6', 'alice');
+
+      expect(edited.content.content).toBe('see you at ***');
+    });
+
+    it('refuses an edit moderation rejects and keeps the message as it was', async () => {
+      moderationService.moderate.mockResolvedValue({
+        content: 'spam',
+        rejection: { code: 'moderation_rejected', rule: 'links', detail: 'Links are not allowed' },
+      });
+
+      await expect(service.editMessage('message-1', 'spam', 'alice')).rejects.toBeInstanceOf(MessageRejectedError);
+      expect(message.content.content).toBe('see you at 5');
+    });
+
+    it.each([
+      ['someone other than the sender edits', () => 'bob', 'Only the message sender can edit the message'],
+      ['the message is deleted', () => ((message.deletedAt = new Date()), 'alice'), 'Cannot edit deleted messages'],
+      [
+        'the message is over a day old',
+        () => ((message.sentAt = new Date(Date.now() - 25 * 60 * 60 * 1000)), 'alice'),
+        'Messages can only be edited within 24 hours of sending',
+      ],
+    ])('refuses the edit when %s', async (_case, arrange, error) => {
+      const editedBy = arrange();
+
+      await expect(service.editMessage('message-1', 'see you at 6', editedBy)).rejects.toThrow(error);
+      expect(messageRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMessageHistory', () => {
+    it('returns the message with its revisions, oldest first', async () => {
+      const revisions = [Object.assign(new MessageRevision(), { messageId: 'message-1', content: 'see you at 4' })];
+      revisionRepository.find.mockResolvedValue(revisions);
+
+      const history = await service.getMessageHistory('message-1', 'bob');
+
+      expect(participantRepository.findOne).toHaveBeenCalledWith({
+        where: { conversationId: 'conversation-1', userId: 'bob' },
+      });
+      expect(revisionRepository.find).toHaveBeenCalledWith({ where: { messageId: 'message-1' }, order: { editedAt: 'ASC' } });
+      expect(history).toEqual({ message, revisions });
+    });
+
+    it('hides the history from users outside the conversation', async () => {
+      participantRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getMessageHistory('message-1', 'mallory')).rejects.toThrow(
+        'User is not authorized to access this conversation',
+      );
+      expect(revisionRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('hides the history of a deleted message', async () => {
+      message.deletedAt = new Date();
+
+      await expect(service.getMessageHistory('message-1', 'bob')).rejects.toThrow('Message not found');
+    });
+  });
+});
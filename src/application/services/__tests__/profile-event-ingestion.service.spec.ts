@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config';
+import { ProfileEvent } from '@infrastructure/cache/profile-cache-event.handler';
+import { ProfileEventIngestionService } from '../profile-event-ingestion.service';
+
+describe('ProfileEventIngestionService', () => {
+  let store: Map<string, number>;
+  let cache: Record<string, jest.Mock>;
+  let eventHandler: { handleProfileEvent: jest.Mock };
+  let participantQueryRepository: { findContactUserIds: jest.Mock };
+  let chatGateway: { sendMessageToUsers: jest.Mock; sendMessageToUser: jest.Mock };
+  let service: ProfileEventIngestionService;
+
+  const event = (eventId: string, timestamp: string, type: ProfileEvent['type'] = 'user.profile.updated') => ({
+    event_id: eventId,
+    type,
+    id: 'user-1',
+    timestamp,
+  });
+
+  const flushNotifications = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    store = new Map();
+    cache = {
+      increment: jest.fn(async (key: string) => {
+        store.set(key, (store.get(key) ?? 0) + 1);
+        return store.get(key);
+      }),
+      expire: jest.fn(),
+      setMax: jest.fn(async (key: string, value: number) => {
+        if ((store.get(key) ?? -Infinity) > value) {
+          return false;
+        }
+        store.set(key, value);
+        return true;
+      }),
+      delete: jest.fn(async (key: string) => {
+        store.delete(key);
+      }),
+    };
+    eventHandler = { handleProfileEvent: jest.fn() };
+    participantQueryRepository = { findContactUserIds: jest.fn().mockResolvedValue(['alice', 'bob', 'carol']) };
+    chatGateway = { sendMessageToUsers: jest.fn(), sendMessageToUser: jest.fn() };
+
+    service = new ProfileEventIngestionService(
+      eventHandler as any,
+      { getUserProfile: jest.fn().mockResolvedValue({ id: 'user-1', name: 'Dana' }) } as any,
+      participantQueryRepository as any,
+      cache as any,
+      chatGateway as any,
+      new ConfigService({ PROFILE_EVENTS_DEDUP_TTL_SECONDS: 3600 }),
+    );
+  });
+
+  it('applies an event once and skips its redeliveries', async () => {
+    const delivered = event('evt-1', '2024-05-01T10:00:00Z');
+
+    expect(await service.ingest(delivered)).toBe('processed');
+    expect(await service.ingest(delivered)).toBe('duplicate');
+
+    expect(eventHandler.handleProfileEvent).toHaveBeenCalledTimes(1);
+    expect(cache.expire).toHaveBeenCalledWith('profile_event:seen:evt-1', 3600);
+  });
+
+  it('ignores an event older than the last one applied to the same profile', async () => {
+    await service.ingest(event('evt-2', '2024-05-01T10:05:00Z'));
+
+    expect(await service.ingest(event('evt-1', '2024-05-01T10:00:00Z'))).toBe('stale');
+    expect(eventHandler.handleProfileEvent).toHaveBeenCalledTimes(1);
+    expect(cache.setMax).toHaveBeenCalledWith(
+      'profile_event:last:user:user-1',
+      Date.parse('2024-05-01T10:00:00Z'),
+      3600,
+    );
+  });
+
+  it('applies events that share a timestamp', async () => {
+    await service.ingest(event('evt-1', '2024-05-01T10:00:00Z'));
+
+    expect(await service.ingest(event('evt-2', '2024-05-01T10:00:00Z'))).toBe('processed');
+  });
+
+  it('orders user and business profiles with the same ID separately', async () => {
+    await service.ingest(event('evt-2', '2024-05-01T10:05:00Z'));
+
+    expect(await service.ingest(event('evt-1', '2024-05-01T10:00:00Z', 'business.profile.updated'))).toBe('processed');
+  });
+
+  it('lets a redelivery retry an event whose handling failed', async () => {
+    eventHandler.handleProfileEvent.mockRejectedValueOnce(new Error('Redis unavailable'));
+    const delivered = event('evt-1', '2024-05-01T10:00:00Z');
+
+    await expect(service.ingest(delivered)).rejects.toThrow('Redis unavailable');
+    expect(await service.ingest(delivered)).toBe('processed');
+  });
+
+  it('pushes profile_updated to every contact in one emit', async () => {
+    await service.ingest(event('evt-1', '2024-05-01T10:00:00Z'));
+    await flushNotifications();
+
+    expect(chatGateway.sendMessageToUsers).toHaveBeenCalledTimes(1);
+    expect(chatGateway.sendMessageToUsers).toHaveBeenCalledWith(
+      ['alice', 'bob', 'carol'],
+      'profile_updated',
+      expect.objectContaining({ user_id: 'user-1', user_type: 'user', deleted: false, profile: { name: 'Dana', avatar_url: null } }),
+    );
+    expect(chatGateway.sendMessageToUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { ConfigService } from '@nestjs/config';
+import { ProfileEventStreamService } from '../profile-event-stream.service';
+
+let mockRedis: Record<string, jest.Mock>;
+jest.mock('ioredis', () => ({ __esModule: true, default: jest.fn(() => mockRedis) }));
+
+describe('ProfileEventStreamService', () => {
+  const stream = 'kaha:profile-events';
+  const group = 'chat-backend';
+
+  let ingestionService: { ingest: jest.Mock };
+  let transaction: { xadd: jest.Mock; xack: jest.Mock; exec: jest.Mock };
+  let service: ProfileEventStreamService;
+  let stopped: Promise<void>;
+
+  const eventFields = (eventId: string) => [
+    'event',
+    JSON.stringify({ event_id: eventId, type: 'user.profile.updated', id: 'user-1', timestamp: '2024-05-01T10:00:00Z' }),
+  ];
+
+  /** Runs the consumer until its first stream read, after the reclaim pass */
+  const runOnce = async () => {
+    service.onModuleInit();
+    await stopped;
+  };
+
+  beforeEach(() => {
+    let stop: () => void;
+    stopped = new Promise(resolve => (stop = resolve));
+
+    transaction = { xadd: jest.fn(), xack: jest.fn(), exec: jest.fn() };
+    transaction.xadd.mockReturnValue(transaction);
+    transaction.xack.mockReturnValue(transaction);
+
+    mockRedis = {
+      on: jest.fn(),
+      disconnect: jest.fn(),
+      xgroup: jest.fn(),
+      xpending: jest.fn().mockResolvedValue([]),
+      xclaim: jest.fn().mockResolvedValue([]),
+      xack: jest.fn(),
+      multi: jest.fn(() => transaction),
+      xreadgroup: jest.fn(async () => {
+        service.onModuleDestroy();
+        stop();
+        return null;
+      }),
+    };
+    ingestionService = { ingest: jest.fn().mockResolvedValue('processed') };
+
+    service = new ProfileEventStreamService(
+      ingestionService as any,
+      new ConfigService({
+        redis: { host: 'localhost', port: 6379 },
+        PROFILE_EVENTS_STREAM_ENABLED: true,
+        PROFILE_EVENTS_STREAM_CONSUMER: 'worker-1',
+        PROFILE_EVENTS_STREAM_RECLAIM_IDLE_MS: 30000,
+        PROFILE_EVENTS_STREAM_MAX_DELIVERIES: 3,
+      }),
+    );
+  });
+
+  it('claims entries left idle by any consumer and acknowledges them once applied', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-2', 45000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([['1-0', eventFields('evt-1')]]);
+
+    await runOnce();
+
+    expect(mockRedis.xpending).toHaveBeenCalledWith(stream, group, 'IDLE', 30000, '-', '+', 20);
+    expect(mockRedis.xclaim).toHaveBeenCalledWith(stream, group, 'worker-1', 30000, '1-0');
+    expect(ingestionService.ingest).toHaveBeenCalledWith(expect.objectContaining({ event_id: 'evt-1' }));
+    expect(mockRedis.xack).toHaveBeenCalledWith(stream, group, '1-0');
+  });
+
+  it('leaves an entry pending when applying it fails again', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-1', 45000, 2]]);
+    mockRedis.xclaim.mockResolvedValue([['1-0', eventFields('evt-1')]]);
+    ingestionService.ingest.mockRejectedValue(new Error('database unavailable'));
+
+    await runOnce();
+
+    expect(ingestionService.ingest).toHaveBeenCalledTimes(1);
+    expect(mockRedis.xack).not.toHaveBeenCalled();
+  });
+
+  it('moves an entry to the dead-letter stream once it reaches the delivery cap', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-1', 45000, 3]]);
+    mockRedis.xclaim.mockResolvedValue([['1-0', eventFields('evt-1')]]);
+
+    await runOnce();
+
+    expect(ingestionService.ingest).not.toHaveBeenCalled();
+    expect(transaction.xadd).toHaveBeenCalledWith(
+      'kaha:profile-events:dead',
+      '*',
+      ...eventFields('evt-1'),
+      'source_id',
+      '1-0',
+      'deliveries',
+      '3',
+    );
+    expect(transaction.xack).toHaveBeenCalledWith(stream, group, '1-0');
+    expect(transaction.exec).toHaveBeenCalled();
+  });
+
+  it('skips an entry another instance claimed first', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-2', 45000, 1]]);
+
+    await runOnce();
+
+    expect(ingestionService.ingest).not.toHaveBeenCalled();
+    expect(mockRedis.xack).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges an entry that was trimmed from the stream', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-2', 45000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([null]);
+
+    await runOnce();
+
+    expect(ingestionService.ingest).not.toHaveBeenCalled();
+    expect(mockRedis.xack).toHaveBeenCalledWith(stream, group, '1-0');
+  });
+
+  it('discards malformed entries instead of retrying them', async () => {
+    mockRedis.xpending.mockResolvedValue([['1-0', 'worker-2', 45000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([['1-0', ['event', '{not json']]]);
+
+    await runOnce();
+
+    expect(ingestionService.ingest).not.toHaveBeenCalled();
+    expect(mockRedis.xack).toHaveBeenCalledWith(stream, group, '1-0');
+  });
+
+  it('moves on to new entries once the pending ones have been replayed', async () => {
+    const reads: string[] = [];
+    const read = mockRedis.xreadgroup.getMockImplementation()!;
+    mockRedis.xreadgroup.mockImplementation(async (...args: unknown[]) => {
+      const cursor = args[args.length - 1] as string;
+      reads.push(cursor);
+      if (cursor === '0') {
+        return [[stream, [['1-0', eventFields('evt-1')]]]];
+      }
+      if (cursor === '1-0') {
+        return [[stream, []]];
+      }
+      return read();
+    });
+
+    await runOnce();
+
+    expect(reads).toEqual(['0', '1-0', '>']);
+    expect(ingestionService.ingest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IUserBlockRepository } from '@domain/repositories/user-block.repository.interface';
+import { UserBlock } from '@domain/entities/user-block.entity';
+import { ICacheService } from '@infrastructure/cache/cache.interface';
+import { UserBlockService } from '../user-block.service';
+import { ConversationService } from '../conversation.service';
+import { WebSocketMessageService } from '../websocket-message.service';
+
+describe('UserBlockService', () => {
+  let blockRepository: jest.Mocked<Pick<IUserBlockRepository, 'block' | 'unblock' | 'existsBetween' | 'findBlockerIds'>>;
+  let cacheStore: Map<string, unknown>;
+  let cache: jest.Mocked<Pick<ICacheService, 'get' | 'set' | 'delete'>>;
+  let service: UserBlockService;
+
+  beforeEach(() => {
+    blockRepository = {
+      block: jest.fn(async (blockerId: string, blockedId: string) =>
+        Object.assign(new UserBlock(), { blockerId, blockedId, createdAt: new Date('2024-05-01T00:00:00Z') }),
+      ),
+      unblock: jest.fn(),
+      existsBetween: jest.fn().mockResolvedValue(false),
+      findBlockerIds: jest.fn().mockResolvedValue(['alice']),
+    };
+    cacheStore = new Map();
+    cache = {
+      get: jest.fn(async (key: string) => (cacheStore.get(key) as any) ?? null),
+      set: jest.fn(async (key: string, value: unknown) => {
+        cacheStore.set(key, value);
+      }),
+      delete: jest.fn(async (key: string) => {
+        cacheStore.delete(key);
+      }),
+    };
+    service = new UserBlockService(
+      blockRepository as unknown as IUserBlockRepository,
+      cache as unknown as ICacheService,
+    );
+  });
+
+  it('refuses to let users block themselves', async () => {
+    await expect(service.block('alice', 'alice')).rejects.toBeInstanceOf(BadRequestException);
+    expect(blockRepository.block).not.toHaveBeenCalled();
+  });
+
+  it('serves blocker IDs from the cache after the first lookup', async () => {
+    expect(await service.getBlockerIds('bob')).toEqual(['alice']);
+    expect(await service.getBlockerIds('bob')).toEqual(['alice']);
+
+    expect(blockRepository.findBlockerIds).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the blocked user\'s cached blockers on block and unblock', async () => {
+    await service.getBlockerIds('bob');
+
+    blockRepository.findBlockerIds.mockResolvedValue(['alice', 'carol']);
+    await service.block('carol', 'bob');
+    expect(await service.getBlockerIds('bob')).toEqual(['alice', 'carol']);
+
+    blockRepository.findBlockerIds.mockResolvedValue(['alice']);
+    await service.unblock('carol', 'bob');
+    expect(await service.getBlockerIds('bob')).toEqual(['alice']);
+
+    expect(blockRepository.findBlockerIds).toHaveBeenCalledTimes(3);
+  });
+
+  describe('refusals', () => {
+    beforeEach(() => {
+      blockRepository.existsBetween.mockResolvedValue(true);
+    });
+
+    it('stops a new direct conversation with a blocked user', async () => {
+      const conversationRepository = { save: jest.fn() };
+      const transactionManager = { executeInTransaction: jest.fn() };
+      const conversationService = new ConversationService(
+        conversationRepository as any,
+        {} as any,
+        {} as any,
+        transactionManager as any,
+        { getUserProfile: jest.fn().mockResolvedValue({ id: 'bob' }) } as any,
+        {} as any,
+        {} as any,
+        service,
+        {} as any,
+      );
+
+      await expect(conversationService.createDirectConversation('alice', 'bob')).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(blockRepository.existsBetween).toHaveBeenCalledWith('alice', 'bob');
+      expect(transactionManager.executeInTransaction).not.toHaveBeenCalled();
+    });
+
+    it('stops messages in an existing direct conversation between a blocked pair', async () => {
+      const transactionManager = { executeInTransaction: jest.fn() };
+      const participantRepository = {
+        findByConversationAndUser: jest.fn().mockResolvedValue({ userId: 'alice' }),
+        findByConversation: jest.fn().mockResolvedValue([{ userId: 'alice' }, { userId: 'bob' }]),
+      };
+      const messageService = new WebSocketMessageService(
+        {} as any,
+        { findById: jest.fn().mockResolvedValue({ id: 'conversation-1', type: { isDirect: () => true } }) } as any,
+        participantRepository as any,
+        transactionManager as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        service,
+        {} as any,
+        {} as any,
+        new ConfigService({}),
+      );
+
+      const result = await messageService.sendMessage({
+        senderId: 'alice',
+        conversationId: 'conversation-1',
+        content: 'hello?',
+      });
+
+      expect(result).toEqual({ success: false, error: 'You cannot message this user' });
+      expect(transactionManager.executeInTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { UserPresenceService } from '../user-presence.service';
+
+describe('UserPresenceService', () => {
+  let presenceService: Record<string, jest.Mock>;
+  let chatGateway: { sendMessageToUser: jest.Mock };
+  let service: UserPresenceService;
+
+  const offline = (userId: string) => ({ user_id: userId, status: 'offline', last_seen: '2024-05-01T10:00:00.000Z' });
+
+  beforeEach(() => {
+    presenceService = {
+      connect: jest.fn().mockResolvedValue({
+        previous: 'offline',
+        current: { user_id: 'alice', status: 'online', last_seen: '2024-05-01T10:00:00.000Z' },
+      }),
+      disconnect: jest.fn().mockResolvedValue({ previous: 'online', current: offline('alice') }),
+      sweepExpired: jest.fn().mockResolvedValue([]),
+    };
+    chatGateway = { sendMessageToUser: jest.fn() };
+
+    service = new UserPresenceService(
+      presenceService as any,
+      { findContactUserIds: jest.fn().mockResolvedValue(['bob', 'carol']) } as any,
+      chatGateway as any,
+      {} as any,
+    );
+  });
+
+  it('tells contacts when a user comes online', async () => {
+    await service.userConnected('alice', 'socket-1');
+
+    expect(chatGateway.sendMessageToUser).toHaveBeenCalledTimes(2);
+    expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith('bob', 'presence_update', {
+      user_id: 'alice',
+      status: 'online',
+      last_seen: '2024-05-01T10:00:00.000Z',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('tells contacts when a user disconnects', async () => {
+    await service.userDisconnected('alice', 'socket-1');
+
+    expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith(
+      'carol',
+      'presence_update',
+      expect.objectContaining({ user_id: 'alice', status: 'offline' }),
+    );
+  });
+
+  it('stays quiet when the status did not change', async () => {
+    presenceService.disconnect.mockResolvedValue(null);
+
+    await service.userDisconnected('alice', 'socket-2');
+
+    expect(chatGateway.sendMessageToUser).not.toHaveBeenCalled();
+  });
+
+  it('tells contacts about users whose presence expired', async () => {
+    presenceService.sweepExpired.mockResolvedValue([offline('alice'), offline('dave')]);
+
+    await service.sweepExpired();
+
+    expect(chatGateway.sendMessageToUser).toHaveBeenCalledTimes(4);
+    expect(chatGateway.sendMessageToUser).toHaveBeenCalledWith(
+      'bob',
+      'presence_update',
+      expect.objectContaining({ user_id: 'dave', status: 'offline', last_seen: '2024-05-01T10:00:00.000Z' }),
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Message } from '@domain/entities/message.entity';
+import { UserReport } from '@domain/entities/user-report.entity';
+import { UserReportService } from '../user-report.service';
+
+describe('UserReportService', () => {
+  let reportRepository: { save: jest.Mock; findById: jest.Mock; findMany: jest.Mock };
+  let messageRepository: { findByIds: jest.Mock; findByConversation: jest.Mock };
+  let participantRepository: { findByConversationAndUser: jest.Mock };
+  let service: UserReportService;
+
+  const message = (id: string, overrides: Partial<Record<string, unknown>> = {}): Message =>
+    ({
+      id,
+      conversationId: 'conversation-1',
+      senderId: 'mallory',
+      content: { content: `text of ${id}` },
+      type: { value: 'text' },
+      sentAt: new Date('2024-05-01T10:00:00Z'),
+      editedAt: null,
+      deletedAt: null,
+      ...overrides,
+    }) as unknown as Message;
+
+  beforeEach(() => {
+    reportRepository = {
+      save: jest.fn(async (report: UserReport) =>
+        Object.assign(report, { id: report.id ?? 'report-1', createdAt: new Date('2024-05-02T00:00:00Z') }),
+      ),
+      findById: jest.fn(),
+      findMany: jest.fn(),
+    };
+    messageRepository = { findByIds: jest.fn(), findByConversation: jest.fn().mockResolvedValue([]) };
+    participantRepository = { findByConversationAndUser: jest.fn().mockResolvedValue({ userId: 'alice' }) };
+    service = new UserReportService(reportRepository as any, messageRepository as any, participantRepository as any);
+  });
+
+  it('refuses to let users report themselves', async () => {
+    await expect(service.report('alice', { reportedUserId: 'alice', reason: 'spam' })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(reportRepository.save).not.toHaveBeenCalled();
+  });
+
+  describe('message snapshot', () => {
+    it('copies the named messages into the report, oldest first', async () => {
+      messageRepository.findByIds.mockResolvedValue([
+        message('m2', { sentAt: new Date('2024-05-01T10:05:00Z'), editedAt: new Date('2024-05-01T10:06:00Z') }),
+        message('m1'),
+      ]);
+
+      const view = await service.report('alice', {
+        reportedUserId: 'mallory',
+        reason: 'harassment',
+        details: '  keeps insulting me  ',
+        messageIds: ['m1', 'm2', 'm1'],
+      });
+
+      expect(messageRepository.findByIds).toHaveBeenCalledWith(['m1', 'm2']);
+      expect(view).toEqual(
+        expect.objectContaining({
+          reporter_id: 'alice',
+          reported_user_id: 'mallory',
+          conversation_id: 'conversation-1',
+          details: 'keeps insulting me',
+          status: 'open',
+        }),
+      );
+      expect(view.messages).toEqual([
+        expect.objectContaining({ id: 'm1', content: 'text of m1', sent_at: '2024-05-01T10:00:00.000Z', edited_at: null }),
+        expect.objectContaining({ id: 'm2', content: 'text of m2', edited_at: '2024-05-01T10:06:00.000Z' }),
+      ]);
+    });
+
+    it('takes the reported user\'s latest messages in the conversation when none are named', async () => {
+      const recent = Array.from({ length: 25 }, (_, i) =>
+        message(`m${i}`, { sentAt: new Date(Date.UTC(2024, 4, 1, 10, i)) }),
+      );
+      messageRepository.findByConversation.mockResolvedValue([...recent, message('other', { senderId: 'alice' })]);
+
+      const view = await service.report('alice', {
+        reportedUserId: 'mallory',
+        reason: 'spam',
+        conversationId: 'conversation-1',
+      });
+
+      expect(view.messages.map(m => m.id)).toEqual(recent.slice(-20).map(m => m.id));
+    });
+
+    it('files a report without messages when no conversation is given', async () => {
+      const view = await service.report('alice', { reportedUserId: 'mallory', reason: 'other' });
+
+      expect(view.messages).toEqual([]);
+      expect(view.conversation_id).toBeNull();
+      expect(messageRepository.findByConversation).not.toHaveBeenCalled();
+    });
+
+    it('caps the number of named messages', async () => {
+      const messageIds = Array.from({ length: 21 }, (_, i) => `m${i}`);
+
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', messageIds }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(messageRepository.findByIds).not.toHaveBeenCalled();
+    });
+
+    it('rejects message IDs that do not exist', async () => {
+      messageRepository.findByIds.mockResolvedValue([message('m1')]);
+
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', messageIds: ['m1', 'missing'] }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('single conversation', () => {
+    it('rejects messages from more than one conversation', async () => {
+      messageRepository.findByIds.mockResolvedValue([message('m1'), message('m2', { conversationId: 'conversation-2' })]);
+
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', messageIds: ['m1', 'm2'] }),
+      ).rejects.toThrow('Reported messages must come from a single conversation');
+    });
+
+    it('rejects messages from a conversation other than the one given', async () => {
+      messageRepository.findByIds.mockResolvedValue([message('m1')]);
+
+      await expect(
+        service.report('alice', {
+          reportedUserId: 'mallory',
+          reason: 'spam',
+          conversationId: 'conversation-2',
+          messageIds: ['m1'],
+        }),
+      ).rejects.toThrow('Reported messages must come from a single conversation');
+    });
+
+    it('rejects messages someone else sent', async () => {
+      messageRepository.findByIds.mockResolvedValue([message('m1'), message('m2', { senderId: 'bob' })]);
+
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', messageIds: ['m1', 'm2'] }),
+      ).rejects.toThrow('Reported messages must be sent by the reported user');
+    });
+  });
+
+  describe('participant check', () => {
+    beforeEach(() => {
+      participantRepository.findByConversationAndUser.mockResolvedValue(null);
+    });
+
+    it('hides named messages from a conversation the reporter is not in', async () => {
+      messageRepository.findByIds.mockResolvedValue([message('m1')]);
+
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', messageIds: ['m1'] }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(participantRepository.findByConversationAndUser).toHaveBeenCalledWith('conversation-1', 'alice');
+      expect(reportRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('does not read recent messages of a conversation the reporter is not in', async () => {
+      await expect(
+        service.report('alice', { reportedUserId: 'mallory', reason: 'spam', conversationId: 'conversation-1' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(messageRepository.findByConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  it('records who reviewed a report and when', async () => {
+    reportRepository.findById.mockResolvedValue(
+      Object.assign(new UserReport(), { id: 'report-1', status: 'open', messageSnapshot: [] }),
+    );
+
+    const view = await service.updateStatus('report-1', 'moderator-1', 'resolved');
+
+    expect(view).toEqual(expect.objectContaining({ status: 'resolved', reviewed_by: 'moderator-1' }));
+    expect(view.reviewed_at).toBeInstanceOf(Date);
+  });
+});
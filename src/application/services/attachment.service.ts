@@ -0,0 +1,329 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { IAttachmentRepository } from '@domain/repositories/attachment.repository.interface';
+import { IConversationRepository } from '@domain/repositories/conversation.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { ConversationMetadata } from '@domain/value-objects/conversation-metadata.vo';
+import { ATTACHMENT_STORAGE_TOKEN, IAttachmentStorage } from '@infrastructure/storage/storage.interface';
+import { readImageDimensions, matchesImageSignature } from '@infrastructure/storage/image-dimensions';
+import { AttachmentInfo } from '@infrastructure/websocket/types/websocket-events.types';
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const FILE_MIME_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+];
+const DEFAULT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UploadAttachmentRequest {
+  uploaderId: string;
+  conversationId: string;
+  file: UploadedFileData;
+}
+
+export interface UploadAttachmentResponse {
+  success: boolean;
+  attachment?: AttachmentInfo;
+  error?: string;
+}
+
+/**
+ * Stores uploads ahead of the message that carries them. Uploads that are
+ * never sent are swept away once they are older than
+ * ATTACHMENT_UNLINKED_TTL_SECONDS.
+ */
+@Injectable()
+export class AttachmentService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AttachmentService.name);
+  private readonly maxSizeBytes: number;
+  private sweepTimer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    @Inject('IAttachmentRepository')
+    private readonly attachmentRepository: IAttachmentRepository,
+    @Inject('IConversationRepository')
+    private readonly conversationRepository: IConversationRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject(ATTACHMENT_STORAGE_TOKEN)
+    private readonly storage: IAttachmentStorage,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxSizeBytes = Number(
+      this.configService.get<number>('ATTACHMENT_MAX_SIZE_BYTES', DEFAULT_MAX_SIZE_BYTES),
+    );
+  }
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('ATTACHMENT_SWEEP_ENABLED', true)) {
+      this.logger.warn('Attachment sweep is disabled; unsent uploads will not be removed');
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepUnlinked().catch(error => this.logger.error('Attachment sweep failed:', error));
+    }, this.configService.get<number>('ATTACHMENT_SWEEP_INTERVAL_MS', 600000));
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  getMaxSizeBytes(): number {
+    return this.maxSizeBytes;
+  }
+
+  /**
+   * Delete one batch of uploads that were never linked to a message, records
+   * first and then their files. Returns how many were removed.
+   */
+  async sweepUnlinked(): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      const ttlSeconds = this.configService.get<number>('ATTACHMENT_UNLINKED_TTL_SECONDS', 86400);
+      const storageKeys = await this.attachmentRepository.deleteUnlinkedBefore(
+        new Date(Date.now() - ttlSeconds * 1000),
+        this.configService.get<number>('ATTACHMENT_SWEEP_BATCH_SIZE', 500),
+      );
+      if (storageKeys.length === 0) {
+        return 0;
+      }
+
+      await this.deleteStoredFiles(storageKeys);
+      this.logger.log(`Removed ${storageKeys.length} attachments that were never sent`);
+      return storageKeys.length;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Validate, fingerprint and store an uploaded file; it stays unlinked until a message references it
+   */
+  async upload(request: UploadAttachmentRequest): Promise<UploadAttachmentResponse> {
+    try {
+      const { uploaderId, conversationId, file } = request;
+
+      const validation = this.validateFile(file);
+      if (!validation.isValid) {
+        return { success: false, error: validation.error };
+      }
+
+      const participant = await this.participantRepository.findByConversationAndUser(
+        conversationId,
+        uploaderId
+      );
+      if (!participant) {
+        return { success: false, error: 'User is not a participant in this conversation' };
+      }
+
+      const conversation = await this.conversationRepository.findById(conversationId);
+      if (!conversation) {
+        return { success: false, error: 'Conversation not found' };
+      }
+
+      const isImage = IMAGE_MIME_TYPES.includes(file.mimetype);
+      const sharingError = this.checkSharingAllowed(conversation.metadata, isImage ? 'image' : 'file');
+      if (sharingError) {
+        return { success: false, error: sharingError };
+      }
+
+      const dimensions = isImage ? readImageDimensions(file.buffer, file.mimetype) : null;
+      const storageKey = `${conversationId}/${uuidv4()}`;
+      await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+      const attachment = new Attachment();
+      attachment.conversationId = conversationId;
+      attachment.uploaderId = uploaderId;
+      attachment.storageKey = storageKey;
+      attachment.fileName = this.sanitizeFileName(file.originalname);
+      attachment.mimeType = file.mimetype;
+      attachment.sizeBytes = file.buffer.length;
+      attachment.checksum = createHash('sha256').update(file.buffer).digest('hex');
+      attachment.width = dimensions?.width;
+      attachment.height = dimensions?.height;
+
+      const savedAttachment = await this.attachmentRepository.save(attachment);
+
+      this.logger.log(`Attachment ${savedAttachment.id} uploaded by user ${uploaderId} to conversation ${conversationId}`);
+
+      return { success: true, attachment: this.toMetadata(savedAttachment) };
+    } catch (error) {
+      this.logger.error(`Error uploading attachment:`, error);
+      return { success: false, error: 'Failed to upload attachment' };
+    }
+  }
+
+  /**
+   * Resolve attachment IDs for a message the sender is about to post
+   */
+  async resolveForMessage(
+    attachmentIds: string[],
+    senderId: string,
+    conversationId: string
+  ): Promise<{ attachments?: Attachment[]; error?: string }> {
+    const uniqueIds = [...new Set(attachmentIds)];
+    if (uniqueIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      return { error: `A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` };
+    }
+
+    const attachments = await this.attachmentRepository.findByIds(uniqueIds);
+    const usable = attachments.filter(attachment =>
+      attachment.uploaderId === senderId &&
+      attachment.conversationId === conversationId &&
+      !attachment.messageId
+    );
+
+    if (usable.length !== uniqueIds.length) {
+      return { error: 'One or more attachments are missing or already used' };
+    }
+
+    return { attachments: usable };
+  }
+
+  /**
+   * Work out the message type for a set of attachments when the client didn't say
+   */
+  inferMessageType(attachments: Attachment[]): 'image' | 'file' {
+    return attachments.every(attachment => IMAGE_MIME_TYPES.includes(attachment.mimeType))
+      ? 'image'
+      : 'file';
+  }
+
+  /**
+   * Returns an error message when the conversation's sharing settings forbid this message type
+   */
+  checkSharingAllowed(
+    metadata: ConversationMetadata | undefined,
+    messageType: string
+  ): string | null {
+    if (!metadata || metadata.isMessageTypeAllowed(messageType)) {
+      return null;
+    }
+    return messageType === 'image'
+      ? 'Image sharing is disabled in this conversation'
+      : 'File sharing is disabled in this conversation';
+  }
+
+  /**
+   * Remove stored files whose records are already gone. A file that can't be
+   * removed is logged and skipped, since its record can't be restored anyway.
+   */
+  async deleteStoredFiles(storageKeys: string[]): Promise<void> {
+    for (const storageKey of storageKeys) {
+      try {
+        await this.storage.delete(storageKey);
+      } catch (error) {
+        this.logger.error(`Failed to delete stored attachment ${storageKey}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get attachment metadata for a page of messages, keyed by message ID
+   */
+  async getAttachmentSummaries(messageIds: string[]): Promise<Map<string, AttachmentInfo[]>> {
+    const summaries = new Map<string, AttachmentInfo[]>();
+    if (messageIds.length === 0) {
+      return summaries;
+    }
+
+    try {
+      const attachments = await this.attachmentRepository.findByMessageIds(messageIds);
+      for (const attachment of attachments) {
+        const list = summaries.get(attachment.messageId) || [];
+        list.push(this.toMetadata(attachment));
+        summaries.set(attachment.messageId, list);
+      }
+    } catch (error) {
+      this.logger.error(`Error loading attachment summaries:`, error);
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Load an attachment's bytes for a participant of its conversation
+   */
+  async getContent(attachmentId: string, userId: string): Promise<{ attachment: Attachment; data: Buffer } | null> {
+    const attachment = await this.attachmentRepository.findById(attachmentId);
+    if (!attachment) {
+      return null;
+    }
+
+    const participant = await this.participantRepository.findByConversationAndUser(
+      attachment.conversationId,
+      userId
+    );
+    if (!participant) {
+      return null;
+    }
+
+    const data = await this.storage.get(attachment.storageKey);
+    return data ? { attachment, data } : null;
+  }
+
+  toMetadata(attachment: Attachment): AttachmentInfo {
+    return {
+      attachment_id: attachment.id,
+      file_name: attachment.fileName,
+      mime_type: attachment.mimeType,
+      size_bytes: attachment.sizeBytes,
+      checksum: attachment.checksum,
+      width: attachment.width ?? undefined,
+      height: attachment.height ?? undefined,
+      url: `/api/attachments/${attachment.id}/content`,
+    };
+  }
+
+  private validateFile(file: UploadedFileData): { isValid: boolean; error?: string } {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      return { isValid: false, error: 'File is required' };
+    }
+
+    if (file.buffer.length > this.maxSizeBytes) {
+      return { isValid: false, error: `File is too large (max ${this.maxSizeBytes} bytes)` };
+    }
+
+    const isImage = IMAGE_MIME_TYPES.includes(file.mimetype);
+    if (!isImage && !FILE_MIME_TYPES.includes(file.mimetype)) {
+      return { isValid: false, error: `Unsupported file type: ${file.mimetype}` };
+    }
+
+    if (isImage && !matchesImageSignature(file.buffer, file.mimetype)) {
+      return { isValid: false, error: 'File content does not match its declared image type' };
+    }
+
+    return { isValid: true };
+  }
+
+  private sanitizeFileName(name: string): string {
+    const baseName = (name || 'file').split(/[\\/]/).pop();
+    const cleaned = baseName.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+    return (cleaned || 'file').substring(0, 255);
+  }
+}
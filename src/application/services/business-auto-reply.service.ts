@@ -0,0 +1,193 @@
+import { Injectable, Inject, Logger, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IBusinessAutoReplyRepository } from '@domain/repositories/business-auto-reply.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { BusinessAutoReply } from '@domain/entities/business-auto-reply.entity';
+import { Conversation } from '@domain/entities/conversation.entity';
+import { Message } from '@domain/entities/message.entity';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
+import { BusinessHoursService, BusinessHoursStatus } from './business-hours.service';
+
+// A conversation this short that holds nothing but the new message is new
+const FIRST_MESSAGE_LOOKBACK = 20;
+
+export interface AutoReplySettingsView {
+  business_id: string;
+  greeting_enabled: boolean;
+  greeting_message: string;
+  away_enabled: boolean;
+  away_message: string;
+  updated_at: Date | null;
+}
+
+export interface AutoReplySettingsUpdate {
+  greetingEnabled?: boolean;
+  /** Null restores the default template */
+  greetingMessage?: string | null;
+  awayEnabled?: boolean;
+  awayMessage?: string | null;
+}
+
+export interface AutoReplies {
+  businessId: string;
+  contents: string[];
+}
+
+/**
+ * Decides which automatic replies a business sends when a customer writes: a
+ * greeting on the first message of a new conversation and an away message
+ * outside business hours. Templates may use {business_name}, {hours} and
+ * {timezone}.
+ */
+@Injectable()
+export class BusinessAutoReplyService {
+  private readonly logger = new Logger(BusinessAutoReplyService.name);
+
+  constructor(
+    @Inject('IBusinessAutoReplyRepository')
+    private readonly autoReplyRepository: IBusinessAutoReplyRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+    private readonly hoursService: BusinessHoursService,
+    private readonly profileService: SimpleProfileCacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getSettings(actorId: string, businessId: string): Promise<AutoReplySettingsView> {
+    this.requireOwner(actorId, businessId);
+    return this.toView(businessId, await this.autoReplyRepository.findByBusiness(businessId));
+  }
+
+  async updateSettings(
+    actorId: string,
+    businessId: string,
+    changes: AutoReplySettingsUpdate,
+  ): Promise<AutoReplySettingsView> {
+    this.requireOwner(actorId, businessId);
+
+    let settings = await this.autoReplyRepository.findByBusiness(businessId);
+    if (!settings) {
+      settings = new BusinessAutoReply();
+      settings.businessId = businessId;
+      settings.greetingEnabled = true;
+      settings.awayEnabled = true;
+    }
+
+    if (changes.greetingEnabled !== undefined) {
+      settings.greetingEnabled = changes.greetingEnabled;
+    }
+    if (changes.greetingMessage !== undefined) {
+      settings.greetingMessage = changes.greetingMessage?.trim() || null;
+    }
+    if (changes.awayEnabled !== undefined) {
+      settings.awayEnabled = changes.awayEnabled;
+    }
+    if (changes.awayMessage !== undefined) {
+      settings.awayMessage = changes.awayMessage?.trim() || null;
+    }
+
+    const saved = await this.autoReplyRepository.save(settings);
+    this.logger.log(`Business ${businessId} updated its auto-replies`);
+    return this.toView(businessId, saved);
+  }
+
+  /**
+   * The replies the business owes a customer for the message just sent, or
+   * null when the sender isn't the conversation's customer
+   */
+  async repliesFor(conversation: Conversation, message: Message): Promise<AutoReplies | null> {
+    if (!this.configService.get<boolean>('AUTO_REPLY_ENABLED', true) || !conversation.type.isBusiness()) {
+      return null;
+    }
+
+    const participants = await this.participantRepository.findByConversation(conversation.id);
+    const sender = participants.find(p => p.userId === message.senderId);
+    const business = participants.find(p => p.role.isBusiness());
+    if (!sender?.role.isCustomer() || !business) {
+      return null;
+    }
+
+    const businessId = business.userId;
+    const settings = await this.autoReplyRepository.findByBusiness(businessId);
+    const profile = await this.profileService.getBusinessProfile(businessId);
+    const status = this.hoursService.evaluate(profile);
+    const render = (template: string) => this.render(template, profile?.name || 'This business', status);
+
+    const contents: string[] = [];
+
+    if ((settings?.greetingEnabled ?? true) && (await this.isFirstMessage(conversation.id, message.id))) {
+      contents.push(render(settings?.greetingMessage || this.defaultGreeting()));
+    }
+
+    if ((settings?.awayEnabled ?? true) && status.is_open === false && (await this.claimAwayReply(conversation.id))) {
+      contents.push(render(settings?.awayMessage || this.defaultAwayMessage()));
+    }
+
+    return contents.length > 0 ? { businessId, contents } : null;
+  }
+
+  private async isFirstMessage(conversationId: string, messageId: string): Promise<boolean> {
+    const recent = await this.messageRepository.findByConversation(conversationId, FIRST_MESSAGE_LOOKBACK);
+    return recent.length < FIRST_MESSAGE_LOOKBACK && recent.every(m => m.id === messageId || m.type.isSystem());
+  }
+
+  /**
+   * One away message per conversation per cooldown, so a customer sending
+   * several messages at night doesn't get one back for each
+   */
+  private async claimAwayReply(conversationId: string): Promise<boolean> {
+    const key = `auto_reply:away:${conversationId}`;
+    if (await this.cache.exists(key)) {
+      return false;
+    }
+
+    const cooldownMinutes = this.configService.get<number>('AUTO_REPLY_AWAY_COOLDOWN_MINUTES', 60);
+    await this.cache.set(key, Date.now(), cooldownMinutes * 60);
+    return true;
+  }
+
+  private render(template: string, businessName: string, status: BusinessHoursStatus): string {
+    const hours = status.business_hours;
+    return template
+      .replace(/\{business_name\}/g, businessName)
+      .replace(/\{hours\}/g, hours ? `${hours.open}-${hours.close}` : '')
+      .replace(/\{timezone\}/g, hours?.timezone || '');
+  }
+
+  private defaultGreeting(): string {
+    return this.configService.get<string>(
+      'AUTO_REPLY_GREETING_MESSAGE',
+      'Hi! Thanks for contacting {business_name}. We will be with you shortly.',
+    );
+  }
+
+  private defaultAwayMessage(): string {
+    return this.configService.get<string>(
+      'AUTO_REPLY_AWAY_MESSAGE',
+      '{business_name} is closed right now. Our hours are {hours} ({timezone}); we will reply when we are back.',
+    );
+  }
+
+  private toView(businessId: string, settings: BusinessAutoReply | null): AutoReplySettingsView {
+    return {
+      business_id: businessId,
+      greeting_enabled: settings?.greetingEnabled ?? true,
+      greeting_message: settings?.greetingMessage || this.defaultGreeting(),
+      away_enabled: settings?.awayEnabled ?? true,
+      away_message: settings?.awayMessage || this.defaultAwayMessage(),
+      updated_at: settings?.updatedAt || null,
+    };
+  }
+
+  private requireOwner(actorId: string, businessId: string): void {
+    if (actorId !== businessId) {
+      throw new ForbiddenException('You can only manage auto-replies for your own business');
+    }
+  }
+}
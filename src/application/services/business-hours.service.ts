@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { dailyBusinessHours, isWithinBusinessHours } from '@domain/value-objects/business-profile.vo';
+import { BusinessProfile } from '@infrastructure/profile/profile-mock.service';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
+
+export type PublishedBusinessHours = NonNullable<BusinessProfile['business_hours']>;
+
+export interface BusinessHoursStatus {
+  business_hours: PublishedBusinessHours | null;
+  /** Null when the business publishes no usable hours */
+  is_open: boolean | null;
+}
+
+/**
+ * Evaluates a business's published opening hours in the business's own
+ * timezone.
+ */
+@Injectable()
+export class BusinessHoursService {
+  private readonly logger = new Logger(BusinessHoursService.name);
+
+  constructor(private readonly profileService: SimpleProfileCacheService) {}
+
+  async getStatus(businessId: string, at: Date = new Date()): Promise<BusinessHoursStatus> {
+    const profile = await this.profileService.getBusinessProfile(businessId);
+    return this.evaluate(profile, at);
+  }
+
+  evaluate(profile: BusinessProfile | null, at: Date = new Date()): BusinessHoursStatus {
+    const hours = profile?.business_hours;
+    if (!hours) {
+      return { business_hours: null, is_open: null };
+    }
+
+    try {
+      return { business_hours: hours, is_open: isWithinBusinessHours(dailyBusinessHours(hours), at) };
+    } catch (error) {
+      this.logger.warn(`Could not evaluate hours for business ${profile.id} (timezone ${hours.timezone}):`, error);
+      return { business_hours: hours, is_open: null };
+    }
+  }
+}
@@ -0,0 +1,709 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IConversationAssignmentRepository } from '@domain/repositories/conversation-assignment.repository.interface';
+import { IBusinessAgentRepository } from '@domain/repositories/business-agent.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { IConversationRepository } from '@domain/repositories/conversation.repository.interface';
+import { ITransactionManager, IUnitOfWork } from '@domain/repositories/unit-of-work.interface';
+import { ConversationAssignment, AssignmentStatus } from '@domain/entities/conversation-assignment.entity';
+import { BusinessAgent, BusinessAgentRole } from '@domain/entities/business-agent.entity';
+import { Participant } from '@domain/entities/participant.entity';
+import { ParticipantAddedEvent, ParticipantRemovedEvent } from '@domain/events/conversation-events';
+import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
+import { PresenceService, PresenceStatus } from '@infrastructure/cache/presence.service';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { EnhancedConversationService } from './enhanced-conversation.service';
+import { WebSocketMessageService } from './websocket-message.service';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export type RoutingStrategy = 'round_robin' | 'least_loaded';
+
+export type AssignmentAction = 'queued' | 'assigned' | 'claimed' | 'transferred' | 'closed' | 'reopened';
+
+export interface AssignmentView {
+  conversation_id: string;
+  business_id: string;
+  customer_id: string;
+  status: AssignmentStatus;
+  agent_id: string | null;
+  queued_at: Date;
+  assigned_at: Date | null;
+  closed_at: Date | null;
+  closed_by: string | null;
+}
+
+export interface BusinessAgentView {
+  agent_id: string;
+  role: BusinessAgentRole;
+  presence: PresenceStatus;
+  open_conversations: number;
+  last_assigned_at: Date | null;
+}
+
+export interface AssignmentListQuery {
+  status?: AssignmentStatus;
+  agentId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Agent inbox for business conversations. New conversations wait in the
+ * business's queue until routing hands them to an online agent, either
+ * round-robin (whoever was assigned least recently) or least-loaded (fewest
+ * open conversations). Agents can also claim, transfer and close
+ * conversations; every change is posted as a system message and broadcast as
+ * conversation_assigned.
+ */
+@Injectable()
+export class BusinessInboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BusinessInboxService.name);
+  private routingTimer?: NodeJS.Timeout;
+  private routing = false;
+
+  constructor(
+    @Inject('IConversationAssignmentRepository')
+    private readonly assignmentRepository: IConversationAssignmentRepository,
+    @Inject('IBusinessAgentRepository')
+    private readonly agentRepository: IBusinessAgentRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject('IConversationRepository')
+    private readonly conversationRepository: IConversationRepository,
+    @Inject('ITransactionManager')
+    private readonly transactionManager: ITransactionManager,
+    private readonly conversationService: EnhancedConversationService,
+    private readonly messageService: WebSocketMessageService,
+    private readonly presenceService: PresenceService,
+    private readonly profileService: SimpleProfileCacheService,
+    private readonly chatGateway: ChatGateway,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('BUSINESS_ROUTING_ENABLED', true)) {
+      this.logger.warn('Business conversation routing is disabled; queued conversations must be claimed');
+      return;
+    }
+
+    // Picks up queues that could not be routed when agents were all offline
+    this.routingTimer = setInterval(() => {
+      this.routeAllQueues().catch(error => this.logger.error('Business routing failed:', error));
+    }, this.configService.get<number>('BUSINESS_ROUTING_INTERVAL_MS', 5000));
+  }
+
+  onModuleDestroy() {
+    if (this.routingTimer) {
+      clearInterval(this.routingTimer);
+    }
+  }
+
+  /**
+   * Customer entry point. Returns the customer's open conversation with the
+   * business if there is one, reopens their last closed one, or starts a new
+   * one in the queue. A preferred agent only skips the queue while they are
+   * online and taking conversations; otherwise routing decides as usual.
+   */
+  async startConversation(customerId: string, businessId: string, agentId?: string): Promise<AssignmentView> {
+    if (customerId === businessId) {
+      throw new BadRequestException('A business cannot open a conversation with itself');
+    }
+    if (agentId && !(await this.agentRepository.find(businessId, agentId))) {
+      throw new BadRequestException('Agent does not work for this business');
+    }
+    const preferredAgentId = agentId && (await this.isAvailable(businessId, agentId)) ? agentId : undefined;
+
+    const latest = await this.assignmentRepository.findLatestForCustomer(businessId, customerId);
+    if (latest && latest.status !== 'closed') {
+      return this.toView(latest);
+    }
+    if (latest) {
+      return this.toView(await this.reopen(latest, customerId, preferredAgentId));
+    }
+
+    let conversationId: string;
+    try {
+      const conversation = await this.conversationService.createBusinessConversation({
+        customerId,
+        businessId,
+        agentId: preferredAgentId,
+      });
+      conversationId = conversation.id;
+    } catch (error) {
+      if (error.message === 'One or more participants do not exist') {
+        throw new NotFoundException('Business not found');
+      }
+      throw error;
+    }
+
+    const now = new Date();
+    const assignment = new ConversationAssignment();
+    assignment.conversationId = conversationId;
+    assignment.businessId = businessId;
+    assignment.customerId = customerId;
+    assignment.status = preferredAgentId ? 'assigned' : 'queued';
+    assignment.agentId = preferredAgentId || null;
+    assignment.queuedAt = now;
+    assignment.assignedAt = preferredAgentId ? now : null;
+    const saved = await this.assignmentRepository.createOpen(assignment);
+
+    if (!saved) {
+      // A concurrent start opened one first; drop ours and hand back theirs
+      await this.conversationRepository.delete(conversationId);
+      const existing = await this.assignmentRepository.findLatestForCustomer(businessId, customerId);
+      if (!existing) {
+        throw new ConflictException('Conversation was just updated; try again');
+      }
+      return this.toView(existing);
+    }
+
+    if (preferredAgentId) {
+      await this.agentRepository.markAssigned(businessId, preferredAgentId, now);
+      await this.announce(saved, 'assigned', businessId, null);
+      return this.toView(saved);
+    }
+
+    await this.announce(saved, 'queued', customerId, null);
+    await this.routeQueueSafely(businessId);
+    return this.toView((await this.assignmentRepository.findByConversation(conversationId)) || saved);
+  }
+
+  async claim(agentId: string, businessId: string, conversationId: string): Promise<AssignmentView> {
+    const agent = await this.requireAgent(businessId, agentId);
+    const assignment = await this.requireOpenAssignment(businessId, conversationId);
+
+    if (assignment.status === 'assigned') {
+      if (assignment.agentId === agentId) {
+        return this.toView(assignment);
+      }
+      if (!agent.isSupervisor()) {
+        throw new ConflictException('Conversation is already assigned to another agent');
+      }
+    }
+
+    const updated = await this.assignTo(assignment, agentId, agentId, 'claimed');
+    if (!updated) {
+      throw new ConflictException('Conversation was just updated; try again');
+    }
+    return this.toView(updated);
+  }
+
+  /**
+   * Hand the conversation to another agent, or back to the queue when no
+   * agent is given. Open to the assigned agent and supervisors.
+   */
+  async transfer(
+    actorId: string,
+    businessId: string,
+    conversationId: string,
+    targetAgentId?: string,
+  ): Promise<AssignmentView> {
+    const assignment = await this.requireOpenAssignment(businessId, conversationId);
+    await this.requireHandlerOrSupervisor(actorId, assignment);
+
+    if (!targetAgentId) {
+      if (assignment.status === 'queued') {
+        return this.toView(assignment);
+      }
+      const requeued = await this.requeue(assignment, actorId, 'queued');
+      if (!requeued) {
+        throw new ConflictException('Conversation was just updated; try again');
+      }
+      await this.routeQueueSafely(businessId);
+      return this.toView((await this.assignmentRepository.findByConversation(conversationId)) || requeued);
+    }
+
+    if (!(await this.agentRepository.find(businessId, targetAgentId))) {
+      throw new BadRequestException('Agent does not work for this business');
+    }
+    if (assignment.status === 'assigned' && assignment.agentId === targetAgentId) {
+      throw new BadRequestException('Conversation is already assigned to that agent');
+    }
+
+    const updated = await this.assignTo(assignment, targetAgentId, actorId, 'transferred');
+    if (!updated) {
+      throw new ConflictException('Conversation was just updated; try again');
+    }
+    return this.toView(updated);
+  }
+
+  async close(actorId: string, businessId: string, conversationId: string): Promise<AssignmentView> {
+    const assignment = await this.requireAssignment(businessId, conversationId);
+    if (assignment.status === 'closed') {
+      return this.toView(assignment);
+    }
+    await this.requireHandlerOrSupervisor(actorId, assignment);
+
+    const closed = await this.assignmentRepository.transition(
+      conversationId,
+      { statuses: [assignment.status], agentId: assignment.agentId ?? null },
+      { status: 'closed', closedAt: new Date(), closedBy: actorId },
+    );
+    if (!closed) {
+      throw new ConflictException('Conversation was just updated; try again');
+    }
+
+    await this.announce(closed, 'closed', actorId, null);
+    return this.toView(closed);
+  }
+
+  async listQueue(
+    actorId: string,
+    businessId: string,
+    limit: number = DEFAULT_PAGE_SIZE,
+    offset: number = 0,
+  ): Promise<{ conversations: AssignmentView[]; total: number }> {
+    return this.listConversations(actorId, businessId, { status: 'queued', limit, offset });
+  }
+
+  async listConversations(
+    actorId: string,
+    businessId: string,
+    query: AssignmentListQuery,
+  ): Promise<{ conversations: AssignmentView[]; total: number }> {
+    await this.requireSupervisor(actorId, businessId);
+
+    const { assignments, total } = await this.assignmentRepository.findByBusiness(businessId, {
+      status: query.status,
+      agentId: query.agentId,
+      limit: query.limit ?? DEFAULT_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    });
+    return { conversations: assignments.map(a => this.toView(a)), total };
+  }
+
+  /**
+   * The calling agent's open conversations with the business
+   */
+  async listMine(agentId: string, businessId: string): Promise<AssignmentView[]> {
+    await this.requireAgent(businessId, agentId);
+    const assignments = await this.assignmentRepository.findAssignedToAgent(agentId, businessId);
+    return assignments.map(a => this.toView(a));
+  }
+
+  async listAgents(actorId: string, businessId: string): Promise<BusinessAgentView[]> {
+    await this.requireSupervisor(actorId, businessId);
+
+    const agents = await this.agentRepository.findByBusiness(businessId);
+    const [presence, loads] = await Promise.all([
+      this.presenceService.getBatchPresence(agents.map(a => a.agentId)),
+      this.assignmentRepository.countAssignedByAgent(businessId),
+    ]);
+
+    return agents.map(agent => ({
+      agent_id: agent.agentId,
+      role: agent.role,
+      presence: presence[agent.agentId]?.status ?? 'offline',
+      open_conversations: loads.get(agent.agentId) ?? 0,
+      last_assigned_at: agent.lastAssignedAt || null,
+    }));
+  }
+
+  /**
+   * Add an agent or supervisor, or change their role. Only the business account may.
+   */
+  async setAgent(actorId: string, businessId: string, agentId: string, role: BusinessAgentRole): Promise<BusinessAgentView> {
+    this.requireOwner(actorId, businessId);
+    if (agentId === businessId) {
+      throw new BadRequestException('The business account cannot be its own agent');
+    }
+
+    const agent = await this.agentRepository.upsert(businessId, agentId, role);
+    this.logger.log(`User ${agentId} is now ${role} for business ${businessId}`);
+
+    if (role === 'agent') {
+      await this.routeQueueSafely(businessId);
+    }
+    return (await this.listAgents(actorId, businessId)).find(a => a.agent_id === agent.agentId)!;
+  }
+
+  /**
+   * Remove an agent; their open conversations go back to the queue
+   */
+  async removeAgent(actorId: string, businessId: string, agentId: string): Promise<void> {
+    this.requireOwner(actorId, businessId);
+    await this.agentRepository.remove(businessId, agentId);
+
+    for (const assignment of await this.assignmentRepository.findAssignedToAgent(agentId, businessId)) {
+      await this.requeue(assignment, actorId, 'queued');
+    }
+    this.logger.log(`User ${agentId} no longer works for business ${businessId}`);
+
+    await this.routeQueueSafely(businessId);
+  }
+
+  /**
+   * Route one batch of every business's queue. Returns how many conversations were assigned.
+   */
+  async routeAllQueues(): Promise<number> {
+    if (this.routing) {
+      return 0;
+    }
+
+    this.routing = true;
+    try {
+      const batchSize = this.configService.get<number>('BUSINESS_ROUTING_BATCH_SIZE', 50);
+      let assigned = 0;
+      for (const businessId of await this.assignmentRepository.findBusinessesWithQueue(batchSize)) {
+        assigned += await this.routeQueueSafely(businessId);
+      }
+      return assigned;
+    } finally {
+      this.routing = false;
+    }
+  }
+
+  private async routeQueueSafely(businessId: string): Promise<number> {
+    try {
+      return await this.routeQueue(businessId);
+    } catch (error) {
+      // The poller gets another go at it
+      this.logger.error(`Error routing queue of business ${businessId}:`, error);
+      return 0;
+    }
+  }
+
+  private async routeQueue(businessId: string): Promise<number> {
+    const agents = (await this.agentRepository.findByBusiness(businessId)).filter(a => a.role === 'agent');
+    if (agents.length === 0) {
+      return 0;
+    }
+
+    const presence = await this.presenceService.getBatchPresence(agents.map(a => a.agentId));
+    const online = agents.filter(agent => presence[agent.agentId]?.status === 'online');
+    if (online.length === 0) {
+      return 0;
+    }
+
+    const queued = await this.assignmentRepository.findQueued(
+      businessId,
+      this.configService.get<number>('BUSINESS_ROUTING_BATCH_SIZE', 50),
+    );
+    const strategy = this.configService.get<RoutingStrategy>('BUSINESS_ROUTING_STRATEGY', 'least_loaded');
+    const loads = strategy === 'least_loaded'
+      ? await this.assignmentRepository.countAssignedByAgent(businessId)
+      : new Map<string, number>();
+
+    let assigned = 0;
+    for (const assignment of queued) {
+      const agent = this.pickAgent(online, loads, strategy);
+      try {
+        // Null means another instance or an agent got there first
+        if (await this.assignTo(assignment, agent.agentId, businessId, 'assigned')) {
+          loads.set(agent.agentId, (loads.get(agent.agentId) ?? 0) + 1);
+          agent.lastAssignedAt = new Date();
+          assigned++;
+        }
+      } catch (error) {
+        // One conversation that can't be handed over shouldn't hold up the rest of the queue
+        this.logger.error(`Error routing conversation ${assignment.conversationId} to agent ${agent.agentId}:`, error);
+      }
+    }
+
+    if (assigned > 0) {
+      this.logger.log(`Routed ${assigned} queued conversations of business ${businessId} (${strategy})`);
+    }
+    return assigned;
+  }
+
+  /**
+   * Whether the agent takes routed conversations and is online right now
+   */
+  private async isAvailable(businessId: string, agentId: string): Promise<boolean> {
+    const agent = await this.agentRepository.find(businessId, agentId);
+    if (agent?.role !== 'agent') {
+      return false;
+    }
+    const presence = await this.presenceService.getBatchPresence([agentId]);
+    return presence[agentId]?.status === 'online';
+  }
+
+  /**
+   * Least-loaded compares open conversations first; both strategies then
+   * prefer whoever has waited longest for a new one
+   */
+  private pickAgent(agents: BusinessAgent[], loads: Map<string, number>, strategy: RoutingStrategy): BusinessAgent {
+    return [...agents].sort((a, b) => {
+      if (strategy === 'least_loaded') {
+        const difference = (loads.get(a.agentId) ?? 0) - (loads.get(b.agentId) ?? 0);
+        if (difference !== 0) {
+          return difference;
+        }
+      }
+      return (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0);
+    })[0];
+  }
+
+  private async assignTo(
+    assignment: ConversationAssignment,
+    agentId: string,
+    actorId: string,
+    action: AssignmentAction,
+  ): Promise<ConversationAssignment | null> {
+    const now = new Date();
+    const previousAgentId = assignment.agentId ?? null;
+
+    // The assignment and the membership change commit together, so a failed
+    // hand-over can't leave the conversation assigned to an agent outside it
+    const updated = await this.transactionManager.executeInTransaction(async uow => {
+      const transitioned = await uow.assignments.transition(
+        assignment.conversationId,
+        { statuses: [assignment.status], agentId: previousAgentId },
+        { status: 'assigned', agentId, assignedAt: now, closedAt: null, closedBy: null },
+      );
+      if (transitioned) {
+        await this.handOver(uow, assignment.conversationId, previousAgentId, agentId, actorId);
+      }
+      return transitioned;
+    });
+    if (!updated) {
+      return null;
+    }
+
+    await this.agentRepository.markAssigned(assignment.businessId, agentId, now);
+    await this.leaveRoom(assignment.conversationId, previousAgentId, agentId);
+    await this.announce(updated, action, actorId, previousAgentId);
+    return updated;
+  }
+
+  private async requeue(
+    assignment: ConversationAssignment,
+    actorId: string,
+    action: AssignmentAction,
+  ): Promise<ConversationAssignment | null> {
+    const previousAgentId = assignment.agentId ?? null;
+
+    const updated = await this.transactionManager.executeInTransaction(async uow => {
+      const transitioned = await uow.assignments.transition(
+        assignment.conversationId,
+        { statuses: [assignment.status], agentId: previousAgentId },
+        { status: 'queued', agentId: null, queuedAt: new Date(), assignedAt: null, closedAt: null, closedBy: null },
+      );
+      if (transitioned) {
+        await this.handOver(uow, assignment.conversationId, previousAgentId, null, actorId);
+      }
+      return transitioned;
+    });
+    if (!updated) {
+      return null;
+    }
+
+    await this.leaveRoom(assignment.conversationId, previousAgentId, null);
+    await this.announce(updated, action, actorId, previousAgentId);
+    return updated;
+  }
+
+  /**
+   * A returning customer goes back to the agent who last helped them if that
+   * agent still works for the business, otherwise to the queue
+   */
+  private async reopen(
+    assignment: ConversationAssignment,
+    customerId: string,
+    preferredAgentId?: string,
+  ): Promise<ConversationAssignment> {
+    const candidates = [preferredAgentId, assignment.agentId].filter((id): id is string => !!id);
+    for (const agentId of candidates) {
+      if (await this.agentRepository.find(assignment.businessId, agentId)) {
+        const reopened = await this.assignTo(assignment, agentId, customerId, 'reopened');
+        if (reopened) {
+          return reopened;
+        }
+      }
+    }
+
+    const requeued = await this.requeue(assignment, customerId, 'reopened');
+    if (!requeued) {
+      throw new ConflictException('Conversation was just updated; try again');
+    }
+    await this.routeQueueSafely(assignment.businessId);
+    return (await this.assignmentRepository.findByConversation(assignment.conversationId)) || requeued;
+  }
+
+  /**
+   * Keep exactly the handling agent in the conversation
+   */
+  private async handOver(
+    uow: IUnitOfWork,
+    conversationId: string,
+    fromAgentId: string | null,
+    toAgentId: string | null,
+    actorId: string,
+  ): Promise<void> {
+    if (fromAgentId === toAgentId) {
+      return;
+    }
+
+    if (fromAgentId && (await this.participantRepository.findByConversationAndUser(conversationId, fromAgentId))) {
+      await uow.participants.delete(conversationId, fromAgentId);
+      uow.publish(new ParticipantRemovedEvent(conversationId, fromAgentId, actorId, 'transferred'));
+    }
+
+    if (toAgentId && !(await this.participantRepository.findByConversationAndUser(conversationId, toAgentId))) {
+      const participant = new Participant();
+      participant.conversationId = conversationId;
+      participant.userId = toAgentId;
+      participant.role = ParticipantRole.AGENT;
+      participant.isMuted = false;
+      await uow.participants.save(participant);
+      uow.publish(new ParticipantAddedEvent(conversationId, toAgentId, ParticipantRole.AGENT, actorId));
+    }
+  }
+
+  /**
+   * Sockets follow membership only once the hand-over has committed
+   */
+  private async leaveRoom(conversationId: string, fromAgentId: string | null, toAgentId: string | null): Promise<void> {
+    if (fromAgentId && fromAgentId !== toAgentId) {
+      await this.chatGateway.removeUserFromConversation(fromAgentId, conversationId);
+    }
+  }
+
+  private async announce(
+    assignment: ConversationAssignment,
+    action: AssignmentAction,
+    actorId: string,
+    previousAgentId: string | null,
+  ): Promise<void> {
+    const names = await this.getNames([actorId, assignment.agentId, previousAgentId].filter((id): id is string => !!id));
+    await this.messageService.sendSystemMessage(
+      assignment.conversationId,
+      actorId,
+      this.describe(assignment, action, actorId, names),
+    );
+
+    const payload = {
+      conversation_id: assignment.conversationId,
+      business_id: assignment.businessId,
+      status: assignment.status,
+      agent_id: assignment.agentId ?? null,
+      previous_agent_id: previousAgentId,
+      action,
+      actor_id: actorId,
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.chatGateway.sendMessageToConversation(assignment.conversationId, 'conversation_assigned', payload);
+    // The new agent hasn't joined the room yet and the previous one has just been taken out of it
+    for (const agentId of new Set([assignment.agentId, previousAgentId].filter((id): id is string => !!id))) {
+      await this.chatGateway.sendMessageToUser(agentId, 'conversation_assigned', payload);
+    }
+
+    this.logger.log(
+      `Conversation ${assignment.conversationId} ${action} (status ${assignment.status}, agent ${assignment.agentId ?? 'none'})`,
+    );
+  }
+
+  private describe(
+    assignment: ConversationAssignment,
+    action: AssignmentAction,
+    actorId: string,
+    names: Map<string, string>,
+  ): string {
+    const agentName = assignment.agentId ? names.get(assignment.agentId) : null;
+
+    switch (action) {
+      case 'assigned':
+      case 'claimed':
+        return `${agentName} joined the conversation`;
+      case 'transferred':
+        return `${names.get(actorId)} transferred the conversation to ${agentName}`;
+      case 'closed':
+        return `${names.get(actorId)} closed the conversation`;
+      case 'reopened':
+        return agentName ? `Conversation reopened with ${agentName}` : 'Conversation reopened; waiting for an available agent';
+      case 'queued':
+        return actorId === assignment.customerId
+          ? 'Waiting for an available agent'
+          : `${names.get(actorId)} returned the conversation to the queue`;
+    }
+  }
+
+  private async requireAssignment(businessId: string, conversationId: string): Promise<ConversationAssignment> {
+    const assignment = await this.assignmentRepository.findByConversation(conversationId);
+    if (!assignment || assignment.businessId !== businessId) {
+      throw new NotFoundException('Conversation not found');
+    }
+    return assignment;
+  }
+
+  private async requireOpenAssignment(businessId: string, conversationId: string): Promise<ConversationAssignment> {
+    const assignment = await this.requireAssignment(businessId, conversationId);
+    if (assignment.status === 'closed') {
+      throw new BadRequestException('Conversation is closed');
+    }
+    return assignment;
+  }
+
+  private async requireAgent(businessId: string, userId: string): Promise<BusinessAgent> {
+    const agent = await this.agentRepository.find(businessId, userId);
+    if (!agent) {
+      throw new ForbiddenException('You are not an agent of this business');
+    }
+    return agent;
+  }
+
+  private async requireSupervisor(userId: string, businessId: string): Promise<void> {
+    if (userId === businessId) {
+      return;
+    }
+    const agent = await this.agentRepository.find(businessId, userId);
+    if (!agent?.isSupervisor()) {
+      throw new ForbiddenException('Only supervisors can do this');
+    }
+  }
+
+  private async requireHandlerOrSupervisor(userId: string, assignment: ConversationAssignment): Promise<void> {
+    if (assignment.status === 'assigned' && assignment.agentId === userId) {
+      return;
+    }
+    await this.requireSupervisor(userId, assignment.businessId);
+  }
+
+  private requireOwner(actorId: string, businessId: string): void {
+    if (actorId !== businessId) {
+      throw new ForbiddenException('You can only manage agents for your own business');
+    }
+  }
+
+  private async getNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>(userIds.map(id => [id, 'Someone']));
+    try {
+      const profiles = await this.profileService.getBatchProfiles({ user_ids: userIds });
+      [...profiles.users, ...profiles.businesses].forEach(profile => {
+        if (profile.name) {
+          names.set(profile.id, profile.name);
+        }
+      });
+    } catch (error) {
+      this.logger.warn(`Could not resolve names for system message: ${error.message}`);
+    }
+    return names;
+  }
+
+  private toView(assignment: ConversationAssignment): AssignmentView {
+    return {
+      conversation_id: assignment.conversationId,
+      business_id: assignment.businessId,
+      customer_id: assignment.customerId,
+      status: assignment.status,
+      agent_id: assignment.agentId ?? null,
+      queued_at: assignment.queuedAt,
+      assigned_at: assignment.assignedAt ?? null,
+      closed_at: assignment.closedAt ?? null,
+      closed_by: assignment.closedBy ?? null,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  IParticipantRepository,
+  IParticipantCommandRepository,
+} from '@domain/repositories/participant.repository.interface';
+import { ITransactionManager } from '@domain/repositories/unit-of-work.interface';
+import { Participant } from '@domain/entities/participant.entity';
+import { ConversationArchivedEvent } from '@domain/events/conversation-events';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+
+const MAX_PINNED_CONVERSATIONS = 5;
+
+export interface ConversationInboxState {
+  conversation_id: string;
+  archived_at: Date | null;
+  pinned_at: Date | null;
+  is_muted: boolean;
+  muted_until: Date | null;
+}
+
+/**
+ * Per-participant archive, pin and mute state. Changes are pushed to all of
+ * the user's devices; nobody else in the conversation sees them.
+ */
+@Injectable()
+export class ConversationInboxService {
+  private readonly logger = new Logger(ConversationInboxService.name);
+
+  constructor(
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject('IParticipantCommandRepository')
+    private readonly participantCommandRepository: IParticipantCommandRepository,
+    @Inject('ITransactionManager')
+    private readonly transactionManager: ITransactionManager,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  async archive(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    const participant = await this.requireParticipant(userId, conversationId);
+    if (!participant.archivedAt) {
+      await this.transactionManager.executeInTransaction(async uow => {
+        await uow.participants.setArchived(conversationId, userId, new Date());
+        uow.publish(new ConversationArchivedEvent(conversationId, userId));
+      });
+    }
+    return this.publishState(userId, conversationId);
+  }
+
+  async unarchive(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    await this.requireParticipant(userId, conversationId);
+    await this.participantCommandRepository.setArchived(conversationId, userId, null);
+    return this.publishState(userId, conversationId);
+  }
+
+  async pin(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    const participant = await this.requireParticipant(userId, conversationId);
+    if (!participant.pinnedAt) {
+      const pinned = await this.participantCommandRepository.pinWithinLimit(
+        conversationId,
+        userId,
+        MAX_PINNED_CONVERSATIONS,
+      );
+      if (!pinned) {
+        throw new BadRequestException(`You can pin at most ${MAX_PINNED_CONVERSATIONS} conversations`);
+      }
+    }
+    return this.publishState(userId, conversationId);
+  }
+
+  async unpin(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    await this.requireParticipant(userId, conversationId);
+    await this.participantCommandRepository.setPinned(conversationId, userId, null);
+    return this.publishState(userId, conversationId);
+  }
+
+  /**
+   * Mute notifications, indefinitely or until the given time
+   */
+  async mute(userId: string, conversationId: string, mutedUntil?: Date): Promise<ConversationInboxState> {
+    if (mutedUntil && (isNaN(mutedUntil.getTime()) || mutedUntil <= new Date())) {
+      throw new BadRequestException('muted_until must be a time in the future');
+    }
+
+    await this.requireParticipant(userId, conversationId);
+    await this.participantCommandRepository.toggleMute(conversationId, userId, true, mutedUntil || null);
+    return this.publishState(userId, conversationId);
+  }
+
+  async unmute(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    await this.requireParticipant(userId, conversationId);
+    await this.participantCommandRepository.toggleMute(conversationId, userId, false);
+    return this.publishState(userId, conversationId);
+  }
+
+  /**
+   * A new message brings an archived conversation back to the inbox of
+   * everyone who hasn't also muted it
+   */
+  async unarchiveOnNewMessage(conversationId: string): Promise<void> {
+    try {
+      const userIds = await this.participantCommandRepository.unarchiveForNewMessage(conversationId);
+      for (const userId of userIds) {
+        await this.publishState(userId, conversationId);
+      }
+    } catch (error) {
+      this.logger.error(`Error unarchiving conversation ${conversationId}:`, error);
+      // Don't throw - the message itself is already saved
+    }
+  }
+
+  toStateView(participant: Participant): ConversationInboxState {
+    return {
+      conversation_id: participant.conversationId,
+      archived_at: participant.archivedAt || null,
+      pinned_at: participant.pinnedAt || null,
+      is_muted: participant.isCurrentlyMuted(),
+      muted_until: participant.isCurrentlyMuted() ? participant.mutedUntil || null : null,
+    };
+  }
+
+  private async requireParticipant(userId: string, conversationId: string): Promise<Participant> {
+    const participant = await this.participantRepository.findByConversationAndUser(conversationId, userId);
+    if (!participant) {
+      throw new NotFoundException('Conversation not found');
+    }
+    return participant;
+  }
+
+  private async publishState(userId: string, conversationId: string): Promise<ConversationInboxState> {
+    const participant = await this.requireParticipant(userId, conversationId);
+    const state = this.toStateView(participant);
+
+    await this.chatGateway.sendMessageToUser(userId, 'conversation_state_updated', {
+      ...state,
+      archived_at: state.archived_at?.toISOString() ?? null,
+      pinned_at: state.pinned_at?.toISOString() ?? null,
+      muted_until: state.muted_until?.toISOString() ?? null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return state;
+  }
+}
@@ -8,9 +8,42 @@ import {
 import { IConversationRepository } from "@domain/repositories/conversation.repository.interface";
 import { IParticipantRepository } from "@domain/repositories/participant.repository.interface";
 import { IMessageRepository } from "@domain/repositories/message.repository.interface";
+import { ITransactionManager } from "@domain/repositories/unit-of-work.interface";
+import { ConversationCreatedEvent } from "@domain/events/conversation-events";
+import { ConversationType } from "@domain/value-objects/conversation-type.vo";
+import { ParticipantRole } from "@domain/value-objects/participant-role.vo";
+import {
+  ConversationMetadata,
+  ConversationSettings,
+} from "@domain/value-objects/conversation-metadata.vo";
 import { SimpleProfileCacheService } from "@infrastructure/profile/simple-profile-cache.service";
+import { ChatGateway } from "@infrastructure/websocket/chat.gateway";
+import { ConversationAccessService } from "@infrastructure/websocket/services/conversation-access.service";
+import { UserBlockService } from "./user-block.service";
+import { BusinessHoursService, BusinessHoursStatus } from "./business-hours.service";
+
+export interface ConversationMetadataView {
+  name: string | null;
+  description: string | null;
+  avatar_url: string | null;
+  settings: {
+    mute_notifications: boolean;
+    allow_file_sharing: boolean;
+    allow_image_sharing: boolean;
+    max_participants: number;
+    auto_delete_messages: boolean;
+    auto_delete_days: number | null;
+  };
+}
+
+export interface UpdateConversationRequest {
+  name?: string;
+  description?: string;
+  avatarUrl?: string;
+  settings?: Partial<ConversationSettings>;
+}
 
-export interface ConversationListItem {
+export interface ConversationListItem extends ConversationMetadataView {
   conversation_id: string;
   type: string;
   last_activity: Date;
@@ -24,9 +57,14 @@ export interface ConversationListItem {
   }>;
   unread_count: number;
   is_muted: boolean;
+  muted_until: Date | null;
+  archived_at: Date | null;
+  pinned_at: Date | null;
 }
 
-export interface ConversationDetails {
+export interface ConversationDetails
+  extends ConversationMetadataView,
+    Partial<BusinessHoursStatus> {
   conversation_id: string;
   type: string;
   created_at: Date;
@@ -64,26 +102,34 @@ export class ConversationService {
     private readonly participantRepository: IParticipantRepository,
     @Inject("IMessageRepository")
     private readonly messageRepository: IMessageRepository,
-    private readonly profileService: SimpleProfileCacheService
+    @Inject("ITransactionManager")
+    private readonly transactionManager: ITransactionManager,
+    private readonly profileService: SimpleProfileCacheService,
+    private readonly accessService: ConversationAccessService,
+    private readonly chatGateway: ChatGateway,
+    private readonly blockService: UserBlockService,
+    private readonly businessHoursService: BusinessHoursService
   ) {}
 
+  /**
+   * The user's chat list, pinned conversations first. Archived conversations
+   * are listed separately.
+   */
   async getUserConversations(
     userId: string,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    archived: boolean = false
   ): Promise<{ conversations: ConversationListItem[]; total: number }> {
-    const conversations = await this.conversationRepository.findByParticipant(userId, limit + offset, 0);
-
-    const conversationsWithDetails = await this.enrichConversationsWithProfiles(conversations, userId);
-
-    // Apply pagination and sorting
-    const paginatedConversations = conversationsWithDetails
-      .sort((a, b) => b.last_activity.getTime() - a.last_activity.getTime())
-      .slice(offset, offset + limit);
+    const { conversations, total } = await this.conversationRepository.findInbox(userId, {
+      archived,
+      limit,
+      offset,
+    });
 
     return {
-      conversations: paginatedConversations,
-      total: conversations.length,
+      conversations: await this.enrichConversationsWithProfiles(conversations, userId),
+      total,
     };
   }
 
@@ -129,11 +175,15 @@ export class ConversationService {
     return {
       conversation_id: conversation.id,
       type: conversation.type.value,
+      ...this.toMetadataView(conversation.metadata),
       last_activity: conversation.lastActivity,
       last_message_id: conversation.lastMessageId,
       participants: participantProfiles,
       unread_count: 0, // TODO: Calculate unread count
-      is_muted: userParticipant?.isMuted || false,
+      is_muted: userParticipant?.isCurrentlyMuted() || false,
+      muted_until: userParticipant?.isCurrentlyMuted() ? userParticipant.mutedUntil || null : null,
+      archived_at: userParticipant?.archivedAt || null,
+      pinned_at: userParticipant?.pinnedAt || null,
     };
   }
 
@@ -187,18 +237,28 @@ export class ConversationService {
         name: profile?.name || "Unknown User",
         avatar_url: profile?.avatar_url,
         user_type: profile?.user_type || "user",
-        is_muted: p.isMuted,
+        is_muted: p.isCurrentlyMuted(),
         last_read_message_id: p.lastReadMessageId,
       };
     });
 
+    // Business conversations show whether the business is open right now
+    const business = conversation.type.isBusiness()
+      ? participants.find((p) => p.role.isBusiness())
+      : undefined;
+    const hours = business
+      ? await this.businessHoursService.getStatus(business.userId)
+      : {};
+
     return {
       conversation_id: conversation.id,
       type: conversation.type.value,
+      ...this.toMetadataView(conversation.metadata),
       created_at: conversation.createdAt,
       last_activity: conversation.lastActivity,
       last_message_id: conversation.lastMessageId,
       participants: participantDetails,
+      ...hours,
     };
   }
 
@@ -253,16 +313,38 @@ export class ConversationService {
 
     await this.validateTargetUserExists(targetUserId);
 
+    if (await this.blockService.isBlockedBetween(userId, targetUserId)) {
+      throw new ForbiddenException("You cannot start a conversation with this user");
+    }
+
     // Check if direct conversation already exists
     // TODO: Implement findDirectConversation method
 
-    const conversation = await this.conversationRepository.save({
-      type: { value: "direct" },
-      createdAt: new Date(),
-      lastActivity: new Date(),
-    } as any);
+    // The conversation, its participants and the event commit together
+    const conversation = await this.transactionManager.executeInTransaction(async (uow) => {
+      const created = await uow.conversations.save({
+        type: { value: "direct" },
+        createdAt: new Date(),
+        lastActivity: new Date(),
+      } as any);
+
+      await uow.participants.bulkSave(
+        [userId, targetUserId].map((participantId) => ({
+          conversationId: created.id,
+          userId: participantId,
+          role: { value: "member" },
+          isMuted: false,
+        })) as any
+      );
 
-    await this.addDirectConversationParticipants(conversation.id, userId, targetUserId);
+      uow.publish(
+        new ConversationCreatedEvent(created.id, ConversationType.DIRECT, userId, [
+          { userId, role: ParticipantRole.MEMBER },
+          { userId: targetUserId, role: ParticipantRole.MEMBER },
+        ])
+      );
+      return created;
+    });
 
     return { conversation_id: conversation.id };
   }
@@ -280,30 +362,10 @@ export class ConversationService {
     }
   }
 
-  private async addDirectConversationParticipants(
-    conversationId: string,
-    userId: string,
-    targetUserId: string
-  ): Promise<void> {
-    await Promise.all([
-      this.participantRepository.save({
-        conversationId,
-        userId,
-        role: { value: "member" },
-        isMuted: false,
-      } as any),
-      this.participantRepository.save({
-        conversationId,
-        userId: targetUserId,
-        role: { value: "member" },
-        isMuted: false,
-      } as any),
-    ]);
-  }
-
   async createGroupConversation(
     userId: string,
-    participants: string[]
+    participants: string[],
+    name?: string
   ): Promise<{ conversation_id: string }> {
     if (participants.length === 0) {
       throw new BadRequestException("At least one participant is required");
@@ -332,35 +394,132 @@ export class ConversationService {
       );
     }
 
-    const conversation = await this.conversationRepository.save({
-      type: { value: "group" },
-      createdAt: new Date(),
-      lastActivity: new Date(),
-    } as any);
-
-    // Add creator as admin
-    await this.participantRepository.save({
-      conversationId: conversation.id,
-      userId: userId,
-      role: { value: "admin" },
-      isMuted: false,
-    } as any);
-
-    // Add other participants as members
-    await Promise.all(
-      participants.map((participantId) =>
-        this.participantRepository.save({
-          conversationId: conversation.id,
+    const conversation = await this.transactionManager.executeInTransaction(async (uow) => {
+      const created = await uow.conversations.save({
+        type: { value: "group" },
+        metadata: this.buildMetadata(() => ConversationMetadata.create({ title: name })),
+        createdAt: new Date(),
+        lastActivity: new Date(),
+      } as any);
+
+      // Creator joins as admin, everyone else as a member
+      await uow.participants.bulkSave([
+        { conversationId: created.id, userId, role: { value: "admin" }, isMuted: false },
+        ...participants.map((participantId) => ({
+          conversationId: created.id,
           userId: participantId,
           role: { value: "member" },
           isMuted: false,
-        } as any)
-      )
-    );
+        })),
+      ] as any);
+
+      uow.publish(
+        new ConversationCreatedEvent(created.id, ConversationType.GROUP, userId, [
+          { userId, role: ParticipantRole.ADMIN },
+          ...participants.map((participantId) => ({ userId: participantId, role: ParticipantRole.MEMBER })),
+        ])
+      );
+      return created;
+    });
 
     return { conversation_id: conversation.id };
   }
 
+  /**
+   * Rename a group or business chat, change its avatar or settings (admins only)
+   * and let everyone in the room know
+   */
+  async updateConversation(
+    userId: string,
+    conversationId: string,
+    changes: UpdateConversationRequest
+  ): Promise<ConversationMetadataView & { conversation_id: string }> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException("Conversation not found");
+    }
+
+    if (conversation.type.isDirect()) {
+      throw new BadRequestException("Direct conversations cannot be renamed or reconfigured");
+    }
+
+    const access = await this.accessService.canManageConversation(userId, conversationId);
+    if (!access.allowed) {
+      throw new ForbiddenException(access.reason || "You do not have permission to update this conversation");
+    }
+
+    const metadata = this.buildMetadata(() => {
+      let updated = conversation.metadata ?? ConversationMetadata.createDefault();
+      if (changes.name !== undefined) {
+        updated = updated.updateTitle(changes.name);
+      }
+      if (changes.description !== undefined) {
+        updated = updated.updateDescription(changes.description);
+      }
+      if (changes.avatarUrl !== undefined) {
+        updated = updated.updateAvatar(changes.avatarUrl);
+      }
+      if (changes.settings) {
+        // Leave settings the caller didn't mention untouched
+        const settings = Object.fromEntries(
+          Object.entries(changes.settings).filter(([, value]) => value !== undefined)
+        );
+        updated = updated.updateSettings(settings);
+      }
+      return updated;
+    });
+
+    if (changes.settings?.maxParticipants !== undefined) {
+      const participants = await this.participantRepository.findByConversation(conversationId);
+      if (participants.length > changes.settings.maxParticipants) {
+        throw new BadRequestException(
+          `The conversation already has ${participants.length} participants`
+        );
+      }
+    }
+
+    conversation.metadata = metadata;
+    await this.conversationRepository.save(conversation);
+
+    const view = this.toMetadataView(metadata);
+    await this.chatGateway.sendMessageToConversation(conversationId, "conversation_updated", {
+      conversation_id: conversationId,
+      ...view,
+      updated_by: userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { conversation_id: conversationId, ...view };
+  }
+
+  private toMetadataView(metadata?: ConversationMetadata): ConversationMetadataView {
+    const source = metadata || ConversationMetadata.createDefault();
+    return {
+      name: source.hasTitle() ? source.title : null,
+      description: source.description || null,
+      avatar_url: source.hasAvatar() ? source.avatar : null,
+      settings: {
+        mute_notifications: source.settings?.muteNotifications === true,
+        allow_file_sharing: source.isFileSharingAllowed(),
+        allow_image_sharing: source.isImageSharingAllowed(),
+        max_participants: source.getMaxParticipants(),
+        auto_delete_messages: source.settings?.autoDeleteMessages === true,
+        auto_delete_days: source.settings?.autoDeleteDays ?? null,
+      },
+    };
+  }
+
+  /**
+   * Surface the value object's validation errors as bad requests
+   */
+  private buildMetadata(build: () => ConversationMetadata): ConversationMetadata {
+    try {
+      return build();
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
   private async validateUserAccess(
     conversationId: string,
     userId: string
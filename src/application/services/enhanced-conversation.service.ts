@@ -4,6 +4,7 @@ import { IUserQueryRepository } from '@domain/repositories/user.repository.inter
 import { ConversationType } from '@domain/value-objects/conversation-type.vo';
 import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
 import { Conversation } from '@domain/entities/conversation.entity';
+import { ParticipantAddedEvent, ParticipantRemovedEvent } from '@domain/events/conversation-events';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 export interface CreateDirectConversationRequest {
@@ -188,7 +189,7 @@ export class EnhancedConversationService {
     userId: string,
     role: string,
     addedBy: string,
-  ): Promise<void> {
+  ): Promise<ParticipantAddedEvent> {
     this.logger.log('Adding participant to conversation', {
       service: 'EnhancedConversationService',
       operation: 'addParticipantToConversation',
@@ -205,11 +206,13 @@ export class EnhancedConversationService {
     }
 
     const participantRole = ParticipantRole.fromString(role);
+    const event = new ParticipantAddedEvent(conversationId, userId, participantRole, addedBy);
     await this.conversationRepository.addParticipantToConversation(
       conversationId,
       userId,
       participantRole,
       addedBy,
+      [event],
     );
 
     this.logger.audit('Participant added to conversation', {
@@ -218,6 +221,8 @@ export class EnhancedConversationService {
       role,
       addedBy,
     });
+
+    return event;
   }
 
   async removeParticipantFromConversation(
@@ -225,7 +230,7 @@ export class EnhancedConversationService {
     userId: string,
     removedBy: string,
     reason?: string,
-  ): Promise<void> {
+  ): Promise<ParticipantRemovedEvent> {
     this.logger.log('Removing participant from conversation', {
       service: 'EnhancedConversationService',
       operation: 'removeParticipantFromConversation',
@@ -235,11 +240,13 @@ export class EnhancedConversationService {
       reason,
     });
 
+    const event = new ParticipantRemovedEvent(conversationId, userId, removedBy, reason);
     await this.conversationRepository.removeParticipantFromConversation(
       conversationId,
       userId,
       removedBy,
       reason,
+      [event],
     );
 
     this.logger.audit('Participant removed from conversation', {
@@ -248,6 +255,8 @@ export class EnhancedConversationService {
       removedBy,
       reason,
     });
+
+    return event;
   }
 
   async getUserConversations(userId: string, type?: string): Promise<Conversation[]> {
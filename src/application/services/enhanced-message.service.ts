@@ -1,9 +1,20 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { EnhancedMessageRepository, MessageWithSender, PaginatedMessages } from '@infrastructure/repositories/enhanced-message.repository';
+import {
+  EnhancedMessageRepository,
+  MessageWithSender,
+  PaginatedMessages,
+  MessageRetentionStats,
+  RetentionPolicySettings,
+  RetentionReportEntry,
+  ExpiredMessageRef,
+} from '@infrastructure/repositories/enhanced-message.repository';
 import { IParticipantQueryRepository } from '@domain/repositories/participant.repository.interface';
 import { IConversationQueryRepository } from '@domain/repositories/conversation.repository.interface';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { AttachmentService } from './attachment.service';
 
 export interface SendMessageRequest {
   conversationId: string;
@@ -25,6 +36,20 @@ export interface GetMessagesRequest {
   beforeMessageId?: string;
 }
 
+export interface RetentionRunResult {
+  expired: number;
+  purged: number;
+  /** False when a phase hit the batch cap and left work for the next run */
+  complete: boolean;
+}
+
+export interface RetentionReport {
+  enabled: boolean;
+  policy: RetentionPolicySettings;
+  purgeAfterDays: number;
+  conversations: RetentionReportEntry[];
+}
+
 export interface SearchMessagesRequest {
   conversationId: string;
   userId: string;
@@ -41,6 +66,9 @@ export class EnhancedMessageService {
     @Inject('IConversationQueryRepository')
     private readonly conversationQueryRepository: IConversationQueryRepository,
     private readonly logger: StructuredLoggerService,
+    private readonly chatGateway: ChatGateway,
+    private readonly configService: ConfigService,
+    private readonly attachmentService: AttachmentService,
   ) {}
 
   async sendMessage(request: SendMessageRequest): Promise<MessageWithSender> {
@@ -218,68 +246,28 @@ export class EnhancedMessageService {
     };
   }
 
-  // Scheduled job to apply retention policies
-  @Cron(CronExpression.EVERY_DAY_AT_2AM)
-  async applyRetentionPolicies(): Promise<void> {
+  /**
+   * Expire messages according to each conversation's retention policy, then
+   * purge messages that have been soft deleted past the grace period. Every
+   * run is capped at RETENTION_MAX_BATCHES per phase; whatever is left is
+   * picked up by the next run.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async applyRetentionPolicies(): Promise<RetentionRunResult | null> {
+    if (!this.configService.get<boolean>('RETENTION_ENABLED', true)) {
+      return null;
+    }
+
     this.logger.log('Starting scheduled retention policy application', {
       service: 'EnhancedMessageService',
       operation: 'applyRetentionPolicies',
     });
 
     try {
-      // Get retention stats before cleanup
-      const statsBefore = await this.messageRepository.getMessagesForRetention();
-      
-      this.logger.log('Retention stats before cleanup', {
-        service: 'EnhancedMessageService',
-        operation: 'applyRetentionPolicies',
-        ...statsBefore,
-      });
-
-      // Apply soft delete policy in batches
-      let totalSoftDeleted = 0;
-      let batchSoftDeleted = 0;
-      do {
-        batchSoftDeleted = await this.messageRepository.applySoftDeleteRetentionPolicy(1000);
-        totalSoftDeleted += batchSoftDeleted;
-        
-        if (batchSoftDeleted > 0) {
-          this.logger.debug('Soft delete batch completed', {
-            service: 'EnhancedMessageService',
-            operation: 'applyRetentionPolicies',
-            batchSize: batchSoftDeleted,
-            totalSoftDeleted,
-          });
-        }
-      } while (batchSoftDeleted > 0);
-
-      // Apply hard delete policy in batches
-      let totalHardDeleted = 0;
-      let batchHardDeleted = 0;
-      do {
-        batchHardDeleted = await this.messageRepository.applyHardDeleteRetentionPolicy(1000);
-        totalHardDeleted += batchHardDeleted;
-        
-        if (batchHardDeleted > 0) {
-          this.logger.debug('Hard delete batch completed', {
-            service: 'EnhancedMessageService',
-            operation: 'applyRetentionPolicies',
-            batchSize: batchHardDeleted,
-            totalHardDeleted,
-          });
-        }
-      } while (batchHardDeleted > 0);
-
-      // Get retention stats after cleanup
-      const statsAfter = await this.messageRepository.getMessagesForRetention();
-
-      this.logger.audit('Retention policies applied successfully', {
-        totalSoftDeleted,
-        totalHardDeleted,
-        statsBefore,
-        statsAfter,
-      });
+      const result = await this.runRetention();
 
+      this.logger.audit('Retention policies applied successfully', { ...result });
+      return result;
     } catch (error) {
       this.logger.error('Failed to apply retention policies', error, {
         service: 'EnhancedMessageService',
@@ -293,50 +281,134 @@ export class EnhancedMessageService {
   async manualRetentionCleanup(): Promise<{
     softDeleted: number;
     hardDeleted: number;
-    statsBefore: any;
-    statsAfter: any;
+    statsBefore: MessageRetentionStats;
+    statsAfter: MessageRetentionStats;
   }> {
     this.logger.log('Manual retention cleanup triggered', {
       service: 'EnhancedMessageService',
       operation: 'manualRetentionCleanup',
     });
 
-    const statsBefore = await this.messageRepository.getMessagesForRetention();
-    
-    let totalSoftDeleted = 0;
-    let totalHardDeleted = 0;
+    const policy = this.getRetentionPolicy();
+    const purgeAfterDays = this.getPurgeAfterDays();
 
-    // Apply soft delete policy
-    let batchSoftDeleted = 0;
-    do {
-      batchSoftDeleted = await this.messageRepository.applySoftDeleteRetentionPolicy(1000);
-      totalSoftDeleted += batchSoftDeleted;
-    } while (batchSoftDeleted > 0);
-
-    // Apply hard delete policy
-    let batchHardDeleted = 0;
-    do {
-      batchHardDeleted = await this.messageRepository.applyHardDeleteRetentionPolicy(1000);
-      totalHardDeleted += batchHardDeleted;
-    } while (batchHardDeleted > 0);
-
-    const statsAfter = await this.messageRepository.getMessagesForRetention();
+    const statsBefore = await this.messageRepository.getMessagesForRetention(policy, purgeAfterDays);
+    const result = await this.runRetention();
+    const statsAfter = await this.messageRepository.getMessagesForRetention(policy, purgeAfterDays);
 
     this.logger.audit('Manual retention cleanup completed', {
-      totalSoftDeleted,
-      totalHardDeleted,
+      ...result,
       statsBefore,
       statsAfter,
     });
 
     return {
-      softDeleted: totalSoftDeleted,
-      hardDeleted: totalHardDeleted,
+      softDeleted: result.expired,
+      hardDeleted: result.purged,
       statsBefore,
       statsAfter,
     };
   }
 
+  /**
+   * Dry run: what the next retention pass would expire in the user's
+   * conversations, and which policy level decided it
+   */
+  async getRetentionReport(userId: string, conversationId?: string): Promise<RetentionReport> {
+    let conversationIds: string[];
+    if (conversationId) {
+      const isParticipant = await this.participantQueryRepository.isParticipant(conversationId, userId);
+      if (!isParticipant) {
+        throw new ForbiddenException('Access denied to this conversation');
+      }
+      conversationIds = [conversationId];
+    } else {
+      const participations = await this.participantQueryRepository.findByUser(userId);
+      conversationIds = participations.map(p => p.conversationId);
+    }
+
+    const policy = this.getRetentionPolicy();
+    const conversations = await this.messageRepository.getRetentionReport(policy, conversationIds);
+
+    return {
+      enabled: this.configService.get<boolean>('RETENTION_ENABLED', true),
+      policy,
+      purgeAfterDays: this.getPurgeAfterDays(),
+      conversations,
+    };
+  }
+
+  private async runRetention(): Promise<RetentionRunResult> {
+    const policy = this.getRetentionPolicy();
+    const batchSize = this.configService.get<number>('RETENTION_BATCH_SIZE', 1000);
+    const maxBatches = this.configService.get<number>('RETENTION_MAX_BATCHES', 50);
+
+    let expired = 0;
+    let expireBatches = 0;
+    let batch: ExpiredMessageRef[];
+    do {
+      batch = await this.messageRepository.expireMessages(policy, batchSize);
+      expired += batch.length;
+      expireBatches++;
+      await this.broadcastExpired(batch);
+    } while (batch.length === batchSize && expireBatches < maxBatches);
+    const expiryComplete = batch.length < batchSize;
+
+    let purged = 0;
+    let purgeBatches = 0;
+    let purgedInBatch: number;
+    do {
+      const batchResult = await this.messageRepository.purgeDeletedMessages(this.getPurgeAfterDays(), batchSize);
+      // Files only go once the rows that point at them are committed away
+      await this.attachmentService.deleteStoredFiles(batchResult.storageKeys);
+      purgedInBatch = batchResult.purged;
+      purged += purgedInBatch;
+      purgeBatches++;
+    } while (purgedInBatch === batchSize && purgeBatches < maxBatches);
+
+    return {
+      expired,
+      purged,
+      complete: expiryComplete && purgedInBatch < batchSize,
+    };
+  }
+
+  /**
+   * Tell everyone still in each room which messages are gone so clients can drop local copies
+   */
+  private async broadcastExpired(expired: ExpiredMessageRef[]): Promise<void> {
+    const byConversation = new Map<string, string[]>();
+    for (const ref of expired) {
+      byConversation.set(ref.conversationId, [...(byConversation.get(ref.conversationId) || []), ref.id]);
+    }
+
+    const timestamp = new Date().toISOString();
+    for (const [conversationId, messageIds] of byConversation) {
+      await this.chatGateway.sendMessageToConversation(conversationId, 'messages_expired', {
+        conversation_id: conversationId,
+        message_ids: messageIds,
+        timestamp,
+      });
+    }
+  }
+
+  private getRetentionPolicy(): RetentionPolicySettings {
+    const days = (key: string): number | null => this.configService.get<number>(key) || null;
+
+    return {
+      defaultDays: days('RETENTION_DEFAULT_DAYS'),
+      daysByType: {
+        direct: days('RETENTION_DIRECT_DAYS'),
+        group: days('RETENTION_GROUP_DAYS'),
+        business: days('RETENTION_BUSINESS_DAYS'),
+      },
+    };
+  }
+
+  private getPurgeAfterDays(): number {
+    return this.configService.get<number>('RETENTION_PURGE_AFTER_DAYS', 7);
+  }
+
   private async validateUserIsParticipant(conversationId: string, userId: string): Promise<void> {
     const isParticipant = await this.participantQueryRepository.isParticipant(conversationId, userId);
     if (!isParticipant) {
@@ -0,0 +1,82 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { AttachmentService } from './attachment.service';
+
+/**
+ * Removes disappearing messages once every recipient's read countdown has run
+ * out. The countdowns live on message_receipts.expires_at, so a restart only
+ * delays a sweep rather than losing it.
+ */
+@Injectable()
+export class EphemeralMessageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EphemeralMessageService.name);
+  private sweepTimer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    private readonly attachmentService: AttachmentService,
+    private readonly chatGateway: ChatGateway,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('EPHEMERAL_SWEEP_ENABLED', true)) {
+      this.logger.warn('Ephemeral message sweep is disabled; expired messages will not be removed');
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => this.logger.error('Ephemeral message sweep failed:', error));
+    }, this.configService.get<number>('EPHEMERAL_SWEEP_INTERVAL_MS', 1000));
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * Hard delete one batch of fully expired messages. Returns how many were removed.
+   */
+  async sweepExpired(): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      const expired = await this.messageRepository.findExpiredEphemeral(
+        this.configService.get<number>('EPHEMERAL_BATCH_SIZE', 100),
+      );
+      if (expired.length === 0) {
+        return 0;
+      }
+
+      const deletion = await this.messageRepository.hardDeleteExpired(expired.map(m => m.id));
+      // Files go only after the rows are committed away, so a rollback can't leave dangling records
+      await this.attachmentService.deleteStoredFiles(deletion.storageKeys);
+
+      // Another instance may have swept some of these first; only announce our own
+      const deletedIds = new Set(deletion.deletedIds);
+      const timestamp = new Date().toISOString();
+
+      for (const message of expired.filter(m => deletedIds.has(m.id))) {
+        await this.chatGateway.sendMessageToConversation(message.conversationId, 'message_expired', {
+          message_id: message.id,
+          conversation_id: message.conversationId,
+          timestamp,
+        });
+      }
+
+      this.logger.debug(`Removed ${deletedIds.size} expired ephemeral messages`);
+      return deletedIds.size;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { IConversationRepository } from '@domain/repositories/conversation.repository.interface';
+import {
+  IParticipantRepository,
+  IParticipantCommandRepository,
+} from '@domain/repositories/participant.repository.interface';
+import { Conversation } from '@domain/entities/conversation.entity';
+import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
+import { ConversationMetadata } from '@domain/value-objects/conversation-metadata.vo';
+import { ParticipantAddedEvent, ParticipantRemovedEvent } from '@domain/events/conversation-events';
+import { AlreadyParticipantError, ParticipantLimitReachedError } from '@infrastructure/common/errors/conversation.errors';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { ConversationAccessService } from '@infrastructure/websocket/services/conversation-access.service';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
+import { EnhancedConversationService } from './enhanced-conversation.service';
+import { WebSocketMessageService } from './websocket-message.service';
+
+export interface ParticipantChange {
+  conversation_id: string;
+  user_id: string;
+  role?: string;
+}
+
+/**
+ * Membership changes for group conversations: add, remove, promote/demote and leave.
+ * Every change is broadcast to the room and recorded as a system message.
+ */
+@Injectable()
+export class GroupMembershipService {
+  private readonly logger = new Logger(GroupMembershipService.name);
+
+  constructor(
+    @Inject('IConversationRepository')
+    private readonly conversationRepository: IConversationRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject('IParticipantCommandRepository')
+    private readonly participantCommandRepository: IParticipantCommandRepository,
+    private readonly conversationService: EnhancedConversationService,
+    private readonly accessService: ConversationAccessService,
+    private readonly messageService: WebSocketMessageService,
+    private readonly profileService: SimpleProfileCacheService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  async addParticipant(actorId: string, conversationId: string, userId: string): Promise<ParticipantChange> {
+    const conversation = await this.loadGroup(conversationId);
+    await this.requireManager(actorId, conversationId);
+
+    const participants = await this.participantRepository.findByConversation(conversationId);
+    if (participants.some(p => p.userId === userId)) {
+      throw new AlreadyParticipantError();
+    }
+
+    const maxParticipants = (conversation.metadata ?? ConversationMetadata.createDefault()).getMaxParticipants();
+    if (participants.length >= maxParticipants) {
+      throw new ParticipantLimitReachedError(maxParticipants);
+    }
+
+    let event: ParticipantAddedEvent;
+    try {
+      event = await this.conversationService.addParticipantToConversation(
+        conversationId,
+        userId,
+        ParticipantRole.MEMBER.value,
+        actorId,
+      );
+    } catch (error) {
+      if (error.message === 'User not found') {
+        throw new NotFoundException('User not found');
+      }
+      throw error;
+    }
+
+    await this.publishAdded(event);
+
+    const names = await this.getNames([actorId, userId]);
+    await this.messageService.sendSystemMessage(
+      conversationId,
+      actorId,
+      `${names.get(actorId)} added ${names.get(userId)}`,
+    );
+
+    return { conversation_id: conversationId, user_id: userId, role: event.role.value };
+  }
+
+  async removeParticipant(actorId: string, conversationId: string, userId: string): Promise<ParticipantChange> {
+    await this.loadGroup(conversationId);
+    await this.requireManager(actorId, conversationId);
+
+    if (actorId === userId) {
+      throw new BadRequestException('Use leave to remove yourself from a group');
+    }
+
+    const target = await this.participantRepository.findByConversationAndUser(conversationId, userId);
+    if (!target) {
+      throw new NotFoundException('User is not a participant in this conversation');
+    }
+
+    const event = await this.conversationService.removeParticipantFromConversation(
+      conversationId,
+      userId,
+      actorId,
+      'removed',
+    );
+    await this.publishRemoved(event);
+
+    const names = await this.getNames([actorId, userId]);
+    await this.messageService.sendSystemMessage(
+      conversationId,
+      actorId,
+      `${names.get(actorId)} removed ${names.get(userId)}`,
+    );
+
+    return { conversation_id: conversationId, user_id: userId };
+  }
+
+  async changeRole(
+    actorId: string,
+    conversationId: string,
+    userId: string,
+    role: string,
+  ): Promise<ParticipantChange> {
+    await this.loadGroup(conversationId);
+    await this.requireManager(actorId, conversationId);
+
+    const newRole = role === 'admin' ? ParticipantRole.ADMIN : role === 'member' ? ParticipantRole.MEMBER : null;
+    if (!newRole) {
+      throw new BadRequestException('Role must be admin or member');
+    }
+
+    const participants = await this.participantRepository.findByConversation(conversationId);
+    const target = participants.find(p => p.userId === userId);
+    if (!target) {
+      throw new NotFoundException('User is not a participant in this conversation');
+    }
+
+    if (target.role.equals(newRole)) {
+      return { conversation_id: conversationId, user_id: userId, role: newRole.value };
+    }
+
+    if (target.role.isAdmin() && participants.filter(p => p.role.isAdmin()).length === 1) {
+      throw new BadRequestException('A group must keep at least one admin');
+    }
+
+    await this.updateRole(conversationId, userId, newRole, actorId);
+
+    const names = await this.getNames([actorId, userId]);
+    await this.messageService.sendSystemMessage(
+      conversationId,
+      actorId,
+      newRole.isAdmin()
+        ? `${names.get(actorId)} made ${names.get(userId)} an admin`
+        : `${names.get(actorId)} removed ${names.get(userId)} as admin`,
+    );
+
+    return { conversation_id: conversationId, user_id: userId, role: newRole.value };
+  }
+
+  async leave(userId: string, conversationId: string): Promise<ParticipantChange> {
+    await this.loadGroup(conversationId);
+
+    const participants = await this.participantRepository.findByConversation(conversationId);
+    const leaving = participants.find(p => p.userId === userId);
+    if (!leaving) {
+      throw new NotFoundException('User is not a participant in this conversation');
+    }
+
+    const remaining = participants.filter(p => p.userId !== userId);
+    if (remaining.length === 0) {
+      throw new BadRequestException('The last participant cannot leave the group');
+    }
+
+    // Hand the group to someone else rather than leave it without an admin
+    if (leaving.role.isAdmin() && !remaining.some(p => p.role.isAdmin())) {
+      await this.updateRole(conversationId, remaining[0].userId, ParticipantRole.ADMIN, userId);
+    }
+
+    const event = await this.conversationService.removeParticipantFromConversation(
+      conversationId,
+      userId,
+      userId,
+      'left',
+    );
+    await this.publishRemoved(event);
+
+    const names = await this.getNames([userId]);
+    await this.messageService.sendSystemMessage(conversationId, userId, `${names.get(userId)} left the group`);
+
+    return { conversation_id: conversationId, user_id: userId };
+  }
+
+  private async loadGroup(conversationId: string): Promise<Conversation> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+    if (!conversation.type.isGroup()) {
+      throw new BadRequestException('Only group conversations support membership changes');
+    }
+    return conversation;
+  }
+
+  private async requireManager(userId: string, conversationId: string): Promise<void> {
+    const result = await this.accessService.canManageConversation(userId, conversationId);
+    if (!result.allowed) {
+      throw new ForbiddenException(result.reason || 'You do not have permission to manage this group');
+    }
+  }
+
+  private async updateRole(
+    conversationId: string,
+    userId: string,
+    role: ParticipantRole,
+    changedBy: string,
+  ): Promise<void> {
+    await this.participantCommandRepository.updateRole(conversationId, userId, role);
+
+    await this.chatGateway.sendMessageToConversation(conversationId, 'participant_role_changed', {
+      conversation_id: conversationId,
+      user_id: userId,
+      role: role.value,
+      changed_by: changedBy,
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.log(`User ${userId} is now ${role.value} in conversation ${conversationId}`);
+  }
+
+  private async publishAdded(event: ParticipantAddedEvent): Promise<void> {
+    const payload = {
+      event_id: event.eventId,
+      conversation_id: event.aggregateId,
+      user_id: event.userId,
+      role: event.role.value,
+      added_by: event.addedBy,
+      timestamp: event.occurredOn.toISOString(),
+    };
+
+    await this.chatGateway.sendMessageToConversation(event.aggregateId, 'participant_added', payload);
+    // The new member isn't in the room yet; tell their devices so they can join it
+    await this.chatGateway.sendMessageToUser(event.userId, 'participant_added', payload);
+    this.logger.log(`${event.getEventName()}: user ${event.userId} in conversation ${event.aggregateId}`);
+  }
+
+  private async publishRemoved(event: ParticipantRemovedEvent): Promise<void> {
+    const payload = {
+      event_id: event.eventId,
+      conversation_id: event.aggregateId,
+      user_id: event.userId,
+      removed_by: event.removedBy,
+      reason: event.reason,
+      timestamp: event.occurredOn.toISOString(),
+    };
+
+    // Take the user out of the room first so they get exactly one copy
+    await this.chatGateway.removeUserFromConversation(event.userId, event.aggregateId);
+    await this.chatGateway.sendMessageToConversation(event.aggregateId, 'participant_removed', payload);
+    await this.chatGateway.sendMessageToUser(event.userId, 'participant_removed', payload);
+    this.logger.log(`${event.getEventName()}: user ${event.userId} from conversation ${event.aggregateId}`);
+  }
+
+  private async getNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>(userIds.map(id => [id, 'Someone']));
+    try {
+      const profiles = await this.profileService.getBatchProfiles({ user_ids: userIds });
+      [...profiles.users, ...profiles.businesses].forEach(profile => {
+        if (profile.name) {
+          names.set(profile.id, profile.name);
+        }
+      });
+    } catch (error) {
+      this.logger.warn(`Could not resolve names for system message: ${error.message}`);
+    }
+    return names;
+  }
+}
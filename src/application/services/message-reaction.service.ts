@@ -0,0 +1,171 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { IMessageReactionRepository } from '@domain/repositories/message-reaction.repository.interface';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { ReactionSummary } from '@infrastructure/websocket/types/websocket-events.types';
+
+const SHORTCODE_PATTERN = /^:[a-z0-9_+-]{1,62}:$/;
+const EMOJI_PATTERN = /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}])[\p{Extended_Pictographic}\p{Emoji_Component}\u200D\uFE0F]+$/u;
+const MAX_EMOJI_LENGTH = 64;
+
+export interface ReactionRequest {
+  userId: string;
+  conversationId: string;
+  messageId: string;
+  emoji: string;
+}
+
+export interface ReactionResponse {
+  success: boolean;
+  changed?: boolean;
+  reactions?: ReactionSummary[];
+  error?: string;
+}
+
+@Injectable()
+export class MessageReactionService {
+  private readonly logger = new Logger(MessageReactionService.name);
+
+  constructor(
+    @Inject('IMessageReactionRepository')
+    private readonly reactionRepository: IMessageReactionRepository,
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * Add a reaction and fan the new totals out to the conversation
+   */
+  async addReaction(request: ReactionRequest): Promise<ReactionResponse> {
+    return this.applyReaction(request, 'added');
+  }
+
+  /**
+   * Remove a reaction and fan the new totals out to the conversation
+   */
+  async removeReaction(request: ReactionRequest): Promise<ReactionResponse> {
+    return this.applyReaction(request, 'removed');
+  }
+
+  /**
+   * Get aggregated reactions for a single message
+   */
+  async getReactions(messageId: string): Promise<ReactionSummary[]> {
+    const reactions = await this.reactionRepository.findByMessage(messageId);
+    return this.summarize(reactions);
+  }
+
+  /**
+   * Get aggregated reactions for a page of messages, keyed by message ID
+   */
+  async getReactionSummaries(messageIds: string[]): Promise<Map<string, ReactionSummary[]>> {
+    const summaries = new Map<string, ReactionSummary[]>();
+    if (messageIds.length === 0) {
+      return summaries;
+    }
+
+    try {
+      const reactions = await this.reactionRepository.findByMessageIds(messageIds);
+      const byMessage = new Map<string, MessageReaction[]>();
+      for (const reaction of reactions) {
+        const list = byMessage.get(reaction.messageId) || [];
+        list.push(reaction);
+        byMessage.set(reaction.messageId, list);
+      }
+
+      for (const [messageId, list] of byMessage) {
+        summaries.set(messageId, this.summarize(list));
+      }
+    } catch (error) {
+      this.logger.error(`Error loading reaction summaries:`, error);
+    }
+
+    return summaries;
+  }
+
+  private async applyReaction(
+    request: ReactionRequest,
+    action: 'added' | 'removed'
+  ): Promise<ReactionResponse> {
+    try {
+      const { userId, conversationId, messageId } = request;
+      const emoji = request.emoji?.trim();
+
+      if (!this.isValidEmoji(emoji)) {
+        return { success: false, error: 'Invalid emoji' };
+      }
+
+      const canReact = await this.canUserReact(userId, conversationId, messageId);
+      if (!canReact.allowed) {
+        return { success: false, error: canReact.reason };
+      }
+
+      const changed = action === 'added'
+        ? await this.reactionRepository.add(messageId, userId, emoji)
+        : await this.reactionRepository.remove(messageId, userId, emoji);
+
+      const reactions = await this.getReactions(messageId);
+
+      // Only broadcast real changes so double-clicks don't spam the room
+      if (changed) {
+        await this.chatGateway.sendMessageToConversation(conversationId, 'reaction_updated', {
+          conversation_id: conversationId,
+          message_id: messageId,
+          user_id: userId,
+          emoji,
+          action,
+          reactions,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return { success: true, changed, reactions };
+    } catch (error) {
+      this.logger.error(`Error updating reaction:`, error);
+      return { success: false, error: 'Failed to update reaction' };
+    }
+  }
+
+  private isValidEmoji(emoji: string): boolean {
+    if (!emoji || emoji.length > MAX_EMOJI_LENGTH) {
+      return false;
+    }
+    return SHORTCODE_PATTERN.test(emoji) || EMOJI_PATTERN.test(emoji);
+  }
+
+  private async canUserReact(userId: string, conversationId: string, messageId: string): Promise<{
+    allowed: boolean;
+    reason?: string;
+  }> {
+    const participant = await this.participantRepository.findByConversationAndUser(
+      conversationId,
+      userId
+    );
+    if (!participant) {
+      return { allowed: false, reason: 'User is not a participant in this conversation' };
+    }
+
+    const message = await this.messageRepository.findById(messageId);
+    if (!message || message.conversationId !== conversationId || message.deletedAt) {
+      return { allowed: false, reason: 'Message not found in this conversation' };
+    }
+
+    return { allowed: true };
+  }
+
+  private summarize(reactions: MessageReaction[]): ReactionSummary[] {
+    const byEmoji = new Map<string, ReactionSummary>();
+    for (const reaction of reactions) {
+      const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, user_ids: [] };
+      summary.count++;
+      summary.user_ids.push(reaction.userId);
+      byEmoji.set(reaction.emoji, summary);
+    }
+    return [...byEmoji.values()];
+  }
+}
@@ -0,0 +1,162 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { IMessageReceiptRepository } from '@domain/repositories/message-receipt.repository.interface';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { Message } from '@domain/entities/message.entity';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { ReceiptStatus } from '@domain/value-objects/receipt-status.vo';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { MessageStatusUpdate } from '@infrastructure/websocket/types/websocket-events.types';
+
+export interface MessageReceiptSummary {
+  message_id: string;
+  conversation_id: string;
+  status: string;
+  recipient_count: number;
+  delivered_count: number;
+  read_count: number;
+  read_by: Array<{ user_id: string; read_at: Date }>;
+  delivered_to: Array<{ user_id: string; delivered_at: Date }>;
+}
+
+@Injectable()
+export class MessageReceiptService {
+  private readonly logger = new Logger(MessageReceiptService.name);
+
+  constructor(
+    @Inject('IMessageReceiptRepository')
+    private readonly receiptRepository: IMessageReceiptRepository,
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * Start a 'sent' receipt for every participant other than the sender
+   */
+  async recordSent(message: Message): Promise<void> {
+    try {
+      const participants = await this.participantRepository.findByConversation(message.conversationId);
+      const recipientIds = participants
+        .map(p => p.userId)
+        .filter(userId => userId !== message.senderId);
+
+      await this.receiptRepository.createForRecipients(message.id, message.conversationId, recipientIds);
+    } catch (error) {
+      this.logger.error(`Error recording receipts for message ${message.id}:`, error);
+      // Don't throw - the message itself is already saved
+    }
+  }
+
+  /**
+   * A recipient's socket acknowledged these messages
+   */
+  async markDelivered(userId: string, messageIds: string[]): Promise<void> {
+    try {
+      const updated = await this.receiptRepository.markDelivered(messageIds, userId);
+      await this.notifySenders(updated);
+    } catch (error) {
+      this.logger.error(`Error marking messages delivered for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * A recipient read the conversation up to and including this message
+   */
+  async markRead(userId: string, conversationId: string, lastMessageId: string): Promise<void> {
+    try {
+      const lastMessage = await this.messageRepository.findById(lastMessageId);
+      if (!lastMessage || lastMessage.conversationId !== conversationId) {
+        return;
+      }
+
+      const updated = await this.receiptRepository.markReadUpTo(conversationId, userId, lastMessage.sentAt);
+      await this.notifySenders(updated);
+    } catch (error) {
+      this.logger.error(`Error marking messages read for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Who has received and read a message, for "seen by 3 of 5" style displays
+   */
+  async getReceiptSummary(messageId: string, requesterId: string): Promise<MessageReceiptSummary | null> {
+    const message = await this.messageRepository.findById(messageId);
+    if (!message || message.deletedAt) {
+      return null;
+    }
+
+    const participant = await this.participantRepository.findByConversationAndUser(
+      message.conversationId,
+      requesterId
+    );
+    if (!participant) {
+      return null;
+    }
+
+    const receipts = await this.receiptRepository.findByMessage(messageId);
+    return this.summarize(message, receipts);
+  }
+
+  /**
+   * Push the updated state of the touched messages to their senders, one
+   * message_status event per sender
+   */
+  private async notifySenders(updated: MessageReceipt[]): Promise<void> {
+    if (updated.length === 0) {
+      return;
+    }
+
+    const messageIds = [...new Set(updated.map(r => r.messageId))];
+    const [messages, receipts] = await Promise.all([
+      this.messageRepository.findByIds(messageIds),
+      this.receiptRepository.findByMessageIds(messageIds),
+    ]);
+    const messagesById = new Map(messages.map(m => [m.id, m]));
+    const timestamp = new Date().toISOString();
+
+    const bySender = new Map<string, MessageStatusUpdate[]>();
+    for (const receipt of updated) {
+      const message = messagesById.get(receipt.messageId);
+      if (!message) {
+        continue;
+      }
+
+      const summary = this.summarize(message, receipts.filter(r => r.messageId === message.id));
+      const statuses = bySender.get(message.senderId) || [];
+      statuses.push({
+        message_id: message.id,
+        conversation_id: message.conversationId,
+        user_id: receipt.userId,
+        status: receipt.status.value as MessageStatusUpdate['status'],
+        aggregate_status: summary.status as MessageStatusUpdate['aggregate_status'],
+        recipient_count: summary.recipient_count,
+        delivered_count: summary.delivered_count,
+        read_count: summary.read_count,
+      });
+      bySender.set(message.senderId, statuses);
+    }
+
+    for (const [senderId, statuses] of bySender) {
+      await this.chatGateway.sendMessageToUser(senderId, 'message_status', { statuses, timestamp });
+    }
+  }
+
+  private summarize(message: Message, receipts: MessageReceipt[]): MessageReceiptSummary {
+    const read = receipts.filter(r => r.status.isRead());
+    const delivered = receipts.filter(r => r.status.isDelivered() || r.status.isRead());
+
+    return {
+      message_id: message.id,
+      conversation_id: message.conversationId,
+      status: ReceiptStatus.lowest(receipts.map(r => r.status)).value,
+      recipient_count: receipts.length,
+      delivered_count: delivered.length,
+      read_count: read.length,
+      read_by: read.map(r => ({ user_id: r.userId, read_at: r.readAt })),
+      delivered_to: delivered.map(r => ({ user_id: r.userId, delivered_at: r.deliveredAt })),
+    };
+  }
+}
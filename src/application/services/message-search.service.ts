@@ -0,0 +1,89 @@
+import { Injectable, Logger, Inject, BadRequestException } from '@nestjs/common';
+import { IMessageRepository, MessageSearchHit } from '@domain/repositories/message.repository.interface';
+import { SearchCursor } from '@domain/value-objects/search-cursor.vo';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_QUERY_LENGTH = 200;
+
+export interface SearchMessagesRequest {
+  userId: string;
+  query: string;
+  senderId?: string;
+  conversationType?: string;
+  messageType?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SearchMessagesPage {
+  hits: MessageSearchHit[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Full-text search across every conversation the caller participates in
+ */
+@Injectable()
+export class MessageSearchService {
+  private readonly logger = new Logger(MessageSearchService.name);
+
+  constructor(
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+  ) {}
+
+  async search(request: SearchMessagesRequest): Promise<SearchMessagesPage> {
+    const query = request.query?.trim();
+    if (!query) {
+      throw new BadRequestException('Search query is required');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new BadRequestException(`Search query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+    if (request.from && request.to && request.from > request.to) {
+      throw new BadRequestException('Search date range is invalid');
+    }
+
+    const limit = Math.min(Math.max(request.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    let after: SearchCursor | undefined;
+    if (request.cursor) {
+      try {
+        after = SearchCursor.decode(request.cursor);
+      } catch {
+        throw new BadRequestException('Invalid search cursor');
+      }
+    }
+
+    const hits = await this.messageRepository.searchForUser(
+      request.userId,
+      {
+        query,
+        senderId: request.senderId,
+        conversationType: request.conversationType,
+        messageType: request.messageType,
+        from: request.from,
+        to: request.to,
+        after,
+      },
+      limit + 1,
+    );
+
+    const hasMore = hits.length > limit;
+    const page = hasMore ? hits.slice(0, limit) : hits;
+    const last = page[page.length - 1];
+
+    this.logger.debug(`Search by user ${request.userId} returned ${page.length} results`);
+
+    return {
+      hits: page,
+      nextCursor: hasMore && last
+        ? SearchCursor.create(last.rank, last.message.id, last.message.sentAt).encode()
+        : null,
+      hasMore,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { IDeviceSyncCursorRepository } from '@domain/repositories/device-sync-cursor.repository.interface';
+import { Message } from '@domain/entities/message.entity';
+import { SyncCursor } from '@domain/value-objects/sync-cursor.vo';
+
+const SYNC_BATCH_SIZE = 100;
+const MAX_DEVICE_ID_LENGTH = 128;
+
+export interface SyncPage {
+  messages: Message[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+/**
+ * Cursor-based catch-up for reconnecting devices.
+ *
+ * Each device keeps its own cursor, and the server only moves it when the
+ * device acks a batch or a live delivery. A dropped connection therefore
+ * replays at most what went unacknowledged, and acknowledged messages are
+ * never sent again.
+ */
+@Injectable()
+export class MessageSyncService {
+  private readonly logger = new Logger(MessageSyncService.name);
+
+  constructor(
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    @Inject('IDeviceSyncCursorRepository')
+    private readonly cursorRepository: IDeviceSyncCursorRepository,
+  ) {}
+
+  /**
+   * First page after (re)connecting, from the client's cursor or the one stored for the device
+   */
+  async startSync(userId: string, deviceId: string, clientCursor?: string): Promise<SyncPage> {
+    this.validateDeviceId(deviceId);
+
+    const stored = await this.cursorRepository.findByUserAndDevice(userId, deviceId);
+    let cursor: SyncCursor;
+    if (stored) {
+      // Live acks only move the stored cursor, so it can be ahead of the client's copy
+      const storedCursor = SyncCursor.create(stored.positions);
+      cursor = clientCursor ? this.decodeOr(clientCursor, storedCursor).merge(storedCursor) : storedCursor;
+    } else if (clientCursor) {
+      cursor = SyncCursor.decode(clientCursor);
+    } else {
+      // A new device starts at the head of the stream; older history comes from the REST API
+      cursor = await this.messageRepository.findSyncHeadsForUser(userId);
+      await this.cursorRepository.advance(userId, deviceId, cursor);
+      this.logger.debug(`Registered sync cursor for new device ${deviceId} of user ${userId}`);
+    }
+
+    return this.fetchPage(userId, cursor);
+  }
+
+  /**
+   * Record the device's ack and return the next page, or null once it is caught up
+   */
+  async acknowledge(userId: string, deviceId: string, encodedCursor: string): Promise<SyncPage | null> {
+    this.validateDeviceId(deviceId);
+
+    await this.cursorRepository.advance(userId, deviceId, SyncCursor.decode(encodedCursor));
+
+    // Read back the merged cursor, which includes anything acked live meanwhile
+    const stored = await this.cursorRepository.findByUserAndDevice(userId, deviceId);
+    const cursor = SyncCursor.create(stored?.positions);
+    const page = await this.fetchPage(userId, cursor);
+    return page.messages.length > 0 ? page : null;
+  }
+
+  /**
+   * Move the device's cursor past messages it received live. A message only
+   * counts once the device has everything before it in its conversation, so
+   * a gap left by a dropped connection is still replayed by the next sync.
+   * Gaps left by messages that no longer exist don't hold it back.
+   */
+  async acknowledgeLive(userId: string, deviceId: string, messageIds: string[]): Promise<void> {
+    this.validateDeviceId(deviceId);
+
+    const messages = await this.messageRepository.findByIds(messageIds);
+    const ordered = [...messages].sort((a, b) =>
+      a.conversationId === b.conversationId ? a.seq - b.seq : a.conversationId.localeCompare(b.conversationId)
+    );
+
+    for (const message of ordered) {
+      await this.cursorRepository.advanceContiguous(userId, deviceId, message.conversationId, message.seq);
+    }
+  }
+
+  private async fetchPage(userId: string, cursor: SyncCursor): Promise<SyncPage> {
+    const messages = await this.messageRepository.findForSync(userId, cursor, SYNC_BATCH_SIZE + 1);
+    const hasMore = messages.length > SYNC_BATCH_SIZE;
+    const page = hasMore ? messages.slice(0, SYNC_BATCH_SIZE) : messages;
+
+    return {
+      messages: page,
+      cursor: cursor.advancedTo(page).encode(),
+      hasMore,
+    };
+  }
+
+  /**
+   * Cursors from before per-conversation sequences no longer decode; the
+   * stored cursor is a safe place to resume from for those
+   */
+  private decodeOr(encoded: string, fallback: SyncCursor): SyncCursor {
+    try {
+      return SyncCursor.decode(encoded);
+    } catch {
+      this.logger.debug('Ignoring an undecodable client sync cursor in favour of the stored one');
+      return fallback;
+    }
+  }
+
+  private validateDeviceId(deviceId: string): void {
+    if (typeof deviceId !== 'string' || deviceId.trim().length === 0 || deviceId.length > MAX_DEVICE_ID_LENGTH) {
+      throw new Error('A device ID of up to 128 characters is required');
+    }
+  }
+}
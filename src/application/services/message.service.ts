@@ -4,10 +4,14 @@ import { Repository } from 'typeorm';
 import { Message } from '@domain/entities/message.entity';
 import { Conversation } from '@domain/entities/conversation.entity';
 import { Participant } from '@domain/entities/participant.entity';
+import { MessageRevision } from '@domain/entities/message-revision.entity';
 import { MessageFactory } from '@domain/factories/message.factory';
 import { MessageContent } from '@domain/value-objects/message-content.vo';
 import { MessageType } from '@domain/value-objects/message-type.vo';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { ContentModerationService } from '@infrastructure/moderation/content-moderation.service';
+import { InputSanitizationService } from '@infrastructure/websocket/services/input-sanitization.service';
+import { MessageRejectedError } from '@infrastructure/common/errors/moderation.errors';
 
 @Injectable()
 export class MessageService {
@@ -18,7 +22,11 @@ export class MessageService {
     private readonly conversationRepository: Repository<Conversation>,
     @InjectRepository(Participant)
     private readonly participantRepository: Repository<Participant>,
+    @InjectRepository(MessageRevision)
+    private readonly revisionRepository: Repository<MessageRevision>,
     private readonly logger: StructuredLoggerService,
+    private readonly moderationService: ContentModerationService,
+    private readonly sanitizationService: InputSanitizationService,
   ) {}
 
   async sendMessage(params: {
@@ -36,10 +44,28 @@ export class MessageService {
     });
 
     // Validate conversation exists and user is participant
-    await this.validateUserCanSendMessage(params.conversationId, params.senderId);
+    const conversation = await this.validateUserCanSendMessage(params.conversationId, params.senderId);
+
+    // Enforce the conversation's file/image sharing settings
+    const messageType = params.type || 'text';
+    if (conversation.metadata && !conversation.metadata.isMessageTypeAllowed(messageType)) {
+      throw new Error(
+        messageType === 'image'
+          ? 'Image sharing is disabled in this conversation'
+          : 'File sharing is disabled in this conversation',
+      );
+    }
+
+    const moderation = await this.moderationService.moderate(params.content, {
+      senderId: params.senderId,
+      conversationId: params.conversationId,
+    });
+    if (moderation.rejection) {
+      throw new MessageRejectedError(moderation.rejection);
+    }
 
     // Use factory to create message with validation
-    const { message } = MessageFactory.create(params);
+    const { message } = MessageFactory.create({ ...params, content: moderation.content });
 
     // Save message
     const savedMessage = await this.messageRepository.save(message);
@@ -79,9 +105,36 @@ export class MessageService {
     // Business rule validations
     this.validateCanEditMessage(message, editedBy);
 
-    // Update message content
-    message.content = MessageContent.create(newContent);
-    const savedMessage = await this.messageRepository.save(message);
+    // Edits go through the same checks as new messages, whichever transport they came in on
+    const sanitizedContent = this.sanitizationService.sanitizeMessageContent(newContent);
+    const moderation = await this.moderationService.moderate(sanitizedContent, {
+      senderId: editedBy,
+      conversationId: message.conversationId,
+      isEdit: true,
+    });
+    if (moderation.rejection) {
+      throw new MessageRejectedError(moderation.rejection);
+    }
+
+    const updatedContent = MessageContent.create(moderation.content);
+    if (updatedContent.equals(message.content)) {
+      return message;
+    }
+
+    // Keep the previous content as a revision and update the message atomically
+    const previousContent = message.content.content;
+    message.content = updatedContent;
+    message.editedAt = new Date();
+
+    const savedMessage = await this.messageRepository.manager.transaction(async (manager) => {
+      const revision = manager.create(MessageRevision, {
+        messageId: message.id,
+        content: previousContent,
+        editedBy,
+      });
+      await manager.save(revision);
+      return manager.save(message);
+    });
 
     this.logger.audit('Message edited', {
       messageId,
@@ -92,7 +145,7 @@ export class MessageService {
     return savedMessage;
   }
 
-  async deleteMessage(messageId: string, deletedBy: string): Promise<void> {
+  async deleteMessage(messageId: string, deletedBy: string): Promise<Message> {
     this.logger.log('Deleting message', {
       service: 'MessageService',
       operation: 'deleteMessage',
@@ -113,13 +166,38 @@ export class MessageService {
 
     // Soft delete message
     message.deletedAt = new Date();
-    await this.messageRepository.save(message);
+    const savedMessage = await this.messageRepository.save(message);
 
     this.logger.audit('Message deleted', {
       messageId,
       deletedBy,
       conversationId: message.conversationId,
     });
+
+    return savedMessage;
+  }
+
+  async getMessageHistory(
+    messageId: string,
+    userId: string,
+  ): Promise<{ message: Message; revisions: MessageRevision[] }> {
+    const message = await this.messageRepository.findOne({
+      where: { id: messageId },
+    });
+
+    if (!message || message.deletedAt) {
+      throw new Error('Message not found');
+    }
+
+    // Validate user is participant
+    await this.validateUserIsParticipant(message.conversationId, userId);
+
+    const revisions = await this.revisionRepository.find({
+      where: { messageId },
+      order: { editedAt: 'ASC' },
+    });
+
+    return { message, revisions };
   }
 
   async getMessages(
@@ -188,7 +266,7 @@ export class MessageService {
     });
   }
 
-  private async validateUserCanSendMessage(conversationId: string, senderId: string): Promise<void> {
+  private async validateUserCanSendMessage(conversationId: string, senderId: string): Promise<Conversation> {
     const conversation = await this.conversationRepository.findOne({
       where: { id: conversationId },
       relations: ['participants'],
@@ -202,6 +280,8 @@ export class MessageService {
     if (!isParticipant) {
       throw new Error('User is not authorized to send messages in this conversation');
     }
+
+    return conversation;
   }
 
   private async validateUserIsParticipant(conversationId: string, userId: string): Promise<void> {
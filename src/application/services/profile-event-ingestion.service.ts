@@ -0,0 +1,120 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IParticipantQueryRepository } from '@domain/repositories/participant.repository.interface';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+import {
+  ProfileCacheEventHandler,
+  ProfileEvent,
+  PROFILE_EVENT_TYPES,
+} from '@infrastructure/cache/profile-cache-event.handler';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { ProfileUpdatedEvent } from '@infrastructure/websocket/types/websocket-events.types';
+
+export type ProfileEventOutcome = 'processed' | 'duplicate' | 'stale';
+
+/**
+ * Whether an untrusted payload has the shape of a kaha-main-v3 profile event
+ */
+export function isProfileEvent(value: any): value is ProfileEvent & { event_id: string } {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    PROFILE_EVENT_TYPES.includes(value.type) &&
+    ((typeof value.id === 'string' && value.id.length > 0) || Number.isInteger(value.id)) &&
+    typeof value.event_id === 'string' &&
+    value.event_id.length > 0 &&
+    typeof value.timestamp === 'string' &&
+    !isNaN(Date.parse(value.timestamp))
+  );
+}
+
+/**
+ * Applies profile change events from kaha-main-v3, whether they arrive via
+ * the signed webhook or the Redis stream. Redelivered events are skipped by
+ * event ID, and an event older than the last one applied to the same profile
+ * is ignored so out-of-order delivery can't roll a profile back. Contacts of
+ * the changed profile get a profile_updated push.
+ */
+@Injectable()
+export class ProfileEventIngestionService {
+  private readonly logger = new Logger(ProfileEventIngestionService.name);
+
+  constructor(
+    private readonly eventHandler: ProfileCacheEventHandler,
+    private readonly profileService: SimpleProfileCacheService,
+    @Inject('IParticipantQueryRepository')
+    private readonly participantQueryRepository: IParticipantQueryRepository,
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+    private readonly chatGateway: ChatGateway,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async ingest(event: ProfileEvent & { event_id: string }): Promise<ProfileEventOutcome> {
+    const dedupTtl = this.configService.get<number>('PROFILE_EVENTS_DEDUP_TTL_SECONDS', 86400);
+    const profileId = String(event.id);
+    const kind = event.type.startsWith('business.') ? 'business' : 'user';
+
+    // INCR is atomic, so only one instance wins a redelivered event
+    const seenKey = `profile_event:seen:${event.event_id}`;
+    if ((await this.cache.increment(seenKey)) > 1) {
+      this.logger.debug(`Skipping duplicate profile event ${event.event_id}`);
+      return 'duplicate';
+    }
+
+    try {
+      await this.cache.expire(seenKey, dedupTtl);
+
+      const occurredAt = Date.parse(event.timestamp);
+      const lastKey = `profile_event:last:${kind}:${profileId}`;
+      // Compared and recorded in one step so two instances can't both pass with different events
+      if (!(await this.cache.setMax(lastKey, occurredAt, dedupTtl))) {
+        this.logger.debug(`Ignoring profile event ${event.event_id} for ${kind} ${profileId}; a newer one was applied`);
+        return 'stale';
+      }
+
+      await this.eventHandler.handleProfileEvent(event);
+      this.logger.log(`Applied ${event.type} for ${kind} ${profileId}`);
+    } catch (error) {
+      // Let a redelivery try again
+      await this.cache.delete(seenKey).catch(() => undefined);
+      throw error;
+    }
+
+    this.notifyContacts(profileId, kind, event).catch(error =>
+      this.logger.error(`Error pushing profile update for ${kind} ${profileId}:`, error),
+    );
+
+    return 'processed';
+  }
+
+  private async notifyContacts(profileId: string, kind: 'user' | 'business', event: ProfileEvent): Promise<void> {
+    const contactIds = await this.participantQueryRepository.findContactUserIds(profileId);
+    if (contactIds.length === 0) {
+      return;
+    }
+
+    const deleted = event.type.endsWith('.deleted');
+    const profile = deleted
+      ? null
+      : kind === 'business'
+        ? await this.profileService.getBusinessProfile(profileId)
+        : await this.profileService.getUserProfile(profileId);
+
+    const payload: ProfileUpdatedEvent = {
+      user_id: profileId,
+      user_type: kind,
+      deleted,
+      profile: profile && {
+        name: profile.name,
+        avatar_url: profile.avatar_url ?? null,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.chatGateway.sendMessageToUsers(contactIds, 'profile_updated', payload);
+
+    this.logger.debug(`Pushed profile update for ${kind} ${profileId} to ${contactIds.length} contacts`);
+  }
+}
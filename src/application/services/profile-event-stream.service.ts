@@ -0,0 +1,194 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import Redis from 'ioredis';
+import { isProfileEvent, ProfileEventIngestionService } from './profile-event-ingestion.service';
+
+const READ_COUNT = 20;
+const BLOCK_MS = 5000;
+const ERROR_BACKOFF_MS = 5000;
+
+type StreamEntry = [id: string, fields: string[]];
+type PendingEntry = [id: string, consumer: string, idleMs: number, deliveries: number];
+
+/**
+ * Optional consumer for profile events published by kaha-main-v3 on a Redis
+ * stream. Each instance joins the same consumer group, so every entry is
+ * handled by one instance. Entries carry the JSON event in an `event` field
+ * and are acknowledged once applied. Entries left pending by a failure or
+ * by a consumer that went away are claimed again once they have sat idle for
+ * a while; after too many deliveries they move to a dead-letter stream.
+ */
+@Injectable()
+export class ProfileEventStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProfileEventStreamService.name);
+  private redis?: Redis;
+  private running = false;
+
+  constructor(
+    private readonly ingestionService: ProfileEventIngestionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('PROFILE_EVENTS_STREAM_ENABLED', false)) {
+      return;
+    }
+
+    const redisConfig = this.configService.get('redis');
+    // XREADGROUP blocks its connection, so the consumer gets one of its own
+    this.redis = new Redis({
+      host: redisConfig.host,
+      port: redisConfig.port,
+      password: redisConfig.password,
+      maxRetriesPerRequest: null,
+    });
+    this.redis.on('error', error => this.logger.error('Profile event stream Redis connection error:', error));
+
+    this.running = true;
+    this.consume().catch(error => this.logger.error('Profile event stream consumer stopped:', error));
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    this.redis?.disconnect();
+  }
+
+  private async consume(): Promise<void> {
+    const stream = this.configService.get<string>('PROFILE_EVENTS_STREAM_KEY', 'kaha:profile-events');
+    const group = this.configService.get<string>('PROFILE_EVENTS_STREAM_GROUP', 'chat-backend');
+    // Stable across restarts so pending entries come back to the same consumer
+    const consumer = this.configService.get<string>('PROFILE_EVENTS_STREAM_CONSUMER') || hostname();
+
+    await this.ensureGroup(stream, group);
+    this.logger.log(`Consuming profile events from ${stream} as ${group}/${consumer}`);
+
+    // Start with anything this consumer claimed but never acknowledged
+    let cursor = '0';
+    let nextReclaimAt = 0;
+
+    while (this.running) {
+      try {
+        if (Date.now() >= nextReclaimAt) {
+          nextReclaimAt = Date.now() + this.configService.get<number>('PROFILE_EVENTS_STREAM_RECLAIM_IDLE_MS', 60000);
+          await this.reclaimIdle(stream, group, consumer);
+        }
+
+        const response = (await this.redis.xreadgroup(
+          'GROUP', group, consumer,
+          'COUNT', READ_COUNT,
+          'BLOCK', BLOCK_MS,
+          'STREAMS', stream, cursor,
+        )) as Array<[string, StreamEntry[]]> | null;
+
+        const entries = response?.[0]?.[1] ?? [];
+        // The replay of pending entries is done once a read past the last one comes back empty
+        if (cursor !== '>' && entries.length === 0) {
+          cursor = '>';
+          continue;
+        }
+
+        for (const [id, fields] of entries) {
+          await this.handleEntry(stream, group, id, fields);
+        }
+        if (cursor !== '>') {
+          cursor = entries[entries.length - 1][0];
+        }
+      } catch (error) {
+        if (!this.running) {
+          break;
+        }
+        this.logger.error('Error reading profile event stream:', error);
+        await new Promise(resolve => setTimeout(resolve, ERROR_BACKOFF_MS));
+      }
+    }
+  }
+
+  private async handleEntry(stream: string, group: string, id: string, fields: string[]): Promise<void> {
+    const index = fields.indexOf('event');
+    let event: unknown;
+    try {
+      event = index >= 0 ? JSON.parse(fields[index + 1]) : null;
+    } catch {
+      event = null;
+    }
+
+    if (!isProfileEvent(event)) {
+      // Retrying won't fix a malformed entry
+      this.logger.warn(`Discarding malformed profile event stream entry ${id}`);
+      await this.redis.xack(stream, group, id);
+      return;
+    }
+
+    try {
+      await this.ingestionService.ingest(event);
+      await this.redis.xack(stream, group, id);
+    } catch (error) {
+      // Stays pending until reclaimIdle picks it up again
+      this.logger.error(`Failed to apply profile event ${event.event_id} from stream entry ${id}:`, error);
+    }
+  }
+
+  /**
+   * Claim entries that have gone unacknowledged for longer than the idle
+   * threshold, whichever consumer held them, and apply them again
+   */
+  private async reclaimIdle(stream: string, group: string, consumer: string): Promise<void> {
+    const minIdleMs = this.configService.get<number>('PROFILE_EVENTS_STREAM_RECLAIM_IDLE_MS', 60000);
+    const maxDeliveries = this.configService.get<number>('PROFILE_EVENTS_STREAM_MAX_DELIVERIES', 5);
+
+    const pending = (await this.redis.xpending(stream, group, 'IDLE', minIdleMs, '-', '+', READ_COUNT)) as PendingEntry[];
+    for (const [id, , , deliveries] of pending) {
+      const claimed = (await this.redis.xclaim(stream, group, consumer, minIdleMs, id)) as Array<StreamEntry | null>;
+      if (claimed.length === 0) {
+        // Another instance claimed it first
+        continue;
+      }
+
+      const fields = claimed[0]?.[1];
+      if (!fields) {
+        // Trimmed from the stream; there is nothing left to apply
+        await this.redis.xack(stream, group, id);
+        continue;
+      }
+
+      if (deliveries >= maxDeliveries) {
+        await this.deadLetter(stream, group, id, fields, deliveries);
+        continue;
+      }
+
+      this.logger.warn(`Retrying profile event stream entry ${id} (delivery ${deliveries + 1} of ${maxDeliveries})`);
+      await this.handleEntry(stream, group, id, fields);
+    }
+  }
+
+  private async deadLetter(
+    stream: string,
+    group: string,
+    id: string,
+    fields: string[],
+    deliveries: number,
+  ): Promise<void> {
+    const deadLetterStream = this.configService.get<string>(
+      'PROFILE_EVENTS_STREAM_DEAD_LETTER_KEY',
+      'kaha:profile-events:dead',
+    );
+
+    await this.redis
+      .multi()
+      .xadd(deadLetterStream, '*', ...fields, 'source_id', id, 'deliveries', String(deliveries))
+      .xack(stream, group, id)
+      .exec();
+    this.logger.error(`Moved profile event stream entry ${id} to ${deadLetterStream} after ${deliveries} deliveries`);
+  }
+
+  private async ensureGroup(stream: string, group: string): Promise<void> {
+    try {
+      await this.redis.xgroup('CREATE', stream, group, '$', 'MKSTREAM');
+    } catch (error) {
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+}
@@ -1,34 +1,112 @@
 import { Module, OnModuleInit } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { WebSocketMessageService } from './websocket-message.service';
 import { ConversationService } from './conversation.service';
+import { MessageReactionService } from './message-reaction.service';
+import { MessageService } from './message.service';
+import { AttachmentService } from './attachment.service';
+import { MessageReceiptService } from './message-receipt.service';
+import { UserPresenceService } from './user-presence.service';
+import { MessageSyncService } from './message-sync.service';
+import { MessageSearchService } from './message-search.service';
+import { EnhancedConversationService } from './enhanced-conversation.service';
+import { GroupMembershipService } from './group-membership.service';
+import { WebhookSubscriptionService } from './webhook-subscription.service';
+import { EnhancedMessageService } from './enhanced-message.service';
+import { EphemeralMessageService } from './ephemeral-message.service';
+import { ConversationInboxService } from './conversation-inbox.service';
+import { UserBlockService } from './user-block.service';
+import { UserReportService } from './user-report.service';
+import { BusinessInboxService } from './business-inbox.service';
+import { BusinessHoursService } from './business-hours.service';
+import { BusinessAutoReplyService } from './business-auto-reply.service';
+import { ProfileEventIngestionService } from './profile-event-ingestion.service';
+import { ProfileEventStreamService } from './profile-event-stream.service';
+import { Message } from '@domain/entities/message.entity';
+import { Conversation } from '@domain/entities/conversation.entity';
+import { Participant } from '@domain/entities/participant.entity';
+import { MessageRevision } from '@domain/entities/message-revision.entity';
 import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
 import { RepositoryModule } from '@infrastructure/repositories/repository.module';
 import { WebSocketModule } from '@infrastructure/websocket/websocket.module';
 import { ProfileModule } from '@infrastructure/profile/profile.module';
+import { StorageModule } from '@infrastructure/storage/storage.module';
+import { CacheModule } from '@infrastructure/cache/cache.module';
+import { ModerationModule } from '@infrastructure/moderation/moderation.module';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([Message, Conversation, Participant, MessageRevision]),
     RepositoryModule,
     WebSocketModule,
     ProfileModule,
+    StorageModule,
+    CacheModule,
+    ModerationModule,
   ],
   providers: [
     WebSocketMessageService,
     ConversationService,
+    MessageReactionService,
+    MessageService,
+    AttachmentService,
+    MessageReceiptService,
+    UserPresenceService,
+    MessageSyncService,
+    MessageSearchService,
+    EnhancedConversationService,
+    GroupMembershipService,
+    WebhookSubscriptionService,
+    EnhancedMessageService,
+    EphemeralMessageService,
+    ConversationInboxService,
+    UserBlockService,
+    UserReportService,
+    BusinessInboxService,
+    BusinessHoursService,
+    BusinessAutoReplyService,
+    ProfileEventIngestionService,
+    ProfileEventStreamService,
   ],
   exports: [
     WebSocketMessageService,
     ConversationService,
+    MessageReactionService,
+    MessageService,
+    AttachmentService,
+    MessageReceiptService,
+    UserPresenceService,
+    MessageSyncService,
+    MessageSearchService,
+    EnhancedConversationService,
+    GroupMembershipService,
+    WebhookSubscriptionService,
+    EnhancedMessageService,
+    ConversationInboxService,
+    UserBlockService,
+    UserReportService,
+    BusinessInboxService,
+    BusinessHoursService,
+    BusinessAutoReplyService,
+    ProfileEventIngestionService,
   ],
 })
 export class ServicesModule implements OnModuleInit {
   constructor(
     private readonly messageService: WebSocketMessageService,
     private readonly chatGateway: ChatGateway,
+    private readonly presenceService: UserPresenceService,
+    private readonly groupService: GroupMembershipService,
+    private readonly inboxService: ConversationInboxService,
+    private readonly blockService: UserBlockService,
   ) {}
 
   onModuleInit() {
     // Inject message service into chat gateway to avoid circular dependency
     this.chatGateway.setMessageService(this.messageService);
+    this.chatGateway.setPresenceService(this.presenceService);
+    this.chatGateway.setGroupService(this.groupService);
+    this.chatGateway.setInboxService(this.inboxService);
+    this.chatGateway.setBlockService(this.blockService);
   }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { Injectable, Inject, Logger, BadRequestException } from '@nestjs/common';
+import { IUserBlockRepository } from '@domain/repositories/user-block.repository.interface';
+import { UserBlock } from '@domain/entities/user-block.entity';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+
+// Bounds how long a block can go unnoticed if a read races the invalidation
+const BLOCKER_IDS_TTL_SECONDS = 60;
+
+export interface BlockedUserView {
+  user_id: string;
+  blocked_at: Date;
+}
+
+/**
+ * Per-user block lists. A block stops new direct conversations and messages
+ * in an existing direct conversation between the pair, and hides the blocked
+ * user's typing indicators from the blocker in groups.
+ */
+@Injectable()
+export class UserBlockService {
+  private readonly logger = new Logger(UserBlockService.name);
+
+  constructor(
+    @Inject('IUserBlockRepository')
+    private readonly blockRepository: IUserBlockRepository,
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+  ) {}
+
+  async block(userId: string, targetUserId: string): Promise<BlockedUserView> {
+    if (userId === targetUserId) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+
+    const block = await this.blockRepository.block(userId, targetUserId);
+    await this.cache.delete(this.blockerIdsKey(targetUserId));
+    this.logger.log(`User ${userId} blocked ${targetUserId}`);
+    return this.toView(block);
+  }
+
+  async unblock(userId: string, targetUserId: string): Promise<void> {
+    await this.blockRepository.unblock(userId, targetUserId);
+    await this.cache.delete(this.blockerIdsKey(targetUserId));
+    this.logger.log(`User ${userId} unblocked ${targetUserId}`);
+  }
+
+  async listBlocked(
+    userId: string,
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<{ blocked_users: BlockedUserView[]; total: number }> {
+    const { blocks, total } = await this.blockRepository.findByBlocker(userId, limit, offset);
+    return { blocked_users: blocks.map(block => this.toView(block)), total };
+  }
+
+  /**
+   * True if either user has blocked the other
+   */
+  async isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+    return this.blockRepository.existsBetween(userId1, userId2);
+  }
+
+  /**
+   * Users who should not see anything ephemeral (such as typing) from this user.
+   * Read on every typing event, so it is cached until the user is blocked or unblocked.
+   */
+  async getBlockerIds(userId: string): Promise<string[]> {
+    const key = this.blockerIdsKey(userId);
+    const cached = await this.cache.get<string[]>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const blockerIds = await this.blockRepository.findBlockerIds(userId);
+    await this.cache.set(key, blockerIds, BLOCKER_IDS_TTL_SECONDS);
+    return blockerIds;
+  }
+
+  private blockerIdsKey(userId: string): string {
+    return `user_blocks:blockers:${userId}`;
+  }
+
+  private toView(block: UserBlock): BlockedUserView {
+    return {
+      user_id: block.blockedId,
+      blocked_at: block.createdAt,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { IParticipantQueryRepository } from '@domain/repositories/participant.repository.interface';
+import { PresenceService, UserPresence } from '@infrastructure/cache/presence.service';
+import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { WebSocketConnectionService } from '@infrastructure/websocket/services/websocket-connection.service';
+
+@Injectable()
+export class UserPresenceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserPresenceService.name);
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly presenceService: PresenceService,
+    @Inject('IParticipantQueryRepository')
+    private readonly participantQueryRepository: IParticipantQueryRepository,
+    private readonly chatGateway: ChatGateway,
+    private readonly connectionService: WebSocketConnectionService,
+  ) {}
+
+  onModuleInit() {
+    // Keep this instance's sockets alive in the shared presence store, and
+    // report users whose instance went away without disconnecting them
+    this.heartbeatTimer = setInterval(() => {
+      this.presenceService
+        .heartbeat(this.connectionService.getConnectedSockets())
+        .catch(error => this.logger.error('Presence heartbeat failed:', error));
+      this.sweepExpired().catch(error => this.logger.error('Presence sweep failed:', error));
+    }, this.presenceService.getHeartbeatIntervalMs());
+  }
+
+  onModuleDestroy() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+    }
+  }
+
+  async userConnected(userId: string, socketId: string): Promise<void> {
+    const change = await this.presenceService.connect(userId, socketId);
+    await this.notifyContacts(userId, change?.current);
+  }
+
+  async userDisconnected(userId: string, socketId: string): Promise<void> {
+    const change = await this.presenceService.disconnect(userId, socketId);
+    await this.notifyContacts(userId, change?.current);
+  }
+
+  async setStatus(userId: string, socketId: string, status: 'online' | 'away'): Promise<void> {
+    const change = await this.presenceService.setStatus(userId, socketId, status);
+    await this.notifyContacts(userId, change?.current);
+  }
+
+  /**
+   * Tell contacts about users whose presence expired instead of disconnecting
+   */
+  async sweepExpired(): Promise<void> {
+    const expired = await this.presenceService.sweepExpired();
+
+    for (const presence of expired) {
+      await this.notifyContacts(presence.user_id, presence);
+    }
+  }
+
+  /**
+   * Presence for the requested users, limited to the requester and their contacts
+   */
+  async getPresenceForUser(requesterId: string, userIds: string[]): Promise<UserPresence[]> {
+    const contactIds = new Set(await this.participantQueryRepository.findContactUserIds(requesterId));
+    const visibleIds = userIds.filter(userId => userId === requesterId || contactIds.has(userId));
+
+    const presence = await this.presenceService.getBatchPresence(visibleIds);
+    return Object.values(presence);
+  }
+
+  private async notifyContacts(userId: string, presence: UserPresence | undefined): Promise<void> {
+    if (!presence) {
+      return;
+    }
+
+    try {
+      const contactIds = await this.participantQueryRepository.findContactUserIds(userId);
+      const event = {
+        user_id: userId,
+        status: presence.status,
+        last_seen: presence.last_seen,
+        timestamp: new Date().toISOString(),
+      };
+
+      for (const contactId of contactIds) {
+        await this.chatGateway.sendMessageToUser(contactId, 'presence_update', event);
+      }
+
+      this.logger.debug(`User ${userId} is now ${presence.status}, notified ${contactIds.length} contacts`);
+    } catch (error) {
+      this.logger.error(`Error broadcasting presence for user ${userId}:`, error);
+    }
+  }
+}
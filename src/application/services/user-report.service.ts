@@ -0,0 +1,216 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { IUserReportRepository } from '@domain/repositories/user-report.repository.interface';
+import { IMessageRepository } from '@domain/repositories/message.repository.interface';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { Message } from '@domain/entities/message.entity';
+import {
+  UserReport,
+  UserReportReason,
+  UserReportStatus,
+  ReportedMessageSnapshot,
+} from '@domain/entities/user-report.entity';
+
+/** Most messages copied into a single report */
+const MAX_SNAPSHOT_MESSAGES = 20;
+/** How far back to look for the reported user's messages when none are named */
+const RECENT_MESSAGE_WINDOW = 100;
+
+export interface CreateUserReportRequest {
+  reportedUserId: string;
+  reason: UserReportReason;
+  details?: string;
+  conversationId?: string;
+  messageIds?: string[];
+}
+
+export interface UserReportListQuery {
+  status?: UserReportStatus;
+  reportedUserId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface UserReportView {
+  id: string;
+  reporter_id: string;
+  reported_user_id: string;
+  conversation_id: string | null;
+  reason: UserReportReason;
+  details: string | null;
+  status: UserReportStatus;
+  messages: Array<{
+    id: string;
+    sender_id: string;
+    content: string;
+    message_type: string;
+    sent_at: string;
+    edited_at: string | null;
+    deleted_at: string | null;
+  }>;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Reports about abusive users. The offending messages are copied into the
+ * report when it is filed, so the moderation queue still shows them after
+ * they are edited, deleted or expire.
+ */
+@Injectable()
+export class UserReportService {
+  private readonly logger = new Logger(UserReportService.name);
+
+  constructor(
+    @Inject('IUserReportRepository')
+    private readonly reportRepository: IUserReportRepository,
+    @Inject('IMessageRepository')
+    private readonly messageRepository: IMessageRepository,
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+  ) {}
+
+  async report(reporterId: string, request: CreateUserReportRequest): Promise<UserReportView> {
+    if (reporterId === request.reportedUserId) {
+      throw new BadRequestException('You cannot report yourself');
+    }
+
+    const messages = await this.collectMessages(reporterId, request);
+
+    const report = new UserReport();
+    report.reporterId = reporterId;
+    report.reportedUserId = request.reportedUserId;
+    report.conversationId = messages[0]?.conversationId || request.conversationId || null;
+    report.reason = request.reason;
+    report.details = request.details?.trim() || null;
+    report.messageSnapshot = messages.map(message => this.snapshot(message));
+    report.status = 'open';
+
+    const saved = await this.reportRepository.save(report);
+    this.logger.log(
+      `User ${reporterId} reported ${request.reportedUserId} (${request.reason}) with ${messages.length} messages`,
+    );
+    return this.toView(saved);
+  }
+
+  async listReports(query: UserReportListQuery): Promise<{ reports: UserReportView[]; total: number }> {
+    const { reports, total } = await this.reportRepository.findMany({
+      status: query.status,
+      reportedUserId: query.reportedUserId,
+      limit: query.limit ?? 20,
+      offset: query.offset ?? 0,
+    });
+    return { reports: reports.map(report => this.toView(report)), total };
+  }
+
+  async getReport(reportId: string): Promise<UserReportView> {
+    return this.toView(await this.requireReport(reportId));
+  }
+
+  async updateStatus(reportId: string, moderatorId: string, status: UserReportStatus): Promise<UserReportView> {
+    const report = await this.requireReport(reportId);
+    report.status = status;
+    report.reviewedBy = moderatorId;
+    report.reviewedAt = new Date();
+
+    const saved = await this.reportRepository.save(report);
+    this.logger.log(`Moderator ${moderatorId} set report ${reportId} to ${status}`);
+    return this.toView(saved);
+  }
+
+  /**
+   * Named messages must all be the reported user's, from one conversation the
+   * reporter is in. Without any, the reported user's latest messages in the
+   * given conversation are taken.
+   */
+  private async collectMessages(reporterId: string, request: CreateUserReportRequest): Promise<Message[]> {
+    const messageIds = [...new Set(request.messageIds || [])];
+
+    if (messageIds.length > MAX_SNAPSHOT_MESSAGES) {
+      throw new BadRequestException(`A report can include at most ${MAX_SNAPSHOT_MESSAGES} messages`);
+    }
+
+    if (messageIds.length > 0) {
+      const messages = await this.messageRepository.findByIds(messageIds);
+      if (messages.length !== messageIds.length) {
+        throw new NotFoundException('Message not found');
+      }
+
+      const conversationIds = new Set(messages.map(m => m.conversationId));
+      if (request.conversationId) {
+        conversationIds.add(request.conversationId);
+      }
+      if (conversationIds.size > 1) {
+        throw new BadRequestException('Reported messages must come from a single conversation');
+      }
+      if (messages.some(m => m.senderId !== request.reportedUserId)) {
+        throw new BadRequestException('Reported messages must be sent by the reported user');
+      }
+
+      await this.requireParticipant(reporterId, messages[0].conversationId);
+      return messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+    }
+
+    if (!request.conversationId) {
+      return [];
+    }
+
+    await this.requireParticipant(reporterId, request.conversationId);
+    const recent = await this.messageRepository.findByConversation(request.conversationId, RECENT_MESSAGE_WINDOW);
+    return recent
+      .filter(m => m.senderId === request.reportedUserId)
+      .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime())
+      .slice(-MAX_SNAPSHOT_MESSAGES);
+  }
+
+  private async requireParticipant(userId: string, conversationId: string): Promise<void> {
+    const participant = await this.participantRepository.findByConversationAndUser(conversationId, userId);
+    if (!participant) {
+      throw new NotFoundException('Conversation not found');
+    }
+  }
+
+  private async requireReport(reportId: string): Promise<UserReport> {
+    const report = await this.reportRepository.findById(reportId);
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    return report;
+  }
+
+  private snapshot(message: Message): ReportedMessageSnapshot {
+    return {
+      id: message.id,
+      senderId: message.senderId,
+      content: message.content.content,
+      messageType: message.type.value,
+      sentAt: message.sentAt.toISOString(),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      deletedAt: message.deletedAt?.toISOString() ?? null,
+    };
+  }
+
+  private toView(report: UserReport): UserReportView {
+    return {
+      id: report.id,
+      reporter_id: report.reporterId,
+      reported_user_id: report.reportedUserId,
+      conversation_id: report.conversationId || null,
+      reason: report.reason,
+      details: report.details || null,
+      status: report.status,
+      messages: report.messageSnapshot.map(message => ({
+        id: message.id,
+        sender_id: message.senderId,
+        content: message.content,
+        message_type: message.messageType,
+        sent_at: message.sentAt,
+        edited_at: message.editedAt,
+        deleted_at: message.deletedAt,
+      })),
+      reviewed_by: report.reviewedBy || null,
+      reviewed_at: report.reviewedAt || null,
+      created_at: report.createdAt,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { IWebhookSubscriptionRepository } from '@domain/repositories/webhook-subscription.repository.interface';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { WebhookSubscription, WEBHOOK_EVENT_TYPES } from '@domain/entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '@domain/entities/webhook-delivery.entity';
+import { assertPublicWebhookTarget } from '@infrastructure/webhooks/webhook-target-guard';
+
+const DEFAULT_DELIVERY_PAGE_SIZE = 50;
+const MAX_DELIVERY_PAGE_SIZE = 200;
+
+export interface CreateWebhookRequest {
+  businessId: string;
+  url: string;
+  eventTypes: string[];
+  secret?: string;
+}
+
+/**
+ * Webhook registration and delivery log for businesses. A business account
+ * can only see and manage its own subscriptions.
+ */
+@Injectable()
+export class WebhookSubscriptionService {
+  private readonly logger = new Logger(WebhookSubscriptionService.name);
+
+  constructor(
+    @Inject('IWebhookSubscriptionRepository')
+    private readonly subscriptionRepository: IWebhookSubscriptionRepository,
+    @Inject('IWebhookDeliveryRepository')
+    private readonly deliveryRepository: IWebhookDeliveryRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(actorId: string, request: CreateWebhookRequest): Promise<WebhookSubscription> {
+    this.requireOwner(actorId, request.businessId);
+
+    const unknown = request.eventTypes.filter(type => !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(type));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unsupported event types: ${unknown.join(', ')}`);
+    }
+
+    // Checked again on every delivery, since the name can be repointed later
+    if (!this.configService.get<boolean>('WEBHOOK_ALLOW_PRIVATE_TARGETS', false)) {
+      try {
+        await assertPublicWebhookTarget(request.url);
+      } catch (error) {
+        throw new BadRequestException(
+          error instanceof Error ? error.message : 'Webhook URL must point to a public address',
+        );
+      }
+    }
+
+    const subscription = new WebhookSubscription();
+    subscription.businessId = request.businessId;
+    subscription.url = request.url;
+    subscription.eventTypes = [...new Set(request.eventTypes)];
+    subscription.secret = request.secret || `whsec_${randomBytes(24).toString('hex')}`;
+    subscription.isActive = true;
+
+    const saved = await this.subscriptionRepository.save(subscription);
+    this.logger.log(`Business ${request.businessId} subscribed ${saved.url} to ${saved.eventTypes.join(', ')}`);
+    return saved;
+  }
+
+  async list(actorId: string, businessId: string): Promise<WebhookSubscription[]> {
+    this.requireOwner(actorId, businessId);
+    return this.subscriptionRepository.findByBusiness(businessId);
+  }
+
+  async remove(actorId: string, businessId: string, subscriptionId: string): Promise<void> {
+    await this.getOwned(actorId, businessId, subscriptionId);
+    await this.subscriptionRepository.delete(subscriptionId);
+    this.logger.log(`Deleted webhook subscription ${subscriptionId} of business ${businessId}`);
+  }
+
+  async getDeliveries(
+    actorId: string,
+    businessId: string,
+    subscriptionId: string,
+    status?: WebhookDeliveryStatus,
+    limit: number = DEFAULT_DELIVERY_PAGE_SIZE,
+  ): Promise<WebhookDelivery[]> {
+    await this.getOwned(actorId, businessId, subscriptionId);
+    return this.deliveryRepository.findBySubscription(
+      subscriptionId,
+      Math.min(limit, MAX_DELIVERY_PAGE_SIZE),
+      status,
+    );
+  }
+
+  /**
+   * Send a logged delivery again with a fresh set of attempts
+   */
+  async replay(
+    actorId: string,
+    businessId: string,
+    subscriptionId: string,
+    deliveryId: string,
+  ): Promise<void> {
+    await this.getOwned(actorId, businessId, subscriptionId);
+
+    const delivery = await this.deliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.subscriptionId !== subscriptionId) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    await this.deliveryRepository.replay(deliveryId);
+    this.logger.log(`Replaying webhook delivery ${deliveryId} of ${delivery.eventName} event ${delivery.eventId}`);
+  }
+
+  private requireOwner(actorId: string, businessId: string): void {
+    if (actorId !== businessId) {
+      throw new ForbiddenException('You can only manage webhooks for your own business');
+    }
+  }
+
+  private async getOwned(
+    actorId: string,
+    businessId: string,
+    subscriptionId: string,
+  ): Promise<WebhookSubscription> {
+    this.requireOwner(actorId, businessId);
+
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription || subscription.businessId !== businessId) {
+      throw new NotFoundException('Webhook subscription not found');
+    }
+    return subscription;
+  }
+}
@@ -1,17 +1,53 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { IMessageRepository } from '@domain/repositories/message.repository.interface';
 import { IConversationRepository } from '@domain/repositories/conversation.repository.interface';
 import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { ITransactionManager } from '@domain/repositories/unit-of-work.interface';
+import { MessageSentEvent } from '@domain/events/message-events';
 import { Message } from '@domain/entities/message.entity';
 import { MessageContent } from '@domain/value-objects/message-content.vo';
 import { MessageType } from '@domain/value-objects/message-type.vo';
+import { MessageFactory } from '@domain/factories/message.factory';
 import { ChatGateway } from '@infrastructure/websocket/chat.gateway';
+import { MessagePreview, ReactionSummary, AttachmentInfo, SyncBatchEvent } from '@infrastructure/websocket/types/websocket-events.types';
+import { MessageReactionService, ReactionRequest, ReactionResponse } from './message-reaction.service';
+import { MessageService } from './message.service';
+import { AttachmentService } from './attachment.service';
+import { MessageReceiptService } from './message-receipt.service';
+import { MessageSyncService, SyncPage } from './message-sync.service';
+import { ConversationInboxService } from './conversation-inbox.service';
+import { UserBlockService } from './user-block.service';
+import { BusinessAutoReplyService } from './business-auto-reply.service';
+import { ContentModerationService } from '@infrastructure/moderation/content-moderation.service';
+import { MessageRejectionReason } from '@infrastructure/moderation/moderation.types';
+import { MessageRejectedError } from '@infrastructure/common/errors/moderation.errors';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { Conversation } from '@domain/entities/conversation.entity';
+
+const MESSAGE_PREVIEW_LENGTH = 100;
 
 export interface SendMessageRequest {
   senderId: string;
   conversationId: string;
   content: string;
   messageType?: string;
+  parentMessageId?: string;
+  attachmentIds?: string[];
+  expiresAfterReadSeconds?: number;
+}
+
+export interface EditMessageRequest {
+  userId: string;
+  conversationId: string;
+  messageId: string;
+  content: string;
+}
+
+export interface DeleteMessageRequest {
+  userId: string;
+  conversationId: string;
+  messageId: string;
 }
 
 export interface SendMessageResponse {
@@ -23,8 +59,14 @@ export interface SendMessageResponse {
     content: string;
     messageType: string;
     sentAt: Date;
+    editedAt?: Date;
+    parentMessageId?: string;
+    attachments?: AttachmentInfo[];
+    expiresAfterReadSeconds?: number;
   };
   error?: string;
+  /** Set when content moderation turned the message down */
+  reason?: MessageRejectionReason;
 }
 
 @Injectable()
@@ -38,7 +80,19 @@ export class WebSocketMessageService {
     private readonly conversationRepository: IConversationRepository,
     @Inject('IParticipantRepository')
     private readonly participantRepository: IParticipantRepository,
+    @Inject('ITransactionManager')
+    private readonly transactionManager: ITransactionManager,
     private readonly chatGateway: ChatGateway,
+    private readonly reactionService: MessageReactionService,
+    private readonly coreMessageService: MessageService,
+    private readonly attachmentService: AttachmentService,
+    private readonly receiptService: MessageReceiptService,
+    private readonly syncService: MessageSyncService,
+    private readonly inboxService: ConversationInboxService,
+    private readonly blockService: UserBlockService,
+    private readonly moderationService: ContentModerationService,
+    private readonly autoReplyService: BusinessAutoReplyService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -46,10 +100,14 @@ export class WebSocketMessageService {
    */
   async sendMessage(request: SendMessageRequest): Promise<SendMessageResponse> {
     try {
-      const { senderId, conversationId, content, messageType = 'text' } = request;
-
-      // Validate message content
-      const validationResult = this.validateMessageContent(content);
+      const { senderId, conversationId, content, parentMessageId, attachmentIds = [] } = request;
+      let messageType = request.messageType || 'text';
+      const hasAttachments = attachmentIds.length > 0;
+
+      // Validate message content; attachments may go out without a caption
+      const validationResult = hasAttachments && !content?.trim()
+        ? { isValid: true }
+        : this.validateMessageContent(content);
       if (!validationResult.isValid) {
         return {
           success: false,
@@ -57,6 +115,17 @@ export class WebSocketMessageService {
         };
       }
 
+      const { expiresAfterReadSeconds } = request;
+      if (expiresAfterReadSeconds !== undefined && expiresAfterReadSeconds !== null) {
+        const maxSeconds = this.configService.get<number>('EPHEMERAL_MAX_SECONDS', 7 * 24 * 60 * 60);
+        if (!Number.isInteger(expiresAfterReadSeconds) || expiresAfterReadSeconds < 1 || expiresAfterReadSeconds > maxSeconds) {
+          return {
+            success: false,
+            error: `expires_after_read_seconds must be a whole number between 1 and ${maxSeconds}`,
+          };
+        }
+      }
+
       // Check if conversation exists and user is a participant
       const canSend = await this.canUserSendMessage(senderId, conversationId);
       if (!canSend.allowed) {
@@ -66,8 +135,66 @@ export class WebSocketMessageService {
         };
       }
 
+      // Replies must point at a live message in the same conversation
+      let parentMessage: Message | null = null;
+      if (parentMessageId) {
+        parentMessage = await this.messageRepository.findById(parentMessageId);
+        if (!parentMessage || parentMessage.conversationId !== conversationId) {
+          return {
+            success: false,
+            error: 'Parent message not found in this conversation',
+          };
+        }
+        if (parentMessage.deletedAt) {
+          return {
+            success: false,
+            error: 'Cannot reply to a deleted message',
+          };
+        }
+      }
+
+      let attachments: Attachment[] = [];
+      if (hasAttachments) {
+        const resolved = await this.attachmentService.resolveForMessage(attachmentIds, senderId, conversationId);
+        if (resolved.error) {
+          return {
+            success: false,
+            error: resolved.error,
+          };
+        }
+        attachments = resolved.attachments;
+        if (messageType === 'text') {
+          messageType = this.attachmentService.inferMessageType(attachments);
+        }
+      }
+
+      // Enforce the conversation's file/image sharing settings
+      const sharingError = this.attachmentService.checkSharingAllowed(canSend.conversation.metadata, messageType);
+      if (sharingError) {
+        return {
+          success: false,
+          error: sharingError,
+        };
+      }
+
+      // Moderate the caption or text before anything is persisted
+      let text = content?.trim() || '';
+      if (text) {
+        const moderation = await this.moderationService.moderate(text, { senderId, conversationId });
+        if (moderation.rejection) {
+          return {
+            success: false,
+            error: moderation.rejection.detail,
+            reason: moderation.rejection,
+          };
+        }
+        text = moderation.content;
+      }
+
       // Create message content value object
-      const messageContent = MessageContent.create(content.trim());
+      const messageContent = MessageContent.create(
+        text || attachments.map(a => a.fileName).join(', ')
+      );
       const messageTypeVO = MessageType.fromString(messageType);
 
       // Create message entity
@@ -76,14 +203,26 @@ export class WebSocketMessageService {
       message.senderId = senderId;
       message.content = messageContent;
       message.type = messageTypeVO;
+      message.parentMessageId = parentMessage?.id;
+      message.expiresAfterReadSeconds = expiresAfterReadSeconds ?? undefined;
 
-      const savedMessage = await this.messageRepository.save(message);
+      const savedMessage = await this.saveAndPublish(message, attachments);
+      const attachmentMetadata = attachments.map(a => this.attachmentService.toMetadata(a));
+
+      // Every other participant starts at 'sent' until their socket acknowledges it
+      await this.receiptService.recordSent(savedMessage);
 
       // Update conversation's last message and activity
       await this.updateConversationActivity(conversationId, savedMessage.id);
+      await this.inboxService.unarchiveOnNewMessage(conversationId);
 
       // Broadcast message to conversation participants
-      await this.broadcastMessage(savedMessage);
+      await this.broadcastMessage(savedMessage, parentMessage, attachmentMetadata);
+
+      // The business's greeting and away replies follow the customer's message
+      if (canSend.conversation.type.isBusiness()) {
+        await this.sendAutoReplies(canSend.conversation, savedMessage);
+      }
 
       this.logger.log(`Message ${savedMessage.id} sent by user ${senderId} to conversation ${conversationId}`);
 
@@ -96,6 +235,10 @@ export class WebSocketMessageService {
           content: savedMessage.content.content,
           messageType: savedMessage.type.value,
           sentAt: savedMessage.sentAt,
+          editedAt: null,
+          parentMessageId: savedMessage.parentMessageId,
+          attachments: attachmentMetadata,
+          expiresAfterReadSeconds: savedMessage.expiresAfterReadSeconds,
         },
       };
 
@@ -108,6 +251,137 @@ export class WebSocketMessageService {
     }
   }
 
+  /**
+   * Persist a system notice (membership changes and the like) and broadcast it.
+   * The acting user is recorded as sender since sender_id must reference a user.
+   */
+  async sendSystemMessage(conversationId: string, actorId: string, content: string): Promise<void> {
+    try {
+      const { message } = MessageFactory.createSystemMessage({
+        conversationId,
+        content,
+        systemUserId: actorId,
+      });
+
+      const savedMessage = await this.saveAndPublish(message);
+      await this.updateConversationActivity(conversationId, savedMessage.id);
+      await this.broadcastMessage(savedMessage);
+    } catch (error) {
+      this.logger.error(`Error sending system message to conversation ${conversationId}:`, error);
+      // Don't throw - the change it describes has already been applied
+    }
+  }
+
+  /**
+   * Send the business's automatic replies as ordinary messages from the
+   * business. They skip moderation: the business wrote them once, and the
+   * repeat rule would otherwise catch the same greeting going to many customers.
+   */
+  private async sendAutoReplies(conversation: Conversation, customerMessage: Message): Promise<void> {
+    try {
+      const replies = await this.autoReplyService.repliesFor(conversation, customerMessage);
+      if (!replies) {
+        return;
+      }
+
+      for (const content of replies.contents) {
+        const message = new Message();
+        message.conversationId = conversation.id;
+        message.senderId = replies.businessId;
+        message.content = MessageContent.create(content);
+        message.type = MessageType.TEXT;
+
+        const savedMessage = await this.saveAndPublish(message);
+        await this.receiptService.recordSent(savedMessage);
+        await this.updateConversationActivity(conversation.id, savedMessage.id);
+        await this.broadcastMessage(savedMessage);
+      }
+    } catch (error) {
+      this.logger.error(`Error sending auto-replies in conversation ${conversation.id}:`, error);
+      // Don't throw - the customer's message is already saved
+    }
+  }
+
+  /**
+   * Edit a message's content and broadcast the new version to the conversation
+   */
+  async editMessage(request: EditMessageRequest): Promise<SendMessageResponse> {
+    try {
+      const { userId, conversationId, messageId, content } = request;
+
+      const validationResult = this.validateMessageContent(content);
+      if (!validationResult.isValid) {
+        return { success: false, error: validationResult.error };
+      }
+
+      const existing = await this.messageRepository.findById(messageId);
+      if (!existing || existing.conversationId !== conversationId) {
+        return { success: false, error: 'Message not found' };
+      }
+
+      const message = await this.coreMessageService.editMessage(messageId, content.trim(), userId);
+
+      // An edit that leaves the content as it was changes nothing, so there is nothing to announce
+      if (!message.content.equals(existing.content)) {
+        await this.chatGateway.sendMessageToConversation(conversationId, 'message_edited', {
+          message_id: message.id,
+          conversation_id: conversationId,
+          content: message.content.content,
+          edited_by: userId,
+          edited_at: message.editedAt.toISOString(),
+        });
+      }
+
+      return {
+        success: true,
+        message: {
+          messageId: message.id,
+          conversationId: message.conversationId,
+          senderId: message.senderId,
+          content: message.content.content,
+          messageType: message.type.value,
+          sentAt: message.sentAt,
+          editedAt: message.editedAt,
+          parentMessageId: message.parentMessageId,
+        },
+      };
+    } catch (error) {
+      if (error instanceof MessageRejectedError) {
+        return { success: false, error: error.reason.detail, reason: error.reason };
+      }
+      this.logger.error(`Error editing message ${request.messageId}:`, error);
+      return { success: false, error: error.message || 'Failed to edit message' };
+    }
+  }
+
+  /**
+   * Soft-delete a message and tell the conversation to drop it
+   */
+  async deleteMessage(request: DeleteMessageRequest): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { userId, conversationId, messageId } = request;
+
+      const existing = await this.messageRepository.findById(messageId);
+      if (!existing || existing.conversationId !== conversationId) {
+        return { success: false, error: 'Message not found' };
+      }
+
+      const message = await this.coreMessageService.deleteMessage(messageId, userId);
+
+      await this.chatGateway.sendMessageToConversation(conversationId, 'message_deleted', {
+        message_id: message.id,
+        conversation_id: conversationId,
+        deleted_by: userId,
+        deleted_at: message.deletedAt.toISOString(),
+      });
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Error deleting message ${request.messageId}:`, error);
+      return { success: false, error: error.message || 'Failed to delete message' };
+    }
+  }
+
   /**
    * Get recent messages for a conversation
    */
@@ -118,6 +392,11 @@ export class WebSocketMessageService {
       content: string;
       messageType: string;
       sentAt: Date;
+      editedAt?: Date;
+      parentMessageId?: string;
+      parent?: MessagePreview;
+      reactions: ReactionSummary[];
+      attachments: AttachmentInfo[];
     }>;
   }> {
     try {
@@ -125,6 +404,9 @@ export class WebSocketMessageService {
         conversationId,
         limit
       );
+      const parentPreviews = await this.getParentPreviews(messages);
+      const reactions = await this.reactionService.getReactionSummaries(messages.map(m => m.id));
+      const attachments = await this.attachmentService.getAttachmentSummaries(messages.map(m => m.id));
 
       return {
         messages: messages.map(message => ({
@@ -133,6 +415,11 @@ export class WebSocketMessageService {
           content: message.content.content,
           messageType: message.type.value,
           sentAt: message.sentAt,
+          editedAt: message.editedAt,
+          parentMessageId: message.parentMessageId,
+          parent: parentPreviews.get(message.parentMessageId),
+          reactions: reactions.get(message.id) || [],
+          attachments: attachments.get(message.id) || [],
         })),
       };
     } catch (error) {
@@ -141,6 +428,61 @@ export class WebSocketMessageService {
     }
   }
 
+  /**
+   * Add an emoji reaction to a message
+   */
+  async addReaction(request: ReactionRequest): Promise<ReactionResponse> {
+    return this.reactionService.addReaction(request);
+  }
+
+  /**
+   * Remove an emoji reaction from a message
+   */
+  async removeReaction(request: ReactionRequest): Promise<ReactionResponse> {
+    return this.reactionService.removeReaction(request);
+  }
+
+  /**
+   * Resolve quoted-reply previews for the parents referenced by the given messages
+   */
+  async getParentPreviews(messages: Message[]): Promise<Map<string, MessagePreview>> {
+    const previews = new Map<string, MessagePreview>();
+    const parentIds = [...new Set(messages.map(m => m.parentMessageId).filter(Boolean))];
+    if (parentIds.length === 0) {
+      return previews;
+    }
+
+    try {
+      const parents = await this.messageRepository.findByIds(parentIds);
+      for (const parent of parents) {
+        previews.set(parent.id, this.buildMessagePreview(parent));
+      }
+    } catch (error) {
+      this.logger.error(`Error loading parent message previews:`, error);
+    }
+
+    return previews;
+  }
+
+  /**
+   * Build a short preview of a message; deleted messages keep their slot but lose their content
+   */
+  buildMessagePreview(message: Message): MessagePreview {
+    const isDeleted = !!message.deletedAt;
+    const content = isDeleted ? '' : message.content.content;
+
+    return {
+      message_id: message.id,
+      sender_id: message.senderId,
+      content: content.length > MESSAGE_PREVIEW_LENGTH
+        ? `${content.substring(0, MESSAGE_PREVIEW_LENGTH)}…`
+        : content,
+      message_type: message.type.value,
+      sent_at: message.sentAt.toISOString(),
+      is_deleted: isDeleted,
+    };
+  }
+
   /**
    * Validate message content
    */
@@ -167,6 +509,7 @@ export class WebSocketMessageService {
   private async canUserSendMessage(userId: string, conversationId: string): Promise<{
     allowed: boolean;
     reason?: string;
+    conversation?: Conversation;
   }> {
     try {
       // Check if conversation exists
@@ -184,19 +527,49 @@ export class WebSocketMessageService {
         return { allowed: false, reason: 'User is not a participant in this conversation' };
       }
 
+      // Either side of a blocked pair can no longer write in their direct chat
+      if (conversation.type.isDirect()) {
+        const participants = await this.participantRepository.findByConversation(conversationId);
+        const other = participants.find(p => p.userId !== userId);
+        if (other && await this.blockService.isBlockedBetween(userId, other.userId)) {
+          return { allowed: false, reason: 'You cannot message this user' };
+        }
+      }
+
       // Check if participant is active (assuming we have an isActive field or similar)
       // Note: Adjust this based on your actual Participant entity structure
       // if (participant.leftAt) {
       //   return { allowed: false, reason: 'User has left this conversation' };
       // }
 
-      return { allowed: true };
+      return { allowed: true, conversation };
     } catch (error) {
       this.logger.error(`Error checking user permissions:`, error);
       return { allowed: false, reason: 'Permission check failed' };
     }
   }
 
+  /**
+   * Save a new message and record its MessageSent event in the same transaction
+   */
+  private async saveAndPublish(message: Message, attachments: Attachment[] = []): Promise<Message> {
+    return this.transactionManager.executeInTransaction(async uow => {
+      const savedMessage = await uow.messages.save(message);
+      // Linked in the same transaction so a lost race for an upload leaves no message behind
+      await uow.attachments.linkToMessage(attachments.map(a => a.id), savedMessage.id, savedMessage.senderId);
+      uow.publish(
+        new MessageSentEvent(
+          savedMessage.id,
+          savedMessage.conversationId,
+          savedMessage.senderId,
+          savedMessage.content.content,
+          savedMessage.type,
+        ),
+      );
+      return savedMessage;
+    });
+  }
+
   /**
    * Update conversation's last message and activity timestamp
    */
@@ -217,7 +590,11 @@ export class WebSocketMessageService {
   /**
    * Broadcast message to all conversation participants via WebSocket
    */
-  private async broadcastMessage(message: Message): Promise<void> {
+  private async broadcastMessage(
+    message: Message,
+    parentMessage?: Message | null,
+    attachments: AttachmentInfo[] = [],
+  ): Promise<void> {
     try {
       // Get sender profile information
       let senderName = 'Unknown User';
@@ -240,7 +617,12 @@ export class WebSocketMessageService {
         content: message.content.content,
         message_type: message.type.value,
         sent_at: message.sentAt.toISOString(),
+        edited_at: null,
         is_deleted: false,
+        parent_message_id: message.parentMessageId,
+        parent: parentMessage ? this.buildMessagePreview(parentMessage) : undefined,
+        attachments,
+        expires_after_read_seconds: message.expiresAfterReadSeconds ?? null,
       };
 
       // Send to conversation room
@@ -250,6 +632,21 @@ export class WebSocketMessageService {
         messageData
       );
 
+      // Let clients with the thread open update it and bump the reply counter
+      if (parentMessage) {
+        const replyCount = await this.messageRepository.countThreadReplies(parentMessage.id);
+        await this.chatGateway.sendMessageToConversation(
+          message.conversationId,
+          'thread_reply',
+          {
+            conversation_id: message.conversationId,
+            parent_message_id: parentMessage.id,
+            reply_count: replyCount,
+            message: messageData,
+          }
+        );
+      }
+
       this.logger.debug(`Broadcasted message ${message.id} to conversation ${message.conversationId}`);
     } catch (error) {
       this.logger.error(`Error broadcasting message:`, error);
@@ -258,49 +655,53 @@ export class WebSocketMessageService {
   }
 
   /**
-   * Handle offline message delivery
+   * Start a device's catch-up sync and return its first batch
    */
-  async deliverOfflineMessages(userId: string): Promise<void> {
-    try {
-      // Get user's conversations
-      const participants = await this.participantRepository.findByUser(userId);
-      
-      for (const participant of participants) {
-        // Get unread messages since last read
-        // Skip if no last read message ID (user hasn't read any messages yet)
-        if (!participant.lastReadMessageId) {
-          continue;
-        }
-        
-        const messages = await this.messageRepository.findUnreadMessages(
-          participant.conversationId,
-          participant.lastReadMessageId
-        );
+  async syncMessages(userId: string, deviceId: string, cursor?: string): Promise<SyncBatchEvent> {
+    const page = await this.syncService.startSync(userId, deviceId, cursor);
+    return this.buildSyncBatch(deviceId, page);
+  }
 
-        // Send each message to the user
-        for (const message of messages) {
-          const messageData = {
-            message_id: message.id,
-            conversation_id: message.conversationId,
-            sender_id: message.senderId,
-            content: message.content.content,
-            message_type: message.type.value,
-            sent_at: message.sentAt.toISOString(),
-          };
+  /**
+   * Advance a device's cursor; returns the next batch, or null once the device is caught up
+   */
+  async acknowledgeSync(userId: string, deviceId: string, cursor: string): Promise<SyncBatchEvent | null> {
+    const page = await this.syncService.acknowledge(userId, deviceId, cursor);
+    return page ? this.buildSyncBatch(deviceId, page) : null;
+  }
 
-          const delivered = await this.chatGateway.sendMessageToUser(
-            userId,
-            'new_message',
-            messageData
-          );
+  private async buildSyncBatch(deviceId: string, page: SyncPage): Promise<SyncBatchEvent> {
+    const parentPreviews = await this.getParentPreviews(page.messages);
+    const attachments = await this.attachmentService.getAttachmentSummaries(page.messages.map(m => m.id));
 
-          if (delivered) {
-            this.logger.debug(`Delivered offline message ${message.id} to user ${userId}`);
-          }
-        }
-      }
-    } catch (error) {
-      this.logger.error(`Error delivering offline messages to user ${userId}:`, error);
+    return {
+      device_id: deviceId,
+      messages: page.messages.map(message => ({
+        message_id: message.id,
+        conversation_id: message.conversationId,
+        sender_id: message.senderId,
+        content: message.content.content,
+        message_type: message.type.value,
+        sent_at: message.sentAt.toISOString(),
+        edited_at: message.editedAt?.toISOString() ?? null,
+        parent_message_id: message.parentMessageId,
+        parent: parentPreviews.get(message.parentMessageId),
+        attachments: attachments.get(message.id) || [],
+      })),
+      cursor: page.cursor,
+      has_more: page.hasMore,
+    };
+  }
+
+  /**
+   * Record that a recipient's socket received these messages, and move the
+   * device's sync cursor past them so a reconnect doesn't replay them
+   */
+  async markMessagesAsDelivered(userId: string, messageIds: string[], deviceId?: string): Promise<void> {
+    await this.receiptService.markDelivered(userId, messageIds);
+
+    if (deviceId) {
+      await this.syncService.acknowledgeLive(userId, deviceId, messageIds);
     }
   }
 
@@ -317,6 +718,7 @@ export class WebSocketMessageService {
       if (participant) {
         participant.lastReadMessageId = lastMessageId;
         await this.participantRepository.save(participant);
+        await this.receiptService.markRead(userId, conversationId, lastMessageId);
         
         this.logger.debug(`Marked messages as read for user ${userId} in conversation ${conversationId} up to message ${lastMessageId}`);
       }
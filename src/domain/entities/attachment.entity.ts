@@ -0,0 +1,45 @@
+import { Entity, Column, ManyToOne, JoinColumn } from "typeorm";
+import { BaseEntity } from "./base.entity";
+import { Conversation } from "./conversation.entity";
+import { Message } from "./message.entity";
+
+@Entity("attachments")
+export class Attachment extends BaseEntity {
+  @Column({ name: "conversation_id", type: "uuid" })
+  conversationId: string;
+
+  @Column({ name: "uploader_id", type: "varchar" })
+  uploaderId: string;
+
+  @Column({ name: "message_id", type: "uuid", nullable: true })
+  messageId?: string;
+
+  @Column({ name: "storage_key", type: "varchar", length: 255 })
+  storageKey: string;
+
+  @Column({ name: "file_name", type: "varchar", length: 255 })
+  fileName: string;
+
+  @Column({ name: "mime_type", type: "varchar", length: 100 })
+  mimeType: string;
+
+  @Column({ name: "size_bytes", type: "integer" })
+  sizeBytes: number;
+
+  @Column({ type: "varchar", length: 64 })
+  checksum: string;
+
+  @Column({ type: "integer", nullable: true })
+  width?: number;
+
+  @Column({ type: "integer", nullable: true })
+  height?: number;
+
+  @ManyToOne(() => Conversation, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "conversation_id" })
+  conversation: Conversation;
+
+  @ManyToOne(() => Message, { onDelete: "SET NULL", nullable: true })
+  @JoinColumn({ name: "message_id" })
+  message?: Message;
+}
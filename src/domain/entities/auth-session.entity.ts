@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+export type SessionRevocationReason = "logout" | "remote_logout" | "replaced" | "reuse_detected";
+
+/**
+ * A signed-in device. The session is the refresh-token rotation family:
+ * only the most recently issued refresh token is accepted, and presenting an
+ * older one revokes the whole session.
+ */
+@Entity("auth_sessions")
+@Index("idx_auth_sessions_user_device", ["userId", "deviceId"])
+export class AuthSession {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ name: "user_id", type: "varchar", length: 255 })
+  userId: string;
+
+  @Column({ name: "device_id", type: "varchar", length: 128 })
+  deviceId: string;
+
+  @Column({ name: "device_name", type: "varchar", length: 200, nullable: true })
+  deviceName?: string | null;
+
+  @Column({ name: "user_agent", type: "varchar", length: 500, nullable: true })
+  userAgent?: string | null;
+
+  @Column({ name: "ip_address", type: "varchar", length: 64, nullable: true })
+  ipAddress?: string | null;
+
+  /** `jti` of the only refresh token currently valid for this session */
+  @Column({ name: "current_token_id", type: "uuid" })
+  currentTokenId: string;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+
+  @Column({ name: "last_used_at", type: "timestamptz" })
+  lastUsedAt: Date;
+
+  @Column({ name: "expires_at", type: "timestamptz" })
+  expiresAt: Date;
+
+  @Column({ name: "revoked_at", type: "timestamptz", nullable: true })
+  revokedAt?: Date | null;
+
+  @Column({ name: "revoked_reason", type: "varchar", length: 32, nullable: true })
+  revokedReason?: SessionRevocationReason | null;
+
+  isActive(now: Date = new Date()): boolean {
+    return !this.revokedAt && this.expiresAt > now;
+  }
+}
@@ -0,0 +1,33 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+export const BUSINESS_AGENT_ROLES = ["agent", "supervisor"] as const;
+export type BusinessAgentRole = (typeof BUSINESS_AGENT_ROLES)[number];
+
+/**
+ * A user who answers conversations on behalf of a business. Only agents are
+ * routed new conversations; supervisors can see the queue and claim or
+ * transfer anything.
+ */
+@Entity("business_agents")
+export class BusinessAgent {
+  @PrimaryColumn({ name: "business_id", type: "varchar", length: 255 })
+  businessId: string;
+
+  @Index()
+  @PrimaryColumn({ name: "agent_id", type: "varchar", length: 255 })
+  agentId: string;
+
+  @Column({ type: "varchar", length: 20, default: "agent" })
+  role: BusinessAgentRole;
+
+  /** Round-robin routing picks the agent who has waited longest */
+  @Column({ name: "last_assigned_at", type: "timestamptz", nullable: true })
+  lastAssignedAt?: Date | null;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+
+  isSupervisor(): boolean {
+    return this.role === "supervisor";
+  }
+}
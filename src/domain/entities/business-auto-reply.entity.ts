@@ -0,0 +1,28 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from "typeorm";
+
+/**
+ * A business's automatic replies. A missing message falls back to the
+ * configured default template.
+ */
+@Entity("business_auto_replies")
+export class BusinessAutoReply {
+  @PrimaryColumn({ name: "business_id", type: "varchar", length: 255 })
+  businessId: string;
+
+  /** Sent on the customer's first message in a new conversation */
+  @Column({ name: "greeting_enabled", type: "boolean", default: true })
+  greetingEnabled: boolean;
+
+  @Column({ name: "greeting_message", type: "text", nullable: true })
+  greetingMessage?: string | null;
+
+  /** Sent when a customer writes outside business hours */
+  @Column({ name: "away_enabled", type: "boolean", default: true })
+  awayEnabled: boolean;
+
+  @Column({ name: "away_message", type: "text", nullable: true })
+  awayMessage?: string | null;
+
+  @UpdateDateColumn({ name: "updated_at", type: "timestamptz" })
+  updatedAt: Date;
+}
@@ -0,0 +1,47 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn, Index } from "typeorm";
+
+export const ASSIGNMENT_STATUSES = ["queued", "assigned", "closed"] as const;
+export type AssignmentStatus = (typeof ASSIGNMENT_STATUSES)[number];
+
+/**
+ * Where a business conversation sits in the business's inbox
+ */
+@Entity("conversation_assignments")
+@Index(["businessId", "status", "queuedAt"])
+@Index("idx_conversation_assignments_open_customer", ["businessId", "customerId"], {
+  unique: true,
+  where: "status <> 'closed'",
+})
+export class ConversationAssignment {
+  @PrimaryColumn({ name: "conversation_id", type: "uuid" })
+  conversationId: string;
+
+  @Column({ name: "business_id", type: "varchar", length: 255 })
+  businessId: string;
+
+  @Column({ name: "customer_id", type: "varchar", length: 255 })
+  customerId: string;
+
+  @Column({ type: "varchar", length: 20, default: "queued" })
+  status: AssignmentStatus;
+
+  /** The agent handling the conversation; kept after closing as a record of who did */
+  @Index()
+  @Column({ name: "agent_id", type: "varchar", length: 255, nullable: true })
+  agentId?: string | null;
+
+  @Column({ name: "queued_at", type: "timestamptz" })
+  queuedAt: Date;
+
+  @Column({ name: "assigned_at", type: "timestamptz", nullable: true })
+  assignedAt?: Date | null;
+
+  @Column({ name: "closed_at", type: "timestamptz", nullable: true })
+  closedAt?: Date | null;
+
+  @Column({ name: "closed_by", type: "varchar", length: 255, nullable: true })
+  closedBy?: string | null;
+
+  @UpdateDateColumn({ name: "updated_at", type: "timestamptz" })
+  updatedAt: Date;
+}
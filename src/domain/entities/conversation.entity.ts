@@ -10,6 +10,20 @@ import { BaseEntity } from "./base.entity";
 import { Participant } from "./participant.entity";
 import { Message } from "./message.entity";
 import { ConversationType } from "@domain/value-objects/conversation-type.vo";
+import { ConversationMetadata } from "@domain/value-objects/conversation-metadata.vo";
+
+// A stored value that no longer parses or validates reads as null rather than
+// making the whole conversation unloadable
+function readMetadata(value: unknown): ConversationMetadata | null {
+  if (value === null || value === undefined) {
+    return ConversationMetadata.createDefault();
+  }
+  try {
+    return ConversationMetadata.create(typeof value === "string" ? JSON.parse(value) : value);
+  } catch {
+    return null;
+  }
+}
 
 @Entity("conversations")
 export class Conversation extends BaseEntity {
@@ -29,6 +43,16 @@ export class Conversation extends BaseEntity {
   @Column({ name: "last_message_id", nullable: true, type: "uuid" })
   lastMessageId?: string;
 
+  @Column({
+    type: "jsonb",
+    nullable: true,
+    transformer: {
+      to: (value?: ConversationMetadata) => (value ? value.toJSON() : null),
+      from: (value: unknown) => readMetadata(value),
+    },
+  })
+  metadata?: ConversationMetadata;
+
   @OneToMany(() => Participant, (participant) => participant.conversation, {
     cascade: true,
   })
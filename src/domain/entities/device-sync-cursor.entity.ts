@@ -0,0 +1,20 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from "typeorm";
+
+/**
+ * Per-conversation sequence a device has acknowledged through the sync protocol
+ */
+@Entity("device_sync_cursors")
+export class DeviceSyncCursor {
+  @PrimaryColumn({ name: "user_id", type: "varchar" })
+  userId: string;
+
+  @PrimaryColumn({ name: "device_id", type: "varchar", length: 128 })
+  deviceId: string;
+
+  /** Conversation ID to the last sequence number the device has */
+  @Column({ type: "jsonb", default: {} })
+  positions: Record<string, number>;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  updatedAt: Date;
+}
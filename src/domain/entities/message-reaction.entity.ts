@@ -0,0 +1,21 @@
+import { Entity, PrimaryColumn, CreateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+import { Message } from "./message.entity";
+
+@Entity("message_reactions")
+export class MessageReaction {
+  @PrimaryColumn({ name: "message_id", type: "uuid" })
+  messageId: string;
+
+  @PrimaryColumn({ name: "user_id", type: "varchar" })
+  userId: string;
+
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  emoji: string;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt: Date;
+
+  @ManyToOne(() => Message, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "message_id" })
+  message: Message;
+}
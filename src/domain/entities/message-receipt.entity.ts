@@ -0,0 +1,46 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+import { Message } from "./message.entity";
+import { ReceiptStatus } from "@domain/value-objects/receipt-status.vo";
+
+/**
+ * Delivery state of one message for one recipient
+ */
+@Entity("message_receipts")
+export class MessageReceipt {
+  @PrimaryColumn({ name: "message_id", type: "uuid" })
+  messageId: string;
+
+  @PrimaryColumn({ name: "user_id", type: "varchar" })
+  userId: string;
+
+  @Column({ name: "conversation_id", type: "uuid" })
+  conversationId: string;
+
+  @Column({
+    type: "varchar",
+    length: 20,
+    default: "sent",
+    transformer: {
+      to: (value: ReceiptStatus) => value.value,
+      from: (value: string) => ReceiptStatus.fromString(value),
+    },
+  })
+  status: ReceiptStatus;
+
+  @Column({ name: "delivered_at", type: "timestamptz", nullable: true })
+  deliveredAt?: Date;
+
+  @Column({ name: "read_at", type: "timestamptz", nullable: true })
+  readAt?: Date;
+
+  /** When this recipient's copy of a disappearing message runs out */
+  @Column({ name: "expires_at", type: "timestamptz", nullable: true })
+  expiresAt?: Date;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt: Date;
+
+  @ManyToOne(() => Message, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "message_id" })
+  message: Message;
+}
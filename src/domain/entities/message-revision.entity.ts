@@ -0,0 +1,27 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+import { Message } from "./message.entity";
+
+/**
+ * Snapshot of a message's content as it was before an edit
+ */
+@Entity("message_revisions")
+export class MessageRevision {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ name: "message_id", type: "uuid" })
+  messageId: string;
+
+  @Column({ type: "text" })
+  content: string;
+
+  @Column({ name: "edited_by", type: "varchar" })
+  editedBy: string;
+
+  @CreateDateColumn({ name: "edited_at" })
+  editedAt: Date;
+
+  @ManyToOne(() => Message, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "message_id" })
+  message: Message;
+}
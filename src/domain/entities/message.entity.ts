@@ -34,6 +34,19 @@ export class Message extends BaseEntity {
   @CreateDateColumn({ name: 'sent_at' })
   sentAt: Date;
 
+  /** Position within the conversation, assigned by the database on insert */
+  @Column({
+    type: 'bigint',
+    default: 0,
+    insert: false,
+    update: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string | number) => Number(value),
+    },
+  })
+  seq: number;
+
   @Column({
     type: 'varchar',
     length: 20,
@@ -48,4 +61,17 @@ export class Message extends BaseEntity {
   @Column({ name: 'deleted_at', nullable: true })
   deletedAt?: Date;
 
+  @Column({ name: 'edited_at', type: 'timestamptz', nullable: true })
+  editedAt?: Date;
+
+  /** Set on disappearing messages; each recipient's countdown starts when they read it */
+  @Column({ name: 'expires_after_read_seconds', type: 'integer', nullable: true })
+  expiresAfterReadSeconds?: number;
+
+  @Column({ name: 'parent_message_id', type: 'uuid', nullable: true })
+  parentMessageId?: string;
+
+  @ManyToOne(() => Message, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'parent_message_id' })
+  parentMessage?: Message;
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+import { DomainEventEnvelope } from "../events/domain-event-bus.interface";
+
+export type OutboxEventStatus = "pending" | "processing" | "delivered" | "dead";
+
+/**
+ * Domain event written in the same transaction as the change that raised it,
+ * then handed to subscribers by the outbox relay
+ */
+@Entity("outbox_events")
+export class OutboxEvent {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ name: "event_id", type: "varchar", length: 64 })
+  eventId: string;
+
+  @Column({ name: "event_name", type: "varchar", length: 100 })
+  eventName: string;
+
+  @Column({ name: "aggregate_id", type: "varchar" })
+  aggregateId: string;
+
+  @Column({ type: "jsonb" })
+  payload: DomainEventEnvelope;
+
+  @Column({ type: "varchar", length: 20, default: "pending" })
+  status: OutboxEventStatus;
+
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  @Column({ name: "next_attempt_at", type: "timestamptz" })
+  nextAttemptAt: Date;
+
+  @Column({ name: "locked_at", type: "timestamptz", nullable: true })
+  lockedAt?: Date;
+
+  @Column({ name: "last_error", type: "text", nullable: true })
+  lastError?: string;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+
+  @Column({ name: "delivered_at", type: "timestamptz", nullable: true })
+  deliveredAt?: Date;
+}
@@ -27,6 +27,16 @@ export class Participant {
   @Column({ name: "is_muted", default: false })
   isMuted: boolean;
 
+  /** Mute lifts itself after this time; null means muted until turned off */
+  @Column({ name: "muted_until", type: "timestamptz", nullable: true })
+  mutedUntil?: Date | null;
+
+  @Column({ name: "archived_at", type: "timestamptz", nullable: true })
+  archivedAt?: Date | null;
+
+  @Column({ name: "pinned_at", type: "timestamptz", nullable: true })
+  pinnedAt?: Date | null;
+
   @ManyToOne(() => Conversation, (conversation) => conversation.participants, {
     onDelete: "CASCADE",
   })
@@ -36,4 +46,8 @@ export class Participant {
   @ManyToOne(() => User, { onDelete: "CASCADE" })
   @JoinColumn({ name: "user_id" })
   user: User;
+
+  isCurrentlyMuted(now: Date = new Date()): boolean {
+    return this.isMuted && (!this.mutedUntil || this.mutedUntil > now);
+  }
 }
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, CreateDateColumn, Index } from "typeorm";
+
+/**
+ * One user hiding another. Blocks are one-way: only the blocker's view and
+ * the pair's direct conversation are affected.
+ */
+@Entity("user_blocks")
+export class UserBlock {
+  @PrimaryColumn({ name: "blocker_id", type: "varchar", length: 255 })
+  blockerId: string;
+
+  @Index()
+  @PrimaryColumn({ name: "blocked_id", type: "varchar", length: 255 })
+  blockedId: string;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+}
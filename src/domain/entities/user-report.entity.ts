@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+export const USER_REPORT_REASONS = ["spam", "harassment", "hate", "other"] as const;
+export type UserReportReason = (typeof USER_REPORT_REASONS)[number];
+
+export const USER_REPORT_STATUSES = ["open", "reviewing", "resolved", "dismissed"] as const;
+export type UserReportStatus = (typeof USER_REPORT_STATUSES)[number];
+
+/**
+ * Copy of a reported message as it was when the report was filed, so later
+ * edits or deletions don't change what moderators see
+ */
+export interface ReportedMessageSnapshot {
+  id: string;
+  senderId: string;
+  content: string;
+  messageType: string;
+  sentAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+}
+
+/**
+ * A user's complaint about another user, queued for moderation
+ */
+@Entity("user_reports")
+@Index(["status", "createdAt"])
+export class UserReport {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ name: "reporter_id", type: "varchar", length: 255 })
+  reporterId: string;
+
+  @Index()
+  @Column({ name: "reported_user_id", type: "varchar", length: 255 })
+  reportedUserId: string;
+
+  @Column({ name: "conversation_id", type: "uuid", nullable: true })
+  conversationId?: string | null;
+
+  @Column({ type: "varchar", length: 20 })
+  reason: UserReportReason;
+
+  @Column({ type: "text", nullable: true })
+  details?: string | null;
+
+  @Column({ name: "message_snapshot", type: "jsonb", default: () => "'[]'" })
+  messageSnapshot: ReportedMessageSnapshot[];
+
+  @Column({ type: "varchar", length: 20, default: "open" })
+  status: UserReportStatus;
+
+  @Column({ name: "reviewed_by", type: "varchar", length: 255, nullable: true })
+  reviewedBy?: string | null;
+
+  @Column({ name: "reviewed_at", type: "timestamptz", nullable: true })
+  reviewedAt?: Date | null;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+}
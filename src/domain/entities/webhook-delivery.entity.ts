@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { DomainEventEnvelope } from "../events/domain-event-bus.interface";
+import { WebhookSubscription } from "./webhook-subscription.entity";
+
+export type WebhookDeliveryStatus = "pending" | "processing" | "delivered" | "failed";
+
+/**
+ * One event sent to one subscription. Doubles as the delivery log.
+ */
+@Entity("webhook_deliveries")
+@Index(["subscriptionId", "eventId"], { unique: true })
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ name: "subscription_id", type: "uuid" })
+  subscriptionId: string;
+
+  @Column({ name: "event_id", type: "varchar", length: 64 })
+  eventId: string;
+
+  @Column({ name: "event_name", type: "varchar", length: 100 })
+  eventName: string;
+
+  @Column({ type: "jsonb" })
+  payload: DomainEventEnvelope;
+
+  @Column({ type: "varchar", length: 20, default: "pending" })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  @Column({ name: "next_attempt_at", type: "timestamptz" })
+  nextAttemptAt: Date;
+
+  @Column({ name: "locked_at", type: "timestamptz", nullable: true })
+  lockedAt?: Date;
+
+  @Column({ name: "response_status", type: "int", nullable: true })
+  responseStatus?: number;
+
+  @Column({ name: "last_error", type: "text", nullable: true })
+  lastError?: string;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+
+  @Column({ name: "delivered_at", type: "timestamptz", nullable: true })
+  deliveredAt?: Date;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "subscription_id" })
+  subscription: WebhookSubscription;
+}
@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from "typeorm";
+
+/**
+ * Domain events a business can receive through a webhook
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "ConversationCreated",
+  "MessageSent",
+  "ParticipantAdded",
+  "ParticipantRemoved",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Endpoint registered by a business to receive events for the conversations it takes part in
+ */
+@Entity("webhook_subscriptions")
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ name: "business_id", type: "varchar", length: 255 })
+  businessId: string;
+
+  @Column({ type: "varchar", length: 2048 })
+  url: string;
+
+  @Column({ name: "event_types", type: "text", array: true })
+  eventTypes: string[];
+
+  /** Shared secret used to sign every delivery */
+  @Column({ type: "varchar", length: 128 })
+  secret: string;
+
+  @Column({ name: "is_active", type: "boolean", default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: "created_at", type: "timestamptz" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at", type: "timestamptz" })
+  updatedAt: Date;
+
+  subscribesTo(eventName: string): boolean {
+    return this.isActive && this.eventTypes.includes(eventName);
+  }
+}
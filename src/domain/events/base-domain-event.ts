@@ -1,3 +1,5 @@
+import { DomainEventEnvelope } from './domain-event-bus.interface';
+
 export abstract class BaseDomainEvent {
   public readonly occurredOn: Date;
   public readonly eventId: string;
@@ -19,7 +21,7 @@ export abstract class BaseDomainEvent {
   abstract getEventName(): string;
   abstract getEventData(): Record<string, any>;
 
-  toJSON(): Record<string, any> {
+  toJSON(): DomainEventEnvelope {
     return {
       eventId: this.eventId,
       eventName: this.getEventName(),
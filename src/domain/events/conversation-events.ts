@@ -34,7 +34,7 @@ export class ParticipantAddedEvent extends BaseDomainEvent {
     conversationId: string,
     public readonly userId: string,
     public readonly role: ParticipantRole,
-    public readonly addedBy: number,
+    public readonly addedBy: string,
   ) {
     super(conversationId);
   }
@@ -0,0 +1,21 @@
+/**
+ * Serialized form of a domain event, as stored in the outbox and handed to subscribers
+ */
+export interface DomainEventEnvelope {
+  eventId: string;
+  eventName: string;
+  eventVersion: number;
+  aggregateId: string;
+  occurredOn: string;
+  eventData: Record<string, any>;
+}
+
+export type DomainEventHandler = (event: DomainEventEnvelope) => Promise<void> | void;
+
+export interface IDomainEventBus {
+  /**
+   * Register a handler for one event name, or '*' for every event.
+   * Returns a function that removes the subscription.
+   */
+  subscribe(eventName: string, handler: DomainEventHandler): () => void;
+}
@@ -36,12 +36,7 @@ export class ConversationFactory {
     // Create conversation entity
     const conversation = new Conversation();
     conversation.type = conversationType;
-    
-    // Apply metadata if provided
-    if (params.title || params.description || params.avatar) {
-      // In a real implementation, you might want to add metadata to the conversation entity
-      // For now, we'll assume the conversation can hold metadata
-    }
+    conversation.metadata = metadata;
 
     // Create participants
     const participants: Participant[] = [];
@@ -0,0 +1,19 @@
+import { Attachment } from '@domain/entities/attachment.entity';
+
+export interface IAttachmentRepository {
+  findById(attachmentId: string): Promise<Attachment | null>;
+  findByIds(attachmentIds: string[]): Promise<Attachment[]>;
+  findByMessageIds(messageIds: string[]): Promise<Attachment[]>;
+  save(attachment: Attachment): Promise<Attachment>;
+  /**
+   * Attach unused uploads by this uploader to a message. Throws unless every
+   * one of them was linked, so the caller's transaction can roll back.
+   */
+  linkToMessage(attachmentIds: string[], messageId: string, uploaderId: string): Promise<void>;
+  deleteByIds(attachmentIds: string[]): Promise<void>;
+  /**
+   * Delete up to `limit` uploads created before the cutoff that never made it
+   * onto a message. Returns their storage keys.
+   */
+  deleteUnlinkedBefore(cutoff: Date, limit: number): Promise<string[]>;
+}
@@ -0,0 +1,15 @@
+import { AuthSession, SessionRevocationReason } from '@domain/entities/auth-session.entity';
+
+export interface IAuthSessionRepository {
+  findById(sessionId: string): Promise<AuthSession | null>;
+  /** Unrevoked, unexpired sessions, most recently used first */
+  findActiveByUser(userId: string): Promise<AuthSession[]>;
+  findActiveByUserAndDevice(userId: string, deviceId: string): Promise<AuthSession[]>;
+  save(session: AuthSession): Promise<AuthSession>;
+  /**
+   * Swap the current refresh token, but only if it is still `expectedTokenId`
+   * and the session is live. Returns false when another refresh got there first.
+   */
+  rotateToken(sessionId: string, expectedTokenId: string, newTokenId: string, expiresAt: Date): Promise<boolean>;
+  revoke(sessionId: string, reason: SessionRevocationReason): Promise<void>;
+}
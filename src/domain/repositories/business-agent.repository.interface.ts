@@ -0,0 +1,10 @@
+import { BusinessAgent, BusinessAgentRole } from '@domain/entities/business-agent.entity';
+
+export interface IBusinessAgentRepository {
+  /** Adds the agent or changes their role */
+  upsert(businessId: string, agentId: string, role: BusinessAgentRole): Promise<BusinessAgent>;
+  remove(businessId: string, agentId: string): Promise<void>;
+  find(businessId: string, agentId: string): Promise<BusinessAgent | null>;
+  findByBusiness(businessId: string): Promise<BusinessAgent[]>;
+  markAssigned(businessId: string, agentId: string, assignedAt: Date): Promise<void>;
+}
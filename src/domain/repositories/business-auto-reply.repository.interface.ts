@@ -0,0 +1,6 @@
+import { BusinessAutoReply } from '@domain/entities/business-auto-reply.entity';
+
+export interface IBusinessAutoReplyRepository {
+  findByBusiness(businessId: string): Promise<BusinessAutoReply | null>;
+  save(autoReply: BusinessAutoReply): Promise<BusinessAutoReply>;
+}
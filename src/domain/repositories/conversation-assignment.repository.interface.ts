@@ -0,0 +1,42 @@
+import { ConversationAssignment, AssignmentStatus } from '@domain/entities/conversation-assignment.entity';
+
+export interface AssignmentQuery {
+  status?: AssignmentStatus;
+  agentId?: string;
+  limit: number;
+  offset: number;
+}
+
+export type AssignmentChanges = Partial<
+  Pick<ConversationAssignment, 'status' | 'agentId' | 'queuedAt' | 'assignedAt' | 'closedAt' | 'closedBy'>
+>;
+
+export interface IConversationAssignmentRepository {
+  save(assignment: ConversationAssignment): Promise<ConversationAssignment>;
+  /**
+   * Inserts a new open assignment. Returns null if the customer already has an
+   * open conversation with the business.
+   */
+  createOpen(assignment: ConversationAssignment): Promise<ConversationAssignment | null>;
+  findByConversation(conversationId: string): Promise<ConversationAssignment | null>;
+  /** The customer's most recent conversation with the business */
+  findLatestForCustomer(businessId: string, customerId: string): Promise<ConversationAssignment | null>;
+  findByBusiness(businessId: string, query: AssignmentQuery): Promise<{ assignments: ConversationAssignment[]; total: number }>;
+  /** Open conversations of one agent across all businesses */
+  findAssignedToAgent(agentId: string, businessId?: string): Promise<ConversationAssignment[]>;
+  /** Oldest first */
+  findQueued(businessId: string, limit: number): Promise<ConversationAssignment[]>;
+  findBusinessesWithQueue(limit: number): Promise<string[]>;
+  /** Open conversation count per agent of the business */
+  countAssignedByAgent(businessId: string): Promise<Map<string, number>>;
+  /**
+   * Applies the changes only if the assignment is still in one of the given
+   * states and, when set, still with the given agent. Returns the updated
+   * assignment, or null if someone else changed it first.
+   */
+  transition(
+    conversationId: string,
+    from: { statuses: AssignmentStatus[]; agentId?: string | null },
+    changes: AssignmentChanges,
+  ): Promise<ConversationAssignment | null>;
+}
@@ -1,10 +1,18 @@
 import { Conversation } from '@domain/entities/conversation.entity';
 import { ConversationType } from '@domain/value-objects/conversation-type.vo';
 
+export interface ConversationInboxQuery {
+  archived: boolean;
+  limit: number;
+  offset: number;
+}
+
 export interface IConversationRepository {
   findById(conversationId: string): Promise<Conversation | null>;
   findByIds(conversationIds: string[], options?: { limit?: number; offset?: number }): Promise<Conversation[]>;
   findByParticipant(userId: string, limit?: number, offset?: number): Promise<Conversation[]>;
+  /** The user's chat list: pinned conversations first, then most recently active */
+  findInbox(userId: string, query: ConversationInboxQuery): Promise<{ conversations: Conversation[]; total: number }>;
   save(conversation: Conversation): Promise<Conversation>;
   delete(conversationId: string): Promise<void>;
   updateLastActivity(conversationId: string, lastMessageId?: string): Promise<void>;
@@ -0,0 +1,17 @@
+import { DeviceSyncCursor } from '@domain/entities/device-sync-cursor.entity';
+import { SyncCursor } from '@domain/value-objects/sync-cursor.vo';
+
+export interface IDeviceSyncCursorRepository {
+  findByUserAndDevice(userId: string, deviceId: string): Promise<DeviceSyncCursor | null>;
+  /**
+   * Move the device's cursor forward; never moves it backwards
+   */
+  advance(userId: string, deviceId: string, cursor: SyncCursor): Promise<void>;
+  /**
+   * Move one conversation's position to seq, but only if the device already
+   * has everything before it that can still be delivered. Sequence numbers
+   * of deleted or purged messages count as received. Returns whether the
+   * position moved.
+   */
+  advanceContiguous(userId: string, deviceId: string, conversationId: string, seq: number): Promise<boolean>;
+}
@@ -0,0 +1,8 @@
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+
+export interface IMessageReactionRepository {
+  findByMessage(messageId: string): Promise<MessageReaction[]>;
+  findByMessageIds(messageIds: string[]): Promise<MessageReaction[]>;
+  add(messageId: string, userId: string, emoji: string): Promise<boolean>;
+  remove(messageId: string, userId: string, emoji: string): Promise<boolean>;
+}
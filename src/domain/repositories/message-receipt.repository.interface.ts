@@ -0,0 +1,10 @@
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+
+export interface IMessageReceiptRepository {
+  findByMessage(messageId: string): Promise<MessageReceipt[]>;
+  findByMessageIds(messageIds: string[]): Promise<MessageReceipt[]>;
+  createForRecipients(messageId: string, conversationId: string, userIds: string[]): Promise<void>;
+  /** Moves the user's 'sent' receipts to 'delivered'; returns only the receipts this call changed */
+  markDelivered(messageIds: string[], userId: string): Promise<MessageReceipt[]>;
+  markReadUpTo(conversationId: string, userId: string, upTo: Date): Promise<MessageReceipt[]>;
+}
@@ -1,13 +1,51 @@
 import { Message } from '@domain/entities/message.entity';
 import { MessageType } from '@domain/value-objects/message-type.vo';
+import { SyncCursor } from '@domain/value-objects/sync-cursor.vo';
+import { SearchCursor } from '@domain/value-objects/search-cursor.vo';
+
+export interface MessageSearchCriteria {
+  query: string;
+  senderId?: string;
+  conversationType?: string;
+  messageType?: string;
+  from?: Date;
+  to?: Date;
+  after?: SearchCursor;
+}
+
+export interface MessageSearchHit {
+  message: Message;
+  conversationType: string;
+  rank: number;
+  snippet: string;
+}
+
+export interface ExpiredMessageDeletion {
+  /** The IDs that were still there to delete */
+  deletedIds: string[];
+  storageKeys: string[];
+}
 
 export interface IMessageRepository {
   findById(messageId: string): Promise<Message | null>;
   findByConversation(conversationId: string, limit?: number, beforeMessageId?: string): Promise<Message[]>;
   findUnreadMessages(conversationId: string, lastReadMessageId: string): Promise<Message[]>;
+  findByIds(messageIds: string[]): Promise<Message[]>;
+  findThreadReplies(parentMessageId: string, limit?: number, afterMessageId?: string): Promise<Message[]>;
+  countThreadReplies(parentMessageId: string): Promise<number>;
+  findForSync(userId: string, after: SyncCursor, limit: number): Promise<Message[]>;
+  /** Latest sequence number in each of the user's conversations */
+  findSyncHeadsForUser(userId: string): Promise<SyncCursor>;
+  searchForUser(userId: string, criteria: MessageSearchCriteria, limit: number): Promise<MessageSearchHit[]>;
   save(message: Message): Promise<Message>;
   delete(messageId: string): Promise<void>;
   softDelete(messageId: string): Promise<void>;
+  findExpiredEphemeral(limit: number): Promise<Message[]>;
+  /**
+   * Delete the messages and their attachment records in one transaction. The
+   * stored files are left for the caller to remove once this has committed.
+   */
+  hardDeleteExpired(messageIds: string[]): Promise<ExpiredMessageDeletion>;
 }
 
 export interface IMessageQueryRepository {
@@ -0,0 +1,17 @@
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { BaseDomainEvent } from '@domain/events/base-domain-event';
+
+export interface IOutboxEventRepository {
+  append(events: BaseDomainEvent[]): Promise<void>;
+  /**
+   * Lock up to `limit` due events for this relay. Rows locked longer than
+   * `lockTimeoutMs` are treated as abandoned by a crashed relay and reclaimed.
+   * Claiming counts as an attempt, so the returned rows include this one.
+   */
+  claimBatch(limit: number, lockTimeoutMs: number): Promise<OutboxEvent[]>;
+  markDelivered(id: string): Promise<void>;
+  scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+  markDead(id: string, attempts: number, error: string): Promise<void>;
+  findDead(limit: number): Promise<OutboxEvent[]>;
+  requeue(id: string): Promise<boolean>;
+}
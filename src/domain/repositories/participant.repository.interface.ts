@@ -18,6 +18,8 @@ export interface IParticipantQueryRepository {
   findUnreadCounts(userId: string): Promise<Array<{ conversationId: string; unreadCount: number }>>;
   isParticipant(conversationId: string, userId: string): Promise<boolean>;
   countByConversation(conversationId: string): Promise<number>;
+  findContactUserIds(userId: string): Promise<string[]>;
+  countPinned(userId: string): Promise<number>;
 }
 
 export interface IParticipantCommandRepository {
@@ -26,5 +28,14 @@ export interface IParticipantCommandRepository {
   bulkSave(participants: Participant[]): Promise<Participant[]>;
   updateLastReadMessage(conversationId: string, userId: string, messageId: string): Promise<void>;
   updateRole(conversationId: string, userId: string, role: ParticipantRole): Promise<void>;
-  toggleMute(conversationId: string, userId: string, isMuted: boolean): Promise<void>;
+  toggleMute(conversationId: string, userId: string, isMuted: boolean, mutedUntil?: Date | null): Promise<void>;
+  setArchived(conversationId: string, userId: string, archivedAt: Date | null): Promise<void>;
+  setPinned(conversationId: string, userId: string, pinnedAt: Date | null): Promise<void>;
+  /**
+   * Pin the conversation unless the user already has `maxPinned` others pinned.
+   * Returns whether it is pinned afterwards.
+   */
+  pinWithinLimit(conversationId: string, userId: string, maxPinned: number): Promise<boolean>;
+  /** Clears the archive flag for everyone not muting the conversation; returns their user IDs */
+  unarchiveForNewMessage(conversationId: string): Promise<string[]>;
 }
\ No newline at end of file
@@ -2,12 +2,22 @@ import { IUserCommandRepository } from './user.repository.interface';
 import { IConversationCommandRepository } from './conversation.repository.interface';
 import { IMessageCommandRepository } from './message.repository.interface';
 import { IParticipantCommandRepository } from './participant.repository.interface';
+import { IAttachmentRepository } from './attachment.repository.interface';
+import { IConversationAssignmentRepository } from './conversation-assignment.repository.interface';
+import { BaseDomainEvent } from '@domain/events/base-domain-event';
 
 export interface IUnitOfWork {
   users: IUserCommandRepository;
   conversations: IConversationCommandRepository;
   messages: IMessageCommandRepository;
   participants: IParticipantCommandRepository;
+  attachments: IAttachmentRepository;
+  assignments: IConversationAssignmentRepository;
+
+  /**
+   * Queue domain events; they are written to the outbox as part of the commit
+   */
+  publish(...events: BaseDomainEvent[]): void;
 
   begin(): Promise<void>;
   commit(): Promise<void>;
@@ -0,0 +1,12 @@
+import { UserBlock } from '@domain/entities/user-block.entity';
+
+export interface IUserBlockRepository {
+  /** Idempotent: blocking someone twice keeps the original block */
+  block(blockerId: string, blockedId: string): Promise<UserBlock>;
+  unblock(blockerId: string, blockedId: string): Promise<void>;
+  findByBlocker(blockerId: string, limit: number, offset: number): Promise<{ blocks: UserBlock[]; total: number }>;
+  /** True if either user has blocked the other */
+  existsBetween(userId1: string, userId2: string): Promise<boolean>;
+  /** IDs of everyone who has blocked this user */
+  findBlockerIds(blockedId: string): Promise<string[]>;
+}
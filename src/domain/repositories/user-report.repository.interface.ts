@@ -0,0 +1,15 @@
+import { UserReport, UserReportStatus } from '@domain/entities/user-report.entity';
+
+export interface UserReportQuery {
+  status?: UserReportStatus;
+  reportedUserId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface IUserReportRepository {
+  save(report: UserReport): Promise<UserReport>;
+  findById(id: string): Promise<UserReport | null>;
+  /** Moderation queue, oldest first so nothing waits forever */
+  findMany(query: UserReportQuery): Promise<{ reports: UserReport[]; total: number }>;
+}
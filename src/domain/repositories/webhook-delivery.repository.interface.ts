@@ -0,0 +1,34 @@
+import { WebhookDelivery, WebhookDeliveryStatus } from '@domain/entities/webhook-delivery.entity';
+import { DomainEventEnvelope } from '@domain/events/domain-event-bus.interface';
+
+export interface IWebhookDeliveryRepository {
+  /**
+   * Queue the event for each subscription. An event already queued for a
+   * subscription is skipped, so relaying the same event twice is harmless.
+   */
+  enqueue(subscriptionIds: string[], event: DomainEventEnvelope): Promise<void>;
+  /**
+   * Lock up to `limit` due deliveries, together with their subscription.
+   * Rows locked longer than `lockTimeoutMs` are reclaimed.
+   */
+  claimBatch(limit: number, lockTimeoutMs: number): Promise<WebhookDelivery[]>;
+  markDelivered(id: string, attempts: number, responseStatus: number): Promise<void>;
+  scheduleRetry(
+    id: string,
+    attempts: number,
+    nextAttemptAt: Date,
+    error: string,
+    responseStatus?: number,
+  ): Promise<void>;
+  markFailed(id: string, attempts: number, error: string, responseStatus?: number): Promise<void>;
+  findById(id: string): Promise<WebhookDelivery | null>;
+  findBySubscription(
+    subscriptionId: string,
+    limit: number,
+    status?: WebhookDeliveryStatus,
+  ): Promise<WebhookDelivery[]>;
+  /**
+   * Send a delivery again from scratch, whatever its current state
+   */
+  replay(id: string): Promise<void>;
+}
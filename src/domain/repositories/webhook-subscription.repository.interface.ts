@@ -0,0 +1,12 @@
+import { WebhookSubscription } from '@domain/entities/webhook-subscription.entity';
+
+export interface IWebhookSubscriptionRepository {
+  save(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+  findById(id: string): Promise<WebhookSubscription | null>;
+  findByBusiness(businessId: string): Promise<WebhookSubscription[]>;
+  /**
+   * Active subscriptions of any of the given businesses that want this event
+   */
+  findActiveForEvent(businessIds: string[], eventName: string): Promise<WebhookSubscription[]>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,51 @@
+import { BusinessProfile, dailyBusinessHours, isWithinBusinessHours } from './business-profile.vo';
+
+describe('BusinessProfile Value Object', () => {
+  // Kathmandu is UTC+05:45
+  const kathmandu = dailyBusinessHours({ open: '09:00', close: '18:00', timezone: 'Asia/Kathmandu' });
+
+  describe('isWithinBusinessHours', () => {
+    it('should evaluate hours in the business timezone, not the server one', () => {
+      // 03:30 UTC is 09:15 in Kathmandu
+      expect(isWithinBusinessHours(kathmandu, new Date('2024-03-04T03:30:00Z'))).toBe(true);
+      // 12:30 UTC is 18:15 in Kathmandu
+      expect(isWithinBusinessHours(kathmandu, new Date('2024-03-04T12:30:00Z'))).toBe(false);
+    });
+
+    it('should treat the closing time as closed', () => {
+      // 12:15 UTC is exactly 18:00 in Kathmandu
+      expect(isWithinBusinessHours(kathmandu, new Date('2024-03-04T12:15:00Z'))).toBe(false);
+    });
+
+    it('should use the weekday in the business timezone', () => {
+      const weekdays = { timezone: 'Asia/Kathmandu', monday: { open: '00:00', close: '12:00' } };
+
+      // Sunday 20:00 UTC is already Monday 01:45 in Kathmandu
+      expect(isWithinBusinessHours(weekdays, new Date('2024-03-03T20:00:00Z'))).toBe(true);
+      // Monday 20:00 UTC is Tuesday in Kathmandu
+      expect(isWithinBusinessHours(weekdays, new Date('2024-03-04T20:00:00Z'))).toBe(false);
+    });
+
+    it('should carry overnight ranges past midnight', () => {
+      const bar = { timezone: 'UTC', friday: { open: '20:00', close: '02:00' } };
+
+      expect(isWithinBusinessHours(bar, new Date('2024-03-08T23:00:00Z'))).toBe(true);
+      expect(isWithinBusinessHours(bar, new Date('2024-03-09T01:30:00Z'))).toBe(true);
+      expect(isWithinBusinessHours(bar, new Date('2024-03-09T02:30:00Z'))).toBe(false);
+      expect(isWithinBusinessHours(bar, new Date('2024-03-08T19:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('create', () => {
+    it('should reject an unknown timezone', () => {
+      expect(() =>
+        BusinessProfile.create({
+          businessId: 1,
+          name: 'Cafe',
+          businessHours: { timezone: 'Mars/Olympus', monday: { open: '09:00', close: '17:00' } },
+          isActive: true,
+        }),
+      ).toThrow('Invalid business hours timezone');
+    });
+  });
+});
@@ -27,6 +27,79 @@ export interface TimeRange {
   close: string; // HH:mm format
 }
 
+export type Weekday = Exclude<keyof BusinessHours, 'timezone'>;
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * The same opening hours on every day of the week
+ */
+export function dailyBusinessHours(range: TimeRange & { timezone: string }): BusinessHours {
+  const hours: BusinessHours = { timezone: range.timezone };
+  for (const day of WEEKDAYS) {
+    hours[day] = { open: range.open, close: range.close };
+  }
+  return hours;
+}
+
+/**
+ * Weekday and HH:mm wall-clock time at the given instant in an IANA timezone.
+ * Throws a RangeError for an unknown timezone.
+ */
+export function localTimeIn(timezone: string, at: Date): { day: Weekday; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    day: part('weekday').toLowerCase() as Weekday,
+    time: `${part('hour').padStart(2, '0')}:${part('minute')}`,
+  };
+}
+
+/**
+ * Whether the business is open at the given instant, evaluated in the
+ * business's own timezone. A range is open from `open` up to but not including
+ * `close`; a close at or before the open time runs past midnight, and equal
+ * times mean open all day.
+ */
+export function isWithinBusinessHours(hours: BusinessHours, at: Date = new Date()): boolean {
+  const { day, time } = localTimeIn(hours.timezone, at);
+  const today = hours[day];
+  const yesterday = hours[WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7]];
+
+  if (today) {
+    const open = normalizeTime(today.open);
+    const close = normalizeTime(today.close);
+    if (open === close) {
+      return true;
+    }
+    if (time >= open && (close < open || time < close)) {
+      return true;
+    }
+  }
+
+  // Still inside yesterday's overnight range
+  if (yesterday) {
+    const open = normalizeTime(yesterday.open);
+    const close = normalizeTime(yesterday.close);
+    if (close < open && time < close) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function normalizeTime(value: string): string {
+  return value.padStart(5, '0');
+}
+
 export class BusinessProfile {
   private constructor(
     public readonly businessId: number,
@@ -99,6 +172,12 @@ export class BusinessProfile {
       throw new Error('Business hours timezone is required');
     }
 
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: hours.timezone });
+    } catch {
+      throw new Error(`Invalid business hours timezone: ${hours.timezone}`);
+    }
+
     const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
     
     Object.entries(hours).forEach(([day, timeRange]) => {
@@ -128,21 +207,12 @@ export class BusinessProfile {
     return this.name;
   }
 
-  isOpenNow(): boolean {
+  isOpenNow(now: Date = new Date()): boolean {
     if (!this.businessHours || !this.isActive) {
       return false;
     }
 
-    const now = new Date();
-    const dayName = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase() as keyof BusinessHours;
-    const timeRange = this.businessHours[dayName];
-
-    if (!timeRange || typeof timeRange === 'string') {
-      return false;
-    }
-
-    const currentTime = now.toTimeString().slice(0, 5); // HH:mm format
-    return currentTime >= timeRange.open && currentTime <= timeRange.close;
+    return isWithinBusinessHours(this.businessHours, now);
   }
 
   hasLogo(): boolean {
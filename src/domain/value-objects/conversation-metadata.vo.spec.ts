@@ -0,0 +1,42 @@
+import { ConversationMetadata } from './conversation-metadata.vo';
+
+describe('ConversationMetadata Value Object', () => {
+  describe('persistence', () => {
+    it('should round-trip through its JSON form', () => {
+      const metadata = ConversationMetadata.create({
+        title: ' Weekend trip ',
+        description: 'Planning',
+        avatar: 'https://example.com/trip.png',
+        settings: { allowFileSharing: false, maxParticipants: 5 },
+      });
+
+      const restored = ConversationMetadata.create(JSON.parse(JSON.stringify(metadata.toJSON())));
+
+      expect(restored.equals(metadata)).toBe(true);
+      expect(restored.title).toBe('Weekend trip');
+      expect(restored.getMaxParticipants()).toBe(5);
+    });
+  });
+
+  describe('updates', () => {
+    it('should change one field and keep the rest', () => {
+      const metadata = ConversationMetadata.create({ title: 'Team', avatar: 'https://example.com/a.png' })
+        .updateDescription('Daily standup')
+        .updateSettings({ allowImageSharing: false });
+
+      expect(metadata.title).toBe('Team');
+      expect(metadata.avatar).toBe('https://example.com/a.png');
+      expect(metadata.description).toBe('Daily standup');
+      expect(metadata.isImageSharingAllowed()).toBe(false);
+      expect(metadata.isFileSharingAllowed()).toBe(true);
+    });
+
+    it('should reject invalid values', () => {
+      const metadata = ConversationMetadata.createDefault();
+
+      expect(() => metadata.updateTitle('x'.repeat(101))).toThrow('cannot exceed 100 characters');
+      expect(() => metadata.updateDescription('x'.repeat(501))).toThrow('cannot exceed 500 characters');
+      expect(() => metadata.updateSettings({ maxParticipants: 20 })).toThrow('Max participants must be between 2 and 8');
+    });
+  });
+});
@@ -102,6 +102,30 @@ export class ConversationMetadata {
     );
   }
 
+  updateDescription(newDescription: string): ConversationMetadata {
+    if (newDescription.trim().length > ConversationMetadata.MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Conversation description cannot exceed ${ConversationMetadata.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+
+    return new ConversationMetadata(
+      this.title,
+      newDescription.trim(),
+      this.avatar,
+      this.settings,
+      this.customData,
+    );
+  }
+
+  updateAvatar(newAvatar: string): ConversationMetadata {
+    return new ConversationMetadata(
+      this.title,
+      this.description,
+      newAvatar.trim(),
+      this.settings,
+      this.customData,
+    );
+  }
+
   updateSettings(newSettings: Partial<ConversationSettings>): ConversationMetadata {
     const updatedSettings = { ...this.settings, ...newSettings };
     ConversationMetadata.validateSettings(updatedSettings);
@@ -131,6 +155,16 @@ export class ConversationMetadata {
     return this.settings?.allowImageSharing !== false;
   }
 
+  isMessageTypeAllowed(type: string): boolean {
+    if (type === 'image') {
+      return this.isImageSharingAllowed();
+    }
+    if (type === 'file') {
+      return this.isFileSharingAllowed();
+    }
+    return true;
+  }
+
   getMaxParticipants(): number {
     return this.settings?.maxParticipants || ConversationMetadata.MAX_PARTICIPANTS;
   }
@@ -0,0 +1,27 @@
+import { ReceiptStatus } from './receipt-status.vo';
+
+describe('ReceiptStatus Value Object', () => {
+  it('should parse the known statuses to their shared instances', () => {
+    expect(ReceiptStatus.fromString('sent')).toBe(ReceiptStatus.SENT);
+    expect(ReceiptStatus.fromString('delivered')).toBe(ReceiptStatus.DELIVERED);
+    expect(ReceiptStatus.fromString('read')).toBe(ReceiptStatus.READ);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(() => ReceiptStatus.fromString('seen')).toThrow('Invalid receipt status: seen');
+  });
+
+  describe('lowest', () => {
+    it('should pick the least-advanced status', () => {
+      expect(ReceiptStatus.lowest([ReceiptStatus.READ, ReceiptStatus.DELIVERED, ReceiptStatus.READ])).toBe(
+        ReceiptStatus.DELIVERED,
+      );
+      expect(ReceiptStatus.lowest([ReceiptStatus.READ, ReceiptStatus.SENT])).toBe(ReceiptStatus.SENT);
+      expect(ReceiptStatus.lowest([ReceiptStatus.READ])).toBe(ReceiptStatus.READ);
+    });
+
+    it('should treat a message without recipients as sent', () => {
+      expect(ReceiptStatus.lowest([])).toBe(ReceiptStatus.SENT);
+    });
+  });
+});
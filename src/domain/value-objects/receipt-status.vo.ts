@@ -0,0 +1,59 @@
+export class ReceiptStatus {
+  private static readonly VALID_STATUSES: readonly string[] = ['sent', 'delivered', 'read'];
+
+  public static readonly SENT = new ReceiptStatus('sent');
+  public static readonly DELIVERED = new ReceiptStatus('delivered');
+  public static readonly READ = new ReceiptStatus('read');
+
+  private constructor(public readonly value: string) {
+    if (!ReceiptStatus.VALID_STATUSES.includes(value)) {
+      throw new Error(`Invalid receipt status: ${value}. Valid statuses are: ${ReceiptStatus.VALID_STATUSES.join(', ')}`);
+    }
+  }
+
+  static fromString(value: string): ReceiptStatus {
+    switch (value) {
+      case 'sent':
+        return ReceiptStatus.SENT;
+      case 'delivered':
+        return ReceiptStatus.DELIVERED;
+      case 'read':
+        return ReceiptStatus.READ;
+      default:
+        throw new Error(`Invalid receipt status: ${value}`);
+    }
+  }
+
+  /**
+   * The least-advanced of a set of statuses, i.e. what the sender should see overall
+   */
+  static lowest(statuses: ReceiptStatus[]): ReceiptStatus {
+    if (statuses.length === 0) {
+      return ReceiptStatus.SENT;
+    }
+    return statuses.reduce((lowest, status) =>
+      ReceiptStatus.rank(status) < ReceiptStatus.rank(lowest) ? status : lowest
+    );
+  }
+
+  // Receipts only move forward: sent -> delivered -> read
+  private static rank(status: ReceiptStatus): number {
+    return ReceiptStatus.VALID_STATUSES.indexOf(status.value);
+  }
+
+  equals(other: ReceiptStatus): boolean {
+    return this.value === other.value;
+  }
+
+  isDelivered(): boolean {
+    return this.value === 'delivered';
+  }
+
+  isRead(): boolean {
+    return this.value === 'read';
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Position in a ranked search result list, ordered by (rank, sent_at, id) descending.
+ * Clients only ever see the opaque encoded form.
+ */
+export class SearchCursor {
+  private constructor(
+    public readonly rank: number,
+    public readonly messageId: string,
+    public readonly sentAt: Date,
+  ) {}
+
+  static create(rank: number, messageId: string, sentAt: Date): SearchCursor {
+    if (typeof rank !== 'number' || !isFinite(rank)) {
+      throw new Error('Search cursor requires a numeric rank');
+    }
+    if (!messageId) {
+      throw new Error('Search cursor requires a message ID');
+    }
+    if (!(sentAt instanceof Date) || isNaN(sentAt.getTime())) {
+      throw new Error('Search cursor requires a valid timestamp');
+    }
+    return new SearchCursor(rank, messageId, sentAt);
+  }
+
+  static decode(encoded: string): SearchCursor {
+    try {
+      const { r, m, t } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      return SearchCursor.create(r, m, new Date(t));
+    } catch {
+      throw new Error('Invalid search cursor');
+    }
+  }
+
+  encode(): string {
+    return Buffer.from(
+      JSON.stringify({ r: this.rank, m: this.messageId, t: this.sentAt.toISOString() }),
+    ).toString('base64url');
+  }
+}
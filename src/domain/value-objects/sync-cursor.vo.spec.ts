@@ -0,0 +1,50 @@
+import { SyncCursor } from './sync-cursor.vo';
+
+describe('SyncCursor Value Object', () => {
+  describe('encode/decode', () => {
+    it('should round-trip through the opaque form', () => {
+      const cursor = SyncCursor.create({ 'conv-1': 12, 'conv-2': 3 });
+
+      const decoded = SyncCursor.decode(cursor.encode());
+
+      expect(decoded.positionOf('conv-1')).toBe(12);
+      expect(decoded.positionOf('conv-2')).toBe(3);
+      expect(decoded.positionOf('conv-3')).toBe(0);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => SyncCursor.decode('not-a-cursor')).toThrow('Invalid sync cursor');
+      expect(() => SyncCursor.decode(Buffer.from('{"p":{"conv-1":-1}}').toString('base64url'))).toThrow(
+        'Invalid sync cursor',
+      );
+      expect(() => SyncCursor.decode(Buffer.from('{"p":{"conv-1":"7"}}').toString('base64url'))).toThrow(
+        'Invalid sync cursor',
+      );
+    });
+  });
+
+  describe('advancedTo', () => {
+    it('should move each conversation to the highest sequence seen and never back', () => {
+      const cursor = SyncCursor.create({ 'conv-1': 10, 'conv-2': 4 });
+
+      const next = cursor.advancedTo([
+        { conversationId: 'conv-1', seq: 11 },
+        { conversationId: 'conv-1', seq: 12 },
+        { conversationId: 'conv-2', seq: 2 },
+        { conversationId: 'conv-3', seq: 1 },
+      ]);
+
+      expect(next.positions).toEqual({ 'conv-1': 12, 'conv-2': 4, 'conv-3': 1 });
+      expect(cursor.positions).toEqual({ 'conv-1': 10, 'conv-2': 4 });
+    });
+  });
+
+  describe('merge', () => {
+    it('should keep the furthest position from either cursor', () => {
+      const client = SyncCursor.create({ 'conv-1': 5, 'conv-2': 9 });
+      const stored = SyncCursor.create({ 'conv-1': 8, 'conv-3': 2 });
+
+      expect(client.merge(stored).positions).toEqual({ 'conv-1': 8, 'conv-2': 9, 'conv-3': 2 });
+    });
+  });
+});
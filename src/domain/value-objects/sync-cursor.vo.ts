@@ -0,0 +1,63 @@
+/**
+ * Position in a user's message stream: the last sequence number seen in each
+ * conversation. Sequence numbers are handed out per conversation in commit
+ * order, so nothing can land behind a position once it has been passed.
+ * Clients only ever see the opaque encoded form.
+ */
+export class SyncCursor {
+  private constructor(public readonly positions: Readonly<Record<string, number>>) {}
+
+  static create(positions: Record<string, number> = {}): SyncCursor {
+    for (const [conversationId, seq] of Object.entries(positions)) {
+      if (!conversationId) {
+        throw new Error('Sync cursor requires conversation IDs');
+      }
+      if (!Number.isSafeInteger(seq) || seq < 0) {
+        throw new Error('Sync cursor positions must be non-negative integers');
+      }
+    }
+    return new SyncCursor({ ...positions });
+  }
+
+  static decode(encoded: string): SyncCursor {
+    try {
+      const { p } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      if (typeof p !== 'object' || p === null || Array.isArray(p)) {
+        throw new Error('Sync cursor positions must be an object');
+      }
+      return SyncCursor.create(p);
+    } catch {
+      throw new Error('Invalid sync cursor');
+    }
+  }
+
+  positionOf(conversationId: string): number {
+    return this.positions[conversationId] ?? 0;
+  }
+
+  /**
+   * The furthest position of the two cursors in every conversation
+   */
+  merge(other: SyncCursor): SyncCursor {
+    const positions = { ...this.positions };
+    for (const [conversationId, seq] of Object.entries(other.positions)) {
+      positions[conversationId] = Math.max(positions[conversationId] ?? 0, seq);
+    }
+    return new SyncCursor(positions);
+  }
+
+  /**
+   * Cursor moved past the given messages
+   */
+  advancedTo(messages: ReadonlyArray<{ conversationId: string; seq: number }>): SyncCursor {
+    const positions: Record<string, number> = {};
+    for (const message of messages) {
+      positions[message.conversationId] = Math.max(positions[message.conversationId] ?? 0, message.seq);
+    }
+    return this.merge(new SyncCursor(positions));
+  }
+
+  encode(): string {
+    return Buffer.from(JSON.stringify({ p: this.positions })).toString('base64url');
+  }
+}
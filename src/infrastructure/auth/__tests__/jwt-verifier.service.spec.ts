@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { JwtVerifierService } from '../services/jwt-verifier.service';
+
+const SECRET = 'verifier-test-secret';
+const KAHA_ISSUER = 'kaha-main-v3';
+
+describe('JwtVerifierService', () => {
+  const jwtService = new JwtService({});
+  let dir: string;
+  let jwksPath: string;
+
+  const createKey = (kid: string) => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return { kid, privateKey, publicKey };
+  };
+
+  const writeJwks = (...keys: Array<{ kid: string; publicKey: KeyObject }>) =>
+    writeFileSync(
+      jwksPath,
+      JSON.stringify({
+        keys: keys.map(({ kid, publicKey }) => ({ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' })),
+      }),
+    );
+
+  const signKaha = (key: { kid: string; privateKey: KeyObject }, payload: object = { userId: 'user-1' }) =>
+    jwtService.sign(payload, {
+      privateKey: key.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      algorithm: 'RS256',
+      keyid: key.kid,
+      issuer: KAHA_ISSUER,
+      audience: 'chat-backend',
+      expiresIn: '5m',
+    });
+
+  const createVerifier = (overrides: Record<string, unknown> = {}) =>
+    new JwtVerifierService(
+      new ConfigService({
+        EXTERNAL_JWT_VERIFY: true,
+        JWT_SECRET: SECRET,
+        JWT_ISSUER: 'chat-backend',
+        JWT_AUDIENCE: 'chat-backend',
+        JWT_CLOCK_SKEW_SECONDS: 30,
+        KAHA_JWT_ISSUER: KAHA_ISSUER,
+        KAHA_JWKS_URL: pathToFileURL(jwksPath).href,
+        KAHA_JWKS_MIN_REFRESH_SECONDS: 0,
+        ...overrides,
+      }),
+      jwtService,
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+    jwksPath = join(dir, 'jwks.json');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('should accept our own tokens', async () => {
+    const token = jwtService.sign(
+      { userId: 'user-1' },
+      { secret: SECRET, issuer: 'chat-backend', audience: 'chat-backend', expiresIn: '5m' },
+    );
+
+    await expect(createVerifier().verify(token)).resolves.toMatchObject({ userId: 'user-1' });
+  });
+
+  it('should reject a token for another audience', async () => {
+    const token = jwtService.sign(
+      { userId: 'user-1' },
+      { secret: SECRET, issuer: 'chat-backend', audience: 'other-service', expiresIn: '5m' },
+    );
+
+    await expect(createVerifier().verify(token)).rejects.toThrow(/audience/);
+  });
+
+  it('should allow expiry within the clock skew only', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sign = (exp: number) =>
+      jwtService.sign(
+        { userId: 'user-1', exp },
+        { secret: SECRET, issuer: 'chat-backend', audience: 'chat-backend' },
+      );
+    const verifier = createVerifier();
+
+    await expect(verifier.verify(sign(now - 10))).resolves.toBeDefined();
+    await expect(verifier.verify(sign(now - 60))).rejects.toThrow(/expired/);
+  });
+
+  it('should verify kaha tokens against the JWKS and pick up rotated keys', async () => {
+    const current = createKey('key-1');
+    const next = createKey('key-2');
+    writeJwks(current);
+    const verifier = createVerifier();
+
+    await expect(verifier.verify(signKaha(current))).resolves.toMatchObject({ userId: 'user-1' });
+
+    writeJwks(current, next);
+    await expect(verifier.verify(signKaha(next))).resolves.toMatchObject({ userId: 'user-1' });
+  });
+
+  it('should not refetch the JWKS for unknown keys more often than allowed', async () => {
+    const current = createKey('key-1');
+    const next = createKey('key-2');
+    writeJwks(current);
+    const verifier = createVerifier({ KAHA_JWKS_MIN_REFRESH_SECONDS: 60 });
+
+    await verifier.verify(signKaha(current));
+    writeJwks(current, next);
+
+    await expect(verifier.verify(signKaha(next))).rejects.toThrow(/Unknown signing key/);
+  });
+
+  it('should reject an HS256 token claiming to be from kaha', async () => {
+    writeJwks(createKey('key-1'));
+    const token = jwtService.sign(
+      { userId: 'user-1' },
+      { secret: SECRET, issuer: KAHA_ISSUER, audience: 'chat-backend', keyid: 'key-1', expiresIn: '5m' },
+    );
+
+    await expect(createVerifier().verify(token)).rejects.toThrow();
+  });
+
+  it('should reject tokens from an untrusted issuer', async () => {
+    const token = jwtService.sign({ userId: 'user-1' }, { secret: SECRET, issuer: 'someone-else', expiresIn: '5m' });
+
+    await expect(createVerifier().verify(token)).rejects.toThrow(/Untrusted token issuer/);
+  });
+
+  it('should still refuse expired tokens when verification is off', async () => {
+    const token = jwtService.sign(
+      { userId: 'user-1', exp: Math.floor(Date.now() / 1000) - 120 },
+      { secret: 'any-secret' },
+    );
+
+    await expect(createVerifier({ EXTERNAL_JWT_VERIFY: false }).verify(token)).rejects.toThrow(/expired/);
+  });
+});
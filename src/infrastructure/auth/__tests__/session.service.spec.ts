@@ -0,0 +1,156 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { AuthSession } from '@domain/entities/auth-session.entity';
+import { ICacheService } from '@infrastructure/cache/cache.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { WebSocketConnectionService } from '@infrastructure/websocket/services/websocket-connection.service';
+import { SessionService } from '../services/session.service';
+import { revokedSessionKey } from '../services/session-revocation';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let repository: jest.Mocked<IAuthSessionRepository>;
+  let cache: jest.Mocked<Pick<ICacheService, 'set' | 'exists'>>;
+  let connectionService: { disconnectSession: jest.Mock };
+
+  const createSession = (overrides: Partial<AuthSession> = {}): AuthSession =>
+    Object.assign(new AuthSession(), {
+      id: 'session-1',
+      userId: 'user-1',
+      deviceId: 'device-1',
+      currentTokenId: 'token-1',
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    repository = {
+      findById: jest.fn(),
+      findActiveByUser: jest.fn(),
+      findActiveByUserAndDevice: jest.fn().mockResolvedValue([]),
+      save: jest.fn(session => Promise.resolve(session)),
+      rotateToken: jest.fn(),
+      revoke: jest.fn(),
+    };
+    cache = { set: jest.fn(), exists: jest.fn() };
+    connectionService = { disconnectSession: jest.fn() };
+    const logger = { security: jest.fn(), audit: jest.fn() } as unknown as StructuredLoggerService;
+
+    service = new SessionService(
+      repository,
+      cache as unknown as ICacheService,
+      connectionService as unknown as WebSocketConnectionService,
+      logger,
+    );
+  });
+
+  describe('rotate', () => {
+    it('should swap in the new refresh token', async () => {
+      repository.findById.mockResolvedValue(createSession());
+      repository.rotateToken.mockResolvedValue(true);
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+      const session = await service.rotate('session-1', 'user-1', 'token-1', 'token-2', expiresAt);
+
+      expect(repository.rotateToken).toHaveBeenCalledWith('session-1', 'token-1', 'token-2', expiresAt);
+      expect(session.currentTokenId).toBe('token-2');
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when an old refresh token is reused', async () => {
+      repository.findById.mockResolvedValue(createSession({ currentTokenId: 'token-2' }));
+      repository.rotateToken.mockResolvedValue(false);
+
+      await expect(
+        service.rotate('session-1', 'user-1', 'token-1', 'token-3', new Date(Date.now() + 1000)),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(repository.revoke).toHaveBeenCalledWith('session-1', 'reuse_detected');
+      expect(cache.set).toHaveBeenCalledWith(revokedSessionKey('session-1'), 'reuse_detected', expect.any(Number));
+      expect(connectionService.disconnectSession).toHaveBeenCalledWith('session-1', 'reuse_detected');
+    });
+
+    it('should refuse a revoked session without rotating', async () => {
+      repository.findById.mockResolvedValue(createSession({ revokedAt: new Date() }));
+
+      await expect(
+        service.rotate('session-1', 'user-1', 'token-1', 'token-2', new Date(Date.now() + 1000)),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(repository.rotateToken).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should replace the previous session when the same device signs in again', async () => {
+    repository.findActiveByUserAndDevice.mockResolvedValue([createSession({ id: 'old-session' })]);
+
+    await service.start({
+      sessionId: 'session-2',
+      userId: 'user-1',
+      deviceId: 'device-1',
+      tokenId: 'token-1',
+      expiresAt: new Date(Date.now() + 1000),
+      device: { deviceName: 'Phone' },
+    });
+
+    expect(repository.revoke).toHaveBeenCalledWith('old-session', 'replaced');
+    expect(repository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'session-2', deviceId: 'device-1', deviceName: 'Phone' }),
+    );
+  });
+
+  it('should keep the current session when signing out other devices', async () => {
+    repository.findActiveByUser.mockResolvedValue([
+      createSession({ id: 'current' }),
+      createSession({ id: 'laptop' }),
+      createSession({ id: 'tablet' }),
+    ]);
+
+    const revoked = await service.revokeOthers('user-1', 'current');
+
+    expect(revoked).toBe(2);
+    expect(repository.revoke.mock.calls.map(([id]) => id)).toEqual(['laptop', 'tablet']);
+    expect(connectionService.disconnectSession).toHaveBeenCalledTimes(2);
+  });
+
+  describe('isRevoked', () => {
+    it('should trust the revocation marker without reading the database', async () => {
+      cache.exists.mockResolvedValue(true);
+
+      expect(await service.isRevoked('session-1')).toBe(true);
+      expect(repository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the session row when the marker is missing', async () => {
+      cache.exists.mockResolvedValue(false);
+      repository.findById.mockResolvedValue(createSession({ revokedAt: new Date() }));
+
+      expect(await service.isRevoked('session-1')).toBe(true);
+    });
+
+    it('should fall back to the session row when Redis fails', async () => {
+      cache.exists.mockRejectedValue(new Error('connection refused'));
+      repository.findById.mockResolvedValue(createSession());
+
+      expect(await service.isRevoked('session-1')).toBe(false);
+    });
+
+    it('should treat a session that no longer exists as revoked', async () => {
+      cache.exists.mockResolvedValue(false);
+      repository.findById.mockResolvedValue(null);
+
+      expect(await service.isRevoked('session-1')).toBe(true);
+    });
+  });
+
+  it('should report a failed marker write but still disconnect the session', async () => {
+    repository.findById.mockResolvedValue(createSession());
+    cache.set.mockRejectedValue(new Error('connection refused'));
+
+    await expect(service.revoke('user-1', 'session-1', 'logout')).rejects.toThrow('connection refused');
+
+    expect(repository.revoke).toHaveBeenCalledWith('session-1', 'logout');
+    expect(connectionService.disconnectSession).toHaveBeenCalledWith('session-1', 'logout');
+  });
+});
@@ -0,0 +1,28 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Lets through only the users listed in MODERATION_ADMIN_IDS. Must run after
+ * JwtAuthGuard so the request carries an authenticated user.
+ */
+@Injectable()
+export class ModeratorGuard implements CanActivate {
+  private readonly moderatorIds: Set<string>;
+
+  constructor(configService: ConfigService) {
+    this.moderatorIds = new Set(
+      (configService.get<string>('MODERATION_ADMIN_IDS') || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean),
+    );
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const user = context.switchToHttp().getRequest().user;
+    if (!user?.userId || !this.moderatorIds.has(user.userId)) {
+      throw new ForbiddenException('Moderator access required');
+    }
+    return true;
+  }
+}
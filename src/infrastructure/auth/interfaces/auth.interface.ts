@@ -5,19 +5,42 @@ export interface JwtPayload {
   id?: string;
   // Optional external identifier present in some tokens.
   kahaId?: string;
+  // Session (refresh-token rotation family) and device the token was issued to.
+  sid?: string;
+  did?: string;
+  // Refresh token ID; only the session's current one is accepted.
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
 export interface AuthUser {
   userId: string;
+  // Absent for tokens issued outside this service
+  sessionId?: string;
+  deviceId?: string;
+}
+
+export interface SessionDevice {
+  // Generated when the client doesn't send a stable one
+  deviceId?: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+  deviceId: string;
 }
 
 export interface IAuthService {
   validateUser(payload: JwtPayload): Promise<AuthUser | null>;
-  generateTokens(userId: string): Promise<{ accessToken: string; refreshToken: string }>;
+  generateTokens(userId: string, device?: SessionDevice): Promise<AuthTokens>;
   verifyToken(token: string): Promise<JwtPayload>;
-  refreshTokens(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }>;
+  refreshTokens(refreshToken: string): Promise<AuthTokens>;
 }
 
 export interface ITokenService {
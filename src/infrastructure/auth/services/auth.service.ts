@@ -1,7 +1,10 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IAuthService, JwtPayload, AuthUser } from '../interfaces/auth.interface';
+import { randomUUID } from 'crypto';
+import { IAuthService, JwtPayload, AuthUser, AuthTokens, SessionDevice } from '../interfaces/auth.interface';
 import { TokenService } from './token.service';
+import { SessionService } from './session.service';
+import { JwtVerifierService } from './jwt-verifier.service';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 @Injectable()
@@ -14,6 +17,8 @@ export class AuthService implements IAuthService {
   constructor(
     private readonly configService: ConfigService,
     private readonly tokenService: TokenService,
+    private readonly sessionService: SessionService,
+    private readonly jwtVerifier: JwtVerifierService,
     private readonly logger: StructuredLoggerService,
   ) {
     this.jwtSecret = this.configService.get<string>('JWT_SECRET');
@@ -31,6 +36,11 @@ export class AuthService implements IAuthService {
         return null;
       }
 
+      if (payload.sid && (await this.sessionService.isRevoked(payload.sid))) {
+        this.logger.security('Token from a revoked session', { userId: normalizedUserId, sessionId: payload.sid });
+        return null;
+      }
+
       this.logger.debug('User validated successfully', {
         service: 'AuthService',
         operation: 'validateUser',
@@ -38,7 +48,7 @@ export class AuthService implements IAuthService {
         kahaId: payload.kahaId,
       });
 
-      return { userId: normalizedUserId };
+      return { userId: normalizedUserId, sessionId: payload.sid, deviceId: payload.did };
     } catch (error) {
       this.logger.error('Failed to validate user', error, {
         service: 'AuthService',
@@ -49,28 +59,31 @@ export class AuthService implements IAuthService {
     }
   }
 
-  async generateTokens(userId: string): Promise<{ accessToken: string; refreshToken: string }> {
+  /**
+   * Sign in a device: starts a session and issues its first token pair
+   */
+  async generateTokens(userId: string, device: SessionDevice = {}): Promise<AuthTokens> {
     try {
-      const payload: JwtPayload = { userId };
+      const sessionId = randomUUID();
+      const deviceId = device.deviceId || randomUUID();
+      const tokenId = randomUUID();
+      const tokens = this.signTokens(userId, sessionId, deviceId, tokenId);
 
-      const accessToken = this.tokenService.sign(
-        payload,
-        this.jwtSecret,
-        { expiresIn: this.jwtExpiresIn }
-      );
-
-      const refreshToken = this.tokenService.sign(
-        payload,
-        this.refreshSecret,
-        { expiresIn: this.refreshExpiresIn }
-      );
+      await this.sessionService.start({
+        sessionId,
+        userId,
+        deviceId,
+        tokenId,
+        expiresAt: this.expiryOf(tokens.refreshToken),
+        device,
+      });
 
-      this.logger.audit('Tokens generated', { userId }, {
+      this.logger.audit('Tokens generated', { userId, sessionId, deviceId }, {
         service: 'AuthService',
         operation: 'generateTokens',
       });
 
-      return { accessToken, refreshToken };
+      return tokens;
     } catch (error) {
       this.logger.error('Failed to generate tokens', error, {
         service: 'AuthService',
@@ -83,30 +96,15 @@ export class AuthService implements IAuthService {
 
   async verifyToken(token: string): Promise<JwtPayload> {
     try {
-      const externalJwtVerify = this.configService.get<string>('EXTERNAL_JWT_VERIFY', 'false') === 'true';
-      
-      let payload: JwtPayload;
-      
-      if (!externalJwtVerify) {
-        // For development: decode without verification (external tokens)
-        payload = this.tokenService.decode(token) as JwtPayload;
-        this.logger.debug('Token decoded without verification (development mode)', {
-          service: 'AuthService',
-          operation: 'verifyToken',
-          userId: payload.userId ?? payload.id,
-          kahaId: payload.kahaId,
-        });
-      } else {
-        // For production: verify with secret
-        payload = this.tokenService.verify(token, this.jwtSecret) as JwtPayload;
-        this.logger.debug('Token verified successfully', {
-          service: 'AuthService',
-          operation: 'verifyToken',
-          userId: payload.userId ?? payload.id,
-          kahaId: payload.kahaId,
-        });
-      }
-      
+      const payload = await this.jwtVerifier.verify(token);
+
+      this.logger.debug('Token verified successfully', {
+        service: 'AuthService',
+        operation: 'verifyToken',
+        userId: payload.userId ?? payload.id,
+        kahaId: payload.kahaId,
+      });
+
       // Normalize: if token contains `id` but not `userId`, map it for downstream consumers
       if (!payload.userId && payload.id) {
         payload.userId = payload.id;
@@ -122,17 +120,29 @@ export class AuthService implements IAuthService {
     }
   }
 
-  async refreshTokens(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }> {
+  /**
+   * Exchange the session's current refresh token for a new pair. Tokens
+   * without a session, or from a revoked one, are refused.
+   */
+  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
     try {
       const payload = this.tokenService.verify(refreshToken, this.refreshSecret) as JwtPayload;
       const normalizedUserId = (payload.userId ?? payload.id) as string | undefined;
-      if (!normalizedUserId) {
+      if (!normalizedUserId || !payload.sid || !payload.did || !payload.jti) {
         throw new UnauthorizedException('Invalid refresh token payload');
       }
 
-      const tokens = await this.generateTokens(normalizedUserId);
+      const newTokenId = randomUUID();
+      const tokens = this.signTokens(normalizedUserId, payload.sid, payload.did, newTokenId);
+      await this.sessionService.rotate(
+        payload.sid,
+        normalizedUserId,
+        payload.jti,
+        newTokenId,
+        this.expiryOf(tokens.refreshToken),
+      );
 
-      this.logger.audit('Tokens refreshed', { userId: payload.userId }, {
+      this.logger.audit('Tokens refreshed', { userId: normalizedUserId, sessionId: payload.sid }, {
         service: 'AuthService',
         operation: 'refreshTokens',
       });
@@ -146,4 +156,38 @@ export class AuthService implements IAuthService {
       throw new UnauthorizedException('Invalid refresh token');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * End the session the caller's token belongs to
+   */
+  async logout(user: AuthUser): Promise<void> {
+    if (!user.sessionId) {
+      throw new BadRequestException('This token is not tied to a session');
+    }
+    await this.sessionService.revoke(user.userId, user.sessionId, 'logout');
+  }
+
+  private signTokens(userId: string, sessionId: string, deviceId: string, tokenId: string): AuthTokens {
+    const accessToken = this.tokenService.sign(
+      { userId, sid: sessionId, did: deviceId } as JwtPayload,
+      this.jwtSecret,
+      {
+        expiresIn: this.jwtExpiresIn,
+        issuer: this.configService.get<string>('JWT_ISSUER', 'chat-backend'),
+        audience: this.configService.get<string>('JWT_AUDIENCE', 'chat-backend'),
+      }
+    );
+
+    const refreshToken = this.tokenService.sign(
+      { userId, sid: sessionId, did: deviceId, jti: tokenId } as JwtPayload,
+      this.refreshSecret,
+      { expiresIn: this.refreshExpiresIn }
+    );
+
+    return { accessToken, refreshToken, sessionId, deviceId };
+  }
+
+  private expiryOf(token: string): Date {
+    return new Date((this.tokenService.decode(token) as JwtPayload).exp * 1000);
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { JwtPayload } from '../interfaces/auth.interface';
+
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+interface JwksKey extends JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+/**
+ * Verifies access tokens for both HTTP and socket authentication.
+ *
+ * With EXTERNAL_JWT_VERIFY off, tokens are only decoded and checked for
+ * expiry (development). With it on, the token's issuer picks the key: our own
+ * tokens are HS256 with JWT_SECRET, kaha tokens are RS256 with a key from the
+ * kaha JWKS document. Audience, issuer and expiry are checked with
+ * JWT_CLOCK_SKEW_SECONDS of tolerance.
+ */
+@Injectable()
+export class JwtVerifierService {
+  private readonly logger = new Logger(JwtVerifierService.name);
+  private jwksKeys = new Map<string, string>();
+  private jwksFetchedAt = 0;
+  private jwksRefresh?: Promise<void>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async verify(token: string): Promise<JwtPayload> {
+    const decoded = this.jwtService.decode(token, { complete: true }) as
+      | { header: { alg?: string; kid?: string }; payload: JwtPayload & { iss?: string } }
+      | null;
+    if (!decoded || typeof decoded.payload !== 'object') {
+      throw new Error('Invalid token format');
+    }
+
+    if (!this.configService.get<boolean>('EXTERNAL_JWT_VERIFY', false)) {
+      const skew = this.getClockSkewSeconds();
+      if (decoded.payload.exp && decoded.payload.exp + skew < Math.floor(Date.now() / 1000)) {
+        throw new Error('Token has expired');
+      }
+      return decoded.payload;
+    }
+
+    const issuer = decoded.payload.iss;
+    const ownIssuer = this.configService.get<string>('JWT_ISSUER', 'chat-backend');
+    const kahaIssuer = this.configService.get<string>('KAHA_JWT_ISSUER');
+    const audience = this.configService.get<string>('JWT_AUDIENCE', 'chat-backend');
+
+    if (issuer === ownIssuer) {
+      return this.jwtService.verify<JwtPayload>(token, {
+        secret: this.configService.get<string>('JWT_SECRET'),
+        algorithms: ['HS256'],
+        issuer: ownIssuer,
+        audience,
+        clockTolerance: this.getClockSkewSeconds(),
+      });
+    }
+
+    if (kahaIssuer && issuer === kahaIssuer) {
+      const publicKey = await this.getSigningKey(decoded.header.kid);
+      return this.jwtService.verify<JwtPayload>(token, {
+        publicKey,
+        algorithms: ['RS256'],
+        issuer: kahaIssuer,
+        audience: this.configService.get<string>('KAHA_JWT_AUDIENCE') || audience,
+        clockTolerance: this.getClockSkewSeconds(),
+      });
+    }
+
+    throw new Error(`Untrusted token issuer: ${issuer ?? 'none'}`);
+  }
+
+  /**
+   * PEM for the kaha key with this ID. An unknown ID usually means kaha has
+   * rotated its keys, so the JWKS document is fetched again (at most once per
+   * KAHA_JWKS_MIN_REFRESH_SECONDS).
+   */
+  private async getSigningKey(kid: string | undefined): Promise<string> {
+    if (!kid) {
+      throw new Error('Token has no key ID');
+    }
+
+    const cacheSeconds = this.configService.get<number>('KAHA_JWKS_CACHE_SECONDS', 600);
+    const minRefreshSeconds = this.configService.get<number>('KAHA_JWKS_MIN_REFRESH_SECONDS', 30);
+    const age = (Date.now() - this.jwksFetchedAt) / 1000;
+
+    if (age > cacheSeconds || (!this.jwksKeys.has(kid) && age > minRefreshSeconds)) {
+      await this.refreshJwks();
+    }
+
+    const key = this.jwksKeys.get(kid);
+    if (!key) {
+      throw new Error(`Unknown signing key ${kid}`);
+    }
+    return key;
+  }
+
+  private refreshJwks(): Promise<void> {
+    // Concurrent verifications share one fetch
+    if (!this.jwksRefresh) {
+      this.jwksRefresh = this.loadJwks()
+        .catch(error => {
+          // Keep verifying with the keys we have until the JWKS is reachable again
+          this.logger.error(`Failed to refresh kaha JWKS: ${error.message}`);
+        })
+        .finally(() => {
+          this.jwksFetchedAt = Date.now();
+          this.jwksRefresh = undefined;
+        });
+    }
+    return this.jwksRefresh;
+  }
+
+  private async loadJwks(): Promise<void> {
+    const source = this.configService.get<string>('KAHA_JWKS_URL');
+    if (!source) {
+      throw new Error('KAHA_JWKS_URL is not configured');
+    }
+
+    let document: { keys?: JwksKey[] };
+    if (source.startsWith('file:')) {
+      document = JSON.parse(await readFile(fileURLToPath(source), 'utf8'));
+    } else {
+      const response = await fetch(source, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`JWKS endpoint responded with ${response.status}`);
+      }
+      document = await response.json();
+    }
+
+    const keys = new Map<string, string>();
+    for (const jwk of Array.isArray(document?.keys) ? document.keys : []) {
+      if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig') || (jwk.alg && jwk.alg !== 'RS256')) {
+        continue;
+      }
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }) as string);
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable JWKS key ${jwk.kid}: ${error.message}`);
+      }
+    }
+
+    if (keys.size === 0) {
+      throw new Error('JWKS document has no usable RS256 signing keys');
+    }
+
+    this.jwksKeys = keys;
+    this.logger.log(`Loaded ${keys.size} kaha signing keys`);
+  }
+
+  private getClockSkewSeconds(): number {
+    return this.configService.get<number>('JWT_CLOCK_SKEW_SECONDS', 30);
+  }
+}
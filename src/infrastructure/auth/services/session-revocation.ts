@@ -0,0 +1,38 @@
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { ICacheService } from '@infrastructure/cache/cache.interface';
+
+/**
+ * Redis marker set while a revoked session's access tokens could still be
+ * unexpired. HTTP and socket authentication both refuse tokens carrying it.
+ */
+export function revokedSessionKey(sessionId: string): string {
+  return `auth:revoked_session:${sessionId}`;
+}
+
+/**
+ * Whether tokens from the session must be refused. The marker answers for
+ * revoked sessions; when it is missing or Redis can't be read, auth_sessions
+ * decides, so a lost marker write or a Redis outage doesn't let a revoked
+ * session back in. Database errors propagate for the caller to refuse on.
+ */
+export async function isRevokedSession(
+  sessionId: string,
+  sessions: IAuthSessionRepository,
+  cache?: ICacheService,
+): Promise<boolean> {
+  try {
+    if (cache && (await cache.exists(revokedSessionKey(sessionId)))) {
+      return true;
+    }
+  } catch {
+    // Fall back to the database below
+  }
+
+  const session = await sessions.findById(sessionId);
+  return !session || !!session.revokedAt;
+}
+
+/** Socket.IO room joined by every socket opened with a given session */
+export function sessionRoom(sessionId: string): string {
+  return `session_${sessionId}`;
+}
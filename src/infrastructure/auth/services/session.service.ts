@@ -0,0 +1,138 @@
+import { Injectable, Inject, UnauthorizedException, NotFoundException } from '@nestjs/common';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { AuthSession, SessionRevocationReason } from '@domain/entities/auth-session.entity';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { WebSocketConnectionService } from '@infrastructure/websocket/services/websocket-connection.service';
+import { SessionDevice } from '../interfaces/auth.interface';
+import { isRevokedSession, revokedSessionKey } from './session-revocation';
+
+export interface NewSession {
+  sessionId: string;
+  userId: string;
+  deviceId: string;
+  tokenId: string;
+  expiresAt: Date;
+  device: SessionDevice;
+}
+
+/**
+ * Server-side sessions backing refresh tokens. Ending a session refuses its
+ * remaining tokens and disconnects the device's sockets.
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    @Inject('IAuthSessionRepository')
+    private readonly sessionRepository: IAuthSessionRepository,
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+    private readonly connectionService: WebSocketConnectionService,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  /**
+   * Record a sign-in. A device holds one session at a time, so signing in
+   * again on the same device ends the previous one.
+   */
+  async start(session: NewSession): Promise<AuthSession> {
+    const previous = await this.sessionRepository.findActiveByUserAndDevice(session.userId, session.deviceId);
+    for (const existing of previous) {
+      await this.end(existing, 'replaced');
+    }
+
+    const now = new Date();
+    return this.sessionRepository.save(
+      Object.assign(new AuthSession(), {
+        id: session.sessionId,
+        userId: session.userId,
+        deviceId: session.deviceId,
+        deviceName: session.device.deviceName || null,
+        userAgent: session.device.userAgent?.slice(0, 500) || null,
+        ipAddress: session.device.ipAddress || null,
+        currentTokenId: session.tokenId,
+        lastUsedAt: now,
+        expiresAt: session.expiresAt,
+      }),
+    );
+  }
+
+  /**
+   * Accept `tokenId` as the session's current refresh token and replace it
+   * with `newTokenId`. Presenting any other token from the family means it
+   * leaked, so the session is revoked.
+   */
+  async rotate(
+    sessionId: string,
+    userId: string,
+    tokenId: string,
+    newTokenId: string,
+    expiresAt: Date,
+  ): Promise<AuthSession> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId || !session.isActive()) {
+      throw new UnauthorizedException('Session has ended');
+    }
+
+    if (await this.sessionRepository.rotateToken(sessionId, tokenId, newTokenId, expiresAt)) {
+      return Object.assign(session, { currentTokenId: newTokenId, expiresAt, lastUsedAt: new Date() });
+    }
+
+    await this.end(session, 'reuse_detected');
+    this.logger.security('Refresh token reuse detected; session revoked', { userId, sessionId }, {
+      service: 'SessionService',
+      operation: 'rotate',
+    });
+    throw new UnauthorizedException('Refresh token has already been used');
+  }
+
+  async list(userId: string): Promise<AuthSession[]> {
+    return this.sessionRepository.findActiveByUser(userId);
+  }
+
+  async revoke(userId: string, sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId || !session.isActive()) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.end(session, reason);
+    this.logger.audit('Session revoked', { userId, sessionId, reason }, {
+      service: 'SessionService',
+      operation: 'revoke',
+    });
+  }
+
+  /**
+   * Sign out every other device. Returns how many sessions were ended.
+   */
+  async revokeOthers(userId: string, keepSessionId?: string): Promise<number> {
+    const sessions = (await this.sessionRepository.findActiveByUser(userId)).filter(s => s.id !== keepSessionId);
+    for (const session of sessions) {
+      await this.end(session, 'remote_logout');
+    }
+
+    this.logger.audit('Other sessions revoked', { userId, count: sessions.length }, {
+      service: 'SessionService',
+      operation: 'revokeOthers',
+    });
+    return sessions.length;
+  }
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    return isRevokedSession(sessionId, this.sessionRepository, this.cache);
+  }
+
+  private async end(session: AuthSession, reason: SessionRevocationReason): Promise<void> {
+    await this.sessionRepository.revoke(session.id, reason);
+
+    // Access tokens expire before their session does, so the marker can too
+    const ttlSeconds = Math.max(Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000), 1);
+    try {
+      await this.cache.set(revokedSessionKey(session.id), reason, ttlSeconds);
+    } finally {
+      // The session is already revoked in the database, so its sockets go even if the marker didn't land
+      await this.connectionService.disconnectSession(session.id, reason);
+    }
+  }
+}
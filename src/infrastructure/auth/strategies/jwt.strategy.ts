@@ -14,7 +14,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      ignoreExpiration: true, // We'll handle expiration in auth service
+      ignoreExpiration: true, // JwtVerifierService checks expiry, with clock skew
       secretOrKey: configService.get<string>('JWT_SECRET'),
       passReqToCallback: true, // We need the request to extract token manually
     });
@@ -0,0 +1,175 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheWriteOperation } from '../cache.interface';
+import { CacheKeyStrategyService } from '../cache-key-strategy.service';
+import { PresenceService } from '../presence.service';
+
+/** Just enough of Redis for presence: strings, hashes and sorted sets */
+const createCache = () => {
+  const strings = new Map<string, unknown>();
+  const hashes = new Map<string, Map<string, unknown>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+
+  const hashOf = (key: string) => hashes.get(key) ?? hashes.set(key, new Map()).get(key)!;
+  const sortedSetOf = (key: string) => sortedSets.get(key) ?? sortedSets.set(key, new Map()).get(key)!;
+
+  const write = (operation: CacheWriteOperation) => {
+    switch (operation.type) {
+      case 'set':
+        strings.set(operation.key, operation.value);
+        break;
+      case 'hset':
+        hashOf(operation.key).set(operation.field, operation.value);
+        break;
+      case 'zadd':
+        sortedSetOf(operation.key).set(operation.member, operation.score);
+        break;
+    }
+  };
+
+  return {
+    hashes,
+    sortedSets,
+    get: jest.fn(async (key: string) => strings.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => void strings.set(key, value)),
+    hdel: jest.fn(async (key: string, field: string) => void hashOf(key).delete(field)),
+    hgetall: jest.fn(async (key: string) => Object.fromEntries(hashes.get(key) ?? [])),
+    zrangebyscore: jest.fn(async (key: string, min: number, max: number, limit: number) =>
+      [...sortedSetOf(key)].filter(([, score]) => score >= min && score <= max).slice(0, limit).map(([member]) => member),
+    ),
+    zcount: jest.fn(async (key: string, min: number) => [...sortedSetOf(key).values()].filter(score => score >= min).length),
+    zrem: jest.fn(async (key: string, member: string) => sortedSetOf(key).delete(member)),
+    pipeline: jest.fn(async (operations: CacheWriteOperation[]) => operations.forEach(write)),
+  };
+};
+
+describe('PresenceService', () => {
+  const indexKey = 'chat:v1:presence_index:users';
+  const presenceKey = (userId: string) => `chat:v1:presence:${userId}`;
+
+  let cache: ReturnType<typeof createCache>;
+  let service: PresenceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T10:00:00Z') });
+
+    cache = createCache();
+    const config = new ConfigService({ CACHE_PRESENCE_TTL: 30 });
+    service = new PresenceService(cache as any, new CacheKeyStrategyService(config), config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('connect', () => {
+    it('reports the first socket as coming online', async () => {
+      const change = await service.connect('alice', 'socket-1');
+
+      expect(change).toEqual({
+        previous: 'offline',
+        current: { user_id: 'alice', status: 'online', last_seen: '2024-05-01T10:00:00.000Z' },
+      });
+      expect(cache.sortedSets.get(indexKey)?.get('alice')).toBe(Date.now());
+    });
+
+    it('stays quiet about a second socket', async () => {
+      await service.connect('alice', 'socket-1');
+
+      expect(await service.connect('alice', 'socket-2')).toBeNull();
+    });
+  });
+
+  describe('disconnect', () => {
+    it('reports the last socket going offline and drops the user from the index', async () => {
+      await service.connect('alice', 'socket-1');
+
+      const change = await service.disconnect('alice', 'socket-1');
+
+      expect(change).toEqual({ previous: 'online', current: expect.objectContaining({ status: 'offline' }) });
+      expect(cache.sortedSets.get(indexKey)?.has('alice')).toBe(false);
+    });
+
+    it('keeps the user online while another socket is connected', async () => {
+      await service.connect('alice', 'socket-1');
+      await service.connect('alice', 'socket-2');
+
+      expect(await service.disconnect('alice', 'socket-1')).toBeNull();
+      expect(cache.sortedSets.get(indexKey)?.has('alice')).toBe(true);
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('refreshes every socket in a single pipeline and keeps their status', async () => {
+      await service.connect('alice', 'socket-1');
+      await service.setStatus('alice', 'socket-1', 'away');
+      await service.connect('bob', 'socket-2');
+      cache.pipeline.mockClear();
+      cache.hgetall.mockClear();
+      jest.advanceTimersByTime(10000);
+
+      await service.heartbeat([
+        { userId: 'alice', socketId: 'socket-1' },
+        { userId: 'bob', socketId: 'socket-2' },
+      ]);
+
+      expect(cache.pipeline).toHaveBeenCalledTimes(1);
+      expect(cache.pipeline.mock.calls[0][0]).toEqual(
+        expect.arrayContaining([
+          { type: 'hset', key: presenceKey('alice'), field: 'socket-1', value: { status: 'away', heartbeat_at: Date.now() } },
+          { type: 'expire', key: presenceKey('alice'), ttlSeconds: 30 },
+          { type: 'zadd', key: indexKey, score: Date.now(), member: 'bob' },
+        ]),
+      );
+      expect(cache.hgetall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sweepExpired', () => {
+    it('reports a user whose instance stopped heartbeating as offline, once', async () => {
+      await service.connect('alice', 'socket-1');
+      await service.connect('bob', 'socket-2');
+
+      // Bob's instance keeps heartbeating, Alice's crashed and her hash expired
+      jest.advanceTimersByTime(25000);
+      await service.heartbeat([{ userId: 'bob', socketId: 'socket-2' }]);
+      jest.advanceTimersByTime(10000);
+      cache.hashes.delete(presenceKey('alice'));
+
+      expect(await service.sweepExpired()).toEqual([
+        { user_id: 'alice', status: 'offline', last_seen: '2024-05-01T10:00:00.000Z' },
+      ]);
+      expect(await service.sweepExpired()).toEqual([]);
+      expect((await service.getPresence('bob')).status).toBe('online');
+    });
+
+    it('reports nothing when another instance claimed the user first', async () => {
+      await service.connect('alice', 'socket-1');
+      jest.advanceTimersByTime(31000);
+      cache.zrem.mockResolvedValueOnce(false);
+
+      expect(await service.sweepExpired()).toEqual([]);
+    });
+
+    it('leaves a user alone whose heartbeat landed after the index was read', async () => {
+      await service.connect('alice', 'socket-1');
+      jest.advanceTimersByTime(31000);
+      cache.zrangebyscore.mockResolvedValueOnce(['alice']);
+      await service.heartbeat([{ userId: 'alice', socketId: 'socket-1' }]);
+
+      expect(await service.sweepExpired()).toEqual([]);
+      expect(cache.sortedSets.get(indexKey)?.has('alice')).toBe(true);
+    });
+  });
+
+  describe('countConnectedUsers', () => {
+    it('counts users with a fresh heartbeat on any instance', async () => {
+      await service.connect('alice', 'socket-1');
+      await service.connect('alice', 'socket-2');
+      jest.advanceTimersByTime(31000);
+      await service.connect('bob', 'socket-3');
+      await service.connect('carol', 'socket-4');
+
+      expect(await service.countConnectedUsers()).toBe(2);
+    });
+  });
+});
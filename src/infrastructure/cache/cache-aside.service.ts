@@ -59,9 +59,7 @@ export class CacheAsideService {
       const cachedData = await this.cacheService.get<T>(key);
       
       if (cachedData !== null) {
-        // Check if data is stale
-        const staleMarkerKey = this.keyStrategy.generateStaleMarkerKey('data', key);
-        const isStale = await this.cacheService.exists(staleMarkerKey);
+        const isStale = await this.isStale(key);
         
         if (isStale && staleWhileRevalidate) {
           // Start background refresh without waiting
@@ -85,7 +83,9 @@ export class CacheAsideService {
   }
 
   /**
-   * Set data in cache with stale-while-revalidate support
+   * Set data in cache with stale-while-revalidate support. The entry is fresh
+   * for ttl - staleMarkerTtl seconds, then served stale while it revalidates
+   * until the ttl runs out.
    * @param key Cache key
    * @param data Data to cache
    * @param options Cache options
@@ -95,12 +95,11 @@ export class CacheAsideService {
 
     try {
       await this.cacheService.set(key, data, ttl);
-      
-      // Set stale marker with shorter TTL for stale-while-revalidate
-      if (staleMarkerTtl > 0) {
-        const staleMarkerKey = this.keyStrategy.generateStaleMarkerKey('data', key);
-        await this.cacheService.set(staleMarkerKey, '1', ttl - staleMarkerTtl);
-      }
+
+      // The fresh marker expires first; once it's gone the entry is stale
+      const freshTtl = staleMarkerTtl > 0 && staleMarkerTtl < ttl ? ttl - staleMarkerTtl : ttl;
+      await this.cacheService.set(this.keyStrategy.generateFreshMarkerKey('data', key), '1', freshTtl);
+      await this.cacheService.delete(this.keyStrategy.generateStaleMarkerKey('data', key));
     } catch (error) {
       this.logger.error(`Cache-aside set error for key ${key}:`, error);
       // Don't throw - caching is not critical
@@ -115,9 +114,9 @@ export class CacheAsideService {
     try {
       await this.cacheService.delete(key);
       
-      // Also delete stale marker
-      const staleMarkerKey = this.keyStrategy.generateStaleMarkerKey('data', key);
-      await this.cacheService.delete(staleMarkerKey);
+      // Also delete freshness markers
+      await this.cacheService.delete(this.keyStrategy.generateFreshMarkerKey('data', key));
+      await this.cacheService.delete(this.keyStrategy.generateStaleMarkerKey('data', key));
     } catch (error) {
       this.logger.error(`Cache-aside delete error for key ${key}:`, error);
     }
@@ -147,8 +146,7 @@ export class CacheAsideService {
         const cachedData = await this.cacheService.get<T>(key);
         
         if (cachedData !== null) {
-          const staleMarkerKey = this.keyStrategy.generateStaleMarkerKey('data', key);
-          const isStale = await this.cacheService.exists(staleMarkerKey);
+          const isStale = await this.isStale(key);
           
           results.set(key, { data: cachedData, fromCache: true, isStale });
           
@@ -233,6 +231,18 @@ export class CacheAsideService {
     }
   }
 
+  /**
+   * Stale once the fresh marker has expired, or when the entry was explicitly
+   * marked stale
+   */
+  private async isStale(key: string): Promise<boolean> {
+    const [fresh, markedStale] = await Promise.all([
+      this.cacheService.exists(this.keyStrategy.generateFreshMarkerKey('data', key)),
+      this.cacheService.exists(this.keyStrategy.generateStaleMarkerKey('data', key)),
+    ]);
+    return !fresh || markedStale;
+  }
+
   private async loadAndCache<T>(
     key: string,
     dataLoader: () => Promise<T>,
@@ -61,18 +61,27 @@ export class CacheKeyStrategyService implements CacheKeyStrategy {
   }
 
   // Predefined key generators for common use cases
-  generateUserProfileKey(userId: number): string {
+  generateUserProfileKey(userId: string | number): string {
     return this.generateKey('profile', 'user', userId.toString());
   }
 
-  generateBusinessProfileKey(businessId: number): string {
+  generateBusinessProfileKey(businessId: string | number): string {
     return this.generateKey('profile', 'business', businessId.toString());
   }
 
-  generatePresenceKey(userId: number): string {
+  generatePresenceKey(userId: string | number): string {
     return this.generateKey('presence', userId);
   }
 
+  /** Sorted set of users with presence, scored by their latest heartbeat */
+  generatePresenceIndexKey(): string {
+    return this.generateKey('presence_index', 'users');
+  }
+
+  generateLastSeenKey(userId: string | number): string {
+    return this.generateKey('last_seen', userId);
+  }
+
   generateTypingKey(conversationId: number, userId: number): string {
     return this.generateKey('typing', conversationId, userId.toString());
   }
@@ -93,6 +102,10 @@ export class CacheKeyStrategyService implements CacheKeyStrategy {
     return this.generateKey('stale', namespace, identifier.toString());
   }
 
+  generateFreshMarkerKey(namespace: string, identifier: string | number): string {
+    return this.generateKey('fresh', namespace, identifier.toString());
+  }
+
   generateLockKey(resource: string, identifier: string | number): string {
     return this.generateKey('lock', resource, identifier.toString());
   }
@@ -8,6 +8,8 @@ export interface ICacheService {
   exists(key: string): Promise<boolean>;
   increment(key: string, value?: number): Promise<number>;
   expire(key: string, ttlSeconds: number): Promise<void>;
+  /** Atomically stores the number unless the key already holds a larger one; true if stored */
+  setMax(key: string, value: number, ttlSeconds: number): Promise<boolean>;
   
   // Hash operations
   hget<T>(key: string, field: string): Promise<T | null>;
@@ -27,8 +29,24 @@ export interface ICacheService {
   srem<T>(key: string, ...members: T[]): Promise<number>;
   smembers<T>(key: string): Promise<T[]>;
   sismember<T>(key: string, member: T): Promise<boolean>;
+
+  // Sorted set operations
+  zadd(key: string, score: number, member: string): Promise<void>;
+  zrangebyscore(key: string, min: number, max: number, limit: number): Promise<string[]>;
+  zcount(key: string, min: number | string, max: number | string): Promise<number>;
+  /** True if the member was there and this call removed it */
+  zrem(key: string, member: string): Promise<boolean>;
+
+  /** Sends the writes in one round trip; rejects if any of them failed */
+  pipeline(operations: CacheWriteOperation[]): Promise<void>;
 }
 
+export type CacheWriteOperation =
+  | { type: 'set'; key: string; value: unknown; ttlSeconds?: number }
+  | { type: 'hset'; key: string; field: string; value: unknown }
+  | { type: 'expire'; key: string; ttlSeconds: number }
+  | { type: 'zadd'; key: string; score: number; member: string };
+
 export interface CacheKeyStrategy {
   generateKey(namespace: string, identifier: string | number, ...parts: string[]): string;
   parseKey(key: string): { namespace: string; identifier: string; parts: string[] };
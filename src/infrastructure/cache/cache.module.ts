@@ -4,6 +4,14 @@ import { CACHE_SERVICE_TOKEN } from './cache.interface';
 import { RedisCacheService } from './redis-cache.service';
 import { CacheHealthService } from './cache-health.service';
 import { CacheExampleService } from './cache-example.service';
+import { CacheKeyStrategyService } from './cache-key-strategy.service';
+import { PresenceService } from './presence.service';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { DistributedLockService } from './distributed-lock.service';
+import { CacheAsideService } from './cache-aside.service';
+import { CacheMetricsService } from './cache-metrics.service';
+import { ProfileCacheService } from './profile-cache.service';
+import { ProfileCacheEventHandler } from './profile-cache-event.handler';
 
 @Global()
 @Module({
@@ -17,12 +25,26 @@ import { CacheExampleService } from './cache-example.service';
     RedisCacheService,
     CacheHealthService,
     CacheExampleService,
+    CacheKeyStrategyService,
+    PresenceService,
+    CircuitBreakerService,
+    DistributedLockService,
+    CacheAsideService,
+    CacheMetricsService,
+    ProfileCacheService,
+    ProfileCacheEventHandler,
   ],
   exports: [
     CACHE_SERVICE_TOKEN,
     RedisCacheService,
     CacheHealthService,
     CacheExampleService,
+    CacheKeyStrategyService,
+    PresenceService,
+    CircuitBreakerService,
+    CacheAsideService,
+    ProfileCacheService,
+    ProfileCacheEventHandler,
   ],
 })
 export class CacheModule {}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_SERVICE_TOKEN, CacheWriteOperation, ICacheService } from './cache.interface';
+import { CacheKeyStrategyService } from './cache-key-strategy.service';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  user_id: string;
+  status: PresenceStatus;
+  last_seen: string | null;
+}
+
+export interface PresenceChange {
+  previous: PresenceStatus;
+  current: UserPresence;
+}
+
+/**
+ * One entry per live socket, stored as a field of the user's presence hash
+ */
+interface SocketPresence {
+  status: Exclude<PresenceStatus, 'offline'>;
+  heartbeat_at: number;
+}
+
+/**
+ * Cluster-wide presence kept in Redis.
+ *
+ * Each user has a hash keyed by socket id. Every instance refreshes the
+ * sockets it owns on a heartbeat, and the hash expires after the TTL, so a
+ * crashed instance's sockets drop out without anyone cleaning them up.
+ * A sorted set indexes users by their latest heartbeat so those users can
+ * be found again and reported offline by {@link sweepExpired}.
+ */
+@Injectable()
+export class PresenceService {
+  private readonly logger = new Logger(PresenceService.name);
+  private readonly ttlSeconds: number;
+  private readonly lastSeenTtlSeconds = 30 * 24 * 60 * 60; // 30 days
+  private readonly sweepBatchSize = 500;
+  // Statuses of the sockets this instance owns, so the heartbeat never has to read them back
+  private readonly localStatuses = new Map<string, SocketPresence['status']>();
+
+  constructor(
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+    private readonly keyStrategy: CacheKeyStrategyService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlSeconds = Number(this.configService.get('CACHE_PRESENCE_TTL', 30));
+  }
+
+  /**
+   * Interval at which instances should refresh their sockets
+   */
+  getHeartbeatIntervalMs(): number {
+    return Math.max(1, Math.floor(this.ttlSeconds / 3)) * 1000;
+  }
+
+  async connect(userId: string, socketId: string): Promise<PresenceChange | null> {
+    return this.updateSocket(userId, socketId, 'online');
+  }
+
+  async setStatus(
+    userId: string,
+    socketId: string,
+    status: Exclude<PresenceStatus, 'offline'>,
+  ): Promise<PresenceChange | null> {
+    return this.updateSocket(userId, socketId, status);
+  }
+
+  async disconnect(userId: string, socketId: string): Promise<PresenceChange | null> {
+    this.localStatuses.delete(socketId);
+
+    try {
+      const key = this.keyStrategy.generatePresenceKey(userId);
+      const previous = await this.getPresence(userId);
+
+      await this.cache.hdel(key, socketId);
+      await this.touchLastSeen(userId);
+
+      const current = await this.getPresence(userId);
+      if (current.status === 'offline') {
+        // Reported here, so the sweep must not report it again
+        await this.cache.zrem(this.keyStrategy.generatePresenceIndexKey(), userId);
+      }
+
+      return previous.status !== current.status ? { previous: previous.status, current } : null;
+    } catch (error) {
+      this.logger.error(`Failed to record disconnect for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Refresh the heartbeat of sockets owned by this instance in one round trip
+   */
+  async heartbeat(sockets: Array<{ userId: string; socketId: string }>): Promise<void> {
+    const now = Date.now();
+    const lastSeen = new Date(now).toISOString();
+    const operations: CacheWriteOperation[] = [];
+
+    for (const { userId, socketId } of sockets) {
+      const key = this.keyStrategy.generatePresenceKey(userId);
+      const value: SocketPresence = { status: this.localStatuses.get(socketId) || 'online', heartbeat_at: now };
+
+      operations.push({ type: 'hset', key, field: socketId, value }, { type: 'expire', key, ttlSeconds: this.ttlSeconds });
+    }
+
+    for (const userId of new Set(sockets.map(s => s.userId))) {
+      operations.push(
+        {
+          type: 'set',
+          key: this.keyStrategy.generateLastSeenKey(userId),
+          value: lastSeen,
+          ttlSeconds: this.lastSeenTtlSeconds,
+        },
+        { type: 'zadd', key: this.keyStrategy.generatePresenceIndexKey(), score: now, member: userId },
+      );
+    }
+
+    await this.cache.pipeline(operations);
+  }
+
+  /**
+   * Users whose every socket stopped heartbeating, typically because their
+   * instance crashed. Each one is claimed by removing it from the index, so
+   * only one instance reports a user offline.
+   */
+  async sweepExpired(): Promise<UserPresence[]> {
+    const indexKey = this.keyStrategy.generatePresenceIndexKey();
+    const cutoff = Date.now() - this.ttlSeconds * 1000;
+    const candidates = await this.cache.zrangebyscore(indexKey, 0, cutoff, this.sweepBatchSize);
+    const expired: UserPresence[] = [];
+
+    for (const userId of candidates) {
+      try {
+        const presence = await this.getPresence(userId);
+
+        // A heartbeat landed after the range read; the index already has the new score
+        if (presence.status !== 'offline') {
+          continue;
+        }
+
+        if (await this.cache.zrem(indexKey, userId)) {
+          expired.push(presence);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to sweep presence for user ${userId}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  async getPresence(userId: string): Promise<UserPresence> {
+    const key = this.keyStrategy.generatePresenceKey(userId);
+    const [sockets, lastSeen] = await Promise.all([
+      this.cache.hgetall<SocketPresence>(key),
+      this.cache.get<string>(this.keyStrategy.generateLastSeenKey(userId)),
+    ]);
+
+    return {
+      user_id: userId,
+      status: this.aggregate(Object.values(sockets || {})),
+      last_seen: lastSeen,
+    };
+  }
+
+  /**
+   * Distinct users with a live socket on any instance, counted from the index
+   */
+  async countConnectedUsers(): Promise<number> {
+    const cutoff = Date.now() - this.ttlSeconds * 1000;
+    return this.cache.zcount(this.keyStrategy.generatePresenceIndexKey(), cutoff, '+inf');
+  }
+
+  async getBatchPresence(userIds: string[]): Promise<Record<string, UserPresence>> {
+    const uniqueIds = [...new Set(userIds)];
+    const results = await Promise.all(uniqueIds.map(userId => this.getPresence(userId)));
+
+    return results.reduce<Record<string, UserPresence>>((acc, presence) => {
+      acc[presence.user_id] = presence;
+      return acc;
+    }, {});
+  }
+
+  private async updateSocket(
+    userId: string,
+    socketId: string,
+    status: Exclude<PresenceStatus, 'offline'>,
+  ): Promise<PresenceChange | null> {
+    this.localStatuses.set(socketId, status);
+
+    try {
+      const key = this.keyStrategy.generatePresenceKey(userId);
+      const previous = await this.getPresence(userId);
+      const now = Date.now();
+
+      await this.cache.pipeline([
+        { type: 'hset', key, field: socketId, value: { status, heartbeat_at: now } },
+        { type: 'expire', key, ttlSeconds: this.ttlSeconds },
+        { type: 'zadd', key: this.keyStrategy.generatePresenceIndexKey(), score: now, member: userId },
+      ]);
+      await this.touchLastSeen(userId);
+
+      const current = await this.getPresence(userId);
+      return previous.status !== current.status ? { previous: previous.status, current } : null;
+    } catch (error) {
+      this.logger.error(`Failed to update presence for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  private async touchLastSeen(userId: string): Promise<void> {
+    await this.cache.set(
+      this.keyStrategy.generateLastSeenKey(userId),
+      new Date().toISOString(),
+      this.lastSeenTtlSeconds,
+    );
+  }
+
+  /**
+   * Online if any fresh socket is online, away if all fresh sockets are away.
+   * Sockets whose instance stopped heartbeating are ignored even while
+   * another instance keeps the hash alive.
+   */
+  private aggregate(sockets: SocketPresence[]): PresenceStatus {
+    const cutoff = Date.now() - this.ttlSeconds * 1000;
+    const live = sockets.filter(s => s && s.heartbeat_at >= cutoff);
+
+    if (live.length === 0) {
+      return 'offline';
+    }
+
+    return live.some(s => s.status === 'online') ? 'online' : 'away';
+  }
+}
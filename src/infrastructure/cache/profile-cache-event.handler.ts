@@ -1,21 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ProfileCacheService } from './profile-cache.service';
+import { ProfileCacheService, ProfileId } from './profile-cache.service';
 
 export interface ProfileUpdateEvent {
   type: 'user.profile.updated' | 'business.profile.updated';
-  id: number;
+  id: ProfileId;
+  /** Unique per event; redeliveries carry the same ID */
+  event_id?: string;
   timestamp: string;
   changes?: string[]; // Optional: specific fields that changed
 }
 
 export interface ProfileDeleteEvent {
   type: 'user.profile.deleted' | 'business.profile.deleted';
-  id: number;
+  id: ProfileId;
+  event_id?: string;
   timestamp: string;
 }
 
 export type ProfileEvent = ProfileUpdateEvent | ProfileDeleteEvent;
 
+export const PROFILE_EVENT_TYPES: ProfileEvent['type'][] = [
+  'user.profile.updated',
+  'business.profile.updated',
+  'user.profile.deleted',
+  'business.profile.deleted',
+];
+
 @Injectable()
 export class ProfileCacheEventHandler {
   private readonly logger = new Logger(ProfileCacheEventHandler.name);
@@ -23,8 +33,8 @@ export class ProfileCacheEventHandler {
   constructor(private readonly profileCache: ProfileCacheService) {}
 
   /**
-   * Handle profile update events from kaha-main-v3
-   * This would typically be called by a message queue consumer or webhook handler
+   * Handle profile update events from kaha-main-v3. Called by
+   * ProfileEventIngestionService for the inbound webhook and the Redis stream.
    */
   async handleProfileEvent(event: ProfileEvent): Promise<void> {
     try {
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ProfileCacheService, UserProfile, BusinessProfile } from './profile-cache.service';
+import { ProfileCacheService, UserProfile, BusinessProfile, ProfileId } from './profile-cache.service';
 import { ProfileCacheEventHandler, ProfileEvent } from './profile-cache-event.handler';
 
 /**
@@ -83,8 +83,8 @@ export class ProfileCacheIntegrationExample {
     userIds: number[],
     businessIds: number[]
   ): Promise<{
-    users: Map<number, UserProfile>;
-    businesses: Map<number, BusinessProfile>;
+    users: Map<ProfileId, UserProfile>;
+    businesses: Map<ProfileId, BusinessProfile>;
     cacheStats: {
       userHitRate: number;
       businessHitRate: number;
@@ -98,8 +98,8 @@ export class ProfileCacheIntegrationExample {
         // Simulate batch API call to kaha-main-v3
         this.logger.log(`Batch loading ${missingUserIds.length} users and ${missingBusinessIds.length} businesses from API`);
         
-        const users = new Map<number, UserProfile>();
-        const businesses = new Map<number, BusinessProfile>();
+        const users = new Map<ProfileId, UserProfile>();
+        const businesses = new Map<ProfileId, BusinessProfile>();
 
         // Load missing users
         for (const userId of missingUserIds) {
@@ -4,11 +4,15 @@ import { CacheAsideService } from './cache-aside.service';
 import { CacheKeyStrategyService } from './cache-key-strategy.service';
 import { CacheMetricsService } from './cache-metrics.service';
 
+/** kaha-main-v3 has used numeric IDs; chat stores them as strings */
+export type ProfileId = string | number;
+
 export interface UserProfile {
-  id: number;
+  id: ProfileId;
   name: string;
-  avatar_url: string;
+  avatar_url?: string;
   user_type: 'user';
+  is_online?: boolean;
   email?: string;
   phone?: string;
   is_verified?: boolean;
@@ -17,9 +21,9 @@ export interface UserProfile {
 }
 
 export interface BusinessProfile {
-  id: number;
+  id: ProfileId;
   name: string;
-  avatar_url: string;
+  avatar_url?: string;
   user_type: 'business';
   description?: string;
   website?: string;
@@ -39,7 +43,7 @@ export type Profile = UserProfile | BusinessProfile;
 
 export interface ProfileCacheOptions {
   ttl?: number; // Time to live in seconds
-  staleMarkerTtl?: number; // Stale marker TTL in seconds
+  staleMarkerTtl?: number; // Seconds at the end of the TTL during which the entry is served stale
   skipCache?: boolean; // Skip cache and load fresh data
   warmCache?: boolean; // Warm cache after loading
 }
@@ -52,19 +56,19 @@ export interface ProfileCacheResult<T extends Profile> {
 }
 
 export interface BatchProfileResult {
-  users: Map<number, UserProfile>;
-  businesses: Map<number, BusinessProfile>;
+  users: Map<ProfileId, UserProfile>;
+  businesses: Map<ProfileId, BusinessProfile>;
   fromCache: {
-    users: Set<number>;
-    businesses: Set<number>;
+    users: Set<ProfileId>;
+    businesses: Set<ProfileId>;
   };
   stale: {
-    users: Set<number>;
-    businesses: Set<number>;
+    users: Set<ProfileId>;
+    businesses: Set<ProfileId>;
   };
   missing: {
-    users: Set<number>;
-    businesses: Set<number>;
+    users: Set<ProfileId>;
+    businesses: Set<ProfileId>;
   };
 }
 
@@ -87,7 +91,7 @@ export class ProfileCacheService {
    * Get a single user profile with caching
    */
   async getUserProfile(
-    userId: number,
+    userId: ProfileId,
     dataLoader: () => Promise<UserProfile>,
     options: ProfileCacheOptions = {}
   ): Promise<ProfileCacheResult<UserProfile>> {
@@ -134,7 +138,7 @@ export class ProfileCacheService {
    * Get a single business profile with caching
    */
   async getBusinessProfile(
-    businessId: number,
+    businessId: ProfileId,
     dataLoader: () => Promise<BusinessProfile>,
     options: ProfileCacheOptions = {}
   ): Promise<ProfileCacheResult<BusinessProfile>> {
@@ -181,11 +185,11 @@ export class ProfileCacheService {
    * Batch fetch user and business profiles with optimized caching
    */
   async getBatchProfiles(
-    userIds: number[],
-    businessIds: number[],
-    dataLoader: (missingUserIds: number[], missingBusinessIds: number[]) => Promise<{
-      users: Map<number, UserProfile>;
-      businesses: Map<number, BusinessProfile>;
+    userIds: ProfileId[],
+    businessIds: ProfileId[],
+    dataLoader: (missingUserIds: ProfileId[], missingBusinessIds: ProfileId[]) => Promise<{
+      users: Map<ProfileId, UserProfile>;
+      businesses: Map<ProfileId, BusinessProfile>;
     }>,
     options: ProfileCacheOptions = {}
   ): Promise<BatchProfileResult> {
@@ -211,8 +215,8 @@ export class ProfileCacheService {
         allKeys,
         async (missingKeys: string[]) => {
           // Separate missing keys by type
-          const missingUserIds: number[] = [];
-          const missingBusinessIds: number[] = [];
+          const missingUserIds: ProfileId[] = [];
+          const missingBusinessIds: ProfileId[] = [];
 
           for (const key of missingKeys) {
             if (keyToUserId.has(key)) {
@@ -329,7 +333,7 @@ export class ProfileCacheService {
   /**
    * Invalidate a user profile from cache
    */
-  async invalidateUserProfile(userId: number): Promise<void> {
+  async invalidateUserProfile(userId: ProfileId): Promise<void> {
     try {
       const key = this.keyStrategy.generateUserProfileKey(userId);
       await this.cacheAside.delete(key);
@@ -343,7 +347,7 @@ export class ProfileCacheService {
   /**
    * Invalidate a business profile from cache
    */
-  async invalidateBusinessProfile(businessId: number): Promise<void> {
+  async invalidateBusinessProfile(businessId: ProfileId): Promise<void> {
     try {
       const key = this.keyStrategy.generateBusinessProfileKey(businessId);
       await this.cacheAside.delete(key);
@@ -357,7 +361,7 @@ export class ProfileCacheService {
   /**
    * Invalidate multiple profiles at once
    */
-  async invalidateBatchProfiles(userIds: number[], businessIds: number[]): Promise<void> {
+  async invalidateBatchProfiles(userIds: ProfileId[], businessIds: ProfileId[]): Promise<void> {
     try {
       const invalidationPromises: Promise<void>[] = [];
 
@@ -383,8 +387,8 @@ export class ProfileCacheService {
    * Warm cache with profile data
    */
   async warmProfiles(
-    users: Map<number, UserProfile>,
-    businesses: Map<number, BusinessProfile>,
+    users: Map<ProfileId, UserProfile>,
+    businesses: Map<ProfileId, BusinessProfile>,
     options: ProfileCacheOptions = {}
   ): Promise<void> {
     try {
@@ -453,7 +457,7 @@ export class ProfileCacheService {
   /**
    * Check if a profile is cached and not stale
    */
-  async isProfileCached(userId?: number, businessId?: number): Promise<boolean> {
+  async isProfileCached(userId?: ProfileId, businessId?: ProfileId): Promise<boolean> {
     try {
       let key: string;
       
@@ -484,7 +488,7 @@ export class ProfileCacheService {
   /**
    * Set profile directly in cache (useful for real-time updates)
    */
-  async setUserProfile(userId: number, profile: UserProfile, options: ProfileCacheOptions = {}): Promise<void> {
+  async setUserProfile(userId: ProfileId, profile: UserProfile, options: ProfileCacheOptions = {}): Promise<void> {
     try {
       const key = this.keyStrategy.generateUserProfileKey(userId);
       const { ttl = this.defaultTtl } = options;
@@ -500,7 +504,7 @@ export class ProfileCacheService {
   /**
    * Set business profile directly in cache (useful for real-time updates)
    */
-  async setBusinessProfile(businessId: number, profile: BusinessProfile, options: ProfileCacheOptions = {}): Promise<void> {
+  async setBusinessProfile(businessId: ProfileId, profile: BusinessProfile, options: ProfileCacheOptions = {}): Promise<void> {
     try {
       const key = this.keyStrategy.generateBusinessProfileKey(businessId);
       const { ttl = this.defaultTtl } = options;
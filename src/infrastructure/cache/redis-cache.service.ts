@@ -1,7 +1,7 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
-import { ICacheService, CacheMetrics } from './cache.interface';
+import { ICacheService, CacheMetrics, CacheWriteOperation } from './cache.interface';
 
 @Injectable()
 export class RedisCacheService implements ICacheService, OnModuleDestroy {
@@ -17,6 +17,16 @@ export class RedisCacheService implements ICacheService, OnModuleDestroy {
     hitRate: 0,
   };
 
+  // Lua script so the compare and the write can't interleave with another writer
+  private readonly setMaxScript = `
+    local current = tonumber(redis.call("GET", KEYS[1]))
+    if current and current > tonumber(ARGV[1]) then
+      return 0
+    end
+    redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2])
+    return 1
+  `;
+
   constructor(private readonly configService: ConfigService) {
     this.initializeRedis();
   }
@@ -153,6 +163,17 @@ export class RedisCacheService implements ICacheService, OnModuleDestroy {
     }
   }
 
+  async setMax(key: string, value: number, ttlSeconds: number): Promise<boolean> {
+    try {
+      const stored = await this.redis.eval(this.setMaxScript, 1, key, value.toString(), ttlSeconds.toString());
+      return stored === 1;
+    } catch (error) {
+      this.logger.error(`Redis SETMAX error for key ${key}:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
   // Hash operations
   async hget<T>(key: string, field: string): Promise<T | null> {
     try {
@@ -354,6 +375,95 @@ export class RedisCacheService implements ICacheService, OnModuleDestroy {
     }
   }
 
+  // Sorted set operations
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    try {
+      await this.redis.zadd(key, score, member);
+    } catch (error) {
+      this.logger.error(`Redis ZADD error for key ${key}:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
+  async zrangebyscore(key: string, min: number, max: number, limit: number): Promise<string[]> {
+    try {
+      return await this.redis.zrangebyscore(key, min, max, 'LIMIT', 0, limit);
+    } catch (error) {
+      this.logger.error(`Redis ZRANGEBYSCORE error for key ${key}:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
+  async zcount(key: string, min: number | string, max: number | string): Promise<number> {
+    try {
+      return await this.redis.zcount(key, min, max);
+    } catch (error) {
+      this.logger.error(`Redis ZCOUNT error for key ${key}:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
+  async zrem(key: string, member: string): Promise<boolean> {
+    try {
+      return (await this.redis.zrem(key, member)) === 1;
+    } catch (error) {
+      this.logger.error(`Redis ZREM error for key ${key}:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
+  async pipeline(operations: CacheWriteOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.redis.pipeline();
+
+      for (const operation of operations) {
+        switch (operation.type) {
+          case 'set': {
+            const serializedValue = typeof operation.value === 'string' ? operation.value : JSON.stringify(operation.value);
+            if (operation.ttlSeconds) {
+              pipeline.setex(operation.key, operation.ttlSeconds, serializedValue);
+            } else {
+              pipeline.set(operation.key, serializedValue);
+            }
+            break;
+          }
+          case 'hset': {
+            const serializedValue = typeof operation.value === 'string' ? operation.value : JSON.stringify(operation.value);
+            pipeline.hset(operation.key, operation.field, serializedValue);
+            break;
+          }
+          case 'expire':
+            pipeline.expire(operation.key, operation.ttlSeconds);
+            break;
+          case 'zadd':
+            pipeline.zadd(operation.key, operation.score, operation.member);
+            break;
+        }
+      }
+
+      // exec resolves even when single commands fail; each result carries its own error
+      const results = await pipeline.exec();
+      const failed = results?.find(([error]) => error);
+      if (failed) {
+        throw failed[0];
+      }
+
+      this.updateMetrics('set', operations.length);
+    } catch (error) {
+      this.logger.error(`Redis pipeline of ${operations.length} writes failed:`, error);
+      this.metrics.errors++;
+      throw error;
+    }
+  }
+
   // Health check method
   async isHealthy(): Promise<boolean> {
     try {
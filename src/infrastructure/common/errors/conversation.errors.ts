@@ -31,4 +31,16 @@ export class SelfConversationError extends HttpException {
   constructor() {
     super('Cannot create conversation with yourself', HttpStatus.BAD_REQUEST);
   }
-}
\ No newline at end of file
+}
+
+export class ParticipantLimitReachedError extends HttpException {
+  constructor(maxAllowed: number) {
+    super(`Group conversations cannot have more than ${maxAllowed} participants`, HttpStatus.CONFLICT);
+  }
+}
+
+export class AlreadyParticipantError extends HttpException {
+  constructor() {
+    super('User is already a participant in this conversation', HttpStatus.BAD_REQUEST);
+  }
+}
@@ -0,0 +1,8 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { MessageRejectionReason } from '@infrastructure/moderation/moderation.types';
+
+export class MessageRejectedError extends HttpException {
+  constructor(public readonly reason: MessageRejectionReason) {
+    super({ message: reason.detail, reason }, HttpStatus.BAD_REQUEST);
+  }
+}
@@ -31,17 +31,116 @@ export const configValidationSchema = Joi.object({
   REDIS_DB: Joi.number().default(0),
   REDIS_CLUSTER_ENABLED: Joi.boolean().default(false),
   REDIS_CLUSTER_NODES: Joi.string().optional(),
+  CACHE_PRESENCE_TTL: Joi.number().min(3).default(30),
+  WEBSOCKET_REDIS_ADAPTER_ENABLED: Joi.boolean().default(true),
+  WEBSOCKET_REDIS_ADAPTER_KEY: Joi.string().default('socket.io'),
+  WEBSOCKET_TOKEN_EXPIRY_WARNING_SECONDS: Joi.number().min(1).default(60),
 
   // JWT
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.string().default('24h'),
   JWT_REFRESH_SECRET: Joi.string().required(),
   JWT_REFRESH_EXPIRES_IN: Joi.string().default('7d'),
+  JWT_ISSUER: Joi.string().default('chat-backend'),
+  JWT_AUDIENCE: Joi.string().default('chat-backend'),
+  JWT_CLOCK_SKEW_SECONDS: Joi.number().min(0).default(30),
+
+  // Token verification (kaha-main-v3 tokens are RS256, keys from its JWKS)
+  EXTERNAL_JWT_VERIFY: Joi.boolean().default(false),
+  KAHA_JWT_ISSUER: Joi.string().allow('').default(''),
+  KAHA_JWT_AUDIENCE: Joi.string().allow('').default(''),
+  KAHA_JWKS_URL: Joi.string().allow('').default(''),
+  KAHA_JWKS_CACHE_SECONDS: Joi.number().min(0).default(600),
+  KAHA_JWKS_MIN_REFRESH_SECONDS: Joi.number().min(0).default(30),
 
   // External Services
   KAHA_MAIN_V3_BASE_URL: Joi.string().required(),
   KAHA_MAIN_V3_SERVICE_TOKEN: Joi.string().required(),
   KAHA_MAIN_V3_TIMEOUT: Joi.number().default(5000),
+  KAHA_MAIN_V3_RETRIES: Joi.number().min(0).default(2),
+  KAHA_MAIN_V3_RETRY_DELAY_MS: Joi.number().min(0).default(200),
+  KAHA_MAIN_V3_BATCH_SIZE: Joi.number().min(1).default(100),
+  PROFILE_SERVICE_MODE: Joi.string()
+    .valid('mock', 'http')
+    .when('NODE_ENV', { is: 'production', then: Joi.string().default('http'), otherwise: Joi.string().default('mock') }),
+  PROFILE_CACHE_TTL_SECONDS: Joi.number().min(1).default(86400),
+  PROFILE_CACHE_FRESH_SECONDS: Joi.number().min(1).default(300),
+
+  // Inbound profile change events
+  PROFILE_EVENTS_WEBHOOK_SECRET: Joi.string().allow('').default(''),
+  PROFILE_EVENTS_WEBHOOK_TOLERANCE_SECONDS: Joi.number().min(1).default(300),
+  PROFILE_EVENTS_DEDUP_TTL_SECONDS: Joi.number().min(60).default(86400),
+  PROFILE_EVENTS_STREAM_ENABLED: Joi.boolean().default(false),
+  PROFILE_EVENTS_STREAM_KEY: Joi.string().default('kaha:profile-events'),
+  PROFILE_EVENTS_STREAM_GROUP: Joi.string().default('chat-backend'),
+  PROFILE_EVENTS_STREAM_CONSUMER: Joi.string().allow('').default(''),
+  PROFILE_EVENTS_STREAM_RECLAIM_IDLE_MS: Joi.number().min(1000).default(60000),
+  PROFILE_EVENTS_STREAM_MAX_DELIVERIES: Joi.number().min(1).default(5),
+  PROFILE_EVENTS_STREAM_DEAD_LETTER_KEY: Joi.string().default('kaha:profile-events:dead'),
+
+  // Attachments
+  ATTACHMENT_STORAGE_DRIVER: Joi.string().valid('local').default('local'),
+  ATTACHMENT_STORAGE_PATH: Joi.string().default('./uploads'),
+  ATTACHMENT_MAX_SIZE_BYTES: Joi.number().default(10485760),
+  ATTACHMENT_SWEEP_ENABLED: Joi.boolean().default(true),
+  ATTACHMENT_SWEEP_INTERVAL_MS: Joi.number().min(1000).default(600000),
+  ATTACHMENT_SWEEP_BATCH_SIZE: Joi.number().min(1).default(500),
+  ATTACHMENT_UNLINKED_TTL_SECONDS: Joi.number().min(60).default(86400),
+
+  // Domain event outbox
+  OUTBOX_RELAY_ENABLED: Joi.boolean().default(true),
+  OUTBOX_POLL_INTERVAL_MS: Joi.number().min(100).default(1000),
+  OUTBOX_BATCH_SIZE: Joi.number().min(1).default(50),
+  OUTBOX_MAX_ATTEMPTS: Joi.number().min(1).default(8),
+  OUTBOX_LOCK_TIMEOUT_MS: Joi.number().min(1000).default(60000),
+
+  // Outgoing webhooks
+  WEBHOOK_DELIVERY_ENABLED: Joi.boolean().default(true),
+  WEBHOOK_POLL_INTERVAL_MS: Joi.number().min(100).default(2000),
+  WEBHOOK_BATCH_SIZE: Joi.number().min(1).default(20),
+  WEBHOOK_TIMEOUT_MS: Joi.number().min(1000).default(10000),
+  WEBHOOK_MAX_ATTEMPTS: Joi.number().min(1).default(10),
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: Joi.boolean().default(false),
+
+  // Message retention (days; 0 keeps messages forever)
+  RETENTION_ENABLED: Joi.boolean().default(true),
+  RETENTION_DEFAULT_DAYS: Joi.number().min(0).default(90),
+  RETENTION_DIRECT_DAYS: Joi.number().min(0).default(0),
+  RETENTION_GROUP_DAYS: Joi.number().min(0).default(0),
+  RETENTION_BUSINESS_DAYS: Joi.number().min(0).default(0),
+  RETENTION_PURGE_AFTER_DAYS: Joi.number().min(0).default(7),
+  RETENTION_BATCH_SIZE: Joi.number().min(1).default(1000),
+  RETENTION_MAX_BATCHES: Joi.number().min(1).default(50),
+
+  // Disappearing messages
+  EPHEMERAL_SWEEP_ENABLED: Joi.boolean().default(true),
+  EPHEMERAL_SWEEP_INTERVAL_MS: Joi.number().min(100).default(1000),
+  EPHEMERAL_BATCH_SIZE: Joi.number().min(1).default(100),
+  EPHEMERAL_MAX_SECONDS: Joi.number().min(1).default(604800),
+
+  // Moderation
+  MODERATION_ADMIN_IDS: Joi.string().allow('').default(''),
+  MODERATION_ENABLED: Joi.boolean().default(true),
+  MODERATION_RULES: Joi.string().allow('').default('profanity:mask,links:reject,pii_card:mask,repeat:flag'),
+  MODERATION_PROFANITY_WORDS: Joi.string().allow('').default(''),
+  MODERATION_LINK_ALLOWLIST: Joi.string().allow('').default(''),
+  MODERATION_LINK_DENYLIST: Joi.string().allow('').default(''),
+  MODERATION_REPEAT_LIMIT: Joi.number().min(1).default(3),
+  MODERATION_REPEAT_WINDOW_MS: Joi.number().min(1000).default(60000),
+
+  // Business inbox routing
+  BUSINESS_ROUTING_ENABLED: Joi.boolean().default(true),
+  BUSINESS_ROUTING_STRATEGY: Joi.string().valid('round_robin', 'least_loaded').default('least_loaded'),
+  BUSINESS_ROUTING_INTERVAL_MS: Joi.number().min(500).default(5000),
+  BUSINESS_ROUTING_BATCH_SIZE: Joi.number().min(1).default(50),
+
+  // Business auto-replies
+  AUTO_REPLY_ENABLED: Joi.boolean().default(true),
+  AUTO_REPLY_GREETING_MESSAGE: Joi.string().default('Hi! Thanks for contacting {business_name}. We will be with you shortly.'),
+  AUTO_REPLY_AWAY_MESSAGE: Joi.string().default(
+    '{business_name} is closed right now. Our hours are {hours} ({timezone}); we will reply when we are back.',
+  ),
+  AUTO_REPLY_AWAY_COOLDOWN_MINUTES: Joi.number().min(1).default(60),
 
   // Logging
   LOG_LEVEL: Joi.string()
@@ -4,6 +4,20 @@ import { User } from '@domain/entities/user.entity';
 import { Conversation } from '@domain/entities/conversation.entity';
 import { Participant } from '@domain/entities/participant.entity';
 import { Message } from '@domain/entities/message.entity';
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+import { MessageRevision } from '@domain/entities/message-revision.entity';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { DeviceSyncCursor } from '@domain/entities/device-sync-cursor.entity';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { WebhookSubscription } from '@domain/entities/webhook-subscription.entity';
+import { WebhookDelivery } from '@domain/entities/webhook-delivery.entity';
+import { UserBlock } from '@domain/entities/user-block.entity';
+import { UserReport } from '@domain/entities/user-report.entity';
+import { BusinessAgent } from '@domain/entities/business-agent.entity';
+import { ConversationAssignment } from '@domain/entities/conversation-assignment.entity';
+import { BusinessAutoReply } from '@domain/entities/business-auto-reply.entity';
+import { AuthSession } from '@domain/entities/auth-session.entity';
 
 export const databaseConfig = (): TypeOrmModuleOptions => {
   const configService = new ConfigService();
@@ -15,7 +29,7 @@ export const databaseConfig = (): TypeOrmModuleOptions => {
     username: configService.get<string>('DB_USERNAME'),
     password: configService.get<string>('DB_PASSWORD'),
     database: configService.get<string>('DB_NAME'),
-    entities: [User, Conversation, Participant, Message],
+    entities: [User, Conversation, Participant, Message, MessageReaction, MessageRevision, Attachment, MessageReceipt, DeviceSyncCursor, OutboxEvent, WebhookSubscription, WebhookDelivery, UserBlock, UserReport, BusinessAgent, ConversationAssignment, BusinessAutoReply, AuthSession],
     synchronize: false, // Disable auto-sync to prevent schema conflicts
     logging: configService.get<string>('NODE_ENV') === 'development' ? ['query', 'error'] : ['error'],
     
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex, TableForeignKey } from 'typeorm';
+
+export class MessageThreads1700000000003 implements MigrationInterface {
+  name = 'MessageThreads1700000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'messages',
+      new TableColumn({
+        name: 'parent_message_id',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+
+    // Replies keep existing when the parent is hard-deleted; they just lose the quote
+    await queryRunner.createForeignKey(
+      'messages',
+      new TableForeignKey({
+        name: 'fk_messages_parent',
+        columnNames: ['parent_message_id'],
+        referencedTableName: 'messages',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'messages',
+      new TableIndex({
+        name: 'idx_messages_parent_time',
+        columnNames: ['parent_message_id', 'sent_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('messages', 'idx_messages_parent_time');
+    await queryRunner.dropForeignKey('messages', 'fk_messages_parent');
+    await queryRunner.dropColumn('messages', 'parent_message_id');
+  }
+}
@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex, TableForeignKey } from 'typeorm';
+
+export class MessageReactions1700000000004 implements MigrationInterface {
+  name = 'MessageReactions1700000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'message_reactions',
+        columns: [
+          {
+            name: 'message_id',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            isPrimary: true,
+          },
+          {
+            name: 'emoji',
+            type: 'varchar',
+            length: '64',
+            isPrimary: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'message_reactions',
+      new TableForeignKey({
+        columnNames: ['message_id'],
+        referencedTableName: 'messages',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'message_reactions',
+      new TableIndex({
+        name: 'idx_message_reactions_user',
+        columnNames: ['user_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('message_reactions');
+  }
+}
@@ -0,0 +1,75 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex, TableForeignKey } from 'typeorm';
+
+export class MessageEditHistory1700000000005 implements MigrationInterface {
+  name = 'MessageEditHistory1700000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'messages',
+      new TableColumn({
+        name: 'edited_at',
+        type: 'timestamptz',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'message_revisions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'message_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'content',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'edited_by',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'edited_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'message_revisions',
+      new TableForeignKey({
+        columnNames: ['message_id'],
+        referencedTableName: 'messages',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'message_revisions',
+      new TableIndex({
+        name: 'idx_message_revisions_message_time',
+        columnNames: ['message_id', 'edited_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('message_revisions');
+    await queryRunner.dropColumn('messages', 'edited_at');
+  }
+}
@@ -0,0 +1,119 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex, TableForeignKey } from 'typeorm';
+
+export class Attachments1700000000006 implements MigrationInterface {
+  name = 'Attachments1700000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'attachments',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'conversation_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'uploader_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'message_id',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'storage_key',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'file_name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'mime_type',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'size_bytes',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'checksum',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'width',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'height',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'attachments',
+      new TableForeignKey({
+        columnNames: ['conversation_id'],
+        referencedTableName: 'conversations',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attachments',
+      new TableForeignKey({
+        columnNames: ['message_id'],
+        referencedTableName: 'messages',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'attachments',
+      new TableIndex({
+        name: 'idx_attachments_message',
+        columnNames: ['message_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('attachments');
+  }
+}
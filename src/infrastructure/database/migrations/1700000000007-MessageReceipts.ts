@@ -0,0 +1,91 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex, TableForeignKey } from 'typeorm';
+
+export class MessageReceipts1700000000007 implements MigrationInterface {
+  name = 'MessageReceipts1700000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'message_receipts',
+        columns: [
+          {
+            name: 'message_id',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            isPrimary: true,
+          },
+          {
+            name: 'conversation_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'sent'",
+          },
+          {
+            name: 'delivered_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'read_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE message_receipts 
+      ADD CONSTRAINT chk_receipt_status 
+      CHECK (status IN ('sent', 'delivered', 'read'))
+    `);
+
+    await queryRunner.createForeignKey(
+      'message_receipts',
+      new TableForeignKey({
+        columnNames: ['message_id'],
+        referencedTableName: 'messages',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'message_receipts',
+      new TableForeignKey({
+        columnNames: ['conversation_id'],
+        referencedTableName: 'conversations',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    // Read-up-to updates scan a user's pending receipts in one conversation
+    await queryRunner.createIndex(
+      'message_receipts',
+      new TableIndex({
+        name: 'idx_message_receipts_user_convo_status',
+        columnNames: ['user_id', 'conversation_id', 'status'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('message_receipts');
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class DeviceSyncCursors1700000000008 implements MigrationInterface {
+  name = 'DeviceSyncCursors1700000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'device_sync_cursors',
+        columns: [
+          {
+            name: 'user_id',
+            type: 'varchar',
+            isPrimary: true,
+          },
+          {
+            name: 'device_id',
+            type: 'varchar',
+            length: '128',
+            isPrimary: true,
+          },
+          {
+            name: 'last_message_id',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'last_sent_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Sync pages through a user's messages in (sent_at, id) order
+    await queryRunner.createIndex(
+      'messages',
+      new TableIndex({
+        name: 'idx_messages_conversation_sent_at_id',
+        columnNames: ['conversation_id', 'sent_at', 'id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('messages', 'idx_messages_conversation_sent_at_id');
+    await queryRunner.dropTable('device_sync_cursors');
+  }
+}
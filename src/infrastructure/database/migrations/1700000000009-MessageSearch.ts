@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MessageSearch1700000000009 implements MigrationInterface {
+  name = 'MessageSearch1700000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 'simple' skips stemming and stop words, since messages mix languages
+    await queryRunner.query(`
+      ALTER TABLE messages
+      ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX idx_messages_search_vector ON messages USING GIN (search_vector)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_messages_search_vector`);
+    await queryRunner.query(`ALTER TABLE messages DROP COLUMN IF EXISTS search_vector`);
+  }
+}
@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class DomainEventOutbox1700000000010 implements MigrationInterface {
+  name = 'DomainEventOutbox1700000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'outbox_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'event_id',
+            type: 'varchar',
+            length: '64',
+            isUnique: true,
+          },
+          {
+            name: 'event_name',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'aggregate_id',
+            type: 'varchar',
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'pending'",
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'next_attempt_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'locked_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'last_error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'delivered_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // The relay only ever scans undelivered rows
+    await queryRunner.createIndex(
+      'outbox_events',
+      new TableIndex({
+        name: 'idx_outbox_events_due',
+        columnNames: ['status', 'next_attempt_at'],
+        where: "status IN ('pending', 'processing')",
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('outbox_events', 'idx_outbox_events_due');
+    await queryRunner.dropTable('outbox_events');
+  }
+}
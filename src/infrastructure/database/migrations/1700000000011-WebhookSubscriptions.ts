@@ -0,0 +1,175 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex, TableForeignKey } from 'typeorm';
+
+export class WebhookSubscriptions1700000000011 implements MigrationInterface {
+  name = 'WebhookSubscriptions1700000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'business_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'url',
+            type: 'varchar',
+            length: '2048',
+          },
+          {
+            name: 'event_types',
+            type: 'text',
+            isArray: true,
+          },
+          {
+            name: 'secret',
+            type: 'varchar',
+            length: '128',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'webhook_subscriptions',
+      new TableIndex({
+        name: 'idx_webhook_subscriptions_business',
+        columnNames: ['business_id'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'subscription_id',
+            type: 'uuid',
+          },
+          {
+            name: 'event_id',
+            type: 'varchar',
+            length: '64',
+          },
+          {
+            name: 'event_name',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'pending'",
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'next_attempt_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'locked_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'response_status',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'last_error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'delivered_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_deliveries',
+      new TableForeignKey({
+        columnNames: ['subscription_id'],
+        referencedTableName: 'webhook_subscriptions',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    // One delivery per event and subscription, however often the event is relayed
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'idx_webhook_deliveries_subscription_event',
+        columnNames: ['subscription_id', 'event_id'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'idx_webhook_deliveries_due',
+        columnNames: ['status', 'next_attempt_at'],
+        where: "status IN ('pending', 'processing')",
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webhook_deliveries');
+    await queryRunner.dropTable('webhook_subscriptions');
+  }
+}
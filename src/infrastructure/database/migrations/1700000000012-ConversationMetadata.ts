@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class ConversationMetadata1700000000012 implements MigrationInterface {
+  name = 'ConversationMetadata1700000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Title, description, avatar and settings, stored as ConversationMetadata JSON
+    await queryRunner.addColumn(
+      'conversations',
+      new TableColumn({
+        name: 'metadata',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('conversations', 'metadata');
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EphemeralMessages1700000000013 implements MigrationInterface {
+  name = 'EphemeralMessages1700000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE messages
+      ADD COLUMN expires_after_read_seconds integer,
+      ADD CONSTRAINT chk_messages_expires_after_read CHECK (expires_after_read_seconds > 0)
+    `);
+
+    // Each recipient's countdown is persisted so a restart doesn't lose it
+    await queryRunner.query(`
+      ALTER TABLE message_receipts ADD COLUMN expires_at timestamptz
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX idx_messages_ephemeral ON messages (sent_at)
+      WHERE expires_after_read_seconds IS NOT NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX idx_message_receipts_expires_at ON message_receipts (message_id, expires_at)
+      WHERE expires_at IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_message_receipts_expires_at`);
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_messages_ephemeral`);
+    await queryRunner.query(`ALTER TABLE message_receipts DROP COLUMN IF EXISTS expires_at`);
+    await queryRunner.query(`
+      ALTER TABLE messages
+      DROP CONSTRAINT IF EXISTS chk_messages_expires_after_read,
+      DROP COLUMN IF EXISTS expires_after_read_seconds
+    `);
+  }
+}
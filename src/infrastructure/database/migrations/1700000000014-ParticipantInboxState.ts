@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ParticipantInboxState1700000000014 implements MigrationInterface {
+  name = 'ParticipantInboxState1700000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE participants
+      ADD COLUMN archived_at timestamptz,
+      ADD COLUMN pinned_at timestamptz,
+      ADD COLUMN muted_until timestamptz
+    `);
+
+    // The pin limit counts a user's pinned conversations
+    await queryRunner.query(`
+      CREATE INDEX idx_participants_user_pinned ON participants (user_id)
+      WHERE pinned_at IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_participants_user_pinned`);
+    await queryRunner.query(`
+      ALTER TABLE participants
+      DROP COLUMN IF EXISTS archived_at,
+      DROP COLUMN IF EXISTS pinned_at,
+      DROP COLUMN IF EXISTS muted_until
+    `);
+  }
+}
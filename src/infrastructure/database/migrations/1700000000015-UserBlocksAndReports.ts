@@ -0,0 +1,132 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class UserBlocksAndReports1700000000015 implements MigrationInterface {
+  name = 'UserBlocksAndReports1700000000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_blocks',
+        columns: [
+          {
+            name: 'blocker_id',
+            type: 'varchar',
+            length: '255',
+            isPrimary: true,
+          },
+          {
+            name: 'blocked_id',
+            type: 'varchar',
+            length: '255',
+            isPrimary: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+        checks: [{ name: 'chk_user_blocks_not_self', expression: 'blocker_id <> blocked_id' }],
+      }),
+      true,
+    );
+
+    // Typing indicators look up who has blocked the typing user
+    await queryRunner.createIndex(
+      'user_blocks',
+      new TableIndex({
+        name: 'idx_user_blocks_blocked',
+        columnNames: ['blocked_id'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_reports',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'reporter_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'reported_user_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'conversation_id',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '20',
+          },
+          {
+            name: 'details',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'message_snapshot',
+            type: 'jsonb',
+            default: "'[]'",
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'open'",
+          },
+          {
+            name: 'reviewed_by',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'reviewed_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'user_reports',
+      new TableIndex({
+        name: 'idx_user_reports_status_created',
+        columnNames: ['status', 'created_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'user_reports',
+      new TableIndex({
+        name: 'idx_user_reports_reported_user',
+        columnNames: ['reported_user_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('user_reports');
+    await queryRunner.dropTable('user_blocks');
+  }
+}
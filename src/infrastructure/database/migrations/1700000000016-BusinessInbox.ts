@@ -0,0 +1,151 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex, TableForeignKey } from 'typeorm';
+
+export class BusinessInbox1700000000016 implements MigrationInterface {
+  name = 'BusinessInbox1700000000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'business_agents',
+        columns: [
+          {
+            name: 'business_id',
+            type: 'varchar',
+            length: '255',
+            isPrimary: true,
+          },
+          {
+            name: 'agent_id',
+            type: 'varchar',
+            length: '255',
+            isPrimary: true,
+          },
+          {
+            name: 'role',
+            type: 'varchar',
+            length: '20',
+            default: "'agent'",
+          },
+          {
+            name: 'last_assigned_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+        checks: [{ name: 'chk_business_agents_role', expression: "role IN ('agent', 'supervisor')" }],
+      }),
+      true,
+    );
+
+    // Agents look up the businesses they work for
+    await queryRunner.createIndex(
+      'business_agents',
+      new TableIndex({
+        name: 'idx_business_agents_agent',
+        columnNames: ['agent_id'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'conversation_assignments',
+        columns: [
+          {
+            name: 'conversation_id',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'business_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'customer_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'queued'",
+          },
+          {
+            name: 'agent_id',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'queued_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'assigned_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'closed_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'closed_by',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+        checks: [{ name: 'chk_conversation_assignments_status', expression: "status IN ('queued', 'assigned', 'closed')" }],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'conversation_assignments',
+      new TableForeignKey({
+        columnNames: ['conversation_id'],
+        referencedTableName: 'conversations',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    // Routing takes each business's queue oldest first
+    await queryRunner.createIndex(
+      'conversation_assignments',
+      new TableIndex({
+        name: 'idx_conversation_assignments_business_status',
+        columnNames: ['business_id', 'status', 'queued_at'],
+      }),
+    );
+
+    // Least-loaded routing counts open conversations per agent
+    await queryRunner.createIndex(
+      'conversation_assignments',
+      new TableIndex({
+        name: 'idx_conversation_assignments_agent_open',
+        columnNames: ['agent_id'],
+        where: "status = 'assigned'",
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('conversation_assignments');
+    await queryRunner.dropTable('business_agents');
+  }
+}
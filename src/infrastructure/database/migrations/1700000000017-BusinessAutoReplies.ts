@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class BusinessAutoReplies1700000000017 implements MigrationInterface {
+  name = 'BusinessAutoReplies1700000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'business_auto_replies',
+        columns: [
+          {
+            name: 'business_id',
+            type: 'varchar',
+            length: '255',
+            isPrimary: true,
+          },
+          {
+            name: 'greeting_enabled',
+            type: 'boolean',
+            default: true,
+          },
+          {
+            name: 'greeting_message',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'away_enabled',
+            type: 'boolean',
+            default: true,
+          },
+          {
+            name: 'away_message',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+        ],
+      }),
+      true,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('business_auto_replies');
+  }
+}
@@ -0,0 +1,98 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class AuthSessions1700000000018 implements MigrationInterface {
+  name = 'AuthSessions1700000000018';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'auth_sessions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'device_id',
+            type: 'varchar',
+            length: '128',
+          },
+          {
+            name: 'device_name',
+            type: 'varchar',
+            length: '200',
+            isNullable: true,
+          },
+          {
+            name: 'user_agent',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'ip_address',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'current_token_id',
+            type: 'uuid',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'last_used_at',
+            type: 'timestamptz',
+            default: 'NOW()',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamptz',
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'revoked_reason',
+            type: 'varchar',
+            length: '32',
+            isNullable: true,
+          },
+        ],
+        checks: [
+          {
+            name: 'chk_auth_sessions_revoked_reason',
+            expression: "revoked_reason IN ('logout', 'remote_logout', 'replaced', 'reuse_detected')",
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Listing a user's devices and replacing a device's session on re-login
+    await queryRunner.createIndex(
+      'auth_sessions',
+      new TableIndex({
+        name: 'idx_auth_sessions_user_device',
+        columnNames: ['user_id', 'device_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('auth_sessions');
+  }
+}
@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MessageSequence1700000000019 implements MigrationInterface {
+  name = 'MessageSequence1700000000019';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE conversations ADD COLUMN last_message_seq bigint NOT NULL DEFAULT 0
+    `);
+    await queryRunner.query(`
+      ALTER TABLE messages ADD COLUMN seq bigint NOT NULL DEFAULT 0
+    `);
+
+    await queryRunner.query(`
+      UPDATE messages m
+      SET seq = numbered.seq
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY sent_at, id) AS seq
+        FROM messages
+      ) numbered
+      WHERE numbered.id = m.id
+    `);
+    await queryRunner.query(`
+      UPDATE conversations c
+      SET last_message_seq = COALESCE((SELECT MAX(m.seq) FROM messages m WHERE m.conversation_id = c.id), 0)
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX idx_messages_conversation_seq ON messages (conversation_id, seq)
+    `);
+
+    // The counter row stays locked until the inserting transaction ends, so a
+    // conversation's sequence numbers commit in the order they are handed out
+    await queryRunner.query(`
+      CREATE FUNCTION assign_message_seq() RETURNS trigger AS $$
+      BEGIN
+        UPDATE conversations
+        SET last_message_seq = last_message_seq + 1
+        WHERE id = NEW.conversation_id
+        RETURNING last_message_seq INTO NEW.seq;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await queryRunner.query(`
+      CREATE TRIGGER trg_messages_assign_seq
+      BEFORE INSERT ON messages
+      FOR EACH ROW EXECUTE FUNCTION assign_message_seq()
+    `);
+
+    // Cursors become a per-conversation sequence position
+    await queryRunner.query(`
+      ALTER TABLE device_sync_cursors ADD COLUMN positions jsonb NOT NULL DEFAULT '{}'
+    `);
+    await queryRunner.query(`
+      UPDATE device_sync_cursors d
+      SET positions = COALESCE((
+        SELECT jsonb_object_agg(
+          p.conversation_id,
+          COALESCE((
+            SELECT MAX(m.seq) FROM messages m
+            WHERE m.conversation_id = p.conversation_id
+              AND (m.sent_at, m.id) <= (d.last_sent_at, d.last_message_id)
+          ), 0)
+        )
+        FROM participants p
+        WHERE p.user_id = d.user_id
+      ), '{}')
+      WHERE d.last_sent_at IS NOT NULL
+    `);
+    await queryRunner.query(`
+      ALTER TABLE device_sync_cursors
+      DROP COLUMN last_message_id,
+      DROP COLUMN last_sent_at
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Per-conversation positions can't be folded back into one point, so cursors restart
+    await queryRunner.query(`
+      ALTER TABLE device_sync_cursors
+      ADD COLUMN last_message_id uuid,
+      ADD COLUMN last_sent_at timestamptz,
+      DROP COLUMN IF EXISTS positions
+    `);
+
+    await queryRunner.query(`DROP TRIGGER IF EXISTS trg_messages_assign_seq ON messages`);
+    await queryRunner.query(`DROP FUNCTION IF EXISTS assign_message_seq()`);
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_messages_conversation_seq`);
+    await queryRunner.query(`ALTER TABLE messages DROP COLUMN IF EXISTS seq`);
+    await queryRunner.query(`ALTER TABLE conversations DROP COLUMN IF EXISTS last_message_seq`);
+  }
+}
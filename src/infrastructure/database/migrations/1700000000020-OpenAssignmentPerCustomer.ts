@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class OpenAssignmentPerCustomer1700000000020 implements MigrationInterface {
+  name = 'OpenAssignmentPerCustomer1700000000020';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Concurrent starts may already have opened more than one; keep the newest
+    await queryRunner.query(`
+      UPDATE conversation_assignments a
+      SET status = 'closed', closed_at = NOW(), closed_by = a.customer_id, updated_at = NOW()
+      WHERE a.status <> 'closed'
+        AND EXISTS (
+          SELECT 1 FROM conversation_assignments newer
+          WHERE newer.business_id = a.business_id
+            AND newer.customer_id = a.customer_id
+            AND newer.status <> 'closed'
+            AND (newer.queued_at, newer.conversation_id) > (a.queued_at, a.conversation_id)
+        )
+    `);
+
+    // A customer has at most one open conversation with each business
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX idx_conversation_assignments_open_customer
+      ON conversation_assignments (business_id, customer_id)
+      WHERE status <> 'closed'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_conversation_assignments_open_customer`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class UnlinkedAttachmentIndex1700000000021 implements MigrationInterface {
+  name = 'UnlinkedAttachmentIndex1700000000021';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The sweep looks for old uploads that were never sent
+    await queryRunner.query(`
+      CREATE INDEX idx_attachments_unlinked
+      ON attachments (created_at)
+      WHERE message_id IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_attachments_unlinked`);
+  }
+}
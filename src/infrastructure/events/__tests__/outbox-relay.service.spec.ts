@@ -0,0 +1,112 @@
+import { ConfigService } from '@nestjs/config';
+import { IOutboxEventRepository } from '@domain/repositories/outbox-event.repository.interface';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { DomainEventEnvelope } from '@domain/events/domain-event-bus.interface';
+import { DomainEventBus } from '../domain-event-bus.service';
+import { OutboxRelayService } from '../outbox-relay.service';
+
+describe('OutboxRelayService', () => {
+  let service: OutboxRelayService;
+  let eventBus: DomainEventBus;
+  let mockRepository: jest.Mocked<IOutboxEventRepository>;
+
+  const envelope: DomainEventEnvelope = {
+    eventId: 'evt-1',
+    eventName: 'MessageSent',
+    eventVersion: 1,
+    aggregateId: 'message-1',
+    occurredOn: '2024-01-01T00:00:00.000Z',
+    eventData: { messageId: 'message-1', conversationId: 'conversation-1' },
+  };
+
+  const createRow = (attempts: number = 1): OutboxEvent =>
+    Object.assign(new OutboxEvent(), {
+      id: 'row-1',
+      eventId: envelope.eventId,
+      eventName: envelope.eventName,
+      aggregateId: envelope.aggregateId,
+      payload: envelope,
+      status: 'processing',
+      attempts,
+      nextAttemptAt: new Date(),
+      createdAt: new Date(),
+    });
+
+  beforeEach(() => {
+    mockRepository = {
+      append: jest.fn(),
+      claimBatch: jest.fn().mockResolvedValue([]),
+      markDelivered: jest.fn(),
+      scheduleRetry: jest.fn(),
+      markDead: jest.fn(),
+      findDead: jest.fn(),
+      requeue: jest.fn(),
+    };
+    eventBus = new DomainEventBus();
+    service = new OutboxRelayService(
+      mockRepository,
+      eventBus,
+      new ConfigService({ OUTBOX_BATCH_SIZE: 10, OUTBOX_LOCK_TIMEOUT_MS: 30000, OUTBOX_MAX_ATTEMPTS: 3 }),
+    );
+  });
+
+  it('delivers claimed events to subscribers and marks them delivered', async () => {
+    const handler = jest.fn();
+    eventBus.subscribe('MessageSent', handler);
+    mockRepository.claimBatch.mockResolvedValue([createRow()]);
+
+    const delivered = await service.relayPending();
+
+    expect(delivered).toBe(1);
+    expect(mockRepository.claimBatch).toHaveBeenCalledWith(10, 30000);
+    expect(handler).toHaveBeenCalledWith(envelope);
+    expect(mockRepository.markDelivered).toHaveBeenCalledWith('row-1');
+  });
+
+  it('schedules a retry with backoff when a subscriber fails', async () => {
+    eventBus.subscribe('MessageSent', jest.fn().mockRejectedValue(new Error('webhook down')));
+    mockRepository.claimBatch.mockResolvedValue([createRow(2)]);
+    const before = Date.now();
+
+    const delivered = await service.relayPending();
+
+    expect(delivered).toBe(0);
+    expect(mockRepository.markDelivered).not.toHaveBeenCalled();
+    const [id, attempts, nextAttemptAt, error] = mockRepository.scheduleRetry.mock.calls[0];
+    expect(id).toBe('row-1');
+    expect(attempts).toBe(2);
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    expect(error).toContain('webhook down');
+  });
+
+  it('dead-letters an event once it runs out of attempts', async () => {
+    eventBus.subscribe('*', jest.fn().mockRejectedValue(new Error('still down')));
+    mockRepository.claimBatch.mockResolvedValue([createRow(3)]);
+
+    await service.relayPending();
+
+    expect(mockRepository.scheduleRetry).not.toHaveBeenCalled();
+    expect(mockRepository.markDead).toHaveBeenCalledWith('row-1', 3, expect.stringContaining('still down'));
+  });
+
+  it('dead-letters a reclaimed event whose relay kept crashing without delivering it', async () => {
+    const handler = jest.fn();
+    eventBus.subscribe('*', handler);
+    mockRepository.claimBatch.mockResolvedValue([createRow(4)]);
+
+    const delivered = await service.relayPending();
+
+    expect(delivered).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockRepository.markDead).toHaveBeenCalledWith('row-1', 4, expect.any(String));
+  });
+
+  it('runs the remaining subscribers when one of them fails', async () => {
+    const healthy = jest.fn();
+    eventBus.subscribe('MessageSent', jest.fn().mockRejectedValue(new Error('boom')));
+    eventBus.subscribe('*', healthy);
+
+    await expect(eventBus.dispatch(envelope)).rejects.toThrow('1 of 2 subscribers failed for MessageSent: boom');
+    expect(healthy).toHaveBeenCalledWith(envelope);
+  });
+});
@@ -0,0 +1,55 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  DomainEventEnvelope,
+  DomainEventHandler,
+  IDomainEventBus,
+} from '@domain/events/domain-event-bus.interface';
+
+/**
+ * In-process subscriber registry fed by the outbox relay.
+ *
+ * Delivery is at-least-once: if any subscriber fails, the relay retries the
+ * whole event, so every subscriber must tolerate seeing an eventId twice.
+ */
+@Injectable()
+export class DomainEventBus implements IDomainEventBus {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly handlers = new Map<string, Set<DomainEventHandler>>();
+
+  subscribe(eventName: string, handler: DomainEventHandler): () => void {
+    if (!this.handlers.has(eventName)) {
+      this.handlers.set(eventName, new Set());
+    }
+    this.handlers.get(eventName)!.add(handler);
+    this.logger.debug(`Subscribed handler to ${eventName}`);
+
+    return () => {
+      this.handlers.get(eventName)?.delete(handler);
+    };
+  }
+
+  /**
+   * Run every subscriber for the event, rejecting if any of them failed
+   */
+  async dispatch(event: DomainEventEnvelope): Promise<void> {
+    const handlers = [
+      ...(this.handlers.get(event.eventName) || []),
+      ...(this.handlers.get('*') || []),
+    ];
+
+    const failures: string[] = [];
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length} of ${handlers.length} subscribers failed for ${event.eventName}: ${failures.join('; ')}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { RepositoryModule } from '@infrastructure/repositories/repository.module';
+import { DomainEventBus } from './domain-event-bus.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+@Module({
+  imports: [RepositoryModule],
+  providers: [
+    DomainEventBus,
+    OutboxRelayService,
+    {
+      provide: 'IDomainEventBus',
+      useExisting: DomainEventBus,
+    },
+  ],
+  exports: [DomainEventBus, OutboxRelayService, 'IDomainEventBus'],
+})
+export class EventsModule {}
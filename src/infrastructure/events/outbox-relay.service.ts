@@ -0,0 +1,118 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IOutboxEventRepository } from '@domain/repositories/outbox-event.repository.interface';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { DomainEventBus } from './domain-event-bus.service';
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Polls the outbox and hands due events to the in-process event bus.
+ * Failed events are retried with exponential backoff and dead-lettered once
+ * they run out of attempts; dead events stay in the table until requeued.
+ */
+@Injectable()
+export class OutboxRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private pollTimer?: NodeJS.Timeout;
+  private relaying = false;
+
+  constructor(
+    @Inject('IOutboxEventRepository')
+    private readonly outboxRepository: IOutboxEventRepository,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('OUTBOX_RELAY_ENABLED', true)) {
+      this.logger.warn('Outbox relay is disabled; domain events will queue up undelivered');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.relayPending().catch(error => this.logger.error('Outbox relay pass failed:', error));
+    }, this.configService.get<number>('OUTBOX_POLL_INTERVAL_MS', 1000));
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  /**
+   * Deliver one batch of due events. Returns how many were delivered.
+   */
+  async relayPending(): Promise<number> {
+    // A slow pass must not overlap with the next tick
+    if (this.relaying) {
+      return 0;
+    }
+
+    this.relaying = true;
+    try {
+      const batch = await this.outboxRepository.claimBatch(
+        this.configService.get<number>('OUTBOX_BATCH_SIZE', 50),
+        this.configService.get<number>('OUTBOX_LOCK_TIMEOUT_MS', 60000),
+      );
+
+      let delivered = 0;
+      for (const row of batch) {
+        if (await this.deliver(row)) {
+          delivered++;
+        }
+      }
+      return delivered;
+    } finally {
+      this.relaying = false;
+    }
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<OutboxEvent[]> {
+    return this.outboxRepository.findDead(limit);
+  }
+
+  /**
+   * Give a dead-lettered event a fresh set of attempts
+   */
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const requeued = await this.outboxRepository.requeue(id);
+    if (requeued) {
+      this.logger.log(`Requeued dead-lettered outbox event ${id}`);
+    }
+    return requeued;
+  }
+
+  private async deliver(row: OutboxEvent): Promise<boolean> {
+    const maxAttempts = this.configService.get<number>('OUTBOX_MAX_ATTEMPTS', 8);
+
+    // Only reachable when the relay died mid-delivery on the last allowed attempt
+    if (row.attempts > maxAttempts) {
+      await this.outboxRepository.markDead(row.id, row.attempts, row.lastError ?? 'Relay lock expired during delivery');
+      this.logger.error(`Dead-lettered ${row.eventName} event ${row.eventId}: its relay kept losing the lock`);
+      return false;
+    }
+
+    try {
+      await this.eventBus.dispatch(row.payload);
+      await this.outboxRepository.markDelivered(row.id);
+      return true;
+    } catch (error) {
+      // claimBatch has already counted this attempt
+      const attempts = row.attempts;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= maxAttempts) {
+        await this.outboxRepository.markDead(row.id, attempts, message);
+        this.logger.error(`Dead-lettered ${row.eventName} event ${row.eventId} after ${attempts} attempts: ${message}`);
+      } else {
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+        await this.outboxRepository.scheduleRetry(row.id, attempts, new Date(Date.now() + delay), message);
+        this.logger.warn(`Delivery of ${row.eventName} event ${row.eventId} failed (attempt ${attempts}), retrying in ${delay}ms: ${message}`);
+      }
+      return false;
+    }
+  }
+}
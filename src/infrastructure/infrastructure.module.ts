@@ -7,6 +7,8 @@ import { APP_GUARD } from '@nestjs/core';
 // Auth services and strategies
 import { AuthService } from './auth/services/auth.service';
 import { TokenService } from './auth/services/token.service';
+import { SessionService } from './auth/services/session.service';
+import { JwtVerifierService } from './auth/services/jwt-verifier.service';
 import { JwtStrategy } from './auth/strategies/jwt.strategy';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 
@@ -17,7 +19,11 @@ import { StructuredLoggerService } from './logging/structured-logger.service';
 import { CacheModule } from './cache/cache.module';
 import { ProfileModule } from './profile/profile.module';
 import { WebSocketModule } from './websocket/websocket.module';
+import { StorageModule } from './storage/storage.module';
+import { EventsModule } from './events/events.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 import { ServicesModule } from '@application/services/services.module';
+import { RepositoryModule } from './repositories/repository.module';
 
 @Global()
 @Module({
@@ -32,8 +38,12 @@ import { ServicesModule } from '@application/services/services.module';
       }),
       inject: [ConfigService],
     }),
+    RepositoryModule,
     CacheModule,
     ProfileModule,
+    StorageModule,
+    EventsModule,
+    WebhooksModule,
     WebSocketModule,
     ServicesModule,
   ],
@@ -41,6 +51,8 @@ import { ServicesModule } from '@application/services/services.module';
     // Auth providers
     AuthService,
     TokenService,
+    SessionService,
+    JwtVerifierService,
     JwtStrategy,
     {
       provide: APP_GUARD,
@@ -53,6 +65,8 @@ import { ServicesModule } from '@application/services/services.module';
   exports: [
     AuthService,
     TokenService,
+    SessionService,
+    JwtVerifierService,
     JwtStrategy,
     StructuredLoggerService,
     PassportModule,
@@ -0,0 +1,177 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheKeyStrategyService } from '@infrastructure/cache/cache-key-strategy.service';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { ContentModerationService } from '../content-moderation.service';
+
+describe('ContentModerationService', () => {
+  const context = { senderId: 'user-1', conversationId: 'conversation-1' };
+  let security: jest.Mock;
+  let counters: Map<string, number>;
+  let cache: { get: jest.Mock; increment: jest.Mock; expire: jest.Mock };
+
+  /** Services built by one test share the cache, as instances share Redis */
+  const createService = (config: Record<string, any>) => {
+    security = jest.fn();
+    const configService = new ConfigService({ MODERATION_ENABLED: true, ...config });
+    return new ContentModerationService(
+      configService,
+      { security } as unknown as StructuredLoggerService,
+      cache as any,
+      new CacheKeyStrategyService(configService),
+    );
+  };
+
+  beforeEach(() => {
+    counters = new Map();
+    cache = {
+      get: jest.fn(async (key: string) => counters.get(key) ?? null),
+      increment: jest.fn(async (key: string) => {
+        counters.set(key, (counters.get(key) ?? 0) + 1);
+        return counters.get(key);
+      }),
+      expire: jest.fn(),
+    };
+  });
+
+  it('masks listed words without touching the rest of the message', async () => {
+    const service = createService({ MODERATION_RULES: 'profanity:mask', MODERATION_PROFANITY_WORDS: 'darn,heck' });
+
+    const result = await service.moderate('Darn it, what the heck. Darnell is fine', context);
+
+    expect(result.action).toBe('mask');
+    expect(result.content).toBe('**** it, what the ****. Darnell is fine');
+    expect(security).toHaveBeenCalledWith(
+      'message_masked',
+      expect.objectContaining({ action: 'mask' }),
+      expect.objectContaining({ userId: 'user-1', conversationId: 'conversation-1' }),
+    );
+  });
+
+  it('rejects links to denied domains, including bare mentions', async () => {
+    const service = createService({ MODERATION_RULES: 'links:reject', MODERATION_LINK_DENYLIST: 'spam.example' });
+
+    const withScheme = await service.moderate('see https://www.spam.example/offer', context);
+    const bare = await service.moderate('go to promo.spam.example now', context);
+    const other = await service.moderate('docs at https://nestjs.com', context);
+
+    expect(withScheme.rejection).toEqual({
+      code: 'moderation_rejected',
+      rule: 'links',
+      detail: 'Links to spam.example are not allowed',
+    });
+    expect(bare.action).toBe('reject');
+    expect(other.action).toBe('allow');
+  });
+
+  it('only allows allowlisted hosts when an allowlist is set', async () => {
+    const service = createService({ MODERATION_RULES: 'links:flag', MODERATION_LINK_ALLOWLIST: 'example.com' });
+
+    expect((await service.moderate('https://docs.example.com/a', context)).action).toBe('allow');
+    expect((await service.moderate('https://elsewhere.org', context)).action).toBe('flag');
+  });
+
+  it('detects card numbers by Luhn check, not by length alone', async () => {
+    const service = createService({ MODERATION_RULES: 'pii_card:mask' });
+
+    const card = await service.moderate('card 4111 1111 1111 1111 exp 12/30', context);
+    const notCard = await service.moderate('order 1234 5678 9012 3456', context);
+
+    expect(card.content).toBe('card ******************* exp 12/30');
+    expect(notCard.action).toBe('allow');
+  });
+
+  it('flags phone numbers and email addresses', async () => {
+    const service = createService({ MODERATION_RULES: 'pii_phone:flag,pii_email:mask' });
+
+    const result = await service.moderate('call +1 (555) 123-4567 or mail jane.doe@example.com on 2024-01-01', context);
+
+    expect(result.action).toBe('flag');
+    expect(result.findings.map(f => f.rule)).toEqual(['pii_phone', 'pii_email']);
+    expect(result.content).toContain('call +1 (555) 123-4567 or mail ********************');
+  });
+
+  it('catches a sender repeating the same message past the limit', async () => {
+    const service = createService({ MODERATION_RULES: 'repeat:reject', MODERATION_REPEAT_LIMIT: 2, MODERATION_REPEAT_WINDOW_MS: 60000 });
+
+    const first = await service.moderate('Buy now!', context);
+    const second = await service.moderate('buy   NOW!', { ...context, conversationId: 'conversation-2' });
+    const third = await service.moderate('Buy now!', context);
+    const otherSender = await service.moderate('Buy now!', { ...context, senderId: 'user-2' });
+
+    expect([first.action, second.action, third.action, otherSender.action]).toEqual(['allow', 'allow', 'reject', 'allow']);
+    expect(cache.expire).toHaveBeenCalledTimes(2);
+    expect(cache.expire).toHaveBeenCalledWith(expect.stringMatching(/^chat:v1:moderation_repeat:user-1:/), 60);
+  });
+
+  it('counts repeats across instances', async () => {
+    const config = { MODERATION_RULES: 'repeat:reject', MODERATION_REPEAT_LIMIT: 1 };
+
+    await createService(config).moderate('Buy now!', context);
+
+    expect((await createService(config).moderate('Buy now!', context)).action).toBe('reject');
+  });
+
+  it('only counts messages that passed every rule', async () => {
+    const service = createService({
+      MODERATION_RULES: 'repeat:reject,links:reject',
+      MODERATION_REPEAT_LIMIT: 1,
+      MODERATION_LINK_DENYLIST: 'spam.example',
+    });
+
+    const rejected = await service.moderate('see spam.example', context);
+    const retried = await service.moderate('see spam.example', context);
+
+    expect(rejected.rejection?.rule).toBe('links');
+    expect(retried.rejection?.rule).toBe('links');
+    expect(cache.increment).not.toHaveBeenCalled();
+  });
+
+  it('does not count edits', async () => {
+    const service = createService({ MODERATION_RULES: 'repeat:reject', MODERATION_REPEAT_LIMIT: 1 });
+
+    await service.moderate('Buy now!', { ...context, isEdit: true });
+    await service.moderate('Buy now!', { ...context, isEdit: true });
+
+    expect((await service.moderate('Buy now!', context)).action).toBe('allow');
+  });
+
+  it('lets messages through when the repeat history is unavailable', async () => {
+    const service = createService({ MODERATION_RULES: 'repeat:reject', MODERATION_REPEAT_LIMIT: 1 });
+    cache.get.mockRejectedValue(new Error('Connection is closed.'));
+    cache.increment.mockRejectedValue(new Error('Connection is closed.'));
+
+    expect((await service.moderate('Buy now!', context)).action).toBe('allow');
+  });
+
+  it('runs rules in order and stops at the first rejection', async () => {
+    const service = createService({
+      MODERATION_RULES: 'profanity:mask,pii_email:reject,links:flag',
+      MODERATION_PROFANITY_WORDS: 'darn',
+      MODERATION_LINK_DENYLIST: 'spam.example',
+    });
+
+    const result = await service.moderate('darn, write to a@b.io via https://spam.example', context);
+
+    expect(result.findings).toEqual([
+      { rule: 'profanity', action: 'mask', reason: 'Message contains inappropriate language' },
+      { rule: 'pii_email', action: 'reject', reason: 'Message contains an email address' },
+    ]);
+    expect(result.action).toBe('reject');
+    expect(security).toHaveBeenCalledWith('message_rejected', expect.anything(), expect.anything());
+  });
+
+  it('does nothing when disabled', async () => {
+    const service = createService({ MODERATION_ENABLED: false, MODERATION_RULES: 'pii_email:reject' });
+
+    const result = await service.moderate('a@b.io', context);
+
+    expect(result).toEqual({ action: 'allow', content: 'a@b.io', findings: [] });
+    expect(security).not.toHaveBeenCalled();
+  });
+
+  it('refuses to start with an unknown rule', () => {
+    expect(() => createService({ MODERATION_RULES: 'profanity:mask,sentiment:flag' })).toThrow(
+      'Unknown moderation rule "sentiment"',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+import { CacheKeyStrategyService } from '@infrastructure/cache/cache-key-strategy.service';
+import {
+  MODERATION_ACTIONS,
+  ModerationAction,
+  ModerationContext,
+  ModerationResult,
+  ModerationRule,
+  ModerationSpan,
+} from './moderation.types';
+import { ProfanityRule } from './rules/profanity.rule';
+import { LinkRule } from './rules/link.rule';
+import { EmailAddressRule, PhoneNumberRule, CardNumberRule } from './rules/pii.rules';
+import { RepeatedMessageRule } from './rules/repeated-message.rule';
+
+const AUDIT_EVENTS: Record<Exclude<ModerationAction, 'allow'>, string> = {
+  mask: 'message_masked',
+  flag: 'message_flagged',
+  reject: 'message_rejected',
+};
+
+interface ConfiguredRule {
+  rule: ModerationRule;
+  action: ModerationAction;
+}
+
+/**
+ * Runs outgoing message text through the rules listed in MODERATION_RULES, in
+ * order. A rejection stops the pipeline; masks are applied as they happen, so
+ * later rules see the masked text. Anything other than a clean pass is written
+ * to the security log.
+ */
+@Injectable()
+export class ContentModerationService {
+  private readonly logger = new Logger(ContentModerationService.name);
+  private readonly enabled: boolean;
+  private readonly pipeline: ConfiguredRule[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly structuredLogger: StructuredLoggerService,
+    @Inject(CACHE_SERVICE_TOKEN)
+    private readonly cache: ICacheService,
+    private readonly keyStrategy: CacheKeyStrategyService,
+  ) {
+    this.enabled = this.configService.get<boolean>('MODERATION_ENABLED', true);
+    this.pipeline = this.buildPipeline(this.configService.get<string>('MODERATION_RULES', ''));
+
+    if (this.enabled) {
+      this.logger.log(
+        `Content moderation rules: ${this.pipeline.map(({ rule, action }) => `${rule.name}:${action}`).join(', ') || 'none'}`,
+      );
+    }
+  }
+
+  async moderate(content: string, context: ModerationContext): Promise<ModerationResult> {
+    const result: ModerationResult = { action: 'allow', content, findings: [] };
+    if (!this.enabled || !content) {
+      return result;
+    }
+
+    const recorders: Array<() => Promise<void>> = [];
+
+    for (const { rule, action } of this.pipeline) {
+      const inspected = result.content;
+      const match = await rule.inspect(inspected, context);
+      if (rule.record) {
+        recorders.push(() => rule.record!(inspected, context));
+      }
+      if (!match) {
+        continue;
+      }
+
+      result.findings.push({ rule: rule.name, action, reason: match.reason });
+      if (this.severity(action) > this.severity(result.action)) {
+        result.action = action;
+      }
+
+      if (action === 'mask') {
+        result.content = this.mask(result.content, match.spans);
+      } else if (action === 'reject') {
+        result.rejection = { code: 'moderation_rejected', rule: rule.name, detail: match.reason };
+        break;
+      }
+    }
+
+    if (result.action !== 'allow') {
+      this.audit(result, context, content.length);
+    }
+    if (!result.rejection && !context.isEdit) {
+      await this.record(recorders, context);
+    }
+
+    return result;
+  }
+
+  private async record(recorders: Array<() => Promise<void>>, context: ModerationContext): Promise<void> {
+    for (const record of recorders) {
+      try {
+        await record();
+      } catch (error) {
+        this.logger.warn(`Failed to record a message from user ${context.senderId} for moderation: ${error.message}`);
+      }
+    }
+  }
+
+  private audit(result: ModerationResult, context: ModerationContext, contentLength: number): void {
+    // The message text itself stays out of the log; it may be the PII being caught
+    this.structuredLogger.security(
+      AUDIT_EVENTS[result.action as Exclude<ModerationAction, 'allow'>],
+      {
+        action: result.action,
+        findings: result.findings.filter(finding => finding.action !== 'allow'),
+        contentLength,
+      },
+      {
+        service: 'ContentModerationService',
+        operation: 'moderate',
+        userId: context.senderId,
+        conversationId: context.conversationId,
+      },
+    );
+  }
+
+  private mask(content: string, spans: ModerationSpan[]): string {
+    let masked = content;
+    for (const { start, end } of spans) {
+      masked = masked.slice(0, start) + '*'.repeat(end - start) + masked.slice(end);
+    }
+    return masked;
+  }
+
+  private severity(action: ModerationAction): number {
+    return MODERATION_ACTIONS.indexOf(action);
+  }
+
+  /**
+   * Parses "rule:action,rule:action". Unknown rules or actions fail startup
+   * rather than silently leaving a check out.
+   */
+  private buildPipeline(spec: string): ConfiguredRule[] {
+    return spec
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [name, action = 'reject'] = entry.split(':').map(part => part.trim());
+        if (!(MODERATION_ACTIONS as readonly string[]).includes(action)) {
+          throw new Error(`Unknown moderation action "${action}" for rule "${name}"`);
+        }
+        return { rule: this.createRule(name), action: action as ModerationAction };
+      });
+  }
+
+  private createRule(name: string): ModerationRule {
+    switch (name) {
+      case 'profanity':
+        return new ProfanityRule(this.getList('MODERATION_PROFANITY_WORDS'));
+      case 'links':
+        return new LinkRule(this.getList('MODERATION_LINK_ALLOWLIST'), this.getList('MODERATION_LINK_DENYLIST'));
+      case 'pii_phone':
+        return new PhoneNumberRule();
+      case 'pii_email':
+        return new EmailAddressRule();
+      case 'pii_card':
+        return new CardNumberRule();
+      case 'repeat':
+        return new RepeatedMessageRule(
+          this.cache,
+          this.keyStrategy,
+          this.configService.get<number>('MODERATION_REPEAT_LIMIT', 3),
+          this.configService.get<number>('MODERATION_REPEAT_WINDOW_MS', 60000),
+        );
+      default:
+        throw new Error(`Unknown moderation rule "${name}"`);
+    }
+  }
+
+  private getList(key: string): string[] {
+    return (this.configService.get<string>(key) || '')
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ContentModerationService } from './content-moderation.service';
+
+@Module({
+  providers: [ContentModerationService],
+  exports: [ContentModerationService],
+})
+export class ModerationModule {}
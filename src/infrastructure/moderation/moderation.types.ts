@@ -0,0 +1,63 @@
+/**
+ * What happens to a message when a rule matches. Ordered from least to most severe.
+ */
+export const MODERATION_ACTIONS = ['allow', 'mask', 'flag', 'reject'] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export interface ModerationContext {
+  senderId: string;
+  conversationId: string;
+  /** Edits are checked like new messages but don't count towards history-based rules */
+  isEdit?: boolean;
+}
+
+/**
+ * Part of the content a rule objected to, as [start, end) offsets
+ */
+export interface ModerationSpan {
+  start: number;
+  end: number;
+}
+
+export interface RuleMatch {
+  reason: string;
+  /** Empty when the whole message is the problem (spam, for instance) and there is nothing to mask */
+  spans: ModerationSpan[];
+}
+
+/**
+ * One check in the pipeline. Rules only detect; the configured action decides
+ * what happens to the message.
+ */
+export interface ModerationRule {
+  readonly name: string;
+  inspect(content: string, context: ModerationContext): RuleMatch | null | Promise<RuleMatch | null>;
+  /** Called with the text the rule inspected, once the message has passed every rule */
+  record?(content: string, context: ModerationContext): Promise<void>;
+}
+
+export interface ModerationFinding {
+  rule: string;
+  action: ModerationAction;
+  reason: string;
+}
+
+export interface ModerationResult {
+  /** Most severe action taken */
+  action: ModerationAction;
+  /** Content to persist, with any masking applied */
+  content: string;
+  findings: ModerationFinding[];
+  /** Set when action is 'reject' */
+  rejection?: MessageRejectionReason;
+}
+
+/**
+ * Machine-readable cause of a rejected message, sent to the client with message_error
+ */
+export interface MessageRejectionReason {
+  code: 'moderation_rejected';
+  rule: string;
+  detail: string;
+}
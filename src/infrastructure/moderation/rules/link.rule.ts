@@ -0,0 +1,83 @@
+import { ModerationRule, RuleMatch, ModerationSpan } from '../moderation.types';
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+
+/**
+ * Checks every link's host against the deny list, then the allow list. With
+ * an empty allow list any host not denied is fine. Denied domains are also
+ * caught when written without a scheme, e.g. "example.com/offer".
+ */
+export class LinkRule implements ModerationRule {
+  readonly name = 'links';
+  private readonly allowed: string[];
+  private readonly denied: string[];
+  private readonly bareDeniedPattern: RegExp | null;
+
+  constructor(allowList: string[], denyList: string[]) {
+    this.allowed = this.normalizeDomains(allowList);
+    this.denied = this.normalizeDomains(denyList);
+
+    const escaped = this.denied.map(domain => domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.bareDeniedPattern = escaped.length > 0
+      ? new RegExp(`(?<![\\w.-])(?:[\\w-]+\\.)*(?:${escaped.join('|')})(?![\\w-])`, 'gi')
+      : null;
+  }
+
+  inspect(content: string): RuleMatch | null {
+    const spans: ModerationSpan[] = [];
+    const hosts = new Set<string>();
+
+    for (const match of content.matchAll(URL_PATTERN)) {
+      const host = this.hostOf(match[0]);
+      if (host && !this.isHostAllowed(host)) {
+        spans.push({ start: match.index!, end: match.index! + match[0].length });
+        hosts.add(host);
+      }
+    }
+
+    if (this.bareDeniedPattern) {
+      for (const match of content.matchAll(this.bareDeniedPattern)) {
+        const start = match.index!;
+        if (!spans.some(span => start >= span.start && start < span.end)) {
+          spans.push({ start, end: start + match[0].length });
+          hosts.add(match[0].toLowerCase());
+        }
+      }
+    }
+
+    if (spans.length === 0) {
+      return null;
+    }
+
+    return {
+      reason: `Links to ${[...hosts].join(', ')} are not allowed`,
+      spans: spans.sort((a, b) => a.start - b.start),
+    };
+  }
+
+  private isHostAllowed(host: string): boolean {
+    if (this.denied.some(domain => this.matchesDomain(host, domain))) {
+      return false;
+    }
+    return this.allowed.length === 0 || this.allowed.some(domain => this.matchesDomain(host, domain));
+  }
+
+  private matchesDomain(host: string, domain: string): boolean {
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+
+  private hostOf(link: string): string | null {
+    try {
+      const url = new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`);
+      return url.hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+
+  private normalizeDomains(domains: string[]): string[] {
+    return domains
+      .map(domain => domain.trim().toLowerCase().replace(/^www\./, ''))
+      .filter(Boolean);
+  }
+}
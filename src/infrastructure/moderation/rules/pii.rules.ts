@@ -0,0 +1,67 @@
+import { ModerationRule, RuleMatch, ModerationSpan } from '../moderation.types';
+
+function collectSpans(content: string, pattern: RegExp, accept: (text: string) => boolean): ModerationSpan[] {
+  const spans: ModerationSpan[] = [];
+  for (const match of content.matchAll(pattern)) {
+    if (accept(match[0])) {
+      spans.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return spans;
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+export class EmailAddressRule implements ModerationRule {
+  readonly name = 'pii_email';
+
+  inspect(content: string): RuleMatch | null {
+    const spans = collectSpans(content, /[\w.%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi, () => true);
+    return spans.length > 0 ? { reason: 'Message contains an email address', spans } : null;
+  }
+}
+
+/**
+ * Heuristic: 9 to 15 digits, optionally grouped with spaces, dots, dashes or
+ * brackets. Dates and short codes stay below the digit count.
+ */
+export class PhoneNumberRule implements ModerationRule {
+  readonly name = 'pii_phone';
+
+  inspect(content: string): RuleMatch | null {
+    const spans = collectSpans(content, /(?<![\w+])\+?\(?\d[\d\s().-]{7,20}\d(?!\w)/g, text => {
+      const digits = digitsOf(text).length;
+      return digits >= 9 && digits <= 15;
+    });
+    return spans.length > 0 ? { reason: 'Message contains a phone number', spans } : null;
+  }
+}
+
+/**
+ * 13 to 19 digit numbers that pass the Luhn check
+ */
+export class CardNumberRule implements ModerationRule {
+  readonly name = 'pii_card';
+
+  inspect(content: string): RuleMatch | null {
+    const spans = collectSpans(content, /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, text => this.passesLuhn(digitsOf(text)));
+    return spans.length > 0 ? { reason: 'Message contains a payment card number', spans } : null;
+  }
+
+  private passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) {
+          digit -= 9;
+        }
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+}
@@ -0,0 +1,31 @@
+import { ModerationRule, RuleMatch, ModerationSpan } from '../moderation.types';
+
+/**
+ * Whole-word, case-insensitive match against a configured word list
+ */
+export class ProfanityRule implements ModerationRule {
+  readonly name = 'profanity';
+  private readonly pattern: RegExp | null;
+
+  constructor(words: string[]) {
+    const escaped = words
+      .map(word => word.trim().toLowerCase())
+      .filter(Boolean)
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    this.pattern = escaped.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'giu') : null;
+  }
+
+  inspect(content: string): RuleMatch | null {
+    if (!this.pattern) {
+      return null;
+    }
+
+    const spans: ModerationSpan[] = [];
+    for (const match of content.matchAll(this.pattern)) {
+      spans.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+
+    return spans.length > 0 ? { reason: 'Message contains inappropriate language', spans } : null;
+  }
+}
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { Logger } from '@nestjs/common';
+import { ICacheService } from '@infrastructure/cache/cache.interface';
+import { CacheKeyStrategyService } from '@infrastructure/cache/cache-key-strategy.service';
+import { ModerationRule, RuleMatch, ModerationContext } from '../moderation.types';
+
+/**
+ * Flags a sender who sends the same text more than `limit` times within the
+ * window, across all conversations. Counts are kept in Redis per sender and
+ * text, so every instance sees the same history, and only messages that
+ * made it through moderation are counted.
+ */
+export class RepeatedMessageRule implements ModerationRule {
+  readonly name = 'repeat';
+  private readonly logger = new Logger(RepeatedMessageRule.name);
+  private readonly windowSeconds: number;
+
+  constructor(
+    private readonly cache: ICacheService,
+    private readonly keyStrategy: CacheKeyStrategyService,
+    private readonly limit: number,
+    windowMs: number,
+  ) {
+    this.windowSeconds = Math.max(1, Math.ceil(windowMs / 1000));
+  }
+
+  async inspect(content: string, context: ModerationContext): Promise<RuleMatch | null> {
+    let repeats: number;
+    try {
+      repeats = Number(await this.cache.get<number>(this.key(content, context))) || 0;
+    } catch (error) {
+      // Spam detection isn't worth blocking every message over
+      this.logger.warn(`Skipping the repeat check for user ${context.senderId}: ${error.message}`);
+      return null;
+    }
+
+    if (repeats < this.limit) {
+      return null;
+    }
+
+    return { reason: 'Message repeats one you just sent', spans: [] };
+  }
+
+  async record(content: string, context: ModerationContext): Promise<void> {
+    const key = this.key(content, context);
+    const count = await this.cache.increment(key);
+    // The window runs from the first of the repeats
+    if (count === 1) {
+      await this.cache.expire(key, this.windowSeconds);
+    }
+  }
+
+  private key(content: string, context: ModerationContext): string {
+    const hash = createHash('sha1').update(content.trim().toLowerCase().replace(/\s+/g, ' ')).digest('hex');
+    return this.keyStrategy.generateKey('moderation_repeat', context.senderId, hash);
+  }
+}
@@ -0,0 +1,114 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ProfileMockService } from '../profile-mock.service';
+import { KAHA_MAIN_V3_BATCH_PATH } from '../kaha-main-v3-profile.service';
+
+/**
+ * One scripted answer. Without a body the server answers from the mock
+ * profiles; a function body receives that answer and returns a drifted one.
+ */
+export interface FakeResponse {
+  status?: number;
+  body?: unknown | ((profiles: { users: unknown[]; businesses: unknown[] }) => unknown);
+  /** Sent verbatim instead of a JSON body */
+  raw?: string;
+  delayMs?: number;
+}
+
+export interface FakeKahaMainV3 {
+  url: string;
+  requests: Array<{ headers: IncomingMessage['headers']; body: any }>;
+  /** Queue one-off answers; once drained the server answers from the mock profiles */
+  enqueue(...responses: FakeResponse[]): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for the kaha-main-v3 batch profile API, serving the same
+ * sample profiles as ProfileMockService. Tests script failures and contract
+ * drift through enqueue(). It can also run on its own for local development:
+ *
+ *   FAKE_KAHA_MAIN_V3_PORT=3001 npx ts-node -r tsconfig-paths/register \
+ *     src/infrastructure/profile/__tests__/fake-kaha-main-v3.server.ts
+ */
+export async function startFakeKahaMainV3(
+  options: { port?: number; token?: string } = {},
+): Promise<FakeKahaMainV3> {
+  const profiles = new ProfileMockService();
+  const queue: FakeResponse[] = [];
+  const requests: FakeKahaMainV3['requests'] = [];
+
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', async () => {
+      let body: any = null;
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        body = null;
+      }
+      requests.push({ headers: req.headers, body });
+
+      if (req.method !== 'POST' || req.url !== KAHA_MAIN_V3_BATCH_PATH) {
+        res.statusCode = 404;
+        return res.end();
+      }
+      if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+        res.statusCode = 401;
+        return res.end();
+      }
+      if (!body) {
+        res.statusCode = 400;
+        return res.end();
+      }
+
+      const scripted = queue.shift() || {};
+      if (scripted.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, scripted.delayMs));
+      }
+      if (res.destroyed) {
+        return;
+      }
+
+      res.statusCode = scripted.status || 200;
+      res.setHeader('Content-Type', 'application/json');
+
+      if (scripted.raw !== undefined) {
+        return res.end(scripted.raw);
+      }
+
+      const answer = await profiles.getBatchProfiles({
+        user_ids: (body.user_ids || []).map(String),
+        business_ids: (body.business_ids || []).map(String),
+      });
+      const payload =
+        typeof scripted.body === 'function'
+          ? scripted.body(answer)
+          : scripted.body !== undefined
+            ? scripted.body
+            : answer;
+      res.end(JSON.stringify(payload));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    enqueue: (...responses) => queue.push(...responses),
+    close: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+if (require.main === module) {
+  startFakeKahaMainV3({
+    port: Number(process.env.FAKE_KAHA_MAIN_V3_PORT || 3001),
+    token: process.env.KAHA_MAIN_V3_SERVICE_TOKEN,
+  }).then(fake => console.log(`Fake kaha-main-v3 listening on ${fake.url}`));
+}
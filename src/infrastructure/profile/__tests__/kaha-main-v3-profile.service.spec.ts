@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import { CircuitBreakerService, CircuitBreakerState } from '@infrastructure/cache/circuit-breaker.service';
+import { KahaMainV3ProfileService, ProfileContractError } from '../kaha-main-v3-profile.service';
+import { FakeKahaMainV3, startFakeKahaMainV3 } from './fake-kaha-main-v3.server';
+
+describe('KahaMainV3ProfileService', () => {
+  let fake: FakeKahaMainV3;
+  let circuitBreaker: CircuitBreakerService;
+  let service: KahaMainV3ProfileService;
+
+  const token = 'service-token';
+  const userId = 'afc70db3-6f43-4882-92fd-4715f25ffc95';
+  const businessId = '650e8400-e29b-41d4-a716-446655440100';
+
+  const createService = (overrides: Record<string, unknown> = {}) => {
+    circuitBreaker = new CircuitBreakerService(
+      new ConfigService({ cache: { circuitBreaker: { failureThreshold: 2, recoveryTimeout: 60000 } } }),
+    );
+    return new KahaMainV3ProfileService(
+      new ConfigService({
+        KAHA_MAIN_V3_BASE_URL: fake.url,
+        KAHA_MAIN_V3_SERVICE_TOKEN: token,
+        KAHA_MAIN_V3_TIMEOUT: 500,
+        KAHA_MAIN_V3_RETRIES: 2,
+        KAHA_MAIN_V3_RETRY_DELAY_MS: 5,
+        KAHA_MAIN_V3_BATCH_SIZE: 100,
+        ...overrides,
+      }),
+      circuitBreaker,
+    );
+  };
+
+  beforeAll(async () => {
+    fake = await startFakeKahaMainV3({ token });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    fake.requests.length = 0;
+    service = createService();
+  });
+
+  it('should fetch users and businesses in one authenticated batch call', async () => {
+    const result = await service.getBatchProfiles({ user_ids: [userId, userId], business_ids: [businessId] });
+
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0].headers.authorization).toBe(`Bearer ${token}`);
+    expect(fake.requests[0].body).toEqual({ user_ids: [userId], business_ids: [businessId] });
+    expect(result.users.map(u => u.id)).toEqual([userId]);
+    expect(result.businesses[0]).toMatchObject({ id: businessId, user_type: 'business' });
+    expect(result.businesses[0].business_hours).toBeDefined();
+  });
+
+  it('should split large requests by the configured batch size', async () => {
+    service = createService({ KAHA_MAIN_V3_BATCH_SIZE: 2 });
+
+    await service.getBatchProfiles({ user_ids: ['a', 'b', 'c', 'd', 'e'] });
+
+    expect(fake.requests.map(r => r.body.user_ids)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('should retry server errors and then succeed', async () => {
+    fake.enqueue({ status: 503 }, { status: 502 });
+
+    const result = await service.getBatchProfiles({ user_ids: [userId] });
+
+    expect(fake.requests).toHaveLength(3);
+    expect(result.users).toHaveLength(1);
+  });
+
+  it('should not retry client errors', async () => {
+    service = createService({ KAHA_MAIN_V3_SERVICE_TOKEN: 'wrong-token' });
+
+    await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow('responded with 401');
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('should give up on a slow upstream after the timeout and retry', async () => {
+    service = createService({ KAHA_MAIN_V3_TIMEOUT: 50 });
+    fake.enqueue({ delayMs: 200 });
+
+    const result = await service.getBatchProfiles({ user_ids: [userId] });
+
+    expect(fake.requests).toHaveLength(2);
+    expect(result.users).toHaveLength(1);
+  });
+
+  describe('contract drift', () => {
+    it('should normalise numeric IDs and drop malformed entries', async () => {
+      fake.enqueue({
+        body: {
+          users: [{ id: 42, name: 'Numeric Id' }, { id: 43 }, { name: 'No Id' }, null],
+          businesses: [{ id: 7, name: 'Cafe', business_hours: { open: '9am', close: '5pm' } }],
+        },
+      });
+
+      const result = await service.getBatchProfiles({ user_ids: ['42', '43'], business_ids: ['7'] });
+
+      expect(result.users).toEqual([expect.objectContaining({ id: '42', name: 'Numeric Id', user_type: 'user' })]);
+      expect(result.businesses).toEqual([
+        expect.objectContaining({ id: '7', name: 'Cafe', business_hours: undefined }),
+      ]);
+    });
+
+    it('should reject a body that is not JSON without retrying', async () => {
+      fake.enqueue({ raw: '<html>Bad gateway</html>' });
+
+      await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow(ProfileContractError);
+      expect(fake.requests).toHaveLength(1);
+    });
+
+    it('should reject a response whose lists are not arrays', async () => {
+      fake.enqueue({ body: profiles => ({ ...profiles, users: { [userId]: profiles.users[0] } }) });
+
+      await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow(ProfileContractError);
+    });
+  });
+
+  it('should open the circuit after repeated failures and stop calling upstream', async () => {
+    service = createService({ KAHA_MAIN_V3_RETRIES: 0 });
+    fake.enqueue({ status: 500 }, { status: 500 });
+
+    await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow();
+    await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow();
+    await expect(service.getBatchProfiles({ user_ids: [userId] })).rejects.toThrow('Circuit breaker is OPEN');
+
+    expect(fake.requests).toHaveLength(2);
+    expect(service.getHealth()).toEqual({ status: 'degraded', circuit_breaker: CircuitBreakerState.OPEN });
+  });
+});
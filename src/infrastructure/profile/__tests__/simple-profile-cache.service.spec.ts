@@ -1,6 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SimpleProfileCacheService } from '../simple-profile-cache.service';
 import { ProfileMockService, UserProfile, BusinessProfile } from '../profile-mock.service';
+import { ConfigService } from '@nestjs/config';
+import { CircuitBreakerService } from '@infrastructure/cache/circuit-breaker.service';
+import { ProfileCacheService } from '@infrastructure/cache/profile-cache.service';
+import { KahaMainV3ProfileService } from '../kaha-main-v3-profile.service';
+import { FakeKahaMainV3, startFakeKahaMainV3 } from './fake-kaha-main-v3.server';
 
 describe('SimpleProfileCacheService', () => {
   let service: SimpleProfileCacheService;
@@ -176,4 +181,72 @@ describe('SimpleProfileCacheService', () => {
       expect((profile3 as any).modified).toBeUndefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('with kaha-main-v3 (http mode)', () => {
+    const cachedUserId = 'afc70db3-6f43-4882-92fd-4715f25ffc95';
+    const uncachedUserId = '650e8400-e29b-41d4-a716-446655440001';
+
+    let fake: FakeKahaMainV3;
+    let redisProfiles: Map<string, any>;
+    let profileCache: { getBatchProfiles: jest.Mock };
+    let httpService: SimpleProfileCacheService;
+
+    beforeAll(async () => {
+      fake = await startFakeKahaMainV3();
+    });
+
+    afterAll(async () => {
+      await fake.close();
+    });
+
+    beforeEach(() => {
+      redisProfiles = new Map([[cachedUserId, { id: cachedUserId, name: 'Cached User', is_online: false }]]);
+      // Read-through like ProfileCacheService: cached users are served, the rest go to the loader
+      profileCache = {
+        getBatchProfiles: jest.fn(async (userIds: string[], businessIds: string[], loader) => {
+          const loaded = await loader(userIds.filter(id => !redisProfiles.has(id)), businessIds);
+          const users = new Map(userIds.filter(id => redisProfiles.has(id)).map(id => [id, redisProfiles.get(id)]));
+          loaded.users.forEach((profile, id) => users.set(id, profile));
+          return { users, businesses: loaded.businesses };
+        }),
+      };
+
+      const upstream = new KahaMainV3ProfileService(
+        new ConfigService({ KAHA_MAIN_V3_BASE_URL: fake.url, KAHA_MAIN_V3_RETRIES: 0, KAHA_MAIN_V3_TIMEOUT: 500 }),
+        new CircuitBreakerService(new ConfigService({})),
+      );
+      httpService = new SimpleProfileCacheService(
+        new ProfileMockService(),
+        undefined,
+        upstream,
+        profileCache as unknown as ProfileCacheService,
+        new ConfigService({}),
+      );
+    });
+
+    it('should serve cached profiles and leave the rest out while kaha-main-v3 is failing', async () => {
+      fake.enqueue({ status: 500 });
+
+      const batch = await httpService.getBatchProfiles({ user_ids: [cachedUserId, uncachedUserId] });
+
+      expect(fake.requests.length).toBeGreaterThan(0);
+      expect(batch.users.map(u => u.id)).toEqual([cachedUserId]);
+    });
+
+    it('should report a profile it cannot load as missing rather than failing', async () => {
+      fake.enqueue({ status: 503 });
+
+      await expect(httpService.getUserProfile(uncachedUserId)).resolves.toBeNull();
+    });
+
+    it('should return no profiles when the profile cache itself fails', async () => {
+      profileCache.getBatchProfiles.mockRejectedValue(new Error('Redis connection lost'));
+
+      await expect(httpService.getBatchProfiles({ user_ids: [cachedUserId], business_ids: ['1'] })).resolves.toEqual({
+        users: [],
+        businesses: [],
+      });
+      await expect(httpService.getBusinessProfile('1')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IProfileService,
+  BatchProfileRequest,
+  BatchProfileResponse,
+} from '@domain/services/profile.service.interface';
+import { UserProfile as DomainUserProfile } from '@domain/value-objects/user-profile.vo';
+import { CircuitBreakerService, CircuitBreakerState } from '@infrastructure/cache/circuit-breaker.service';
+import { ProfileAdapter } from './profile.adapter';
+
+export const KAHA_MAIN_V3_BATCH_PATH = '/api/batch/profiles';
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+type UpstreamUser = BatchProfileResponse['users'][number];
+type UpstreamBusiness = BatchProfileResponse['businesses'][number];
+
+/**
+ * kaha-main-v3 answered with something other than the documented batch shape
+ */
+export class ProfileContractError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileContractError';
+  }
+}
+
+class UpstreamStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`kaha-main-v3 responded with ${status}`);
+    this.name = 'UpstreamStatusError';
+  }
+}
+
+/**
+ * Profile lookups against the kaha-main-v3 batch API. Transient failures are
+ * retried with backoff; the circuit breaker stops calling an upstream that
+ * keeps failing so callers fall back to cached profiles straight away.
+ */
+@Injectable()
+export class KahaMainV3ProfileService implements IProfileService {
+  private readonly logger = new Logger(KahaMainV3ProfileService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly circuitBreaker: CircuitBreakerService,
+  ) {}
+
+  async getUserProfile(userId: string): Promise<DomainUserProfile | null> {
+    const { users } = await this.getBatchProfiles({ user_ids: [userId] });
+    return users[0] ? ProfileAdapter.toDomain(users[0]) : null;
+  }
+
+  async userExists(userId: string): Promise<boolean> {
+    const { users } = await this.getBatchProfiles({ user_ids: [userId] });
+    return users.length > 0;
+  }
+
+  /**
+   * Profiles the upstream knows about; unknown IDs are simply absent. Large
+   * requests are split into several calls.
+   */
+  async getBatchProfiles(request: BatchProfileRequest): Promise<BatchProfileResponse> {
+    const userIds = [...new Set(request.user_ids ?? [])];
+    const businessIds = [...new Set(request.business_ids ?? [])];
+    const batchSize = this.configService.get<number>('KAHA_MAIN_V3_BATCH_SIZE', 100);
+    const result: BatchProfileResponse = { users: [], businesses: [] };
+
+    for (let offset = 0; offset < Math.max(userIds.length, businessIds.length); offset += batchSize) {
+      const page = await this.circuitBreaker.execute(() =>
+        this.fetchWithRetry({
+          user_ids: userIds.slice(offset, offset + batchSize),
+          business_ids: businessIds.slice(offset, offset + batchSize),
+        }),
+      );
+      result.users.push(...page.users);
+      result.businesses.push(...page.businesses);
+    }
+
+    return result;
+  }
+
+  getHealth(): { status: 'healthy' | 'degraded'; circuit_breaker: CircuitBreakerState } {
+    const state = this.circuitBreaker.getState();
+    return {
+      status: state === CircuitBreakerState.CLOSED ? 'healthy' : 'degraded',
+      circuit_breaker: state,
+    };
+  }
+
+  private async fetchWithRetry(body: BatchProfileRequest): Promise<BatchProfileResponse> {
+    const retries = this.configService.get<number>('KAHA_MAIN_V3_RETRIES', 2);
+    const baseDelay = this.configService.get<number>('KAHA_MAIN_V3_RETRY_DELAY_MS', 200);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchBatch(body);
+      } catch (error) {
+        if (attempt >= retries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = baseDelay * 2 ** attempt;
+        this.logger.warn(
+          `kaha-main-v3 batch request failed (attempt ${attempt + 1}), retrying in ${delay}ms: ${error.message}`,
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async fetchBatch(body: BatchProfileRequest): Promise<BatchProfileResponse> {
+    const baseUrl = this.configService.get<string>('KAHA_MAIN_V3_BASE_URL').replace(/\/+$/, '');
+
+    const response = await fetch(`${baseUrl}${KAHA_MAIN_V3_BATCH_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `Bearer ${this.configService.get<string>('KAHA_MAIN_V3_SERVICE_TOKEN')}`,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.configService.get<number>('KAHA_MAIN_V3_TIMEOUT', 5000)),
+    });
+
+    if (!response.ok) {
+      throw new UpstreamStatusError(response.status);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await response.json();
+    } catch {
+      throw new ProfileContractError('kaha-main-v3 returned a batch response that is not JSON');
+    }
+
+    return this.parseBatch(payload);
+  }
+
+  /**
+   * Network errors, timeouts, 5xx and 429 are worth another try; a 4xx or a
+   * response we can't read won't get better by asking again
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof ProfileContractError) {
+      return false;
+    }
+    if (error instanceof UpstreamStatusError) {
+      return error.status >= 500 || error.status === 429;
+    }
+    return true;
+  }
+
+  /**
+   * Check the response against the documented contract. Entries missing an ID
+   * or name are dropped with a warning rather than failing the whole batch.
+   */
+  private parseBatch(payload: unknown): BatchProfileResponse {
+    if (!payload || typeof payload !== 'object') {
+      throw new ProfileContractError('kaha-main-v3 batch response is not an object');
+    }
+
+    const { users = [], businesses = [] } = payload as { users?: unknown; businesses?: unknown };
+    if (!Array.isArray(users) || !Array.isArray(businesses)) {
+      throw new ProfileContractError('kaha-main-v3 batch response has users or businesses that are not arrays');
+    }
+
+    const parsedUsers = users
+      .map(entry => this.parseUser(entry))
+      .filter((user): user is UpstreamUser => user !== null);
+    const parsedBusinesses = businesses
+      .map(entry => this.parseBusiness(entry))
+      .filter((business): business is UpstreamBusiness => business !== null);
+
+    const dropped = users.length - parsedUsers.length + businesses.length - parsedBusinesses.length;
+    if (dropped > 0) {
+      this.logger.warn(`Dropped ${dropped} malformed profiles from a kaha-main-v3 batch response`);
+    }
+
+    return { users: parsedUsers, businesses: parsedBusinesses };
+  }
+
+  private parseUser(entry: any): UpstreamUser | null {
+    const base = this.parseIdentity(entry);
+    if (!base) {
+      return null;
+    }
+
+    return {
+      ...base,
+      user_type: 'user',
+      is_online: typeof entry.is_online === 'boolean' ? entry.is_online : undefined,
+    };
+  }
+
+  private parseBusiness(entry: any): UpstreamBusiness | null {
+    const base = this.parseIdentity(entry);
+    if (!base) {
+      return null;
+    }
+
+    const hours = entry.business_hours;
+    const validHours =
+      hours &&
+      TIME_PATTERN.test(hours.open) &&
+      TIME_PATTERN.test(hours.close) &&
+      typeof hours.timezone === 'string';
+    if (hours && !validHours) {
+      this.logger.warn(`Ignoring malformed business_hours for business ${base.id}`);
+    }
+
+    return {
+      ...base,
+      user_type: 'business',
+      is_online: entry.is_online === true,
+      business_hours: validHours
+        ? { open: hours.open, close: hours.close, timezone: hours.timezone }
+        : undefined,
+    };
+  }
+
+  private parseIdentity(entry: any): { id: string; name: string; avatar_url?: string } | null {
+    const validId = (typeof entry?.id === 'string' && entry.id.length > 0) || Number.isInteger(entry?.id);
+    if (!validId || typeof entry.name !== 'string' || entry.name.trim().length === 0) {
+      return null;
+    }
+
+    return {
+      // Upstream IDs have been numeric; chat keys everything by string
+      id: String(entry.id),
+      name: entry.name,
+      avatar_url: typeof entry.avatar_url === 'string' ? entry.avatar_url : undefined,
+    };
+  }
+}
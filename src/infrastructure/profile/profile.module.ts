@@ -1,16 +1,28 @@
 import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ProfileMockService } from './profile-mock.service';
 import { SimpleProfileCacheService } from './simple-profile-cache.service';
+import { KahaMainV3ProfileService } from './kaha-main-v3-profile.service';
 
 @Global()
 @Module({
   providers: [
     ProfileMockService,
+    KahaMainV3ProfileService,
+    {
+      // The upstream profile service, or null while running on mock profiles
+      provide: 'IProfileService',
+      inject: [ConfigService, KahaMainV3ProfileService],
+      useFactory: (configService: ConfigService, client: KahaMainV3ProfileService) =>
+        configService.get<string>('PROFILE_SERVICE_MODE', 'mock') === 'http' ? client : null,
+    },
     SimpleProfileCacheService,
   ],
   exports: [
     ProfileMockService,
+    KahaMainV3ProfileService,
+    'IProfileService',
     SimpleProfileCacheService,
   ],
 })
-export class ProfileModule {}
\ No newline at end of file
+export class ProfileModule {}
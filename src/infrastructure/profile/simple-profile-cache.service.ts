@@ -1,5 +1,9 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ProfileMockService, UserProfile, BusinessProfile, Profile } from './profile-mock.service';
+import { IProfileService } from '@domain/services/profile.service.interface';
+import { PresenceService } from '@infrastructure/cache/presence.service';
+import { ProfileCacheService, BatchProfileResult } from '@infrastructure/cache/profile-cache.service';
 
 interface CacheEntry<T> {
   data: T;
@@ -7,18 +11,34 @@ interface CacheEntry<T> {
   ttl: number; // Time to live in milliseconds
 }
 
+/**
+ * Profile lookups for the rest of the app. With PROFILE_SERVICE_MODE=http,
+ * profiles come from kaha-main-v3 through the shared Redis profile cache;
+ * otherwise from the in-process mock profiles.
+ */
 @Injectable()
 export class SimpleProfileCacheService {
   private readonly logger = new Logger(SimpleProfileCacheService.name);
   private readonly cache = new Map<string, CacheEntry<Profile>>();
   private readonly defaultTtl = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
-  constructor(private readonly profileMockService: ProfileMockService) {}
+  constructor(
+    private readonly profileMockService: ProfileMockService,
+    @Optional() private readonly presenceService?: PresenceService,
+    @Optional() @Inject('IProfileService') private readonly upstream?: IProfileService | null,
+    @Optional() private readonly profileCache?: ProfileCacheService,
+    @Optional() private readonly configService?: ConfigService,
+  ) {}
 
   /**
    * Get user profile with caching
    */
   async getUserProfile(userId: string): Promise<UserProfile | null> {
+    if (this.usesUpstream()) {
+      const { users } = await this.loadFromUpstream([userId], []);
+      return users[0] || null;
+    }
+
     const cacheKey = `user:${userId}`;
     
     // Check cache first
@@ -43,6 +63,11 @@ export class SimpleProfileCacheService {
    * Get business profile with caching
    */
   async getBusinessProfile(businessId: string): Promise<BusinessProfile | null> {
+    if (this.usesUpstream()) {
+      const { businesses } = await this.loadFromUpstream([], [businessId]);
+      return businesses[0] || null;
+    }
+
     const cacheKey = `business:${businessId}`;
     
     // Check cache first
@@ -67,6 +92,10 @@ export class SimpleProfileCacheService {
    * Get multiple user profiles with caching
    */
   async getUserProfiles(userIds: string[]): Promise<UserProfile[]> {
+    if (this.usesUpstream()) {
+      return (await this.loadFromUpstream(userIds, [])).users;
+    }
+
     const profiles: UserProfile[] = [];
     const uncachedIds: string[] = [];
 
@@ -88,6 +117,10 @@ export class SimpleProfileCacheService {
    * Get multiple business profiles with caching
    */
   async getBusinessProfiles(businessIds: string[]): Promise<BusinessProfile[]> {
+    if (this.usesUpstream()) {
+      return (await this.loadFromUpstream([], businessIds)).businesses;
+    }
+
     const profiles: BusinessProfile[] = [];
     const uncachedIds: string[] = [];
 
@@ -117,15 +150,129 @@ export class SimpleProfileCacheService {
   }> {
     const { user_ids = [], business_ids = [] } = request;
 
-    const users = await this.getUserProfiles(user_ids);
-    const businesses = await this.getBusinessProfiles(business_ids);
+    const { users, businesses } = this.usesUpstream()
+      ? await this.loadFromUpstream(user_ids, business_ids)
+      : {
+          users: await this.getUserProfiles(user_ids),
+          businesses: await this.getBusinessProfiles(business_ids),
+        };
 
     this.logger.log(`Batch profile request: ${users.length} users, ${businesses.length} businesses`);
 
-    return {
+    return this.withPresence({
       users,
       businesses,
-    };
+    });
+  }
+
+  private usesUpstream(): boolean {
+    return !!this.upstream && !!this.profileCache;
+  }
+
+  /**
+   * Read through the Redis profile cache, calling kaha-main-v3 only for
+   * profiles that aren't cached. Stale entries are served while they refresh
+   * in the background, so an upstream outage only hides profiles that were
+   * never cached. Lookups never fail: when kaha-main-v3 or Redis is down the
+   * profiles that can't be loaded are left out and the error is logged.
+   */
+  private async loadFromUpstream(
+    userIds: string[],
+    businessIds: string[],
+  ): Promise<{ users: UserProfile[]; businesses: BusinessProfile[] }> {
+    const ttl = this.configService?.get<number>('PROFILE_CACHE_TTL_SECONDS', 86400) ?? 86400;
+    const fresh = this.configService?.get<number>('PROFILE_CACHE_FRESH_SECONDS', 300) ?? 300;
+
+    let result: BatchProfileResult;
+    try {
+      result = await this.profileCache.getBatchProfiles(
+        userIds,
+        businessIds,
+        async (missingUserIds, missingBusinessIds) => {
+          try {
+            const response = await this.upstream.getBatchProfiles({
+              user_ids: missingUserIds.map(String),
+              business_ids: missingBusinessIds.map(String),
+            });
+            return {
+              users: new Map(response.users.map(u => [u.id, u])),
+              businesses: new Map(response.businesses.map(b => [b.id, b])),
+            };
+          } catch (error) {
+            this.logger.warn(
+              `kaha-main-v3 profile lookup failed; ${missingUserIds.length} users and ` +
+                `${missingBusinessIds.length} businesses left without a profile: ${error.message}`,
+            );
+            return { users: new Map(), businesses: new Map() };
+          }
+        },
+        { ttl, staleMarkerTtl: Math.max(ttl - fresh, 0) },
+      );
+    } catch (error) {
+      this.logger.error(`Profile cache lookup failed; serving no profiles: ${error.message}`);
+      return { users: [], businesses: [] };
+    }
+
+    const users: UserProfile[] = [];
+    for (const id of userIds) {
+      const profile = result.users.get(id);
+      if (profile) {
+        users.push({
+          id: String(profile.id),
+          name: profile.name,
+          avatar_url: profile.avatar_url,
+          user_type: 'user',
+          is_online: profile.is_online,
+        });
+      }
+    }
+
+    const businesses: BusinessProfile[] = [];
+    for (const id of businessIds) {
+      const profile = result.businesses.get(id);
+      if (profile) {
+        businesses.push({
+          id: String(profile.id),
+          name: profile.name,
+          avatar_url: profile.avatar_url,
+          user_type: 'business',
+          is_online: profile.is_online ?? false,
+          business_hours: profile.business_hours,
+        });
+      }
+    }
+
+    return { users, businesses };
+  }
+
+  /**
+   * Replace profile-provided online flags with live presence.
+   * Cached profiles are copied so the overlay never leaks into the cache.
+   */
+  private async withPresence(batch: {
+    users: UserProfile[];
+    businesses: BusinessProfile[];
+  }): Promise<{ users: UserProfile[]; businesses: BusinessProfile[] }> {
+    if (!this.presenceService) {
+      return batch;
+    }
+
+    try {
+      const presence = await this.presenceService.getBatchPresence([
+        ...batch.users.map(u => u.id),
+        ...batch.businesses.map(b => b.id),
+      ]);
+      // Away users are still connected, so they count as online here
+      const isOnline = (id: string) => (presence[id]?.status ?? 'offline') !== 'offline';
+
+      return {
+        users: batch.users.map(u => ({ ...u, is_online: isOnline(u.id) })),
+        businesses: batch.businesses.map(b => ({ ...b, is_online: isOnline(b.id) })),
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to load presence for batch profiles: ${error.message}`);
+      return batch;
+    }
   }
 
   /**
@@ -134,6 +281,9 @@ export class SimpleProfileCacheService {
   invalidateUserProfile(userId: string): void {
     const cacheKey = `user:${userId}`;
     this.cache.delete(cacheKey);
+    if (this.usesUpstream()) {
+      this.profileCache.invalidateUserProfile(userId);
+    }
     this.logger.debug(`Invalidated cache for user ${userId}`);
   }
 
@@ -143,6 +293,9 @@ export class SimpleProfileCacheService {
   invalidateBusinessProfile(businessId: string): void {
     const cacheKey = `business:${businessId}`;
     this.cache.delete(cacheKey);
+    if (this.usesUpstream()) {
+      this.profileCache.invalidateBusinessProfile(businessId);
+    }
     this.logger.debug(`Invalidated cache for business ${businessId}`);
   }
 
@@ -0,0 +1,31 @@
+import { Repository } from 'typeorm';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { AttachmentRepository } from '../attachment.repository';
+
+describe('AttachmentRepository.deleteUnlinkedBefore', () => {
+  let query: jest.Mock;
+  let repository: AttachmentRepository;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([[{ storage_key: 'c1/a' }, { storage_key: 'c1/b' }], 2]);
+    repository = new AttachmentRepository(
+      { query } as unknown as Repository<Attachment>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('deletes a batch of old unlinked uploads and returns their storage keys', async () => {
+    const cutoff = new Date('2024-05-01T00:00:00Z');
+
+    expect(await repository.deleteUnlinkedBefore(cutoff, 100)).toEqual(['c1/a', 'c1/b']);
+
+    const [sql, params] = query.mock.calls[0];
+    const statement = sql.replace(/\s+/g, ' ');
+    expect(statement).toContain('WHERE message_id IS NULL AND created_at < $1');
+    expect(statement).toContain('LIMIT $2 FOR UPDATE SKIP LOCKED');
+    // Re-checked outside the subquery so an upload linked meanwhile survives
+    expect(statement).toMatch(/\) AND message_id IS NULL RETURNING storage_key$/);
+    expect(params).toEqual([cutoff, 100]);
+  });
+});
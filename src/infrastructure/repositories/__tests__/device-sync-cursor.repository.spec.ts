@@ -0,0 +1,39 @@
+import { Repository } from 'typeorm';
+import { DeviceSyncCursor } from '@domain/entities/device-sync-cursor.entity';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { DeviceSyncCursorRepository } from '../device-sync-cursor.repository';
+
+describe('DeviceSyncCursorRepository.advanceContiguous', () => {
+  let query: jest.Mock;
+  let repository: DeviceSyncCursorRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new DeviceSyncCursorRepository(
+      { query } as unknown as Repository<DeviceSyncCursor>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('moves past sequence numbers whose messages no longer exist', async () => {
+    query.mockResolvedValue([[{ device_id: 'phone' }], 1]);
+
+    expect(await repository.advanceContiguous('alice', 'phone', 'c1', 7)).toBe(true);
+
+    const [sql, params] = query.mock.calls[0];
+    const normalized = sql.replace(/\s+/g, ' ');
+    expect(normalized).toContain('COALESCE((positions ->> $3::text)::bigint, 0) < $4::bigint');
+    expect(normalized).toContain(
+      'NOT EXISTS ( SELECT 1 FROM messages m WHERE m.conversation_id = $3::text::uuid ' +
+        'AND m.seq > COALESCE((device_sync_cursors.positions ->> $3::text)::bigint, 0) ' +
+        'AND m.seq < $4::bigint AND m.deleted_at IS NULL )',
+    );
+    expect(params).toEqual(['alice', 'phone', 'c1', 7]);
+  });
+
+  it('reports that the position held when a deliverable message is still missing', async () => {
+    query.mockResolvedValue([[], 0]);
+
+    expect(await repository.advanceContiguous('alice', 'phone', 'c1', 7)).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { HttpStatus } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { Conversation } from '@domain/entities/conversation.entity';
+import { Participant } from '@domain/entities/participant.entity';
+import { User } from '@domain/entities/user.entity';
+import { ConversationType } from '@domain/value-objects/conversation-type.vo';
+import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
+import { AlreadyParticipantError, ParticipantLimitReachedError } from '@infrastructure/common/errors/conversation.errors';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { EnhancedConversationRepository } from '../enhanced-conversation.repository';
+
+describe('EnhancedConversationRepository.addParticipantToConversation', () => {
+  let members: string[];
+  let statements: string[];
+  let repository: EnhancedConversationRepository;
+
+  /**
+   * Query runners over a shared member list. The conversation row lock is
+   * held from the FOR UPDATE until commit or rollback, as in PostgreSQL.
+   */
+  const createDataSource = () => {
+    let lockQueue: Promise<void> = Promise.resolve();
+
+    return {
+      createQueryRunner: () => {
+        let releaseLock: (() => void) | undefined;
+        let pending: string[] = [];
+        const unlock = () => {
+          releaseLock?.();
+          releaseLock = undefined;
+        };
+
+        return {
+          connect: jest.fn(),
+          release: jest.fn(),
+          startTransaction: jest.fn(),
+          commitTransaction: jest.fn(async () => {
+            members.push(...pending);
+            unlock();
+          }),
+          rollbackTransaction: jest.fn(async () => {
+            pending = [];
+            unlock();
+          }),
+          manager: {
+            query: jest.fn(async (sql: string) => {
+              statements.push(sql);
+              const previous = lockQueue;
+              lockQueue = new Promise(resolve => (releaseLock = resolve));
+              await previous;
+              return [{ id: 'conversation-1' }];
+            }),
+            findOne: jest.fn(async (entity: unknown) => {
+              if (entity === User) {
+                return { userId: 'new-member' };
+              }
+              statements.push('load conversation');
+              const conversation = Object.assign(new Conversation(), {
+                id: 'conversation-1',
+                type: ConversationType.GROUP,
+                participants: members.map(userId => Object.assign(new Participant(), { userId })),
+              });
+              // Let any other transaction read the same members before this one writes
+              await new Promise(resolve => setImmediate(resolve));
+              return conversation;
+            }),
+            save: jest.fn(async (entity: unknown, value: Participant) => {
+              if (entity === Participant) {
+                pending.push(value.userId);
+              }
+            }),
+            getRepository: jest.fn(() => ({ save: jest.fn() })),
+          },
+        };
+      },
+    };
+  };
+
+  beforeEach(() => {
+    members = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank'];
+    statements = [];
+    repository = new EnhancedConversationRepository(
+      {} as any,
+      {} as any,
+      {} as any,
+      createDataSource() as unknown as DataSource,
+      { log: jest.fn(), audit: jest.fn(), debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('locks the conversation row before reading its members', async () => {
+    await repository.addParticipantToConversation('conversation-1', 'grace', ParticipantRole.MEMBER, 'alice');
+
+    expect(statements).toEqual(['SELECT id FROM conversations WHERE id = $1 FOR UPDATE', 'load conversation']);
+    expect(members).toContain('grace');
+  });
+
+  it('lets only one of two concurrent adds take the last seat', async () => {
+    members.push('gina');
+
+    const results = await Promise.allSettled([
+      repository.addParticipantToConversation('conversation-1', 'hank', ParticipantRole.MEMBER, 'alice'),
+      repository.addParticipantToConversation('conversation-1', 'ivan', ParticipantRole.MEMBER, 'bob'),
+    ]);
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ParticipantLimitReachedError);
+    expect(members).toHaveLength(8);
+  });
+
+  it('reports a full group as a conflict', async () => {
+    members.push('gina', 'hank');
+
+    const error = await repository
+      .addParticipantToConversation('conversation-1', 'ivan', ParticipantRole.MEMBER, 'alice')
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ParticipantLimitReachedError);
+    expect(error.getStatus()).toBe(HttpStatus.CONFLICT);
+    expect(error.message).toBe('Group conversations cannot have more than 8 participants');
+  });
+
+  it('reports an existing member as a bad request', async () => {
+    const error = await repository
+      .addParticipantToConversation('conversation-1', 'bob', ParticipantRole.MEMBER, 'alice')
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AlreadyParticipantError);
+    expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+    expect(members.filter(m => m === 'bob')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { Repository } from 'typeorm';
+import { Message } from '@domain/entities/message.entity';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { EnhancedMessageRepository, RetentionPolicySettings } from '../enhanced-message.repository';
+
+describe('EnhancedMessageRepository retention', () => {
+  let query: jest.Mock;
+  let repository: EnhancedMessageRepository;
+
+  const policy: RetentionPolicySettings = {
+    defaultDays: 90,
+    daysByType: { direct: 30, group: null },
+  };
+
+  const lastSql = (): string => query.mock.calls[query.mock.calls.length - 1][0].replace(/\s+/g, ' ');
+  const lastParams = (): unknown[] => query.mock.calls[query.mock.calls.length - 1][1];
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new EnhancedMessageRepository(
+      { query } as unknown as Repository<Message>,
+      { log: jest.fn(), debug: jest.fn(), error: jest.fn(), audit: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  describe('policy resolution', () => {
+    it('binds per-type days as $1-$3 and the default as $4, with unset levels as null', async () => {
+      query.mockResolvedValue([[], 0]);
+
+      await repository.expireMessages(policy, 500);
+
+      expect(lastParams()).toEqual([30, null, null, 90, 500]);
+    });
+
+    it('prefers the conversation setting, then the type, then the default', async () => {
+      query.mockResolvedValue([[], 0]);
+
+      await repository.expireMessages(policy, 500);
+
+      const sql = lastSql();
+      const coalesce = sql.slice(sql.indexOf('COALESCE('), sql.indexOf('AS retention_days'));
+      const conversationLevel = coalesce.indexOf("'autoDeleteDays'");
+      const typeLevel = coalesce.indexOf("CASE c.type WHEN 'direct' THEN $1::int WHEN 'group' THEN $2::int WHEN 'business' THEN $3::int END");
+      const defaultLevel = coalesce.lastIndexOf('$4::int');
+
+      expect(conversationLevel).toBeGreaterThan(-1);
+      expect(typeLevel).toBeGreaterThan(conversationLevel);
+      expect(defaultLevel).toBeGreaterThan(typeLevel);
+      // Only an explicit opt-in counts as a conversation-level policy
+      expect(coalesce).toContain("(c.metadata -> 'settings' ->> 'autoDeleteMessages') = 'true'");
+    });
+
+    it('skips conversations whose policy keeps messages forever', async () => {
+      query.mockResolvedValue([[], 0]);
+
+      await repository.expireMessages(policy, 500);
+
+      expect(lastSql()).toContain('AND p.retention_days IS NOT NULL');
+    });
+  });
+
+  describe('expireMessages', () => {
+    it('locks one bounded batch with SKIP LOCKED so concurrent runs take different rows', async () => {
+      query.mockResolvedValue([[{ id: 'message-1', conversation_id: 'conversation-1' }], 1]);
+
+      const expired = await repository.expireMessages(policy, 500);
+
+      const sql = lastSql();
+      expect(sql).toContain('LIMIT $5');
+      expect(sql).toContain('FOR UPDATE OF m SKIP LOCKED');
+      expect(sql).toContain('UPDATE messages SET deleted_at = NOW() WHERE id IN (SELECT id FROM due)');
+      expect(expired).toEqual([{ id: 'message-1', conversationId: 'conversation-1' }]);
+    });
+  });
+
+  describe('purgeDeletedMessages', () => {
+    it('deletes a SKIP LOCKED batch together with its attachment records', async () => {
+      query.mockResolvedValue([{ purged: 2, storage_keys: ['a/1.png', 'b/2.pdf'] }]);
+
+      const result = await repository.purgeDeletedMessages(7, 250);
+
+      const sql = lastSql();
+      expect(lastParams()).toEqual([7, 250]);
+      expect(sql).toContain('LIMIT $2 FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain('DELETE FROM attachments WHERE message_id IN (SELECT id FROM due) RETURNING storage_key');
+      expect(sql).toContain('DELETE FROM messages WHERE id IN (SELECT id FROM due)');
+      expect(result).toEqual({ purged: 2, storageKeys: ['a/1.png', 'b/2.pdf'] });
+    });
+  });
+});
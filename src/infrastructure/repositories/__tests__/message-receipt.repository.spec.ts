@@ -0,0 +1,47 @@
+import { Repository } from 'typeorm';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { ReceiptStatus } from '@domain/value-objects/receipt-status.vo';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { MessageReceiptRepository } from '../message-receipt.repository';
+
+describe('MessageReceiptRepository.markDelivered', () => {
+  let query: jest.Mock;
+  let repository: MessageReceiptRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new MessageReceiptRepository(
+      { query } as unknown as Repository<MessageReceipt>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('moves sent receipts to delivered in one statement and returns only the rows it changed', async () => {
+    const deliveredAt = new Date('2024-05-01T10:00:00Z');
+    query.mockResolvedValue([[{ message_id: 'm2', user_id: 'bob', conversation_id: 'c1', delivered_at: deliveredAt }], 1]);
+
+    const updated = await repository.markDelivered(['m1', 'm2'], 'bob');
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql.replace(/\s+/g, ' ')).toContain(
+      'WHERE message_id = ANY($1::uuid[]) AND user_id = $2 AND status = $4 RETURNING message_id',
+    );
+    expect(params).toEqual([['m1', 'm2'], 'bob', 'delivered', 'sent']);
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toEqual(
+      expect.objectContaining({ messageId: 'm2', userId: 'bob', conversationId: 'c1', deliveredAt }),
+    );
+    expect(updated[0].status).toBe(ReceiptStatus.DELIVERED);
+  });
+
+  it('returns nothing when another ack got there first', async () => {
+    query.mockResolvedValue([[], 0]);
+
+    expect(await repository.markDelivered(['m1'], 'bob')).toEqual([]);
+  });
+
+  it('skips the database for an empty batch', async () => {
+    expect(await repository.markDelivered([], 'bob')).toEqual([]);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
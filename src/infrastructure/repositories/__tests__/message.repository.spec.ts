@@ -0,0 +1,187 @@
+import { Repository } from 'typeorm';
+import { Message } from '@domain/entities/message.entity';
+import { SearchCursor } from '@domain/value-objects/search-cursor.vo';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { MessageRepository } from '../message.repository';
+
+describe('MessageRepository.hardDeleteExpired', () => {
+  let query: jest.Mock;
+  let transaction: jest.Mock;
+  let repository: MessageRepository;
+
+  const statements = (): string[] => query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+
+  beforeEach(() => {
+    query = jest.fn(async (sql: string) => {
+      if (sql.includes('DELETE FROM attachments')) {
+        return [[{ storage_key: 'c1/photo.jpg' }], 1];
+      }
+      if (sql.includes('DELETE FROM messages')) {
+        return [[{ id: 'm1' }, { id: 'm2' }], 2];
+      }
+      return [[], 0];
+    });
+    transaction = jest.fn(async (work: (manager: { query: jest.Mock }) => Promise<unknown>) => work({ query }));
+    repository = new MessageRepository(
+      { manager: { transaction } } as unknown as Repository<Message>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('rewinds read pointers and previews, then deletes attachments and messages in one transaction', async () => {
+    const result = await repository.hardDeleteExpired(['m1', 'm2']);
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    const [rewindReads, rewindPreviews, deleteAttachments, deleteMessages] = statements();
+    expect(rewindReads).toMatch(/^UPDATE participants p SET last_read_message_id = /);
+    expect(rewindPreviews).toMatch(/^UPDATE conversations c SET last_message_id = /);
+    expect(deleteAttachments).toBe('DELETE FROM attachments WHERE message_id = ANY($1::uuid[]) RETURNING storage_key');
+    expect(deleteMessages).toBe('DELETE FROM messages WHERE id = ANY($1::uuid[]) RETURNING id');
+    for (const [, params] of query.mock.calls) {
+      expect(params).toEqual([['m1', 'm2']]);
+    }
+    expect(result).toEqual({ deletedIds: ['m1', 'm2'], storageKeys: ['c1/photo.jpg'] });
+  });
+
+  it('only moves pointers that reference a deleted message, back to the newest survivor before it', async () => {
+    await repository.hardDeleteExpired(['m1']);
+
+    const [rewindReads, rewindPreviews] = statements();
+    for (const rewind of [rewindReads, rewindPreviews]) {
+      expect(rewind).toContain('FROM messages gone');
+      expect(rewind).toContain('gone.id = ANY($1::uuid[])');
+      // The survivor sits in the same conversation, no later than the gone message, outside the batch
+      expect(rewind).toContain('prev.conversation_id = gone.conversation_id');
+      expect(rewind).toContain('prev.sent_at <= gone.sent_at');
+      expect(rewind).toContain('prev.id <> ALL($1::uuid[])');
+      expect(rewind).toContain('ORDER BY prev.sent_at DESC LIMIT 1');
+    }
+    expect(rewindReads).toContain('WHERE gone.id = p.last_read_message_id');
+    expect(rewindPreviews).toContain('WHERE gone.id = c.last_message_id');
+  });
+
+  it('skips the database for an empty batch', async () => {
+    expect(await repository.hardDeleteExpired([])).toEqual({ deletedIds: [], storageKeys: [] });
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('MessageRepository.findThreadReplies', () => {
+  let builder: Record<string, jest.Mock>;
+  let findOne: jest.Mock;
+  let repository: MessageRepository;
+
+  beforeEach(() => {
+    builder = {};
+    for (const method of ['where', 'andWhere', 'orderBy', 'addOrderBy', 'take']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    builder.getMany = jest.fn().mockResolvedValue([]);
+    findOne = jest.fn();
+    repository = new MessageRepository(
+      { createQueryBuilder: jest.fn(() => builder), findOne } as unknown as Repository<Message>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it('orders replies by send time with the ID breaking ties', async () => {
+    await repository.findThreadReplies('parent-1', 25);
+
+    expect(builder.orderBy).toHaveBeenCalledWith('message.sentAt', 'ASC');
+    expect(builder.addOrderBy).toHaveBeenCalledWith('message.id', 'ASC');
+    expect(builder.take).toHaveBeenCalledWith(25);
+  });
+
+  it('continues after the cursor reply on the (sent_at, id) key', async () => {
+    const sentAt = new Date('2024-05-01T10:00:00Z');
+    findOne.mockResolvedValue({ id: 'reply-3', sentAt });
+
+    await repository.findThreadReplies('parent-1', 25, 'reply-3');
+
+    expect(findOne).toHaveBeenCalledWith({ where: { id: 'reply-3', parentMessageId: 'parent-1' } });
+    expect(builder.andWhere).toHaveBeenCalledWith('(message.sentAt, message.id) > (:afterSentAt, :afterId)', {
+      afterSentAt: sentAt,
+      afterId: 'reply-3',
+    });
+  });
+
+  it('ignores a cursor that is not a reply in the thread', async () => {
+    findOne.mockResolvedValue(null);
+
+    await repository.findThreadReplies('parent-1', 25, 'elsewhere');
+
+    expect(builder.andWhere).toHaveBeenCalledTimes(1);
+    expect(builder.andWhere).toHaveBeenCalledWith('message.deletedAt IS NULL');
+  });
+});
+
+describe('MessageRepository.searchForUser', () => {
+  let builder: Record<string, jest.Mock>;
+  let repository: MessageRepository;
+
+  const sentAt = new Date('2024-05-01T10:00:00Z');
+
+  beforeEach(() => {
+    builder = {};
+    for (const method of ['innerJoin', 'addSelect', 'where', 'andWhere', 'orderBy', 'addOrderBy', 'limit']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    builder.getRawAndEntities = jest.fn().mockResolvedValue({
+      entities: [Object.assign(new Message(), { id: 'm1', sentAt })],
+      raw: [{ conversation_type: 'group', rank: '0.0607927', snippet: 'see you at <mark>five</mark>' }],
+    });
+    repository = new MessageRepository(
+      { createQueryBuilder: jest.fn(() => builder) } as unknown as Repository<Message>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  it("only searches the caller's own conversations and skips deleted messages", async () => {
+    await repository.searchForUser('alice', { query: 'five' }, 21);
+
+    expect(builder.innerJoin).toHaveBeenCalledWith(
+      'participants',
+      'participant',
+      'participant.conversation_id = message.conversation_id AND participant.user_id = :userId',
+      { userId: 'alice' },
+    );
+    expect(builder.andWhere).toHaveBeenCalledWith('message.deletedAt IS NULL');
+    expect(builder.limit).toHaveBeenCalledWith(21);
+  });
+
+  it('applies each filter that is given', async () => {
+    const from = new Date('2024-04-01T00:00:00Z');
+
+    await repository.searchForUser('alice', { query: 'five', senderId: 'bob', conversationType: 'group', from }, 21);
+
+    expect(builder.andWhere).toHaveBeenCalledWith('message.senderId = :senderId', { senderId: 'bob' });
+    expect(builder.andWhere).toHaveBeenCalledWith('conversation.type = :conversationType', { conversationType: 'group' });
+    expect(builder.andWhere).toHaveBeenCalledWith('message.sentAt >= :from', { from });
+    expect(builder.andWhere).not.toHaveBeenCalledWith('message.type = :messageType', expect.anything());
+    expect(builder.andWhere).not.toHaveBeenCalledWith('message.sentAt <= :to', expect.anything());
+  });
+
+  it('continues below the cursor on the (rank, sent_at, id) key', async () => {
+    const after = SearchCursor.create(0.5, 'm9', sentAt);
+
+    await repository.searchForUser('alice', { query: 'five', after }, 21);
+
+    const [clause, params] = builder.andWhere.mock.calls.find(([sql]) => sql.includes(':afterRank'));
+    expect(clause.replace(/\s+/g, ' ')).toContain('message.sent_at, message.id) < ( CAST(:afterRank AS real),');
+    expect(params).toEqual({ afterRank: 0.5, afterId: 'm9', afterSentAt: sentAt });
+    expect(builder.orderBy).toHaveBeenCalledWith('rank', 'DESC');
+    expect(builder.addOrderBy).toHaveBeenCalledWith('message.sentAt', 'DESC');
+    expect(builder.addOrderBy).toHaveBeenCalledWith('message.id', 'DESC');
+  });
+
+  it('returns each message with its rank, snippet and conversation type', async () => {
+    const [hit] = await repository.searchForUser('alice', { query: 'five' }, 21);
+
+    expect(hit).toEqual({
+      message: expect.objectContaining({ id: 'm1' }),
+      conversationType: 'group',
+      rank: 0.0607927,
+      snippet: 'see you at <mark>five</mark>',
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Repository } from 'typeorm';
+import { Participant } from '@domain/entities/participant.entity';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { ParticipantCommandRepository } from '../participant.repository';
+
+describe('ParticipantCommandRepository', () => {
+  let query: jest.Mock;
+  let transaction: jest.Mock;
+  let repository: ParticipantCommandRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    transaction = jest.fn();
+    repository = new ParticipantCommandRepository(
+      { query, manager: { transaction } } as unknown as Repository<Participant>,
+      { debug: jest.fn(), error: jest.fn() } as unknown as StructuredLoggerService,
+    );
+  });
+
+  describe('pinWithinLimit', () => {
+    let rows: Array<{ conversation_id: string; pinned_at: Date | null }>;
+    let statements: string[];
+
+    /**
+     * Transactions over shared participant rows. The FOR UPDATE holds the
+     * user's rows until the transaction ends, as in PostgreSQL.
+     */
+    const useRowLocks = () => {
+      let lockQueue: Promise<void> = Promise.resolve();
+
+      transaction.mockImplementation(async (work: (manager: { query: jest.Mock }) => Promise<unknown>) => {
+        let releaseLock: (() => void) | undefined;
+        const manager = {
+          query: jest.fn(async (sql: string, params: string[]) => {
+            statements.push(sql.replace(/\s+/g, ' ').trim());
+            if (sql.includes('FOR UPDATE')) {
+              const previous = lockQueue;
+              lockQueue = new Promise(resolve => (releaseLock = resolve));
+              await previous;
+              const snapshot = rows.map(row => ({ ...row }));
+              // Let the other transaction get as far as it can before this one writes
+              await new Promise(resolve => setImmediate(resolve));
+              return snapshot;
+            }
+            rows.find(row => row.conversation_id === params[0])!.pinned_at = new Date();
+            return [];
+          }),
+        };
+
+        try {
+          return await work(manager);
+        } finally {
+          releaseLock?.();
+        }
+      });
+    };
+
+    beforeEach(() => {
+      statements = [];
+      rows = ['c1', 'c2', 'c3', 'c4', 'c5', 'c6'].map((conversation_id, index) => ({
+        conversation_id,
+        pinned_at: index < 4 ? new Date('2024-05-01T10:00:00Z') : null,
+      }));
+      useRowLocks();
+    });
+
+    it('lets only one of two concurrent pins take the last slot', async () => {
+      const results = await Promise.all([
+        repository.pinWithinLimit('c5', 'alice', 5),
+        repository.pinWithinLimit('c6', 'alice', 5),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(rows.filter(row => row.pinned_at)).toHaveLength(5);
+    });
+
+    it("locks all of the user's rows before counting them", async () => {
+      await repository.pinWithinLimit('c5', 'alice', 5);
+
+      expect(statements).toEqual([
+        'SELECT conversation_id, pinned_at FROM participants WHERE user_id = $1 FOR UPDATE',
+        'UPDATE participants SET pinned_at = NOW() WHERE conversation_id = $1 AND user_id = $2',
+      ]);
+    });
+
+    it('treats a conversation that is already pinned as pinned', async () => {
+      expect(await repository.pinWithinLimit('c1', 'alice', 4)).toBe(true);
+      expect(rows.filter(row => row.pinned_at)).toHaveLength(4);
+    });
+
+    it('refuses a conversation the user is not in', async () => {
+      expect(await repository.pinWithinLimit('elsewhere', 'alice', 5)).toBe(false);
+    });
+  });
+
+  describe('unarchiveForNewMessage', () => {
+    it('brings the conversation back for everyone who has not muted it', async () => {
+      query.mockResolvedValue([[{ user_id: 'bob' }, { user_id: 'carol' }], 2]);
+
+      expect(await repository.unarchiveForNewMessage('c1')).toEqual(['bob', 'carol']);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql.replace(/\s+/g, ' ')).toContain(
+        'WHERE conversation_id = $1 AND archived_at IS NOT NULL ' +
+          'AND NOT (is_muted AND (muted_until IS NULL OR muted_until > NOW())) RETURNING user_id',
+      );
+      expect(params).toEqual(['c1']);
+    });
+  });
+});
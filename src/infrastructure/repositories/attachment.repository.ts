@@ -0,0 +1,170 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull } from 'typeorm';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { IAttachmentRepository } from '@domain/repositories/attachment.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class AttachmentRepository implements IAttachmentRepository {
+  constructor(
+    @InjectRepository(Attachment)
+    private readonly repository: Repository<Attachment>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findById(attachmentId: string): Promise<Attachment | null> {
+    try {
+      const attachment = await this.repository.findOne({ where: { id: attachmentId } });
+      return attachment || null;
+    } catch (error) {
+      this.logger.error('Failed to find attachment by ID', error, {
+        service: 'AttachmentRepository',
+        operation: 'findById',
+        attachmentId,
+      });
+      throw error;
+    }
+  }
+
+  async findByIds(attachmentIds: string[]): Promise<Attachment[]> {
+    try {
+      if (attachmentIds.length === 0) return [];
+
+      return await this.repository.find({ where: { id: In(attachmentIds) } });
+    } catch (error) {
+      this.logger.error('Failed to find attachments by IDs', error, {
+        service: 'AttachmentRepository',
+        operation: 'findByIds',
+        count: attachmentIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async findByMessageIds(messageIds: string[]): Promise<Attachment[]> {
+    try {
+      if (messageIds.length === 0) return [];
+
+      return await this.repository.find({
+        where: { messageId: In(messageIds) },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find attachments by message IDs', error, {
+        service: 'AttachmentRepository',
+        operation: 'findByMessageIds',
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async save(attachment: Attachment): Promise<Attachment> {
+    try {
+      const savedAttachment = await this.repository.save(attachment);
+      this.logger.debug('Attachment saved successfully', {
+        service: 'AttachmentRepository',
+        operation: 'save',
+        attachmentId: savedAttachment.id,
+        conversationId: savedAttachment.conversationId,
+      });
+      return savedAttachment;
+    } catch (error) {
+      this.logger.error('Failed to save attachment', error, {
+        service: 'AttachmentRepository',
+        operation: 'save',
+        conversationId: attachment.conversationId,
+      });
+      throw error;
+    }
+  }
+
+  async linkToMessage(attachmentIds: string[], messageId: string, uploaderId: string): Promise<void> {
+    try {
+      if (attachmentIds.length === 0) return;
+
+      // Only claim uploads that are still free and belong to the sender, so a
+      // concurrent send can't attach the same file or take someone else's
+      const result = await this.repository.update(
+        { id: In(attachmentIds), messageId: IsNull(), uploaderId },
+        { messageId },
+      );
+      if (result.affected !== attachmentIds.length) {
+        throw new Error('One or more attachments are missing or already used');
+      }
+
+      this.logger.debug('Attachments linked to message', {
+        service: 'AttachmentRepository',
+        operation: 'linkToMessage',
+        messageId,
+        count: attachmentIds.length,
+      });
+    } catch (error) {
+      this.logger.error('Failed to link attachments to message', error, {
+        service: 'AttachmentRepository',
+        operation: 'linkToMessage',
+        messageId,
+        uploaderId,
+        count: attachmentIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async deleteByIds(attachmentIds: string[]): Promise<void> {
+    try {
+      if (attachmentIds.length === 0) return;
+
+      await this.repository.delete({ id: In(attachmentIds) });
+      this.logger.debug('Attachments deleted', {
+        service: 'AttachmentRepository',
+        operation: 'deleteByIds',
+        count: attachmentIds.length,
+      });
+    } catch (error) {
+      this.logger.error('Failed to delete attachments', error, {
+        service: 'AttachmentRepository',
+        operation: 'deleteByIds',
+        count: attachmentIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async deleteUnlinkedBefore(cutoff: Date, limit: number): Promise<string[]> {
+    try {
+      // Uploads a send is linking right now are locked by its transaction and skipped
+      const result = await this.repository.query(
+        `DELETE FROM attachments
+         WHERE id IN (
+           SELECT id FROM attachments
+           WHERE message_id IS NULL AND created_at < $1
+           ORDER BY created_at
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         AND message_id IS NULL
+         RETURNING storage_key`,
+        [cutoff, limit],
+      );
+      // pg returns [rows, affectedCount] for DELETE ... RETURNING
+      const rows: Array<{ storage_key: string }> = Array.isArray(result[0]) ? result[0] : result;
+
+      this.logger.debug('Unlinked attachments deleted', {
+        service: 'AttachmentRepository',
+        operation: 'deleteUnlinkedBefore',
+        count: rows.length,
+      });
+      return rows.map(row => row.storage_key);
+    } catch (error) {
+      this.logger.error('Failed to delete unlinked attachments', error, {
+        service: 'AttachmentRepository',
+        operation: 'deleteUnlinkedBefore',
+        cutoff,
+        limit,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, MoreThan } from 'typeorm';
+import { AuthSession, SessionRevocationReason } from '@domain/entities/auth-session.entity';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class AuthSessionRepository implements IAuthSessionRepository {
+  constructor(
+    @InjectRepository(AuthSession)
+    private readonly repository: Repository<AuthSession>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findById(sessionId: string): Promise<AuthSession | null> {
+    try {
+      const session = await this.repository.findOne({ where: { id: sessionId } });
+      return session || null;
+    } catch (error) {
+      this.logger.error('Failed to find auth session', error, {
+        service: 'AuthSessionRepository',
+        operation: 'findById',
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  async findActiveByUser(userId: string): Promise<AuthSession[]> {
+    try {
+      return await this.repository.find({
+        where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+        order: { lastUsedAt: 'DESC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find user auth sessions', error, {
+        service: 'AuthSessionRepository',
+        operation: 'findActiveByUser',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async findActiveByUserAndDevice(userId: string, deviceId: string): Promise<AuthSession[]> {
+    try {
+      return await this.repository.find({
+        where: { userId, deviceId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find device auth sessions', error, {
+        service: 'AuthSessionRepository',
+        operation: 'findActiveByUserAndDevice',
+        userId,
+        deviceId,
+      });
+      throw error;
+    }
+  }
+
+  async save(session: AuthSession): Promise<AuthSession> {
+    try {
+      return await this.repository.save(session);
+    } catch (error) {
+      this.logger.error('Failed to save auth session', error, {
+        service: 'AuthSessionRepository',
+        operation: 'save',
+        userId: session.userId,
+      });
+      throw error;
+    }
+  }
+
+  async rotateToken(
+    sessionId: string,
+    expectedTokenId: string,
+    newTokenId: string,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    try {
+      const result = await this.repository.update(
+        {
+          id: sessionId,
+          currentTokenId: expectedTokenId,
+          revokedAt: IsNull(),
+          expiresAt: MoreThan(new Date()),
+        },
+        { currentTokenId: newTokenId, lastUsedAt: new Date(), expiresAt },
+      );
+      return !!result.affected;
+    } catch (error) {
+      this.logger.error('Failed to rotate auth session token', error, {
+        service: 'AuthSessionRepository',
+        operation: 'rotateToken',
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  async revoke(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    try {
+      await this.repository.update(
+        { id: sessionId, revokedAt: IsNull() },
+        { revokedAt: new Date(), revokedReason: reason },
+      );
+    } catch (error) {
+      this.logger.error('Failed to revoke auth session', error, {
+        service: 'AuthSessionRepository',
+        operation: 'revoke',
+        sessionId,
+        reason,
+      });
+      throw error;
+    }
+  }
+}
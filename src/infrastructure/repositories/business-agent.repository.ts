@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BusinessAgent, BusinessAgentRole } from '@domain/entities/business-agent.entity';
+import { IBusinessAgentRepository } from '@domain/repositories/business-agent.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class BusinessAgentRepository implements IBusinessAgentRepository {
+  constructor(
+    @InjectRepository(BusinessAgent)
+    private readonly repository: Repository<BusinessAgent>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async upsert(businessId: string, agentId: string, role: BusinessAgentRole): Promise<BusinessAgent> {
+    try {
+      await this.repository.upsert({ businessId, agentId, role }, ['businessId', 'agentId']);
+      return await this.repository.findOneOrFail({ where: { businessId, agentId } });
+    } catch (error) {
+      this.logger.error('Failed to save business agent', error, {
+        service: 'BusinessAgentRepository',
+        operation: 'upsert',
+        businessId,
+        agentId,
+      });
+      throw error;
+    }
+  }
+
+  async remove(businessId: string, agentId: string): Promise<void> {
+    try {
+      await this.repository.delete({ businessId, agentId });
+    } catch (error) {
+      this.logger.error('Failed to remove business agent', error, {
+        service: 'BusinessAgentRepository',
+        operation: 'remove',
+        businessId,
+        agentId,
+      });
+      throw error;
+    }
+  }
+
+  async find(businessId: string, agentId: string): Promise<BusinessAgent | null> {
+    try {
+      const agent = await this.repository.findOne({ where: { businessId, agentId } });
+      return agent || null;
+    } catch (error) {
+      this.logger.error('Failed to find business agent', error, {
+        service: 'BusinessAgentRepository',
+        operation: 'find',
+        businessId,
+        agentId,
+      });
+      throw error;
+    }
+  }
+
+  async findByBusiness(businessId: string): Promise<BusinessAgent[]> {
+    try {
+      return await this.repository.find({
+        where: { businessId },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find business agents', error, {
+        service: 'BusinessAgentRepository',
+        operation: 'findByBusiness',
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async markAssigned(businessId: string, agentId: string, assignedAt: Date): Promise<void> {
+    try {
+      await this.repository.update({ businessId, agentId }, { lastAssignedAt: assignedAt });
+    } catch (error) {
+      this.logger.error('Failed to record agent assignment', error, {
+        service: 'BusinessAgentRepository',
+        operation: 'markAssigned',
+        businessId,
+        agentId,
+      });
+      throw error;
+    }
+  }
+}
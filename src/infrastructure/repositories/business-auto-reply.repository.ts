@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BusinessAutoReply } from '@domain/entities/business-auto-reply.entity';
+import { IBusinessAutoReplyRepository } from '@domain/repositories/business-auto-reply.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class BusinessAutoReplyRepository implements IBusinessAutoReplyRepository {
+  constructor(
+    @InjectRepository(BusinessAutoReply)
+    private readonly repository: Repository<BusinessAutoReply>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findByBusiness(businessId: string): Promise<BusinessAutoReply | null> {
+    try {
+      const autoReply = await this.repository.findOne({ where: { businessId } });
+      return autoReply || null;
+    } catch (error) {
+      this.logger.error('Failed to find business auto-replies', error, {
+        service: 'BusinessAutoReplyRepository',
+        operation: 'findByBusiness',
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async save(autoReply: BusinessAutoReply): Promise<BusinessAutoReply> {
+    try {
+      return await this.repository.save(autoReply);
+    } catch (error) {
+      this.logger.error('Failed to save business auto-replies', error, {
+        service: 'BusinessAutoReplyRepository',
+        operation: 'save',
+        businessId: autoReply.businessId,
+      });
+      throw error;
+    }
+  }
+}
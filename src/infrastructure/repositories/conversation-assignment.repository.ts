@@ -0,0 +1,217 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere, In, IsNull } from 'typeorm';
+import { ConversationAssignment, AssignmentStatus } from '@domain/entities/conversation-assignment.entity';
+import {
+  IConversationAssignmentRepository,
+  AssignmentQuery,
+  AssignmentChanges,
+} from '@domain/repositories/conversation-assignment.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class ConversationAssignmentRepository implements IConversationAssignmentRepository {
+  constructor(
+    @InjectRepository(ConversationAssignment)
+    private readonly repository: Repository<ConversationAssignment>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async save(assignment: ConversationAssignment): Promise<ConversationAssignment> {
+    try {
+      return await this.repository.save(assignment);
+    } catch (error) {
+      this.logger.error('Failed to save conversation assignment', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'save',
+        conversationId: assignment.conversationId,
+      });
+      throw error;
+    }
+  }
+
+  async createOpen(assignment: ConversationAssignment): Promise<ConversationAssignment | null> {
+    try {
+      return await this.repository.save(assignment);
+    } catch (error) {
+      // idx_conversation_assignments_open_customer: another start got there first
+      if (error.code === '23505') {
+        return null;
+      }
+      this.logger.error('Failed to create conversation assignment', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'createOpen',
+        conversationId: assignment.conversationId,
+      });
+      throw error;
+    }
+  }
+
+  async findByConversation(conversationId: string): Promise<ConversationAssignment | null> {
+    try {
+      const assignment = await this.repository.findOne({ where: { conversationId } });
+      return assignment || null;
+    } catch (error) {
+      this.logger.error('Failed to find conversation assignment', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findByConversation',
+        conversationId,
+      });
+      throw error;
+    }
+  }
+
+  async findLatestForCustomer(businessId: string, customerId: string): Promise<ConversationAssignment | null> {
+    try {
+      const assignment = await this.repository.findOne({
+        where: { businessId, customerId },
+        order: { queuedAt: 'DESC' },
+      });
+      return assignment || null;
+    } catch (error) {
+      this.logger.error('Failed to find customer conversation assignment', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findLatestForCustomer',
+        businessId,
+        customerId,
+      });
+      throw error;
+    }
+  }
+
+  async findByBusiness(
+    businessId: string,
+    query: AssignmentQuery,
+  ): Promise<{ assignments: ConversationAssignment[]; total: number }> {
+    try {
+      const where: FindOptionsWhere<ConversationAssignment> = { businessId };
+      if (query.status) {
+        where.status = query.status;
+      }
+      if (query.agentId) {
+        where.agentId = query.agentId;
+      }
+
+      const [assignments, total] = await this.repository.findAndCount({
+        where,
+        order: { queuedAt: 'ASC' },
+        take: query.limit,
+        skip: query.offset,
+      });
+      return { assignments, total };
+    } catch (error) {
+      this.logger.error('Failed to list conversation assignments', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findByBusiness',
+        businessId,
+        status: query.status,
+      });
+      throw error;
+    }
+  }
+
+  async findAssignedToAgent(agentId: string, businessId?: string): Promise<ConversationAssignment[]> {
+    try {
+      return await this.repository.find({
+        where: { agentId, status: 'assigned', ...(businessId && { businessId }) },
+        order: { assignedAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find agent assignments', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findAssignedToAgent',
+        agentId,
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async findQueued(businessId: string, limit: number): Promise<ConversationAssignment[]> {
+    try {
+      return await this.repository.find({
+        where: { businessId, status: 'queued' },
+        order: { queuedAt: 'ASC' },
+        take: limit,
+      });
+    } catch (error) {
+      this.logger.error('Failed to find queued conversations', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findQueued',
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async findBusinessesWithQueue(limit: number): Promise<string[]> {
+    try {
+      const rows = await this.repository
+        .createQueryBuilder('assignment')
+        .select('assignment.businessId', 'businessId')
+        .where('assignment.status = :status', { status: 'queued' })
+        .groupBy('assignment.businessId')
+        .orderBy('MIN(assignment.queuedAt)', 'ASC')
+        .limit(limit)
+        .getRawMany();
+      return rows.map(row => row.businessId);
+    } catch (error) {
+      this.logger.error('Failed to find businesses with queued conversations', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'findBusinessesWithQueue',
+      });
+      throw error;
+    }
+  }
+
+  async countAssignedByAgent(businessId: string): Promise<Map<string, number>> {
+    try {
+      const rows = await this.repository
+        .createQueryBuilder('assignment')
+        .select('assignment.agentId', 'agentId')
+        .addSelect('COUNT(*)', 'count')
+        .where('assignment.businessId = :businessId', { businessId })
+        .andWhere('assignment.status = :status', { status: 'assigned' })
+        .groupBy('assignment.agentId')
+        .getRawMany();
+      return new Map(rows.map(row => [row.agentId, parseInt(row.count, 10)]));
+    } catch (error) {
+      this.logger.error('Failed to count agent assignments', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'countAssignedByAgent',
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async transition(
+    conversationId: string,
+    from: { statuses: AssignmentStatus[]; agentId?: string | null },
+    changes: AssignmentChanges,
+  ): Promise<ConversationAssignment | null> {
+    try {
+      const where: FindOptionsWhere<ConversationAssignment> = {
+        conversationId,
+        status: In(from.statuses),
+      };
+      if (from.agentId !== undefined) {
+        where.agentId = from.agentId === null ? IsNull() : from.agentId;
+      }
+
+      const result = await this.repository.update(where, changes);
+      if (!result.affected) {
+        return null;
+      }
+      return await this.findByConversation(conversationId);
+    } catch (error) {
+      this.logger.error('Failed to update conversation assignment', error, {
+        service: 'ConversationAssignmentRepository',
+        operation: 'transition',
+        conversationId,
+        status: changes.status,
+      });
+      throw error;
+    }
+  }
+}
@@ -4,7 +4,12 @@ import { Repository, In } from 'typeorm';
 import { Conversation } from '@domain/entities/conversation.entity';
 import { Participant } from '@domain/entities/participant.entity';
 import { ConversationType } from '@domain/value-objects/conversation-type.vo';
-import { IConversationRepository, IConversationQueryRepository, IConversationCommandRepository } from '@domain/repositories/conversation.repository.interface';
+import {
+  IConversationRepository,
+  IConversationQueryRepository,
+  IConversationCommandRepository,
+  ConversationInboxQuery,
+} from '@domain/repositories/conversation.repository.interface';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 @Injectable()
@@ -79,6 +84,32 @@ export class ConversationRepository implements IConversationRepository {
     }
   }
 
+  async findInbox(userId: string, query: ConversationInboxQuery): Promise<{ conversations: Conversation[]; total: number }> {
+    try {
+      const [conversations, total] = await this.repository
+        .createQueryBuilder('conversation')
+        .innerJoin('participants', 'participant', 'participant.conversation_id = conversation.id')
+        .where('participant.user_id = :userId', { userId })
+        .andWhere(query.archived ? 'participant.archived_at IS NOT NULL' : 'participant.archived_at IS NULL')
+        .orderBy('participant.pinned_at', 'DESC', 'NULLS LAST')
+        .addOrderBy('conversation.lastActivity', 'DESC')
+        // One participant row per conversation, so plain OFFSET/LIMIT is safe here
+        .offset(query.offset)
+        .limit(query.limit)
+        .getManyAndCount();
+
+      return { conversations, total };
+    } catch (error) {
+      this.logger.error('Failed to find conversation inbox', error, {
+        service: 'ConversationRepository',
+        operation: 'findInbox',
+        userId,
+        archived: query.archived,
+      });
+      throw error;
+    }
+  }
+
   async save(conversation: Conversation): Promise<Conversation> {
     try {
       const savedConversation = await this.repository.save(conversation);
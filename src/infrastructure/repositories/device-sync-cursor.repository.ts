@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DeviceSyncCursor } from '@domain/entities/device-sync-cursor.entity';
+import { SyncCursor } from '@domain/value-objects/sync-cursor.vo';
+import { IDeviceSyncCursorRepository } from '@domain/repositories/device-sync-cursor.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class DeviceSyncCursorRepository implements IDeviceSyncCursorRepository {
+  constructor(
+    @InjectRepository(DeviceSyncCursor)
+    private readonly repository: Repository<DeviceSyncCursor>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findByUserAndDevice(userId: string, deviceId: string): Promise<DeviceSyncCursor | null> {
+    try {
+      const cursor = await this.repository.findOne({ where: { userId, deviceId } });
+      return cursor || null;
+    } catch (error) {
+      this.logger.error('Failed to find device sync cursor', error, {
+        service: 'DeviceSyncCursorRepository',
+        operation: 'findByUserAndDevice',
+        userId,
+        deviceId,
+      });
+      throw error;
+    }
+  }
+
+  async advance(userId: string, deviceId: string, cursor: SyncCursor): Promise<void> {
+    try {
+      // Merge per conversation, keeping the higher position, so a late or
+      // replayed ack can never rewind the cursor
+      await this.repository.query(
+        `INSERT INTO device_sync_cursors (user_id, device_id, positions, updated_at)
+         VALUES ($1, $2, $3::jsonb, NOW())
+         ON CONFLICT (user_id, device_id) DO UPDATE
+         SET positions = COALESCE((
+               SELECT jsonb_object_agg(
+                 merged.key,
+                 GREATEST(
+                   COALESCE((device_sync_cursors.positions ->> merged.key)::bigint, 0),
+                   COALESCE((EXCLUDED.positions ->> merged.key)::bigint, 0)
+                 )
+               )
+               FROM jsonb_object_keys(device_sync_cursors.positions || EXCLUDED.positions) AS merged(key)
+             ), '{}'::jsonb),
+             updated_at = NOW()`,
+        [userId, deviceId, JSON.stringify(cursor.positions)],
+      );
+
+      this.logger.debug('Device sync cursor advanced', {
+        service: 'DeviceSyncCursorRepository',
+        operation: 'advance',
+        userId,
+        deviceId,
+      });
+    } catch (error) {
+      this.logger.error('Failed to advance device sync cursor', error, {
+        service: 'DeviceSyncCursorRepository',
+        operation: 'advance',
+        userId,
+        deviceId,
+      });
+      throw error;
+    }
+  }
+
+  async advanceContiguous(userId: string, deviceId: string, conversationId: string, seq: number): Promise<boolean> {
+    try {
+      // Sequence numbers in between whose messages were deleted, expired or
+      // purged will never be delivered, so they can't hold the position back
+      const result = await this.repository.query(
+        `UPDATE device_sync_cursors
+         SET positions = jsonb_set(positions, ARRAY[$3::text], to_jsonb($4::bigint)),
+             updated_at = NOW()
+         WHERE user_id = $1
+           AND device_id = $2
+           AND COALESCE((positions ->> $3::text)::bigint, 0) < $4::bigint
+           AND NOT EXISTS (
+             SELECT 1 FROM messages m
+             WHERE m.conversation_id = $3::text::uuid
+               AND m.seq > COALESCE((device_sync_cursors.positions ->> $3::text)::bigint, 0)
+               AND m.seq < $4::bigint
+               AND m.deleted_at IS NULL
+           )
+         RETURNING device_id`,
+        [userId, deviceId, conversationId, seq],
+      );
+
+      const rows: Array<{ device_id: string }> = Array.isArray(result[0]) ? result[0] : result;
+      return rows.length > 0;
+    } catch (error) {
+      this.logger.error('Failed to advance device sync cursor for a live delivery', error, {
+        service: 'DeviceSyncCursorRepository',
+        operation: 'advanceContiguous',
+        userId,
+        deviceId,
+        conversationId,
+        seq,
+      });
+      throw error;
+    }
+  }
+}
@@ -4,9 +4,15 @@ import { Repository, DataSource } from 'typeorm';
 import { Conversation } from '@domain/entities/conversation.entity';
 import { Participant } from '@domain/entities/participant.entity';
 import { User } from '@domain/entities/user.entity';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { BaseDomainEvent } from '@domain/events/base-domain-event';
+import { ConversationCreatedEvent } from '@domain/events/conversation-events';
 import { ConversationType } from '@domain/value-objects/conversation-type.vo';
 import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
+import { ConversationMetadata } from '@domain/value-objects/conversation-metadata.vo';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+import { AlreadyParticipantError, ParticipantLimitReachedError } from '@infrastructure/common/errors/conversation.errors';
+import { OutboxEventRepository } from './outbox-event.repository';
 
 export interface CreateConversationParams {
   type: ConversationType;
@@ -63,6 +69,10 @@ export class EnhancedConversationRepository {
       // Create conversation
       const conversation = new Conversation();
       conversation.type = params.type;
+      conversation.metadata = ConversationMetadata.create({
+        title: params.title,
+        description: params.description,
+      });
       conversation.lastActivity = new Date();
 
       const savedConversation = await queryRunner.manager.save(Conversation, conversation);
@@ -79,6 +89,9 @@ export class EnhancedConversationRepository {
 
       await queryRunner.manager.save(Participant, participants);
 
+      await this.appendToOutbox(queryRunner.manager.getRepository(OutboxEvent), [
+        new ConversationCreatedEvent(savedConversation.id, params.type, params.createdBy, params.participants),
+      ]);
       await queryRunner.commitTransaction();
 
       this.logger.audit('Conversation created with participants', {
@@ -108,6 +121,7 @@ export class EnhancedConversationRepository {
     userId: string,
     role: ParticipantRole,
     addedBy: string,
+    events: BaseDomainEvent[] = [],
   ): Promise<void> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
@@ -123,6 +137,10 @@ export class EnhancedConversationRepository {
         addedBy,
       });
 
+      // Locking the conversation row serialises concurrent adds, so the
+      // participant count checked below can't go stale before the insert
+      await queryRunner.manager.query(`SELECT id FROM conversations WHERE id = $1 FOR UPDATE`, [conversationId]);
+
       // Get conversation with participants
       const conversation = await queryRunner.manager.findOne(Conversation, {
         where: { id: conversationId },
@@ -142,7 +160,7 @@ export class EnhancedConversationRepository {
       // Check if user is already a participant
       const existingParticipant = conversation.participants.find(p => p.userId === userId);
       if (existingParticipant) {
-        throw new Error('User is already a participant in this conversation');
+        throw new AlreadyParticipantError();
       }
 
       // Validate conversation type constraints
@@ -161,6 +179,7 @@ export class EnhancedConversationRepository {
       conversation.lastActivity = new Date();
       await queryRunner.manager.save(Conversation, conversation);
 
+      await this.appendToOutbox(queryRunner.manager.getRepository(OutboxEvent), events);
       await queryRunner.commitTransaction();
 
       this.logger.audit('Participant added to conversation', {
@@ -190,6 +209,7 @@ export class EnhancedConversationRepository {
     userId: string,
     removedBy: string,
     reason?: string,
+    events: BaseDomainEvent[] = [],
   ): Promise<void> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
@@ -235,6 +255,7 @@ export class EnhancedConversationRepository {
       conversation.lastActivity = new Date();
       await queryRunner.manager.save(Conversation, conversation);
 
+      await this.appendToOutbox(queryRunner.manager.getRepository(OutboxEvent), events);
       await queryRunner.commitTransaction();
 
       this.logger.audit('Participant removed from conversation', {
@@ -442,13 +463,21 @@ export class EnhancedConversationRepository {
     }
   }
 
+  /**
+   * Record domain events in the same transaction as the change that raised them
+   */
+  private async appendToOutbox(repository: Repository<OutboxEvent>, events: BaseDomainEvent[]): Promise<void> {
+    await new OutboxEventRepository(repository, this.logger).append(events);
+  }
+
   private validateAddParticipantConstraints(conversation: Conversation, role: ParticipantRole): void {
     if (conversation.type.isDirect()) {
       throw new Error('Cannot add participants to direct conversations');
     }
 
-    if (conversation.type.isGroup() && conversation.participants.length >= 8) {
-      throw new Error('Group conversations cannot have more than 8 participants');
+    const maxParticipants = (conversation.metadata ?? ConversationMetadata.createDefault()).getMaxParticipants();
+    if (conversation.type.isGroup() && conversation.participants.length >= maxParticipants) {
+      throw new ParticipantLimitReachedError(maxParticipants);
     }
 
     if (conversation.type.isBusiness()) {
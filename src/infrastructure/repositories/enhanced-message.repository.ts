@@ -1,6 +1,6 @@
 import { Injectable } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository, LessThan, MoreThan, IsNull, Not } from "typeorm";
+import { Repository, MoreThan, IsNull, Not } from "typeorm";
 import { Message } from "@domain/entities/message.entity";
 import { MessageContent } from "@domain/value-objects/message-content.vo";
 import { MessageType } from "@domain/value-objects/message-type.vo";
@@ -18,6 +18,40 @@ export interface PaginatedMessages {
   totalCount?: number;
 }
 
+/**
+ * Retention periods in days; null keeps messages forever at that level
+ */
+export interface RetentionPolicySettings {
+  defaultDays: number | null;
+  daysByType: {
+    direct?: number | null;
+    group?: number | null;
+    business?: number | null;
+  };
+}
+
+export type RetentionPolicySource = "conversation" | "conversation_type" | "default";
+
+export interface ExpiredMessageRef {
+  id: string;
+  conversationId: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  /** Stored files of the purged messages' attachments, to remove once the rows are gone */
+  storageKeys: string[];
+}
+
+export interface RetentionReportEntry {
+  conversationId: string;
+  conversationType: string;
+  retentionDays: number | null;
+  source: RetentionPolicySource | null;
+  expiringCount: number;
+  oldestExpiringAt: Date | null;
+}
+
 export interface MessageRetentionStats {
   totalMessages: number;
   messagesForSoftDeletion: number;
@@ -28,9 +62,6 @@ export interface MessageRetentionStats {
 
 @Injectable()
 export class EnhancedMessageRepository {
-  private readonly SOFT_DELETE_DAYS = 90; // Messages older than 90 days get soft deleted
-  private readonly HARD_DELETE_DAYS = 7; // Soft deleted messages older than 7 days get hard deleted
-
   constructor(
     @InjectRepository(Message)
     private readonly messageRepository: Repository<Message>,
@@ -293,56 +324,41 @@ export class EnhancedMessageRepository {
     }
   }
 
-  async getMessagesForRetention(): Promise<MessageRetentionStats> {
+  async getMessagesForRetention(
+    policy: RetentionPolicySettings,
+    purgeAfterDays: number
+  ): Promise<MessageRetentionStats> {
     try {
       this.logger.log("Getting messages for retention analysis", {
         service: "EnhancedMessageRepository",
         operation: "getMessagesForRetention",
       });
 
-      const now = new Date();
-      const softDeleteCutoff = new Date(
-        now.getTime() - this.SOFT_DELETE_DAYS * 24 * 60 * 60 * 1000
-      );
-      const hardDeleteCutoff = new Date(
-        now.getTime() - this.HARD_DELETE_DAYS * 24 * 60 * 60 * 1000
+      const [row] = await this.messageRepository.query(
+        `WITH policies AS (${this.policySql()})
+         SELECT
+           COUNT(*)::int AS total_messages,
+           COUNT(*) FILTER (
+             WHERE m.deleted_at IS NULL
+               AND p.retention_days IS NOT NULL
+               AND m.sent_at < NOW() - make_interval(days => p.retention_days)
+           )::int AS expiring,
+           COUNT(*) FILTER (
+             WHERE m.deleted_at < NOW() - make_interval(days => $5::int)
+           )::int AS purgeable,
+           MIN(m.sent_at) AS oldest,
+           MAX(m.sent_at) AS newest
+         FROM messages m
+         JOIN policies p ON p.conversation_id = m.conversation_id`,
+        [...this.policyParams(policy), purgeAfterDays]
       );
 
-      const [
-        totalMessages,
-        messagesForSoftDeletion,
-        messagesForHardDeletion,
-        oldestMessage,
-        newestMessage,
-      ] = await Promise.all([
-        this.messageRepository.count(),
-        this.messageRepository.count({
-          where: {
-            sentAt: LessThan(softDeleteCutoff),
-            deletedAt: IsNull(),
-          },
-        }),
-        this.messageRepository.count({
-          where: {
-            deletedAt: LessThan(hardDeleteCutoff),
-          },
-        }),
-        this.messageRepository.findOne({
-          order: { sentAt: "ASC" },
-          select: ["sentAt"],
-        }),
-        this.messageRepository.findOne({
-          order: { sentAt: "DESC" },
-          select: ["sentAt"],
-        }),
-      ]);
-
       const stats: MessageRetentionStats = {
-        totalMessages,
-        messagesForSoftDeletion,
-        messagesForHardDeletion,
-        oldestMessage: oldestMessage?.sentAt,
-        newestMessage: newestMessage?.sentAt,
+        totalMessages: row.total_messages,
+        messagesForSoftDeletion: row.expiring,
+        messagesForHardDeletion: row.purgeable,
+        oldestMessage: row.oldest || undefined,
+        newestMessage: row.newest || undefined,
       };
 
       this.logger.debug("Message retention stats calculated", {
@@ -361,105 +377,192 @@ export class EnhancedMessageRepository {
     }
   }
 
-  async applySoftDeleteRetentionPolicy(
+  /**
+   * Soft delete one batch of messages that outlived their conversation's
+   * retention period. Safe to run from several instances at once.
+   */
+  async expireMessages(
+    policy: RetentionPolicySettings,
     batchSize: number = 1000
-  ): Promise<number> {
+  ): Promise<ExpiredMessageRef[]> {
     try {
-      this.logger.log("Applying soft delete retention policy", {
-        service: "EnhancedMessageRepository",
-        operation: "applySoftDeleteRetentionPolicy",
-        batchSize,
-      });
-
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.SOFT_DELETE_DAYS);
+      const result = await this.messageRepository.query(
+        `WITH policies AS (${this.policySql()}),
+         due AS (
+           SELECT m.id FROM messages m
+           JOIN policies p ON p.conversation_id = m.conversation_id
+           WHERE m.deleted_at IS NULL
+             AND p.retention_days IS NOT NULL
+             AND m.sent_at < NOW() - make_interval(days => p.retention_days)
+           ORDER BY m.sent_at
+           LIMIT $5
+           FOR UPDATE OF m SKIP LOCKED
+         )
+         UPDATE messages SET deleted_at = NOW()
+         WHERE id IN (SELECT id FROM due)
+         RETURNING id, conversation_id`,
+        [...this.policyParams(policy), batchSize]
+      );
 
-      const messagesToDelete = await this.messageRepository.find({
-        where: {
-          sentAt: LessThan(cutoffDate),
-          deletedAt: IsNull(),
-        },
-        take: batchSize,
-        select: ["id"],
-      });
+      // pg returns [rows, affectedCount] for UPDATE ... RETURNING
+      const rows: Array<{ id: string; conversation_id: string }> = Array.isArray(result[0]) ? result[0] : result;
+      const expired = rows.map((row) => ({
+        id: row.id,
+        conversationId: row.conversation_id,
+      }));
 
-      if (messagesToDelete.length === 0) {
-        this.logger.debug("No messages found for soft deletion", {
-          service: "EnhancedMessageRepository",
-          operation: "applySoftDeleteRetentionPolicy",
+      if (expired.length > 0) {
+        this.logger.audit("Messages expired by retention policy", {
+          count: expired.length,
         });
-        return 0;
       }
 
-      const messageIds = messagesToDelete.map((m) => m.id);
-      await this.messageRepository.update(messageIds, {
-        deletedAt: new Date(),
-      });
-
-      this.logger.audit("Messages soft deleted by retention policy", {
-        count: messagesToDelete.length,
-        cutoffDate: cutoffDate.toISOString(),
-      });
-
-      return messagesToDelete.length;
+      return expired;
     } catch (error) {
-      this.logger.error("Failed to apply soft delete retention policy", error, {
+      this.logger.error("Failed to expire messages", error, {
         service: "EnhancedMessageRepository",
-        operation: "applySoftDeleteRetentionPolicy",
+        operation: "expireMessages",
         batchSize,
       });
       throw error;
     }
   }
 
-  async applyHardDeleteRetentionPolicy(
+  /**
+   * Hard delete one batch of messages that have been soft deleted for longer
+   * than the grace period, along with their attachment records
+   */
+  async purgeDeletedMessages(
+    purgeAfterDays: number,
     batchSize: number = 1000
-  ): Promise<number> {
+  ): Promise<PurgeResult> {
     try {
-      this.logger.log("Applying hard delete retention policy", {
-        service: "EnhancedMessageRepository",
-        operation: "applyHardDeleteRetentionPolicy",
-        batchSize,
-      });
-
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.HARD_DELETE_DAYS);
-
-      const messagesToDelete = await this.messageRepository.find({
-        where: {
-          deletedAt: LessThan(cutoffDate),
-        },
-        take: batchSize,
-        select: ["id"],
-      });
+      // Attachment rows go in the same statement; left to the foreign key
+      // they would only lose their message_id and linger with their files
+      const [row] = await this.messageRepository.query(
+        `WITH due AS (
+           SELECT id FROM messages
+           WHERE deleted_at < NOW() - make_interval(days => $1::int)
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         ),
+         purged_attachments AS (
+           DELETE FROM attachments
+           WHERE message_id IN (SELECT id FROM due)
+           RETURNING storage_key
+         ),
+         purged AS (
+           DELETE FROM messages
+           WHERE id IN (SELECT id FROM due)
+           RETURNING id
+         )
+         SELECT
+           (SELECT COUNT(*) FROM purged)::int AS purged,
+           ARRAY(SELECT storage_key FROM purged_attachments) AS storage_keys`,
+        [purgeAfterDays, batchSize]
+      );
 
-      if (messagesToDelete.length === 0) {
-        this.logger.debug("No messages found for hard deletion", {
-          service: "EnhancedMessageRepository",
-          operation: "applyHardDeleteRetentionPolicy",
+      const result: PurgeResult = { purged: row?.purged ?? 0, storageKeys: row?.storage_keys ?? [] };
+      if (result.purged > 0) {
+        this.logger.audit("Messages hard deleted by retention policy", {
+          count: result.purged,
+          attachmentCount: result.storageKeys.length,
+          purgeAfterDays,
         });
-        return 0;
       }
 
-      const messageIds = messagesToDelete.map((m) => m.id);
-      await this.messageRepository.delete(messageIds);
-
-      this.logger.audit("Messages hard deleted by retention policy", {
-        count: messagesToDelete.length,
-        cutoffDate: cutoffDate.toISOString(),
+      return result;
+    } catch (error) {
+      this.logger.error("Failed to purge deleted messages", error, {
+        service: "EnhancedMessageRepository",
+        operation: "purgeDeletedMessages",
+        batchSize,
       });
+      throw error;
+    }
+  }
+
+  /**
+   * What the next retention run would expire in each of the given conversations
+   */
+  async getRetentionReport(
+    policy: RetentionPolicySettings,
+    conversationIds: string[]
+  ): Promise<RetentionReportEntry[]> {
+    if (conversationIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const rows = await this.messageRepository.query(
+        `WITH policies AS (${this.policySql()})
+         SELECT
+           p.conversation_id,
+           p.conversation_type,
+           p.retention_days,
+           p.source,
+           COUNT(m.id)::int AS expiring_count,
+           MIN(m.sent_at) AS oldest_expiring_at
+         FROM policies p
+         LEFT JOIN messages m
+           ON m.conversation_id = p.conversation_id
+          AND m.deleted_at IS NULL
+          AND p.retention_days IS NOT NULL
+          AND m.sent_at < NOW() - make_interval(days => p.retention_days)
+         WHERE p.conversation_id = ANY($5::uuid[])
+         GROUP BY p.conversation_id, p.conversation_type, p.retention_days, p.source
+         ORDER BY expiring_count DESC`,
+        [...this.policyParams(policy), conversationIds]
+      );
 
-      return messagesToDelete.length;
+      return rows.map((row: any) => ({
+        conversationId: row.conversation_id,
+        conversationType: row.conversation_type,
+        retentionDays: row.retention_days,
+        source: row.source,
+        expiringCount: row.expiring_count,
+        oldestExpiringAt: row.oldest_expiring_at,
+      }));
     } catch (error) {
-      this.logger.error("Failed to apply hard delete retention policy", error, {
+      this.logger.error("Failed to build retention report", error, {
         service: "EnhancedMessageRepository",
-        operation: "applyHardDeleteRetentionPolicy",
-        batchSize,
+        operation: "getRetentionReport",
+        conversationCount: conversationIds.length,
       });
       throw error;
     }
   }
 
+  /**
+   * Effective retention per conversation: its own autoDelete setting, then the
+   * default for its type, then the global default. Takes parameters $1-$4.
+   */
+  private policySql(): string {
+    const conversationDays = `CASE WHEN (c.metadata -> 'settings' ->> 'autoDeleteMessages') = 'true'
+      THEN (c.metadata -> 'settings' ->> 'autoDeleteDays')::int END`;
+    const typeDays = `CASE c.type WHEN 'direct' THEN $1::int WHEN 'group' THEN $2::int WHEN 'business' THEN $3::int END`;
+
+    return `SELECT
+        c.id AS conversation_id,
+        c.type AS conversation_type,
+        COALESCE(${conversationDays}, ${typeDays}, $4::int) AS retention_days,
+        CASE
+          WHEN ${conversationDays} IS NOT NULL THEN 'conversation'
+          WHEN ${typeDays} IS NOT NULL THEN 'conversation_type'
+          WHEN $4::int IS NOT NULL THEN 'default'
+        END AS source
+      FROM conversations c`;
+  }
+
+  private policyParams(policy: RetentionPolicySettings): Array<number | null> {
+    return [
+      policy.daysByType.direct ?? null,
+      policy.daysByType.group ?? null,
+      policy.daysByType.business ?? null,
+      policy.defaultDays ?? null,
+    ];
+  }
+
   async searchMessages(
     conversationId: string,
     searchTerm: string,
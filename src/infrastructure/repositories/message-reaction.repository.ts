@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+import { IMessageReactionRepository } from '@domain/repositories/message-reaction.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class MessageReactionRepository implements IMessageReactionRepository {
+  constructor(
+    @InjectRepository(MessageReaction)
+    private readonly repository: Repository<MessageReaction>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findByMessage(messageId: string): Promise<MessageReaction[]> {
+    try {
+      return await this.repository.find({
+        where: { messageId },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find reactions by message', error, {
+        service: 'MessageReactionRepository',
+        operation: 'findByMessage',
+        messageId,
+      });
+      throw error;
+    }
+  }
+
+  async findByMessageIds(messageIds: string[]): Promise<MessageReaction[]> {
+    try {
+      if (messageIds.length === 0) return [];
+
+      return await this.repository.find({
+        where: { messageId: In(messageIds) },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find reactions by message IDs', error, {
+        service: 'MessageReactionRepository',
+        operation: 'findByMessageIds',
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async add(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    try {
+      // Reacting twice with the same emoji is a no-op rather than an error
+      const result = await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(MessageReaction)
+        .values({ messageId, userId, emoji })
+        .orIgnore()
+        .returning('message_id')
+        .execute();
+
+      const added = Array.isArray(result.raw) && result.raw.length > 0;
+      this.logger.debug('Reaction add processed', {
+        service: 'MessageReactionRepository',
+        operation: 'add',
+        messageId,
+        userId,
+        added,
+      });
+      return added;
+    } catch (error) {
+      this.logger.error('Failed to add reaction', error, {
+        service: 'MessageReactionRepository',
+        operation: 'add',
+        messageId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async remove(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    try {
+      const result = await this.repository.delete({ messageId, userId, emoji });
+      const removed = (result.affected ?? 0) > 0;
+      this.logger.debug('Reaction remove processed', {
+        service: 'MessageReactionRepository',
+        operation: 'remove',
+        messageId,
+        userId,
+        removed,
+      });
+      return removed;
+    } catch (error) {
+      this.logger.error('Failed to remove reaction', error, {
+        service: 'MessageReactionRepository',
+        operation: 'remove',
+        messageId,
+        userId,
+      });
+      throw error;
+    }
+  }
+}
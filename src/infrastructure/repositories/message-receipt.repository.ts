@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { ReceiptStatus } from '@domain/value-objects/receipt-status.vo';
+import { IMessageReceiptRepository } from '@domain/repositories/message-receipt.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class MessageReceiptRepository implements IMessageReceiptRepository {
+  constructor(
+    @InjectRepository(MessageReceipt)
+    private readonly repository: Repository<MessageReceipt>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async findByMessage(messageId: string): Promise<MessageReceipt[]> {
+    try {
+      return await this.repository.find({ where: { messageId } });
+    } catch (error) {
+      this.logger.error('Failed to find receipts by message', error, {
+        service: 'MessageReceiptRepository',
+        operation: 'findByMessage',
+        messageId,
+      });
+      throw error;
+    }
+  }
+
+  async findByMessageIds(messageIds: string[]): Promise<MessageReceipt[]> {
+    try {
+      if (messageIds.length === 0) return [];
+
+      return await this.repository.find({ where: { messageId: In(messageIds) } });
+    } catch (error) {
+      this.logger.error('Failed to find receipts by message IDs', error, {
+        service: 'MessageReceiptRepository',
+        operation: 'findByMessageIds',
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async createForRecipients(messageId: string, conversationId: string, userIds: string[]): Promise<void> {
+    try {
+      if (userIds.length === 0) return;
+
+      await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(MessageReceipt)
+        .values(userIds.map(userId => ({
+          messageId,
+          conversationId,
+          userId,
+          status: ReceiptStatus.SENT,
+        })))
+        .orIgnore()
+        .execute();
+
+      this.logger.debug('Receipts created for recipients', {
+        service: 'MessageReceiptRepository',
+        operation: 'createForRecipients',
+        messageId,
+        count: userIds.length,
+      });
+    } catch (error) {
+      this.logger.error('Failed to create receipts', error, {
+        service: 'MessageReceiptRepository',
+        operation: 'createForRecipients',
+        messageId,
+        count: userIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async markDelivered(messageIds: string[], userId: string): Promise<MessageReceipt[]> {
+    try {
+      if (messageIds.length === 0) return [];
+
+      // A concurrent ack or read may move some of these first; RETURNING reports only our own changes
+      const result = await this.repository.query(
+        `UPDATE message_receipts
+         SET status = $3, delivered_at = NOW()
+         WHERE message_id = ANY($1::uuid[]) AND user_id = $2 AND status = $4
+         RETURNING message_id, user_id, conversation_id, delivered_at`,
+        [messageIds, userId, ReceiptStatus.DELIVERED.value, ReceiptStatus.SENT.value],
+      );
+      // pg returns [rows, affectedCount] for UPDATE ... RETURNING
+      const rows: Array<{ message_id: string; user_id: string; conversation_id: string; delivered_at: Date }> =
+        Array.isArray(result[0]) ? result[0] : result;
+
+      this.logger.debug('Receipts marked delivered', {
+        service: 'MessageReceiptRepository',
+        operation: 'markDelivered',
+        userId,
+        count: rows.length,
+      });
+
+      return rows.map(row => Object.assign(new MessageReceipt(), {
+        messageId: row.message_id,
+        userId: row.user_id,
+        conversationId: row.conversation_id,
+        status: ReceiptStatus.DELIVERED,
+        deliveredAt: row.delivered_at,
+      }));
+    } catch (error) {
+      this.logger.error('Failed to mark receipts delivered', error, {
+        service: 'MessageReceiptRepository',
+        operation: 'markDelivered',
+        userId,
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async markReadUpTo(conversationId: string, userId: string, upTo: Date): Promise<MessageReceipt[]> {
+    try {
+      const unread = await this.repository
+        .createQueryBuilder('receipt')
+        .innerJoin('receipt.message', 'message')
+        .where('receipt.conversationId = :conversationId', { conversationId })
+        .andWhere('receipt.userId = :userId', { userId })
+        .andWhere('receipt.status <> :read', { read: ReceiptStatus.READ.value })
+        .andWhere('message.sentAt <= :upTo', { upTo })
+        .getMany();
+      if (unread.length === 0) return [];
+
+      const readAt = new Date();
+      await this.repository
+        .createQueryBuilder()
+        .update(MessageReceipt)
+        .set({
+          status: ReceiptStatus.READ,
+          readAt,
+          deliveredAt: () => 'COALESCE(delivered_at, NOW())',
+          // Disappearing messages start this recipient's countdown now
+          expiresAt: () => `(SELECT :readAt::timestamptz + make_interval(secs => m.expires_after_read_seconds)
+            FROM messages m WHERE m.id = message_id)`,
+        })
+        .where('message_id IN (:...messageIds)', { messageIds: unread.map(r => r.messageId) })
+        .andWhere('user_id = :userId', { userId })
+        .setParameter('readAt', readAt)
+        .execute();
+
+      this.logger.debug('Receipts marked read', {
+        service: 'MessageReceiptRepository',
+        operation: 'markReadUpTo',
+        conversationId,
+        userId,
+        count: unread.length,
+      });
+
+      return unread.map(receipt => Object.assign(receipt, {
+        status: ReceiptStatus.READ,
+        deliveredAt: receipt.deliveredAt || readAt,
+        readAt,
+      }));
+    } catch (error) {
+      this.logger.error('Failed to mark receipts read', error, {
+        service: 'MessageReceiptRepository',
+        operation: 'markReadUpTo',
+        conversationId,
+        userId,
+      });
+      throw error;
+    }
+  }
+}
@@ -4,7 +4,15 @@ import { Repository, LessThan, MoreThan, In } from 'typeorm';
 import { Message } from '@domain/entities/message.entity';
 import { MessageType } from '@domain/value-objects/message-type.vo';
 import { MessageContent } from '@domain/value-objects/message-content.vo';
-import { IMessageRepository, IMessageQueryRepository, IMessageCommandRepository } from '@domain/repositories/message.repository.interface';
+import { SyncCursor } from '@domain/value-objects/sync-cursor.vo';
+import {
+  IMessageRepository,
+  IMessageQueryRepository,
+  IMessageCommandRepository,
+  MessageSearchCriteria,
+  MessageSearchHit,
+  ExpiredMessageDeletion,
+} from '@domain/repositories/message.repository.interface';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 @Injectable()
@@ -75,6 +83,208 @@ export class MessageRepository implements IMessageRepository {
     }
   }
 
+  async findByIds(messageIds: string[]): Promise<Message[]> {
+    try {
+      if (messageIds.length === 0) return [];
+
+      return await this.repository.find({ where: { id: In(messageIds) } });
+    } catch (error) {
+      this.logger.error('Failed to find messages by IDs', error, {
+        service: 'MessageRepository',
+        operation: 'findByIds',
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replies in (sent_at, id) order, so replies sharing a timestamp are
+   * neither skipped nor repeated across pages
+   */
+  async findThreadReplies(parentMessageId: string, limit?: number, afterMessageId?: string): Promise<Message[]> {
+    try {
+      let query = this.repository
+        .createQueryBuilder('message')
+        .where('message.parentMessageId = :parentMessageId', { parentMessageId })
+        .andWhere('message.deletedAt IS NULL')
+        .orderBy('message.sentAt', 'ASC')
+        .addOrderBy('message.id', 'ASC')
+        .take(limit || 50);
+
+      if (afterMessageId) {
+        const cursor = await this.repository.findOne({ where: { id: afterMessageId, parentMessageId } });
+        if (cursor) {
+          query = query.andWhere('(message.sentAt, message.id) > (:afterSentAt, :afterId)', {
+            afterSentAt: cursor.sentAt,
+            afterId: cursor.id,
+          });
+        }
+      }
+
+      return await query.getMany();
+    } catch (error) {
+      this.logger.error('Failed to find thread replies', error, {
+        service: 'MessageRepository',
+        operation: 'findThreadReplies',
+        parentMessageId,
+        limit,
+        afterMessageId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Messages across all of the user's conversations past the cursor's position
+   * in each, in (conversation_id, seq) order so a page is a prefix of every conversation
+   */
+  async findForSync(userId: string, after: SyncCursor, limit: number): Promise<Message[]> {
+    try {
+      return await this.repository
+        .createQueryBuilder('message')
+        .innerJoin(
+          'participants',
+          'participant',
+          'participant.conversation_id = message.conversation_id AND participant.user_id = :userId',
+          { userId }
+        )
+        .where('message.deletedAt IS NULL')
+        .andWhere(
+          `message.seq > COALESCE((CAST(:positions AS jsonb) ->> message.conversation_id::text)::bigint, 0)`,
+          { positions: JSON.stringify(after.positions) }
+        )
+        .orderBy('message.conversationId', 'ASC')
+        .addOrderBy('message.seq', 'ASC')
+        .limit(limit)
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to find messages for sync', error, {
+        service: 'MessageRepository',
+        operation: 'findForSync',
+        userId,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async findSyncHeadsForUser(userId: string): Promise<SyncCursor> {
+    try {
+      const rows: Array<{ id: string; last_message_seq: string }> = await this.repository.query(
+        `SELECT c.id, c.last_message_seq
+         FROM conversations c
+         INNER JOIN participants p ON p.conversation_id = c.id AND p.user_id = $1`,
+        [userId]
+      );
+
+      return SyncCursor.create(
+        Object.fromEntries(rows.map(row => [row.id, Number(row.last_message_seq)]))
+      );
+    } catch (error) {
+      this.logger.error('Failed to find sync heads for user', error, {
+        service: 'MessageRepository',
+        operation: 'findSyncHeadsForUser',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async searchForUser(userId: string, criteria: MessageSearchCriteria, limit: number): Promise<MessageSearchHit[]> {
+    try {
+      const tsQuery = `websearch_to_tsquery('simple', :query)`;
+      const rank = `ts_rank(message.search_vector, ${tsQuery})`;
+      // Escape before highlighting so the only markup in a snippet is our own <mark>
+      const escapedContent = `replace(replace(replace(message.content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+      let query = this.repository
+        .createQueryBuilder('message')
+        .innerJoin(
+          'participants',
+          'participant',
+          'participant.conversation_id = message.conversation_id AND participant.user_id = :userId',
+          { userId }
+        )
+        .innerJoin('conversations', 'conversation', 'conversation.id = message.conversation_id')
+        .addSelect('conversation.type', 'conversation_type')
+        .addSelect(rank, 'rank')
+        .addSelect(
+          `ts_headline('simple', ${escapedContent}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5')`,
+          'snippet'
+        )
+        .where(`message.search_vector @@ ${tsQuery}`, { query: criteria.query })
+        .andWhere('message.deletedAt IS NULL');
+
+      if (criteria.senderId) {
+        query = query.andWhere('message.senderId = :senderId', { senderId: criteria.senderId });
+      }
+      if (criteria.conversationType) {
+        query = query.andWhere('conversation.type = :conversationType', { conversationType: criteria.conversationType });
+      }
+      if (criteria.messageType) {
+        query = query.andWhere('message.type = :messageType', { messageType: criteria.messageType });
+      }
+      if (criteria.from) {
+        query = query.andWhere('message.sentAt >= :from', { from: criteria.from });
+      }
+      if (criteria.to) {
+        query = query.andWhere('message.sentAt <= :to', { to: criteria.to });
+      }
+      if (criteria.after) {
+        // The cursor's timestamp is only millisecond precise, so prefer the stored sent_at
+        query = query.andWhere(
+          `(${rank}, message.sent_at, message.id) < (
+            CAST(:afterRank AS real),
+            COALESCE((SELECT m.sent_at FROM messages m WHERE m.id = :afterId), :afterSentAt),
+            :afterId
+          )`,
+          { afterRank: criteria.after.rank, afterId: criteria.after.messageId, afterSentAt: criteria.after.sentAt }
+        );
+      }
+
+      const { entities, raw } = await query
+        .orderBy('rank', 'DESC')
+        .addOrderBy('message.sentAt', 'DESC')
+        .addOrderBy('message.id', 'DESC')
+        .limit(limit)
+        .getRawAndEntities();
+
+      return entities.map((message, index) => ({
+        message,
+        conversationType: raw[index].conversation_type,
+        rank: Number(raw[index].rank),
+        snippet: raw[index].snippet,
+      }));
+    } catch (error) {
+      this.logger.error('Failed to search messages for user', error, {
+        service: 'MessageRepository',
+        operation: 'searchForUser',
+        userId,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async countThreadReplies(parentMessageId: string): Promise<number> {
+    try {
+      return await this.repository.count({
+        where: {
+          parentMessageId,
+          deletedAt: null as any,
+        },
+      });
+    } catch (error) {
+      this.logger.error('Failed to count thread replies', error, {
+        service: 'MessageRepository',
+        operation: 'countThreadReplies',
+        parentMessageId,
+      });
+      throw error;
+    }
+  }
+
   async save(message: Message): Promise<Message> {
     try {
       const savedMessage = await this.repository.save(message);
@@ -130,6 +340,97 @@ export class MessageRepository implements IMessageRepository {
       throw error;
     }
   }
+
+  async findExpiredEphemeral(limit: number): Promise<Message[]> {
+    try {
+      // Due once some recipient's timer has fired and no current participant is still counting down
+      return await this.repository
+        .createQueryBuilder('message')
+        .where('message.expiresAfterReadSeconds IS NOT NULL')
+        .andWhere(`EXISTS (
+          SELECT 1 FROM message_receipts r
+          WHERE r.message_id = message.id AND r.expires_at <= NOW()
+        )`)
+        .andWhere(`NOT EXISTS (
+          SELECT 1 FROM message_receipts r
+          JOIN participants p ON p.conversation_id = r.conversation_id AND p.user_id = r.user_id
+          WHERE r.message_id = message.id AND (r.expires_at IS NULL OR r.expires_at > NOW())
+        )`)
+        .orderBy('message.sentAt', 'ASC')
+        .limit(limit)
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to find expired ephemeral messages', error, {
+        service: 'MessageRepository',
+        operation: 'findExpiredEphemeral',
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async hardDeleteExpired(messageIds: string[]): Promise<ExpiredMessageDeletion> {
+    try {
+      if (messageIds.length === 0) return { deletedIds: [], storageKeys: [] };
+
+      return await this.repository.manager.transaction(async manager => {
+        // Step read pointers and conversation previews back to the newest surviving
+        // message, otherwise the foreign keys null them and everything reads as unread
+        const previousSurvivor = `(
+          SELECT prev.id FROM messages prev
+          WHERE prev.conversation_id = gone.conversation_id
+            AND prev.sent_at <= gone.sent_at
+            AND prev.id <> ALL($1::uuid[])
+          ORDER BY prev.sent_at DESC
+          LIMIT 1
+        )`;
+
+        await manager.query(
+          `UPDATE participants p SET last_read_message_id = ${previousSurvivor}
+           FROM messages gone
+           WHERE gone.id = p.last_read_message_id AND gone.id = ANY($1::uuid[])`,
+          [messageIds],
+        );
+        await manager.query(
+          `UPDATE conversations c SET last_message_id = ${previousSurvivor}
+           FROM messages gone
+           WHERE gone.id = c.last_message_id AND gone.id = ANY($1::uuid[])`,
+          [messageIds],
+        );
+
+        // Before the messages, or the foreign key would only null message_id
+        const attachmentResult = await manager.query(
+          `DELETE FROM attachments WHERE message_id = ANY($1::uuid[]) RETURNING storage_key`,
+          [messageIds],
+        );
+        const result = await manager.query(
+          `DELETE FROM messages WHERE id = ANY($1::uuid[]) RETURNING id`,
+          [messageIds],
+        );
+        // pg returns [rows, affectedCount] for DELETE ... RETURNING
+        const attachmentRows: Array<{ storage_key: string }> =
+          Array.isArray(attachmentResult[0]) ? attachmentResult[0] : attachmentResult;
+        const rows: Array<{ id: string }> = Array.isArray(result[0]) ? result[0] : result;
+        const deletedIds = rows.map(row => row.id);
+
+        this.logger.debug('Expired ephemeral messages deleted', {
+          service: 'MessageRepository',
+          operation: 'hardDeleteExpired',
+          count: deletedIds.length,
+          attachmentCount: attachmentRows.length,
+        });
+
+        return { deletedIds, storageKeys: attachmentRows.map(row => row.storage_key) };
+      });
+    } catch (error) {
+      this.logger.error('Failed to delete expired ephemeral messages', error, {
+        service: 'MessageRepository',
+        operation: 'hardDeleteExpired',
+        count: messageIds.length,
+      });
+      throw error;
+    }
+  }
 }
 
 @Injectable()
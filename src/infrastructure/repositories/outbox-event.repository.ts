@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { BaseDomainEvent } from '@domain/events/base-domain-event';
+import { IOutboxEventRepository } from '@domain/repositories/outbox-event.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class OutboxEventRepository implements IOutboxEventRepository {
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private readonly repository: Repository<OutboxEvent>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async append(events: BaseDomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(OutboxEvent)
+        .values(
+          events.map(event => ({
+            eventId: event.eventId,
+            eventName: event.getEventName(),
+            aggregateId: event.aggregateId,
+            payload: event.toJSON(),
+            status: 'pending' as const,
+            attempts: 0,
+            nextAttemptAt: now,
+          })),
+        )
+        .orIgnore()
+        .execute();
+
+      this.logger.debug('Domain events appended to outbox', {
+        service: 'OutboxEventRepository',
+        operation: 'append',
+        events: events.map(event => event.getEventName()),
+      });
+    } catch (error) {
+      this.logger.error('Failed to append domain events to outbox', error, {
+        service: 'OutboxEventRepository',
+        operation: 'append',
+        count: events.length,
+      });
+      throw error;
+    }
+  }
+
+  async claimBatch(limit: number, lockTimeoutMs: number): Promise<OutboxEvent[]> {
+    try {
+      // SKIP LOCKED lets several relays share the table without handing out a row twice.
+      // The attempt is counted here so an event that keeps crashing its relay still runs out
+      const rows = await this.repository.query(
+        `UPDATE outbox_events
+         SET status = 'processing', locked_at = NOW(), attempts = attempts + 1
+         WHERE id IN (
+           SELECT id FROM outbox_events
+           WHERE (status = 'pending' AND next_attempt_at <= NOW())
+              OR (status = 'processing' AND locked_at < NOW() - ($2 * INTERVAL '1 millisecond'))
+           ORDER BY created_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id`,
+        [limit, lockTimeoutMs],
+      );
+
+      const ids: string[] = (Array.isArray(rows[0]) ? rows[0] : rows).map((row: { id: string }) => row.id);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      return await this.repository
+        .createQueryBuilder('outbox')
+        .whereInIds(ids)
+        .orderBy('outbox.createdAt', 'ASC')
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to claim outbox batch', error, {
+        service: 'OutboxEventRepository',
+        operation: 'claimBatch',
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'delivered',
+        deliveredAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      });
+    } catch (error) {
+      this.logger.error('Failed to mark outbox event delivered', error, {
+        service: 'OutboxEventRepository',
+        operation: 'markDelivered',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt,
+        lockedAt: null,
+        lastError,
+      });
+    } catch (error) {
+      this.logger.error('Failed to schedule outbox retry', error, {
+        service: 'OutboxEventRepository',
+        operation: 'scheduleRetry',
+        id,
+        attempts,
+      });
+      throw error;
+    }
+  }
+
+  async markDead(id: string, attempts: number, lastError: string): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'dead',
+        attempts,
+        lockedAt: null,
+        lastError,
+      });
+    } catch (error) {
+      this.logger.error('Failed to dead-letter outbox event', error, {
+        service: 'OutboxEventRepository',
+        operation: 'markDead',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async findDead(limit: number): Promise<OutboxEvent[]> {
+    try {
+      return await this.repository.find({
+        where: { status: 'dead' },
+        order: { createdAt: 'DESC' },
+        take: limit,
+      });
+    } catch (error) {
+      this.logger.error('Failed to find dead-lettered outbox events', error, {
+        service: 'OutboxEventRepository',
+        operation: 'findDead',
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async requeue(id: string): Promise<boolean> {
+    try {
+      const result = await this.repository.update(
+        { id, status: 'dead' },
+        { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      this.logger.error('Failed to requeue outbox event', error, {
+        service: 'OutboxEventRepository',
+        operation: 'requeue',
+        id,
+      });
+      throw error;
+    }
+  }
+}
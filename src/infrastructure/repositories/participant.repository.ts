@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, Not, IsNull } from 'typeorm';
 import { Participant } from '@domain/entities/participant.entity';
 import { ParticipantRole } from '@domain/value-objects/participant-role.vo';
 import { IParticipantRepository, IParticipantQueryRepository, IParticipantCommandRepository } from '@domain/repositories/participant.repository.interface';
@@ -213,6 +213,19 @@ export class ParticipantQueryRepository implements IParticipantQueryRepository {
     }
   }
 
+  async countPinned(userId: string): Promise<number> {
+    try {
+      return await this.repository.count({ where: { userId, pinnedAt: Not(IsNull()) } });
+    } catch (error) {
+      this.logger.error('Failed to count pinned conversations', error, {
+        service: 'ParticipantQueryRepository',
+        operation: 'countPinned',
+        userId,
+      });
+      throw error;
+    }
+  }
+
   async isParticipant(conversationId: string, userId: string): Promise<boolean> {
     try {
       const count = await this.repository.count({
@@ -242,6 +255,33 @@ export class ParticipantQueryRepository implements IParticipantQueryRepository {
       throw error;
     }
   }
+
+  /**
+   * Everyone who shares at least one conversation with the user
+   */
+  async findContactUserIds(userId: string): Promise<string[]> {
+    try {
+      const results = await this.repository
+        .createQueryBuilder('participant')
+        .innerJoin(
+          'participants',
+          'other',
+          'other.conversation_id = participant.conversation_id AND other.user_id != participant.user_id'
+        )
+        .select('DISTINCT other.user_id', 'userId')
+        .where('participant.user_id = :userId', { userId })
+        .getRawMany();
+
+      return results.map(result => result.userId);
+    } catch (error) {
+      this.logger.error('Failed to find contact user ids', error, {
+        service: 'ParticipantQueryRepository',
+        operation: 'findContactUserIds',
+        userId,
+      });
+      throw error;
+    }
+  }
 }
 
 @Injectable()
@@ -362,11 +402,11 @@ export class ParticipantCommandRepository implements IParticipantCommandReposito
     }
   }
 
-  async toggleMute(conversationId: string, userId: string, isMuted: boolean): Promise<void> {
+  async toggleMute(conversationId: string, userId: string, isMuted: boolean, mutedUntil: Date | null = null): Promise<void> {
     try {
       await this.repository.update(
         { conversationId, userId },
-        { isMuted }
+        { isMuted, mutedUntil: isMuted ? mutedUntil : null }
       );
       this.logger.debug('Participant mute status updated', {
         service: 'ParticipantCommandRepository',
@@ -374,6 +414,7 @@ export class ParticipantCommandRepository implements IParticipantCommandReposito
         conversationId,
         userId,
         isMuted,
+        mutedUntil,
       });
     } catch (error) {
       this.logger.error('Failed to update participant mute status', error, {
@@ -386,4 +427,114 @@ export class ParticipantCommandRepository implements IParticipantCommandReposito
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async setArchived(conversationId: string, userId: string, archivedAt: Date | null): Promise<void> {
+    try {
+      await this.repository.update({ conversationId, userId }, { archivedAt });
+      this.logger.debug('Participant archive state updated', {
+        service: 'ParticipantCommandRepository',
+        operation: 'setArchived',
+        conversationId,
+        userId,
+        archived: !!archivedAt,
+      });
+    } catch (error) {
+      this.logger.error('Failed to update participant archive state', error, {
+        service: 'ParticipantCommandRepository',
+        operation: 'setArchived',
+        conversationId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async setPinned(conversationId: string, userId: string, pinnedAt: Date | null): Promise<void> {
+    try {
+      await this.repository.update({ conversationId, userId }, { pinnedAt });
+      this.logger.debug('Participant pin state updated', {
+        service: 'ParticipantCommandRepository',
+        operation: 'setPinned',
+        conversationId,
+        userId,
+        pinned: !!pinnedAt,
+      });
+    } catch (error) {
+      this.logger.error('Failed to update participant pin state', error, {
+        service: 'ParticipantCommandRepository',
+        operation: 'setPinned',
+        conversationId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async pinWithinLimit(conversationId: string, userId: string, maxPinned: number): Promise<boolean> {
+    try {
+      return await this.repository.manager.transaction(async manager => {
+        // Locking all of the user's rows serialises concurrent pins, so the count can't go stale
+        const rows: Array<{ conversation_id: string; pinned_at: Date | null }> = await manager.query(
+          `SELECT conversation_id, pinned_at FROM participants WHERE user_id = $1 FOR UPDATE`,
+          [userId]
+        );
+
+        const target = rows.find(row => row.conversation_id === conversationId);
+        if (!target) {
+          return false;
+        }
+        if (target.pinned_at) {
+          return true;
+        }
+        if (rows.filter(row => row.pinned_at).length >= maxPinned) {
+          return false;
+        }
+
+        await manager.query(
+          `UPDATE participants SET pinned_at = NOW() WHERE conversation_id = $1 AND user_id = $2`,
+          [conversationId, userId]
+        );
+        this.logger.debug('Participant pin state updated', {
+          service: 'ParticipantCommandRepository',
+          operation: 'pinWithinLimit',
+          conversationId,
+          userId,
+          pinned: true,
+        });
+        return true;
+      });
+    } catch (error) {
+      this.logger.error('Failed to pin conversation for participant', error, {
+        service: 'ParticipantCommandRepository',
+        operation: 'pinWithinLimit',
+        conversationId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  async unarchiveForNewMessage(conversationId: string): Promise<string[]> {
+    try {
+      // Participants who muted the conversation keep it archived
+      const result = await this.repository.query(
+        `UPDATE participants SET archived_at = NULL
+         WHERE conversation_id = $1
+           AND archived_at IS NOT NULL
+           AND NOT (is_muted AND (muted_until IS NULL OR muted_until > NOW()))
+         RETURNING user_id`,
+        [conversationId]
+      );
+      // pg returns [rows, affectedCount] for UPDATE ... RETURNING
+      const rows: Array<{ user_id: string }> = Array.isArray(result[0]) ? result[0] : result;
+      return rows.map(row => row.user_id);
+    } catch (error) {
+      this.logger.error('Failed to unarchive conversation for participants', error, {
+        service: 'ParticipantCommandRepository',
+        operation: 'unarchiveForNewMessage',
+        conversationId,
+      });
+      throw error;
+    }
+  }
+}
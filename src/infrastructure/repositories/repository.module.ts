@@ -4,6 +4,19 @@ import { User } from '@domain/entities/user.entity';
 import { Conversation } from '@domain/entities/conversation.entity';
 import { Message } from '@domain/entities/message.entity';
 import { Participant } from '@domain/entities/participant.entity';
+import { MessageReaction } from '@domain/entities/message-reaction.entity';
+import { Attachment } from '@domain/entities/attachment.entity';
+import { MessageReceipt } from '@domain/entities/message-receipt.entity';
+import { DeviceSyncCursor } from '@domain/entities/device-sync-cursor.entity';
+import { OutboxEvent } from '@domain/entities/outbox-event.entity';
+import { WebhookSubscription } from '@domain/entities/webhook-subscription.entity';
+import { WebhookDelivery } from '@domain/entities/webhook-delivery.entity';
+import { UserBlock } from '@domain/entities/user-block.entity';
+import { UserReport } from '@domain/entities/user-report.entity';
+import { BusinessAgent } from '@domain/entities/business-agent.entity';
+import { ConversationAssignment } from '@domain/entities/conversation-assignment.entity';
+import { BusinessAutoReply } from '@domain/entities/business-auto-reply.entity';
+import { AuthSession } from '@domain/entities/auth-session.entity';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 // Repository interfaces
@@ -11,6 +24,19 @@ import { IUserRepository, IUserQueryRepository, IUserCommandRepository } from '@
 import { IConversationRepository, IConversationQueryRepository, IConversationCommandRepository } from '@domain/repositories/conversation.repository.interface';
 import { IMessageRepository, IMessageQueryRepository, IMessageCommandRepository } from '@domain/repositories/message.repository.interface';
 import { IParticipantRepository, IParticipantQueryRepository, IParticipantCommandRepository } from '@domain/repositories/participant.repository.interface';
+import { IMessageReactionRepository } from '@domain/repositories/message-reaction.repository.interface';
+import { IAttachmentRepository } from '@domain/repositories/attachment.repository.interface';
+import { IMessageReceiptRepository } from '@domain/repositories/message-receipt.repository.interface';
+import { IDeviceSyncCursorRepository } from '@domain/repositories/device-sync-cursor.repository.interface';
+import { IOutboxEventRepository } from '@domain/repositories/outbox-event.repository.interface';
+import { IWebhookSubscriptionRepository } from '@domain/repositories/webhook-subscription.repository.interface';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { IUserBlockRepository } from '@domain/repositories/user-block.repository.interface';
+import { IUserReportRepository } from '@domain/repositories/user-report.repository.interface';
+import { IBusinessAgentRepository } from '@domain/repositories/business-agent.repository.interface';
+import { IConversationAssignmentRepository } from '@domain/repositories/conversation-assignment.repository.interface';
+import { IBusinessAutoReplyRepository } from '@domain/repositories/business-auto-reply.repository.interface';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
 import { ITransactionManager } from '@domain/repositories/unit-of-work.interface';
 
 // Repository implementations
@@ -18,6 +44,21 @@ import { UserRepository, UserQueryRepository, UserCommandRepository } from './us
 import { ConversationRepository, ConversationQueryRepository, ConversationCommandRepository } from './conversation.repository';
 import { MessageRepository, MessageQueryRepository, MessageCommandRepository } from './message.repository';
 import { ParticipantRepository, ParticipantQueryRepository, ParticipantCommandRepository } from './participant.repository';
+import { MessageReactionRepository } from './message-reaction.repository';
+import { AttachmentRepository } from './attachment.repository';
+import { MessageReceiptRepository } from './message-receipt.repository';
+import { DeviceSyncCursorRepository } from './device-sync-cursor.repository';
+import { EnhancedConversationRepository } from './enhanced-conversation.repository';
+import { EnhancedMessageRepository } from './enhanced-message.repository';
+import { OutboxEventRepository } from './outbox-event.repository';
+import { WebhookSubscriptionRepository } from './webhook-subscription.repository';
+import { WebhookDeliveryRepository } from './webhook-delivery.repository';
+import { UserBlockRepository } from './user-block.repository';
+import { UserReportRepository } from './user-report.repository';
+import { BusinessAgentRepository } from './business-agent.repository';
+import { ConversationAssignmentRepository } from './conversation-assignment.repository';
+import { BusinessAutoReplyRepository } from './business-auto-reply.repository';
+import { AuthSessionRepository } from './auth-session.repository';
 import { TransactionManager } from './unit-of-work';
 
 // Decorators
@@ -26,7 +67,7 @@ import { PerformanceMonitoringUserRepository } from './decorators/performance-mo
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User, Conversation, Message, Participant]),
+    TypeOrmModule.forFeature([User, Conversation, Message, Participant, MessageReaction, Attachment, MessageReceipt, DeviceSyncCursor, OutboxEvent, WebhookSubscription, WebhookDelivery, UserBlock, UserReport, BusinessAgent, ConversationAssignment, BusinessAutoReply, AuthSession]),
   ],
   providers: [
     // Logging service
@@ -45,6 +86,21 @@ import { PerformanceMonitoringUserRepository } from './decorators/performance-mo
     ParticipantRepository,
     ParticipantQueryRepository,
     ParticipantCommandRepository,
+    MessageReactionRepository,
+    AttachmentRepository,
+    MessageReceiptRepository,
+    DeviceSyncCursorRepository,
+    EnhancedConversationRepository,
+    EnhancedMessageRepository,
+    OutboxEventRepository,
+    WebhookSubscriptionRepository,
+    WebhookDeliveryRepository,
+    UserBlockRepository,
+    UserReportRepository,
+    BusinessAgentRepository,
+    ConversationAssignmentRepository,
+    BusinessAutoReplyRepository,
+    AuthSessionRepository,
 
     // Transaction management
     TransactionManager,
@@ -98,6 +154,58 @@ import { PerformanceMonitoringUserRepository } from './decorators/performance-mo
       provide: 'IParticipantCommandRepository',
       useClass: ParticipantCommandRepository,
     },
+    {
+      provide: 'IMessageReactionRepository',
+      useClass: MessageReactionRepository,
+    },
+    {
+      provide: 'IAttachmentRepository',
+      useClass: AttachmentRepository,
+    },
+    {
+      provide: 'IMessageReceiptRepository',
+      useClass: MessageReceiptRepository,
+    },
+    {
+      provide: 'IDeviceSyncCursorRepository',
+      useClass: DeviceSyncCursorRepository,
+    },
+    {
+      provide: 'IOutboxEventRepository',
+      useClass: OutboxEventRepository,
+    },
+    {
+      provide: 'IWebhookSubscriptionRepository',
+      useClass: WebhookSubscriptionRepository,
+    },
+    {
+      provide: 'IWebhookDeliveryRepository',
+      useClass: WebhookDeliveryRepository,
+    },
+    {
+      provide: 'IUserBlockRepository',
+      useClass: UserBlockRepository,
+    },
+    {
+      provide: 'IUserReportRepository',
+      useClass: UserReportRepository,
+    },
+    {
+      provide: 'IBusinessAgentRepository',
+      useClass: BusinessAgentRepository,
+    },
+    {
+      provide: 'IConversationAssignmentRepository',
+      useClass: ConversationAssignmentRepository,
+    },
+    {
+      provide: 'IBusinessAutoReplyRepository',
+      useClass: BusinessAutoReplyRepository,
+    },
+    {
+      provide: 'IAuthSessionRepository',
+      useClass: AuthSessionRepository,
+    },
     {
       provide: 'ITransactionManager',
       useClass: TransactionManager,
@@ -117,7 +225,22 @@ import { PerformanceMonitoringUserRepository } from './decorators/performance-mo
     'IParticipantRepository',
     'IParticipantQueryRepository',
     'IParticipantCommandRepository',
+    'IMessageReactionRepository',
+    'IAttachmentRepository',
+    'IMessageReceiptRepository',
+    'IDeviceSyncCursorRepository',
+    'IOutboxEventRepository',
+    'IWebhookSubscriptionRepository',
+    'IWebhookDeliveryRepository',
+    'IUserBlockRepository',
+    'IUserReportRepository',
+    'IBusinessAgentRepository',
+    'IConversationAssignmentRepository',
+    'IBusinessAutoReplyRepository',
+    'IAuthSessionRepository',
     'ITransactionManager',
+    EnhancedConversationRepository,
+    EnhancedMessageRepository,
   ],
 })
 export class RepositoryModule {}
\ No newline at end of file
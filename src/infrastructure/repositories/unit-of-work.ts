@@ -5,10 +5,16 @@ import { IUserCommandRepository } from '@domain/repositories/user.repository.int
 import { IConversationCommandRepository } from '@domain/repositories/conversation.repository.interface';
 import { IMessageCommandRepository } from '@domain/repositories/message.repository.interface';
 import { IParticipantCommandRepository } from '@domain/repositories/participant.repository.interface';
+import { IAttachmentRepository } from '@domain/repositories/attachment.repository.interface';
+import { IConversationAssignmentRepository } from '@domain/repositories/conversation-assignment.repository.interface';
 import { UserCommandRepository } from './user.repository';
 import { ConversationCommandRepository } from './conversation.repository';
 import { MessageCommandRepository } from './message.repository';
 import { ParticipantCommandRepository } from './participant.repository';
+import { AttachmentRepository } from './attachment.repository';
+import { ConversationAssignmentRepository } from './conversation-assignment.repository';
+import { OutboxEventRepository } from './outbox-event.repository';
+import { BaseDomainEvent } from '@domain/events/base-domain-event';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
 
 export class UnitOfWork implements IUnitOfWork {
@@ -16,9 +22,13 @@ export class UnitOfWork implements IUnitOfWork {
   public conversations: IConversationCommandRepository;
   public messages: IMessageCommandRepository;
   public participants: IParticipantCommandRepository;
+  public attachments: IAttachmentRepository;
+  public assignments: IConversationAssignmentRepository;
 
   private queryRunner: QueryRunner;
   private isTransactionActive = false;
+  private outbox: OutboxEventRepository;
+  private pendingEvents: BaseDomainEvent[] = [];
 
   constructor(
     private readonly dataSource: DataSource,
@@ -43,6 +53,22 @@ export class UnitOfWork implements IUnitOfWork {
       this.queryRunner.manager.getRepository('Participant'),
       this.logger,
     );
+    this.attachments = new AttachmentRepository(
+      this.queryRunner.manager.getRepository('Attachment'),
+      this.logger,
+    );
+    this.assignments = new ConversationAssignmentRepository(
+      this.queryRunner.manager.getRepository('ConversationAssignment'),
+      this.logger,
+    );
+    this.outbox = new OutboxEventRepository(
+      this.queryRunner.manager.getRepository('OutboxEvent'),
+      this.logger,
+    );
+  }
+
+  publish(...events: BaseDomainEvent[]): void {
+    this.pendingEvents.push(...events);
   }
 
   async begin(): Promise<void> {
@@ -65,6 +91,13 @@ export class UnitOfWork implements IUnitOfWork {
   }
 
   async commit(): Promise<void> {
+    // Written inside the transaction so events land together with the changes that
+    // raised them; a failure here leaves the transaction open for the caller to roll back
+    if (this.isTransactionActive && this.pendingEvents.length > 0) {
+      await this.outbox.append(this.pendingEvents);
+      this.pendingEvents = [];
+    }
+
     try {
       if (!this.isTransactionActive) {
         throw new Error('No active transaction to commit');
@@ -96,6 +129,7 @@ export class UnitOfWork implements IUnitOfWork {
 
       await this.queryRunner.rollbackTransaction();
       this.isTransactionActive = false;
+      this.pendingEvents = [];
       
       this.logger.debug('Transaction rolled back', {
         service: 'UnitOfWork',
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserBlock } from '@domain/entities/user-block.entity';
+import { IUserBlockRepository } from '@domain/repositories/user-block.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class UserBlockRepository implements IUserBlockRepository {
+  constructor(
+    @InjectRepository(UserBlock)
+    private readonly repository: Repository<UserBlock>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async block(blockerId: string, blockedId: string): Promise<UserBlock> {
+    try {
+      await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(UserBlock)
+        .values({ blockerId, blockedId })
+        .orIgnore()
+        .execute();
+
+      return await this.repository.findOneOrFail({ where: { blockerId, blockedId } });
+    } catch (error) {
+      this.logger.error('Failed to block user', error, {
+        service: 'UserBlockRepository',
+        operation: 'block',
+        blockerId,
+        blockedId,
+      });
+      throw error;
+    }
+  }
+
+  async unblock(blockerId: string, blockedId: string): Promise<void> {
+    try {
+      await this.repository.delete({ blockerId, blockedId });
+    } catch (error) {
+      this.logger.error('Failed to unblock user', error, {
+        service: 'UserBlockRepository',
+        operation: 'unblock',
+        blockerId,
+        blockedId,
+      });
+      throw error;
+    }
+  }
+
+  async findByBlocker(
+    blockerId: string,
+    limit: number,
+    offset: number,
+  ): Promise<{ blocks: UserBlock[]; total: number }> {
+    try {
+      const [blocks, total] = await this.repository.findAndCount({
+        where: { blockerId },
+        order: { createdAt: 'DESC' },
+        take: limit,
+        skip: offset,
+      });
+      return { blocks, total };
+    } catch (error) {
+      this.logger.error('Failed to find blocked users', error, {
+        service: 'UserBlockRepository',
+        operation: 'findByBlocker',
+        blockerId,
+      });
+      throw error;
+    }
+  }
+
+  async existsBetween(userId1: string, userId2: string): Promise<boolean> {
+    try {
+      const count = await this.repository.count({
+        where: [
+          { blockerId: userId1, blockedId: userId2 },
+          { blockerId: userId2, blockedId: userId1 },
+        ],
+      });
+      return count > 0;
+    } catch (error) {
+      this.logger.error('Failed to check block between users', error, {
+        service: 'UserBlockRepository',
+        operation: 'existsBetween',
+        userId1,
+        userId2,
+      });
+      throw error;
+    }
+  }
+
+  async findBlockerIds(blockedId: string): Promise<string[]> {
+    try {
+      const blocks = await this.repository.find({
+        select: { blockerId: true },
+        where: { blockedId },
+      });
+      return blocks.map(block => block.blockerId);
+    } catch (error) {
+      this.logger.error('Failed to find blockers of user', error, {
+        service: 'UserBlockRepository',
+        operation: 'findBlockerIds',
+        blockedId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { UserReport } from '@domain/entities/user-report.entity';
+import { IUserReportRepository, UserReportQuery } from '@domain/repositories/user-report.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class UserReportRepository implements IUserReportRepository {
+  constructor(
+    @InjectRepository(UserReport)
+    private readonly repository: Repository<UserReport>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async save(report: UserReport): Promise<UserReport> {
+    try {
+      return await this.repository.save(report);
+    } catch (error) {
+      this.logger.error('Failed to save user report', error, {
+        service: 'UserReportRepository',
+        operation: 'save',
+        reportId: report.id,
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<UserReport | null> {
+    try {
+      const report = await this.repository.findOne({ where: { id } });
+      return report || null;
+    } catch (error) {
+      this.logger.error('Failed to find user report', error, {
+        service: 'UserReportRepository',
+        operation: 'findById',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async findMany(query: UserReportQuery): Promise<{ reports: UserReport[]; total: number }> {
+    try {
+      const where: FindOptionsWhere<UserReport> = {};
+      if (query.status) {
+        where.status = query.status;
+      }
+      if (query.reportedUserId) {
+        where.reportedUserId = query.reportedUserId;
+      }
+
+      const [reports, total] = await this.repository.findAndCount({
+        where,
+        order: { createdAt: 'ASC' },
+        take: query.limit,
+        skip: query.offset,
+      });
+      return { reports, total };
+    } catch (error) {
+      this.logger.error('Failed to list user reports', error, {
+        service: 'UserReportRepository',
+        operation: 'findMany',
+        status: query.status,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WebhookDelivery, WebhookDeliveryStatus } from '@domain/entities/webhook-delivery.entity';
+import { DomainEventEnvelope } from '@domain/events/domain-event-bus.interface';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class WebhookDeliveryRepository implements IWebhookDeliveryRepository {
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private readonly repository: Repository<WebhookDelivery>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async enqueue(subscriptionIds: string[], event: DomainEventEnvelope): Promise<void> {
+    if (subscriptionIds.length === 0) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(WebhookDelivery)
+        .values(
+          subscriptionIds.map(subscriptionId => ({
+            subscriptionId,
+            eventId: event.eventId,
+            eventName: event.eventName,
+            payload: event,
+            status: 'pending' as const,
+            attempts: 0,
+            nextAttemptAt: now,
+          })),
+        )
+        .orIgnore()
+        .execute();
+    } catch (error) {
+      this.logger.error('Failed to enqueue webhook deliveries', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'enqueue',
+        eventId: event.eventId,
+        subscriptionIds,
+      });
+      throw error;
+    }
+  }
+
+  async claimBatch(limit: number, lockTimeoutMs: number): Promise<WebhookDelivery[]> {
+    try {
+      const rows = await this.repository.query(
+        `UPDATE webhook_deliveries
+         SET status = 'processing', locked_at = NOW()
+         WHERE id IN (
+           SELECT id FROM webhook_deliveries
+           WHERE (status = 'pending' AND next_attempt_at <= NOW())
+              OR (status = 'processing' AND locked_at < NOW() - ($2 * INTERVAL '1 millisecond'))
+           ORDER BY next_attempt_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id`,
+        [limit, lockTimeoutMs],
+      );
+
+      const ids: string[] = (Array.isArray(rows[0]) ? rows[0] : rows).map((row: { id: string }) => row.id);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      return await this.repository
+        .createQueryBuilder('delivery')
+        .innerJoinAndSelect('delivery.subscription', 'subscription')
+        .whereInIds(ids)
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to claim webhook deliveries', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'claimBatch',
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  async markDelivered(id: string, attempts: number, responseStatus: number): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'delivered',
+        attempts,
+        responseStatus,
+        deliveredAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      });
+    } catch (error) {
+      this.logger.error('Failed to mark webhook delivery delivered', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'markDelivered',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async scheduleRetry(
+    id: string,
+    attempts: number,
+    nextAttemptAt: Date,
+    lastError: string,
+    responseStatus?: number,
+  ): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt,
+        responseStatus: responseStatus ?? null,
+        lockedAt: null,
+        lastError,
+      });
+    } catch (error) {
+      this.logger.error('Failed to schedule webhook retry', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'scheduleRetry',
+        id,
+        attempts,
+      });
+      throw error;
+    }
+  }
+
+  async markFailed(id: string, attempts: number, lastError: string, responseStatus?: number): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'failed',
+        attempts,
+        responseStatus: responseStatus ?? null,
+        lockedAt: null,
+        lastError,
+      });
+    } catch (error) {
+      this.logger.error('Failed to mark webhook delivery failed', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'markFailed',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const delivery = await this.repository.findOne({ where: { id } });
+      return delivery || null;
+    } catch (error) {
+      this.logger.error('Failed to find webhook delivery', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'findById',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async findBySubscription(
+    subscriptionId: string,
+    limit: number,
+    status?: WebhookDeliveryStatus,
+  ): Promise<WebhookDelivery[]> {
+    try {
+      return await this.repository.find({
+        where: status ? { subscriptionId, status } : { subscriptionId },
+        order: { createdAt: 'DESC' },
+        take: limit,
+      });
+    } catch (error) {
+      this.logger.error('Failed to find webhook deliveries', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'findBySubscription',
+        subscriptionId,
+      });
+      throw error;
+    }
+  }
+
+  async replay(id: string): Promise<void> {
+    try {
+      await this.repository.update(id, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+        responseStatus: null,
+        deliveredAt: null,
+      });
+    } catch (error) {
+      this.logger.error('Failed to replay webhook delivery', error, {
+        service: 'WebhookDeliveryRepository',
+        operation: 'replay',
+        id,
+      });
+      throw error;
+    }
+  }
+}
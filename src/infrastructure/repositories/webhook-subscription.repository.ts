@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WebhookSubscription } from '@domain/entities/webhook-subscription.entity';
+import { IWebhookSubscriptionRepository } from '@domain/repositories/webhook-subscription.repository.interface';
+import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
+
+@Injectable()
+export class WebhookSubscriptionRepository implements IWebhookSubscriptionRepository {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly repository: Repository<WebhookSubscription>,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async save(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    try {
+      return await this.repository.save(subscription);
+    } catch (error) {
+      this.logger.error('Failed to save webhook subscription', error, {
+        service: 'WebhookSubscriptionRepository',
+        operation: 'save',
+        businessId: subscription.businessId,
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    try {
+      const subscription = await this.repository.findOne({ where: { id } });
+      return subscription || null;
+    } catch (error) {
+      this.logger.error('Failed to find webhook subscription', error, {
+        service: 'WebhookSubscriptionRepository',
+        operation: 'findById',
+        id,
+      });
+      throw error;
+    }
+  }
+
+  async findByBusiness(businessId: string): Promise<WebhookSubscription[]> {
+    try {
+      return await this.repository.find({
+        where: { businessId },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      this.logger.error('Failed to find webhook subscriptions for business', error, {
+        service: 'WebhookSubscriptionRepository',
+        operation: 'findByBusiness',
+        businessId,
+      });
+      throw error;
+    }
+  }
+
+  async findActiveForEvent(businessIds: string[], eventName: string): Promise<WebhookSubscription[]> {
+    if (businessIds.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.repository
+        .createQueryBuilder('subscription')
+        .where('subscription.businessId IN (:...businessIds)', { businessIds })
+        .andWhere('subscription.isActive = true')
+        .andWhere(':eventName = ANY(subscription.event_types)', { eventName })
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to find webhook subscriptions for event', error, {
+        service: 'WebhookSubscriptionRepository',
+        operation: 'findActiveForEvent',
+        businessIds,
+        eventName,
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.repository.delete(id);
+    } catch (error) {
+      this.logger.error('Failed to delete webhook subscription', error, {
+        service: 'WebhookSubscriptionRepository',
+        operation: 'delete',
+        id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { readImageDimensions, matchesImageSignature } from '../image-dimensions';
+
+const pngHeader = (width: number, height: number): Buffer => {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(0x0d0a1a0a, 4);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+};
+
+const gifHeader = (width: number, height: number): Buffer => {
+  const buffer = Buffer.alloc(10);
+  buffer.write('GIF89a', 0, 'ascii');
+  buffer.writeUInt16LE(width, 6);
+  buffer.writeUInt16LE(height, 8);
+  return buffer;
+};
+
+const jpegHeader = (width: number, height: number): Buffer => {
+  // SOI, an APP0 segment, then SOF0 with the frame size
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof0 = Buffer.alloc(11);
+  sof0.writeUInt16BE(0xffc0, 0);
+  sof0.writeUInt16BE(9, 2);
+  sof0[4] = 8;
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0]);
+};
+
+describe('image-dimensions', () => {
+  describe('readImageDimensions', () => {
+    it('should read PNG dimensions from the IHDR chunk', () => {
+      expect(readImageDimensions(pngHeader(640, 480), 'image/png')).toEqual({ width: 640, height: 480 });
+    });
+
+    it('should read GIF dimensions from the logical screen descriptor', () => {
+      expect(readImageDimensions(gifHeader(32, 16), 'image/gif')).toEqual({ width: 32, height: 16 });
+    });
+
+    it('should read JPEG dimensions from the SOF segment', () => {
+      expect(readImageDimensions(jpegHeader(1024, 768), 'image/jpeg')).toEqual({ width: 1024, height: 768 });
+    });
+
+    it('should return null for truncated or unknown data', () => {
+      expect(readImageDimensions(Buffer.alloc(4), 'image/png')).toBeNull();
+      expect(readImageDimensions(pngHeader(1, 1), 'application/pdf')).toBeNull();
+    });
+  });
+
+  describe('matchesImageSignature', () => {
+    it('should accept files whose bytes match the declared type', () => {
+      expect(matchesImageSignature(pngHeader(1, 1), 'image/png')).toBe(true);
+      expect(matchesImageSignature(gifHeader(1, 1), 'image/gif')).toBe(true);
+      expect(matchesImageSignature(jpegHeader(1, 1), 'image/jpeg')).toBe(true);
+    });
+
+    it('should reject files whose bytes do not match the declared type', () => {
+      expect(matchesImageSignature(Buffer.from('%PDF-1.7'), 'image/png')).toBe(false);
+      expect(matchesImageSignature(gifHeader(1, 1), 'image/jpeg')).toBe(false);
+    });
+  });
+});
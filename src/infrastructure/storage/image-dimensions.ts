@@ -0,0 +1,85 @@
+import { ImageDimensions } from './storage.interface';
+
+/**
+ * Read width/height from the header of common image formats without decoding the image.
+ * Returns null for formats we don't recognise or truncated headers.
+ */
+export function readImageDimensions(data: Buffer, mimeType: string): ImageDimensions | null {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return readPngDimensions(data);
+      case 'image/gif':
+        return readGifDimensions(data);
+      case 'image/jpeg':
+        return readJpegDimensions(data);
+      case 'image/webp':
+        return readWebpDimensions(data);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the leading bytes match the declared image type so a renamed file can't pass as an image
+ */
+export function matchesImageSignature(data: Buffer, mimeType: string): boolean {
+  switch (mimeType) {
+    case 'image/png':
+      return data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a;
+    case 'image/gif':
+      return data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.toString('ascii', 0, 6));
+    case 'image/jpeg':
+      return data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+    case 'image/webp':
+      return data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP';
+    default:
+      return false;
+  }
+}
+
+function readPngDimensions(data: Buffer): ImageDimensions | null {
+  if (data.length < 24) return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function readGifDimensions(data: Buffer): ImageDimensions | null {
+  if (data.length < 10) return null;
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+function readJpegDimensions(data: Buffer): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+
+    // SOF0..SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readWebpDimensions(data: Buffer): ImageDimensions | null {
+  if (data.length < 30) return null;
+  const chunk = data.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IAttachmentStorage } from './storage.interface';
+
+@Injectable()
+export class LocalDiskStorage implements IAttachmentStorage {
+  private readonly logger = new Logger(LocalDiskStorage.name);
+  private readonly rootPath: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rootPath = path.resolve(
+      this.configService.get<string>('ATTACHMENT_STORAGE_PATH', './uploads'),
+    );
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    this.logger.debug(`Stored attachment ${key} (${data.length} bytes)`);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Keys are generated server-side, but refuse anything that would escape the root anyway
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootPath, key);
+    if (!filePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,13 @@
+export const ATTACHMENT_STORAGE_TOKEN = Symbol('ATTACHMENT_STORAGE_TOKEN');
+
+export interface IAttachmentStorage {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
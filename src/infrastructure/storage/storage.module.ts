@@ -0,0 +1,28 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ATTACHMENT_STORAGE_TOKEN } from './storage.interface';
+import { LocalDiskStorage } from './local-disk.storage';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    LocalDiskStorage,
+    {
+      // Only the local-disk driver exists today; new drivers plug in here
+      provide: ATTACHMENT_STORAGE_TOKEN,
+      useFactory: (configService: ConfigService, localDisk: LocalDiskStorage) => {
+        const driver = configService.get<string>('ATTACHMENT_STORAGE_DRIVER', 'local');
+        switch (driver) {
+          case 'local':
+            return localDisk;
+          default:
+            throw new Error(`Unsupported attachment storage driver: ${driver}`);
+        }
+      },
+      inject: [ConfigService, LocalDiskStorage],
+    },
+  ],
+  exports: [ATTACHMENT_STORAGE_TOKEN],
+})
+export class StorageModule {}
@@ -0,0 +1,174 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { WebhookDelivery } from '@domain/entities/webhook-delivery.entity';
+import { WebhookSubscription } from '@domain/entities/webhook-subscription.entity';
+import { WebhookDeliveryService } from '../webhook-delivery.service';
+import { verifyWebhookSignature } from '../webhook-signature';
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('WebhookDeliveryService', () => {
+  let server: Server;
+  let endpoint: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let service: WebhookDeliveryService;
+  let mockRepository: jest.Mocked<IWebhookDeliveryRepository>;
+
+  const secret = 'whsec_test_secret_value';
+
+  const createDelivery = (attempts: number = 0): WebhookDelivery => {
+    const subscription = Object.assign(new WebhookSubscription(), {
+      id: 'subscription-1',
+      businessId: 'business-1',
+      url: endpoint,
+      eventTypes: ['MessageSent'],
+      secret,
+      isActive: true,
+    });
+
+    return Object.assign(new WebhookDelivery(), {
+      id: 'delivery-1',
+      subscriptionId: subscription.id,
+      eventId: 'evt-1',
+      eventName: 'MessageSent',
+      payload: {
+        eventId: 'evt-1',
+        eventName: 'MessageSent',
+        eventVersion: 1,
+        aggregateId: 'message-1',
+        occurredOn: '2024-01-01T00:00:00.000Z',
+        eventData: { messageId: 'message-1', conversationId: 'conversation-1', content: 'Hello' },
+      },
+      status: 'processing',
+      attempts,
+      nextAttemptAt: new Date(),
+      subscription,
+    });
+  };
+
+  beforeAll(async () => {
+    // Local stand-in for a subscriber endpoint
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    mockRepository = {
+      enqueue: jest.fn(),
+      claimBatch: jest.fn().mockResolvedValue([]),
+      markDelivered: jest.fn(),
+      scheduleRetry: jest.fn(),
+      markFailed: jest.fn(),
+      findById: jest.fn(),
+      findBySubscription: jest.fn(),
+      replay: jest.fn(),
+    };
+    service = new WebhookDeliveryService(
+      mockRepository,
+      // The stand-in endpoint listens on loopback
+      new ConfigService({ WEBHOOK_MAX_ATTEMPTS: 3, WEBHOOK_TIMEOUT_MS: 2000, WEBHOOK_ALLOW_PRIVATE_TARGETS: true }),
+    );
+  });
+
+  it('posts the event envelope with a verifiable signature', async () => {
+    mockRepository.claimBatch.mockResolvedValue([createDelivery()]);
+
+    const delivered = await service.deliverPending();
+
+    expect(delivered).toBe(1);
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(createDelivery().payload);
+    expect(request.headers['x-webhook-event']).toBe('MessageSent');
+    expect(request.headers['x-webhook-id']).toBe('delivery-1');
+    expect(
+      verifyWebhookSignature(
+        secret,
+        Number(request.headers['x-webhook-timestamp']),
+        request.body,
+        request.headers['x-webhook-signature'] as string,
+      ),
+    ).toBe(true);
+    expect(mockRepository.markDelivered).toHaveBeenCalledWith('delivery-1', 1, 200);
+  });
+
+  it('schedules a retry with backoff when the endpoint fails', async () => {
+    responseStatus = 503;
+    mockRepository.claimBatch.mockResolvedValue([createDelivery(1)]);
+    const before = Date.now();
+
+    const delivered = await service.deliverPending();
+
+    expect(delivered).toBe(0);
+    const [id, attempts, nextAttemptAt, error, status] = mockRepository.scheduleRetry.mock.calls[0];
+    expect(id).toBe('delivery-1');
+    expect(attempts).toBe(2);
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 10000);
+    expect(error).toBe('Endpoint responded with 503');
+    expect(status).toBe(503);
+  });
+
+  it('marks the delivery failed once it runs out of attempts', async () => {
+    responseStatus = 500;
+    mockRepository.claimBatch.mockResolvedValue([createDelivery(2)]);
+
+    await service.deliverPending();
+
+    expect(mockRepository.scheduleRetry).not.toHaveBeenCalled();
+    expect(mockRepository.markFailed).toHaveBeenCalledWith('delivery-1', 3, 'Endpoint responded with 500', 500);
+  });
+
+  it('does not call endpoints of disabled subscriptions', async () => {
+    const delivery = createDelivery();
+    delivery.subscription.isActive = false;
+    mockRepository.claimBatch.mockResolvedValue([delivery]);
+
+    await service.deliverPending();
+
+    expect(received).toHaveLength(0);
+    expect(mockRepository.markFailed).toHaveBeenCalledWith('delivery-1', 0, 'Subscription is disabled');
+  });
+
+  it('refuses to post to a private address unless private targets are allowed', async () => {
+    service = new WebhookDeliveryService(
+      mockRepository,
+      new ConfigService({ WEBHOOK_MAX_ATTEMPTS: 3, WEBHOOK_TIMEOUT_MS: 2000 }),
+    );
+    const literal = createDelivery();
+    const named = createDelivery();
+    named.id = 'delivery-2';
+    named.subscription.url = endpoint.replace('127.0.0.1', 'localhost');
+    mockRepository.claimBatch.mockResolvedValue([literal, named]);
+
+    const delivered = await service.deliverPending();
+
+    expect(delivered).toBe(0);
+    expect(received).toHaveLength(0);
+    expect(mockRepository.scheduleRetry).toHaveBeenCalledTimes(2);
+    for (const [, , , error] of mockRepository.scheduleRetry.mock.calls) {
+      expect(error).toContain('private or loopback address');
+    }
+  });
+});
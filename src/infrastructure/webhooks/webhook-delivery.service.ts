@@ -0,0 +1,161 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP } from 'net';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { WebhookDelivery } from '@domain/entities/webhook-delivery.entity';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './webhook-signature';
+import { isPrivateAddress, publicOnlyLookup, UnsafeWebhookTargetError } from './webhook-target-guard';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Long enough for a full batch of requests to time out before another worker reclaims it
+const LOCK_TIMEOUT_MARGIN_MS = 30000;
+
+/**
+ * Posts queued deliveries to subscriber endpoints. Anything but a 2xx
+ * response is retried with exponential backoff until attempts run out,
+ * after which the delivery is marked failed and can be replayed by hand.
+ * Endpoints that resolve to private addresses are refused at connect time.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private pollTimer?: NodeJS.Timeout;
+  private delivering = false;
+
+  constructor(
+    @Inject('IWebhookDeliveryRepository')
+    private readonly deliveryRepository: IWebhookDeliveryRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('WEBHOOK_DELIVERY_ENABLED', true)) {
+      this.logger.warn('Webhook delivery is disabled; deliveries will queue up unsent');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.deliverPending().catch(error => this.logger.error('Webhook delivery pass failed:', error));
+    }, this.configService.get<number>('WEBHOOK_POLL_INTERVAL_MS', 2000));
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  /**
+   * Send one batch of due deliveries. Returns how many succeeded.
+   */
+  async deliverPending(): Promise<number> {
+    if (this.delivering) {
+      return 0;
+    }
+
+    this.delivering = true;
+    try {
+      const batch = await this.deliveryRepository.claimBatch(
+        this.configService.get<number>('WEBHOOK_BATCH_SIZE', 20),
+        this.getTimeoutMs() + LOCK_TIMEOUT_MARGIN_MS,
+      );
+
+      const results = await Promise.all(batch.map(delivery => this.deliver(delivery)));
+      return results.filter(Boolean).length;
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<boolean> {
+    const attempts = delivery.attempts + 1;
+    const { subscription } = delivery;
+
+    if (!subscription.isActive) {
+      await this.deliveryRepository.markFailed(delivery.id, delivery.attempts, 'Subscription is disabled');
+      return false;
+    }
+
+    let responseStatus: number | undefined;
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      responseStatus = await this.post(subscription.url, body, {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.eventName,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body),
+      });
+
+      if (responseStatus < 200 || responseStatus >= 300) {
+        throw new Error(`Endpoint responded with ${responseStatus}`);
+      }
+
+      await this.deliveryRepository.markDelivered(delivery.id, attempts, responseStatus);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const maxAttempts = this.configService.get<number>('WEBHOOK_MAX_ATTEMPTS', 10);
+
+      if (attempts >= maxAttempts) {
+        await this.deliveryRepository.markFailed(delivery.id, attempts, message, responseStatus);
+        this.logger.error(`Webhook delivery ${delivery.id} to ${subscription.url} failed after ${attempts} attempts: ${message}`);
+      } else {
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+        await this.deliveryRepository.scheduleRetry(
+          delivery.id,
+          attempts,
+          new Date(Date.now() + delay),
+          message,
+          responseStatus,
+        );
+        this.logger.warn(`Webhook delivery ${delivery.id} to ${subscription.url} failed (attempt ${attempts}), retrying in ${delay}ms: ${message}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * POST the body and resolve with the response status. The name is resolved
+   * per request, and a private address fails the connection.
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    const target = new URL(url);
+    const allowPrivate = this.configService.get<boolean>('WEBHOOK_ALLOW_PRIVATE_TARGETS', false);
+
+    // IP literals never go through the lookup
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (!allowPrivate && isIP(host) && isPrivateAddress(host)) {
+      return Promise.reject(new UnsafeWebhookTargetError(host));
+    }
+
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+      const request = send(
+        target,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: allowPrivate ? undefined : publicOnlyLookup,
+          signal: AbortSignal.timeout(this.getTimeoutMs()),
+        },
+        response => {
+          // Only the status matters; drain the body so the socket is released
+          response.resume();
+          resolve(response.statusCode ?? 0);
+        },
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private getTimeoutMs(): number {
+    return this.configService.get<number>('WEBHOOK_TIMEOUT_MS', 10000);
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { IParticipantRepository } from '@domain/repositories/participant.repository.interface';
+import { IWebhookSubscriptionRepository } from '@domain/repositories/webhook-subscription.repository.interface';
+import { IWebhookDeliveryRepository } from '@domain/repositories/webhook-delivery.repository.interface';
+import { WEBHOOK_EVENT_TYPES } from '@domain/entities/webhook-subscription.entity';
+import { DomainEventEnvelope } from '@domain/events/domain-event-bus.interface';
+import { DomainEventBus } from '@infrastructure/events/domain-event-bus.service';
+
+/**
+ * Turns relayed domain events into queued webhook deliveries for every
+ * business taking part in the conversation the event belongs to.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly unsubscribers: Array<() => void> = [];
+
+  constructor(
+    @Inject('IParticipantRepository')
+    private readonly participantRepository: IParticipantRepository,
+    @Inject('IWebhookSubscriptionRepository')
+    private readonly subscriptionRepository: IWebhookSubscriptionRepository,
+    @Inject('IWebhookDeliveryRepository')
+    private readonly deliveryRepository: IWebhookDeliveryRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    for (const eventName of WEBHOOK_EVENT_TYPES) {
+      this.unsubscribers.push(this.eventBus.subscribe(eventName, event => this.dispatch(event)));
+    }
+  }
+
+  onModuleDestroy() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Queue the event for matching subscriptions. Throwing hands the event back
+   * to the outbox for a retry; already queued deliveries are not duplicated.
+   */
+  async dispatch(event: DomainEventEnvelope): Promise<void> {
+    const conversationId: string = event.eventData.conversationId ?? event.aggregateId;
+
+    const participants = await this.participantRepository.findByConversation(conversationId);
+    const businessIds = participants.filter(p => p.role.isBusiness()).map(p => p.userId);
+    if (businessIds.length === 0) {
+      return;
+    }
+
+    const subscriptions = await this.subscriptionRepository.findActiveForEvent(businessIds, event.eventName);
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    await this.deliveryRepository.enqueue(
+      subscriptions.map(subscription => subscription.id),
+      event,
+    );
+    this.logger.debug(`Queued ${event.eventName} event ${event.eventId} for ${subscriptions.length} webhook(s)`);
+  }
+}
@@ -0,0 +1,87 @@
+import { BlockList, isIP, LookupFunction } from 'net';
+import { lookup } from 'dns';
+import { promisify } from 'util';
+
+const lookupAll = promisify(lookup);
+
+// Loopback, private, link-local, carrier-grade NAT and other non-routable ranges
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  privateRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  privateRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+export class UnsafeWebhookTargetError extends Error {
+  constructor(host: string) {
+    super(`Webhook target ${host} resolves to a private or loopback address`);
+    this.name = 'UnsafeWebhookTargetError';
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) reaches the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return privateRanges.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve the URL's host and reject it if any of its addresses is private
+ */
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookupAll(host, { all: true })).map(entry => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeWebhookTargetError(host);
+  }
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses private addresses. Checking
+ * the address the socket actually connects to leaves no window for the name
+ * to be rebound after an earlier check.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      callback(new UnsafeWebhookTargetError(hostname), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RepositoryModule } from '@infrastructure/repositories/repository.module';
+import { EventsModule } from '@infrastructure/events/events.module';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+@Module({
+  imports: [RepositoryModule, EventsModule],
+  providers: [WebhookDispatcherService, WebhookDeliveryService],
+  exports: [WebhookDeliveryService],
+})
+export class WebhooksModule {}
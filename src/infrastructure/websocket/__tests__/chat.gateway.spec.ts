@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
 import { ChatGateway } from '../chat.gateway';
 import { WsJwtGuard } from '../guards/ws-jwt.guard';
 import { WebSocketConnectionService } from '../services/websocket-connection.service';
@@ -15,6 +16,7 @@ const mockSocket = {
   id: 'test-socket-id',
   userId: undefined,
   user: undefined,
+  data: {} as any,
   handshake: {
     headers: {} as any,
     query: {} as any,
@@ -58,6 +60,10 @@ describe('ChatGateway', () => {
             decode: jest.fn(),
           },
         },
+        {
+          provide: JwtVerifierService,
+          useValue: { verify: jest.fn() },
+        },
         {
           provide: WebSocketConnectionService,
           useValue: {
@@ -74,6 +80,8 @@ describe('ChatGateway', () => {
             setServer: jest.fn(),
             sendMessageToUser: jest.fn(),
             sendMessageToConversation: jest.fn(),
+            getConnectedUsersCount: jest.fn().mockResolvedValue(0),
+            isUserConnected: jest.fn().mockResolvedValue(false),
           },
         },
         {
@@ -308,16 +316,15 @@ describe('ChatGateway', () => {
   });
 
   describe('utility methods', () => {
-    it('should track connected users', () => {
-      expect(gateway.getConnectedUsersCount()).toBe(0);
-      expect(gateway.isUserConnected('123')).toBe(false);
+    it('should track connected users', async () => {
+      expect(await gateway.getConnectedUsersCount()).toBe(0);
+      expect(await gateway.isUserConnected('123')).toBe(false);
       expect(gateway.getUserSocketCount('123')).toBe(0);
     });
 
     it('should send message to user', async () => {
-      // This would require setting up the internal user tracking
-      const result = await gateway.sendMessageToUser('123', 'error', { message: 'test' });
-      expect(result).toBe(false); // User not connected
+      await gateway.sendMessageToUser('123', 'error', { message: 'test' });
+      expect(broadcastService.sendMessageToUser).toHaveBeenCalledWith('123', 'error', { message: 'test' });
     });
 
     it('should send message to conversation', async () => {
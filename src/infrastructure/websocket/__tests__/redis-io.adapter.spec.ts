@@ -0,0 +1,211 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { io, Socket as ClientSocket } from 'socket.io-client';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
+import { ChatGateway } from '../chat.gateway';
+import { RedisIoAdapter } from '../redis-io.adapter';
+import { WsJwtGuard } from '../guards/ws-jwt.guard';
+import { WebSocketConnectionService } from '../services/websocket-connection.service';
+import { WebSocketBroadcastService } from '../services/websocket-broadcast.service';
+import { ConversationAccessService } from '../services/conversation-access.service';
+import { WebSocketErrorService } from '../services/websocket-error.service';
+import { InputSanitizationService } from '../services/input-sanitization.service';
+import { RateLimitingService } from '../services/rate-limiting.service';
+import { WebSocketMessageHandlerService } from '../services/websocket-message-handler.service';
+
+/**
+ * In-memory stand-in for Redis pub/sub, shared by every client the adapter
+ * creates, so two gateway instances talk to each other as they would
+ * through a real Redis.
+ */
+jest.mock('ioredis', () => {
+  const { EventEmitter } = require('events');
+  const clients = new Set<any>();
+
+  class MockRedis extends EventEmitter {
+    status = 'wait';
+    private readonly channels = new Set<string>();
+    private readonly patterns = new Set<string>();
+
+    async connect() {
+      this.status = 'ready';
+      clients.add(this);
+    }
+
+    duplicate() {
+      return new MockRedis();
+    }
+
+    async quit() {
+      this.status = 'end';
+      clients.delete(this);
+    }
+
+    subscribe(channels: string | string[]) {
+      [channels].flat().forEach(channel => this.channels.add(channel));
+    }
+
+    psubscribe(pattern: string) {
+      this.patterns.add(pattern);
+    }
+
+    unsubscribe(channels: string | string[]) {
+      [channels].flat().forEach(channel => this.channels.delete(channel));
+    }
+
+    punsubscribe(pattern: string) {
+      this.patterns.delete(pattern);
+    }
+
+    publish(channel: string, message: string | Buffer) {
+      const payload = Buffer.from(message);
+      // Deliver on a later tick, as a network round trip would
+      setImmediate(() => {
+        for (const client of clients) {
+          if (client.channels.has(channel)) {
+            client.emit('messageBuffer', Buffer.from(channel), payload);
+          }
+          for (const pattern of client.patterns) {
+            // The adapter only subscribes to prefix* patterns
+            if (channel.startsWith(pattern.slice(0, -1))) {
+              client.emit('pmessageBuffer', Buffer.from(pattern), Buffer.from(channel), payload);
+            }
+          }
+        }
+      });
+      return Promise.resolve(1);
+    }
+
+    send_command(command: string, [arg, channel]: string[], callback: (error: Error | null, reply?: unknown) => void) {
+      if (command !== 'PUBSUB' || arg !== 'NUMSUB') {
+        return callback(new Error(`Unsupported command ${command} ${arg}`));
+      }
+      const subscribers = [...clients].filter(client => client.channels.has(channel)).length;
+      callback(null, [channel, subscribers]);
+    }
+  }
+
+  return { __esModule: true, default: MockRedis };
+});
+
+const JWT_SECRET = 'cluster-test-secret';
+
+interface Node {
+  app: INestApplication;
+  gateway: ChatGateway;
+  url: string;
+}
+
+describe('RedisIoAdapter (two instances)', () => {
+  const config = new ConfigService({ WEBSOCKET_REDIS_ADAPTER_KEY: 'socket.io-test' });
+  const jwtService = new JwtService({ secret: JWT_SECRET });
+  const clients: ClientSocket[] = [];
+  let nodeA: Node;
+  let nodeB: Node;
+
+  const startNode = async (): Promise<Node> => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: JWT_SECRET })],
+      providers: [
+        ChatGateway,
+        WsJwtGuard,
+        JwtVerifierService,
+        { provide: ConfigService, useValue: config },
+        WebSocketConnectionService,
+        { provide: 'IAuthSessionRepository', useValue: { findById: jest.fn().mockResolvedValue(null) } },
+        WebSocketBroadcastService,
+        {
+          provide: ConversationAccessService,
+          useValue: { validateAccess: jest.fn().mockResolvedValue({ allowed: true }) },
+        },
+        { provide: WebSocketErrorService, useValue: { handleError: jest.fn() } },
+        { provide: InputSanitizationService, useValue: {} },
+        {
+          provide: RateLimitingService,
+          useValue: { isWithinLimit: jest.fn().mockReturnValue(true), cleanup: jest.fn() },
+        },
+        { provide: WebSocketMessageHandlerService, useValue: {} },
+      ],
+    }).compile();
+
+    const app = moduleRef.createNestApplication({ logger: false });
+    const adapter = new RedisIoAdapter(app, config);
+    await adapter.connectToRedis();
+    app.useWebSocketAdapter(adapter);
+    await app.listen(0);
+
+    const url = (await app.getUrl()).replace('[::1]', 'localhost');
+    return { app, gateway: app.get(ChatGateway), url };
+  };
+
+  const connect = (node: Node, userId: string): Promise<ClientSocket> =>
+    new Promise((resolve, reject) => {
+      const client = io(`${node.url}/chat`, {
+        auth: { token: jwtService.sign({ userId }) },
+        transports: ['websocket'],
+        forceNew: true,
+      });
+      clients.push(client);
+      client.once('connected', () => resolve(client));
+      client.once('connect_error', reject);
+    });
+
+  const nextEvent = <T = any>(client: ClientSocket, event: string): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), 5000);
+      client.once(event, (data: T) => {
+        clearTimeout(timer);
+        resolve(data);
+      });
+    });
+
+  beforeAll(async () => {
+    // The gateway's rate-limit cleanup interval would otherwise keep jest alive
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'Date'] });
+    nodeA = await startNode();
+    nodeB = await startNode();
+  });
+
+  afterAll(async () => {
+    clients.forEach(client => client.disconnect());
+    await nodeA?.app.close();
+    await nodeB?.app.close();
+    jest.useRealTimers();
+  });
+
+  it('delivers a user-targeted emit to a socket held by the other instance', async () => {
+    const bob = await connect(nodeB, 'user-bob');
+    const received = nextEvent(bob, 'new_message');
+
+    await nodeA.gateway.sendMessageToUser('user-bob', 'new_message', {
+      message_id: 'm-1',
+    });
+
+    await expect(received).resolves.toEqual({ message_id: 'm-1' });
+  });
+
+  it('delivers a conversation broadcast to room members on the other instance', async () => {
+    const carol = await connect(nodeB, 'user-carol');
+    const joined = nextEvent(carol, 'joined_conversation');
+    carol.emit('join_conversation', { conversation_id: 'conv-1' });
+    await joined;
+
+    const received = nextEvent(carol, 'message_deleted');
+    await nodeA.gateway.sendMessageToConversation('conv-1', 'message_deleted', {
+      message_id: 'm-2',
+    });
+
+    await expect(received).resolves.toEqual({ message_id: 'm-2' });
+  });
+
+  it('reports connections cluster-wide', async () => {
+    await connect(nodeA, 'user-alice');
+    await connect(nodeB, 'user-dave');
+
+    await expect(nodeA.gateway.isUserConnected('user-dave')).resolves.toBe(true);
+    await expect(nodeB.gateway.isUserConnected('user-alice')).resolves.toBe(true);
+    await expect(nodeA.gateway.isUserConnected('user-nobody')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { WebSocketBroadcastService } from '../services/websocket-broadcast.service';
+
+describe('WebSocketBroadcastService', () => {
+  let emit: jest.Mock;
+  let server: { to: jest.Mock; fetchSockets: jest.Mock };
+  let connectionService: { getConnectedUsersCount: jest.Mock; getUserSocketCount: jest.Mock };
+  let presenceService: { countConnectedUsers: jest.Mock; getPresence: jest.Mock };
+  let service: WebSocketBroadcastService;
+
+  beforeEach(() => {
+    emit = jest.fn();
+    server = { to: jest.fn(() => ({ emit })), fetchSockets: jest.fn() };
+    connectionService = { getConnectedUsersCount: jest.fn().mockReturnValue(3), getUserSocketCount: jest.fn() };
+    presenceService = { countConnectedUsers: jest.fn().mockResolvedValue(42), getPresence: jest.fn() };
+
+    service = new WebSocketBroadcastService(connectionService as any, presenceService as any);
+    service.setServer(server as any);
+  });
+
+  it("emits to the user's room", async () => {
+    await service.sendMessageToUser('alice', 'presence_update', { status: 'online' });
+
+    expect(server.to).toHaveBeenCalledWith('user_alice');
+    expect(emit).toHaveBeenCalledWith('presence_update', { status: 'online' });
+  });
+
+  it('emits once to every user room', async () => {
+    await service.sendMessageToUsers(['alice', 'bob'], 'profile_updated', { id: 'alice' });
+
+    expect(server.to).toHaveBeenCalledWith(['user_alice', 'user_bob']);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  describe('getConnectedUsersCount', () => {
+    it('reads the cluster-wide count from presence without asking other instances', async () => {
+      expect(await service.getConnectedUsersCount()).toBe(42);
+      expect(server.fetchSockets).not.toHaveBeenCalled();
+    });
+
+    it("falls back to this instance's users without presence", async () => {
+      service = new WebSocketBroadcastService(connectionService as any);
+      service.setServer(server as any);
+
+      expect(await service.getConnectedUsersCount()).toBe(3);
+      expect(server.fetchSockets).not.toHaveBeenCalled();
+    });
+  });
+});
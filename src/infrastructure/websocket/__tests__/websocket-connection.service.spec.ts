@@ -0,0 +1,135 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
+import { WebSocketConnectionService } from '../services/websocket-connection.service';
+
+describe('WebSocketConnectionService token expiry', () => {
+  let service: WebSocketConnectionService;
+  let jwtVerifier: { verify: jest.Mock };
+  let sessionRepository: { findById: jest.Mock };
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  const createClient = (id = 'socket-1') => ({
+    id,
+    disconnected: false,
+    handshake: { headers: {}, query: {}, auth: { token: 'initial-token' } },
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    disconnect: jest.fn(function (this: { disconnected: boolean }) {
+      this.disconnected = true;
+    }),
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jwtVerifier = { verify: jest.fn() };
+    sessionRepository = { findById: jest.fn().mockResolvedValue({ id: 'session-1', revokedAt: null }) };
+    service = new WebSocketConnectionService(
+      jwtVerifier as unknown as JwtVerifierService,
+      new ConfigService({ WEBSOCKET_TOKEN_EXPIRY_WARNING_SECONDS: 60 }),
+      sessionRepository as any,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should warn before the token expires and disconnect once it has', async () => {
+    jwtVerifier.verify.mockResolvedValue({ userId: 'user-1', exp: nowSeconds() + 300 });
+    const client = createClient();
+
+    await service.authenticateSocket(client as any);
+
+    jest.advanceTimersByTime(239 * 1000);
+    expect(client.emit).not.toHaveBeenCalledWith('token_expiring', expect.anything());
+
+    jest.advanceTimersByTime(1000);
+    expect(client.emit).toHaveBeenCalledWith('token_expiring', expect.objectContaining({ seconds_remaining: 60 }));
+    expect(client.disconnect).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(client.emit).toHaveBeenCalledWith('token_expired', expect.objectContaining({ reason: 'token_expired' }));
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('should keep the socket connected after reauthenticating with a fresh token', async () => {
+    jwtVerifier.verify.mockResolvedValueOnce({ userId: 'user-1', sid: 'session-1', exp: nowSeconds() + 120 });
+    const client = createClient();
+    await service.authenticateSocket(client as any);
+
+    jwtVerifier.verify.mockResolvedValueOnce({ userId: 'user-1', sid: 'session-1', exp: nowSeconds() + 3600 });
+    const result = await service.reauthenticate(client as any, 'fresh-token');
+
+    expect(result.success).toBe(true);
+    expect(client.join).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(600 * 1000);
+    expect(client.disconnect).not.toHaveBeenCalled();
+    expect(service.isUserConnected('user-1')).toBe(true);
+  });
+
+  it('should refuse a token for another user and leave the old expiry in place', async () => {
+    jwtVerifier.verify.mockResolvedValueOnce({ userId: 'user-1', exp: nowSeconds() + 120 });
+    const client = createClient();
+    await service.authenticateSocket(client as any);
+
+    jwtVerifier.verify.mockResolvedValueOnce({ userId: 'user-2', exp: nowSeconds() + 3600 });
+    const result = await service.reauthenticate(client as any, 'other-user-token');
+
+    expect(result).toMatchObject({ success: false, code: 'user_mismatch' });
+    jest.advanceTimersByTime(120 * 1000);
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('should stop tracking expiry once the socket disconnects', async () => {
+    jwtVerifier.verify.mockResolvedValue({ userId: 'user-1', exp: nowSeconds() + 120 });
+    const client = createClient();
+    await service.authenticateSocket(client as any);
+
+    service.disconnectUser(client as any);
+    jest.advanceTimersByTime(120 * 1000);
+
+    expect(client.emit).not.toHaveBeenCalled();
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  describe('revoked sessions', () => {
+    let cache: { exists: jest.Mock };
+
+    beforeEach(() => {
+      cache = { exists: jest.fn().mockResolvedValue(false) };
+      service = new WebSocketConnectionService(
+        jwtVerifier as unknown as JwtVerifierService,
+        new ConfigService({ WEBSOCKET_TOKEN_EXPIRY_WARNING_SECONDS: 60 }),
+        sessionRepository as any,
+        cache as any,
+      );
+      jwtVerifier.verify.mockResolvedValue({ userId: 'user-1', sid: 'session-1', exp: nowSeconds() + 300 });
+    });
+
+    it('should refuse a session revoked in the database when Redis cannot be read', async () => {
+      cache.exists.mockRejectedValue(new Error('connection refused'));
+      sessionRepository.findById.mockResolvedValue({ id: 'session-1', revokedAt: new Date() });
+
+      expect(await service.authenticateSocket(createClient() as any)).toBe(false);
+    });
+
+    it('should refuse a session revoked in the database whose marker is missing', async () => {
+      sessionRepository.findById.mockResolvedValue({ id: 'session-1', revokedAt: new Date() });
+
+      expect(await service.authenticateSocket(createClient() as any)).toBe(false);
+    });
+
+    it('should refuse the session when neither Redis nor the database can vouch for it', async () => {
+      cache.exists.mockRejectedValue(new Error('connection refused'));
+      sessionRepository.findById.mockRejectedValue(new Error('database unavailable'));
+
+      expect(await service.authenticateSocket(createClient() as any)).toBe(false);
+    });
+
+    it('should accept a live session without a marker', async () => {
+      expect(await service.authenticateSocket(createClient() as any)).toBe(true);
+      expect(sessionRepository.findById).toHaveBeenCalledWith('session-1');
+    });
+  });
+});
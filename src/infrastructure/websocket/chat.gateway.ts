@@ -18,6 +18,17 @@ import {
   JoinRoomPayload,
   TypingPayload,
   MarkAsReadPayload,
+  ReactionPayload,
+  EditMessagePayload,
+  DeleteMessagePayload,
+  MessageDeliveredPayload,
+  SetPresencePayload,
+  SyncRequestPayload,
+  SyncAckPayload,
+  ParticipantPayload,
+  ParticipantRolePayload,
+  MuteConversationPayload,
+  ReauthenticatePayload,
 } from "./types/websocket-events.types";
 import { WebSocketConnectionService } from "./services/websocket-connection.service";
 import { WebSocketBroadcastService } from "./services/websocket-broadcast.service";
@@ -26,9 +37,11 @@ import { WebSocketErrorService } from "./services/websocket-error.service";
 import { InputSanitizationService } from "./services/input-sanitization.service";
 import { RateLimitingService } from "./services/rate-limiting.service";
 import { WebSocketMessageHandlerService } from "./services/websocket-message-handler.service";
+import { sessionRoom } from "@infrastructure/auth/services/session-revocation";
 
 interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
   userId?: string;
+  sessionId?: string;
   user?: {
     id: string;
     name?: string;
@@ -51,6 +64,10 @@ export class ChatGateway
 
   private readonly logger = new Logger(ChatGateway.name);
   private messageService: any; // Will be injected later to avoid circular dependency
+  private presenceService: any; // Same late injection as the message service
+  private groupService: any; // Same late injection as the message service
+  private inboxService: any; // Same late injection as the message service
+  private blockService: any; // Same late injection as the message service
 
   constructor(
     private readonly connectionService: WebSocketConnectionService,
@@ -64,6 +81,7 @@ export class ChatGateway
 
   afterInit(server: Server) {
     this.broadcastService.setServer(server);
+    this.connectionService.setServer(server);
     this.logger.log("WebSocket Gateway initialized");
 
     // Set up periodic cleanup for rate limiting
@@ -80,6 +98,38 @@ export class ChatGateway
     this.logger.log("Message service injected into WebSocket Gateway");
   }
 
+  /**
+   * Set presence service (to avoid circular dependency)
+   */
+  setPresenceService(presenceService: any): void {
+    this.presenceService = presenceService;
+    this.logger.log("Presence service injected into WebSocket Gateway");
+  }
+
+  /**
+   * Set group membership service (to avoid circular dependency)
+   */
+  setGroupService(groupService: any): void {
+    this.groupService = groupService;
+    this.logger.log("Group membership service injected into WebSocket Gateway");
+  }
+
+  /**
+   * Set conversation inbox service (to avoid circular dependency)
+   */
+  setInboxService(inboxService: any): void {
+    this.inboxService = inboxService;
+    this.logger.log("Conversation inbox service injected into WebSocket Gateway");
+  }
+
+  /**
+   * Set user block service (to avoid circular dependency)
+   */
+  setBlockService(blockService: any): void {
+    this.blockService = blockService;
+    this.logger.log("User block service injected into WebSocket Gateway");
+  }
+
   async handleConnection(client: AuthenticatedSocket) {
     try {
       this.logger.log(`Client attempting to connect: ${client.id}`);
@@ -90,18 +140,25 @@ export class ChatGateway
         return;
       }
 
+      // Per-user room lets any instance reach this socket through the Redis adapter
+      client.data.userId = client.userId;
+      await client.join(`user_${client.userId}`);
+      // Lets a revoked session's sockets be dropped from any instance
+      if (client.sessionId) {
+        await client.join(sessionRoom(client.sessionId));
+      }
+
       // Send connection confirmation
       client.emit("connected", {
         message: "Successfully connected to chat",
         userId: client.userId,
       });
 
-      // Deliver offline messages if message service is available
-      if (this.messageService) {
+      if (this.presenceService) {
         try {
-          await this.messageService.deliverOfflineMessages(client.userId);
+          await this.presenceService.userConnected(client.userId, client.id);
         } catch (error) {
-          this.logger.warn('Failed to deliver offline messages', { error: error.message, userId: client.userId });
+          this.logger.warn('Failed to record presence', { error: error.message, userId: client.userId });
         }
       }
     } catch (error) {
@@ -110,8 +167,16 @@ export class ChatGateway
     }
   }
 
-  handleDisconnect(client: AuthenticatedSocket) {
+  async handleDisconnect(client: AuthenticatedSocket) {
     this.connectionService.disconnectUser(client);
+
+    if (this.presenceService && client.userId) {
+      try {
+        await this.presenceService.userDisconnected(client.userId, client.id);
+      } catch (error) {
+        this.logger.warn('Failed to record presence', { error: error.message, userId: client.userId });
+      }
+    }
   }
 
   @UseGuards(WsJwtGuard)
@@ -233,6 +298,9 @@ export class ChatGateway
         conversationId: data.conversation_id.toString(),
         content: data.content,
         messageType: data.message_type || 'text',
+        parentMessageId: data.parent_message_id,
+        attachmentIds: data.attachment_ids,
+        expiresAfterReadSeconds: data.expires_after_read_seconds,
       });
 
       if (result.success) {
@@ -245,7 +313,12 @@ export class ChatGateway
 
         this.logger.log(`Message sent successfully by user ${client.userId} to conversation ${data.conversation_id}`);
       } else {
-        this.messageHandlerService.sendMessageError(client, result.error || "Failed to send message", data.conversation_id);
+        this.messageHandlerService.sendMessageError(
+          client,
+          result.error || "Failed to send message",
+          data.conversation_id,
+          result.reason
+        );
       }
     } catch (error) {
       this.logger.error(`Error handling message:`, error);
@@ -298,7 +371,8 @@ export class ChatGateway
       const roomName = `conversation_${conversation_id}`;
 
       // Broadcast typing indicator to other participants (not sender)
-      client.to(roomName).emit("user_typing", {
+      const audience = await this.typingAudience(client, roomName);
+      audience.emit("user_typing", {
         conversation_id,
         user_id: client.userId,
         user_name: client.user?.name,
@@ -325,7 +399,8 @@ export class ChatGateway
       const roomName = `conversation_${conversation_id}`;
 
       // Broadcast typing stop to other participants (not sender)
-      client.to(roomName).emit("user_typing", {
+      const audience = await this.typingAudience(client, roomName);
+      audience.emit("user_typing", {
         conversation_id,
         user_id: client.userId,
         user_name: client.user?.name,
@@ -341,6 +416,19 @@ export class ChatGateway
     }
   }
 
+  /**
+   * Everyone else in the room, minus users who have blocked the typist
+   */
+  private async typingAudience(client: AuthenticatedSocket, roomName: string) {
+    const room = client.to(roomName);
+    if (!this.blockService) {
+      return room;
+    }
+
+    const blockerIds: string[] = await this.blockService.getBlockerIds(client.userId);
+    return blockerIds.length > 0 ? room.except(blockerIds.map(id => `user_${id}`)) : room;
+  }
+
   @UseGuards(WsJwtGuard)
   @SubscribeMessage("mark_as_read")
   async handleMarkAsRead(
@@ -381,6 +469,477 @@ export class ChatGateway
     }
   }
 
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("edit_message")
+  async handleEditMessage(
+    @MessageBody() data: EditMessagePayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!this.rateLimitingService.isWithinLimit(client.userId, 'message')) {
+        this.messageHandlerService.sendMessageError(client, 'Rate limit exceeded. Please slow down.', data?.conversation_id);
+        return;
+      }
+
+      if (!data?.conversation_id || !data?.message_id || !data?.content) {
+        this.messageHandlerService.sendMessageError(
+          client,
+          'Invalid edit data: conversation_id, message_id and content are required',
+          data?.conversation_id
+        );
+        return;
+      }
+
+      const sanitizedContent = this.sanitizationService.sanitizeMessageContent(data.content);
+      if (!sanitizedContent) {
+        this.messageHandlerService.sendMessageError(client, 'Message content is invalid or empty after sanitization', data.conversation_id);
+        return;
+      }
+
+      if (!this.messageService) {
+        this.messageHandlerService.sendMessageError(client, 'Message editing is not available', data.conversation_id);
+        return;
+      }
+
+      const result = await this.messageService.editMessage({
+        userId: client.userId,
+        conversationId: data.conversation_id.toString(),
+        messageId: data.message_id,
+        content: sanitizedContent,
+      });
+
+      if (!result.success) {
+        this.messageHandlerService.sendMessageError(
+          client,
+          result.error || "Failed to edit message",
+          data.conversation_id,
+          result.reason
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error editing message:`, error);
+      this.errorService.handleError(client, error, 'edit_message');
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("delete_message")
+  async handleDeleteMessage(
+    @MessageBody() data: DeleteMessagePayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id || !data?.message_id) {
+        this.messageHandlerService.sendMessageError(
+          client,
+          'Invalid delete data: conversation_id and message_id are required',
+          data?.conversation_id
+        );
+        return;
+      }
+
+      if (!this.messageService) {
+        this.messageHandlerService.sendMessageError(client, 'Message deletion is not available', data.conversation_id);
+        return;
+      }
+
+      const result = await this.messageService.deleteMessage({
+        userId: client.userId,
+        conversationId: data.conversation_id.toString(),
+        messageId: data.message_id,
+      });
+
+      if (!result.success) {
+        this.messageHandlerService.sendMessageError(client, result.error || "Failed to delete message", data.conversation_id);
+      }
+    } catch (error) {
+      this.logger.error(`Error deleting message:`, error);
+      this.errorService.handleError(client, error, 'delete_message');
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("add_reaction")
+  async handleAddReaction(
+    @MessageBody() data: ReactionPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    return this.handleReaction(data, client, "add");
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("remove_reaction")
+  async handleRemoveReaction(
+    @MessageBody() data: ReactionPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    return this.handleReaction(data, client, "remove");
+  }
+
+  /**
+   * Shared add/remove reaction flow; the service broadcasts reaction_updated
+   */
+  private async handleReaction(
+    data: ReactionPayload,
+    client: AuthenticatedSocket,
+    action: "add" | "remove"
+  ) {
+    try {
+      if (!this.rateLimitingService.isWithinLimit(client.userId, 'reaction')) {
+        client.emit("error", { message: "Rate limit exceeded. Please slow down." });
+        return;
+      }
+
+      if (!data?.conversation_id || !data?.message_id || !data?.emoji) {
+        client.emit("error", {
+          message: "Invalid reaction data: conversation_id, message_id and emoji are required",
+        });
+        return;
+      }
+
+      if (!this.messageService) {
+        client.emit("error", { message: "Reactions are not available" });
+        return;
+      }
+
+      const request = {
+        userId: client.userId,
+        conversationId: data.conversation_id.toString(),
+        messageId: data.message_id,
+        emoji: data.emoji,
+      };
+      const result = action === "add"
+        ? await this.messageService.addReaction(request)
+        : await this.messageService.removeReaction(request);
+
+      if (!result.success) {
+        client.emit("error", {
+          message: result.error || `Failed to ${action} reaction`,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error handling ${action}_reaction:`, error);
+      this.errorService.handleError(client, error, `${action}_reaction`);
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("message_delivered")
+  async handleMessageDelivered(
+    @MessageBody() data: MessageDeliveredPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!Array.isArray(data?.message_ids) || data.message_ids.length === 0) {
+        return;
+      }
+
+      if (this.messageService) {
+        // Cap the batch so one ack can't fan out unbounded work
+        await this.messageService.markMessagesAsDelivered(
+          client.userId,
+          data.message_ids.slice(0, 100),
+          data.device_id
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error handling delivery ack:`, error);
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("sync_request")
+  async handleSyncRequest(
+    @MessageBody() data: SyncRequestPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!this.messageService) {
+        return;
+      }
+
+      // Missed messages are pulled by each device rather than pushed on connect
+      const batch = await this.messageService.syncMessages(
+        client.userId,
+        data?.device_id,
+        data?.cursor
+      );
+      client.emit("sync_batch", batch);
+    } catch (error) {
+      this.errorService.handleError(client, error, "sync_request");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("sync_ack")
+  async handleSyncAck(
+    @MessageBody() data: SyncAckPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!this.messageService || !data?.cursor) {
+        return;
+      }
+
+      const batch = await this.messageService.acknowledgeSync(
+        client.userId,
+        data.device_id,
+        data.cursor
+      );
+      if (batch) {
+        client.emit("sync_batch", batch);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "sync_ack");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("set_presence")
+  async handleSetPresence(
+    @MessageBody() data: SetPresencePayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (data?.status !== "online" && data?.status !== "away") {
+        return;
+      }
+
+      if (this.presenceService) {
+        await this.presenceService.setStatus(client.userId, client.id, data.status);
+      }
+    } catch (error) {
+      this.logger.error(`Error updating presence:`, error);
+    }
+  }
+
+  /**
+   * Swap in a fresh token (sent in answer to token_expiring) without
+   * reconnecting, so the socket keeps its rooms
+   */
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("reauthenticate")
+  async handleReauthenticate(
+    @MessageBody() data: ReauthenticatePayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      const result = await this.connectionService.reauthenticate(client, data?.token);
+      if (result.success === false) {
+        client.emit("reauthenticate_error", { code: result.code, message: result.message });
+        return;
+      }
+
+      client.emit("reauthenticated", { expires_at: result.expires_at });
+    } catch (error) {
+      this.errorService.handleError(client, error, "reauthenticate");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("add_participant")
+  async handleAddParticipant(
+    @MessageBody() data: ParticipantPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id || !data?.user_id) {
+        client.emit("error", { message: "conversation_id and user_id are required" });
+        return;
+      }
+
+      if (this.groupService) {
+        await this.groupService.addParticipant(client.userId, data.conversation_id, data.user_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "add_participant");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("remove_participant")
+  async handleRemoveParticipant(
+    @MessageBody() data: ParticipantPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id || !data?.user_id) {
+        client.emit("error", { message: "conversation_id and user_id are required" });
+        return;
+      }
+
+      if (this.groupService) {
+        await this.groupService.removeParticipant(client.userId, data.conversation_id, data.user_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "remove_participant");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("update_participant_role")
+  async handleUpdateParticipantRole(
+    @MessageBody() data: ParticipantRolePayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id || !data?.user_id || !data?.role) {
+        client.emit("error", { message: "conversation_id, user_id and role are required" });
+        return;
+      }
+
+      if (this.groupService) {
+        await this.groupService.changeRole(client.userId, data.conversation_id, data.user_id, data.role);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "update_participant_role");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("leave_group")
+  async handleLeaveGroup(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.groupService) {
+        await this.groupService.leave(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "leave_group");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("archive_conversation")
+  async handleArchiveConversation(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.archive(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "archive_conversation");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("unarchive_conversation")
+  async handleUnarchiveConversation(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.unarchive(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "unarchive_conversation");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("pin_conversation")
+  async handlePinConversation(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.pin(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "pin_conversation");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("unpin_conversation")
+  async handleUnpinConversation(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.unpin(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "unpin_conversation");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("mute_conversation")
+  async handleMuteConversation(
+    @MessageBody() data: MuteConversationPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.mute(
+          client.userId,
+          data.conversation_id,
+          data.muted_until ? new Date(data.muted_until) : undefined
+        );
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "mute_conversation");
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage("unmute_conversation")
+  async handleUnmuteConversation(
+    @MessageBody() data: JoinRoomPayload,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!data?.conversation_id) {
+        client.emit("error", { message: "conversation_id is required" });
+        return;
+      }
+
+      if (this.inboxService) {
+        await this.inboxService.unmute(client.userId, data.conversation_id);
+      }
+    } catch (error) {
+      this.errorService.handleError(client, error, "unmute_conversation");
+    }
+  }
+
   /**
    * Send message to specific user (for offline message delivery)
    */
@@ -388,10 +947,21 @@ export class ChatGateway
     userId: string,
     event: keyof ServerToClientEvents,
     data: any
-  ): Promise<boolean> {
+  ): Promise<void> {
     return this.broadcastService.sendMessageToUser(userId, event, data);
   }
 
+  /**
+   * Send one event to many users at once
+   */
+  async sendMessageToUsers(
+    userIds: string[],
+    event: keyof ServerToClientEvents,
+    data: any
+  ): Promise<void> {
+    return this.broadcastService.sendMessageToUsers(userIds, event, data);
+  }
+
   /**
    * Send message to conversation room
    */
@@ -404,21 +974,28 @@ export class ChatGateway
   }
 
   /**
-   * Get connected users count
+   * Remove all of a user's sockets from a conversation room
+   */
+  async removeUserFromConversation(userId: string, conversationId: string): Promise<void> {
+    return this.broadcastService.removeUserFromConversation(userId, conversationId);
+  }
+
+  /**
+   * Get connected users count across all instances
    */
-  getConnectedUsersCount(): number {
-    return this.connectionService.getConnectedUsersCount();
+  async getConnectedUsersCount(): Promise<number> {
+    return this.broadcastService.getConnectedUsersCount();
   }
 
   /**
-   * Check if user is connected
+   * Check if user is connected to any instance
    */
-  isUserConnected(userId: string): boolean {
-    return this.connectionService.isUserConnected(userId);
+  async isUserConnected(userId: string): Promise<boolean> {
+    return this.broadcastService.isUserConnected(userId);
   }
 
   /**
-   * Get user's socket count
+   * Get user's socket count on this instance
    */
   getUserSocketCount(userId: string): number {
     return this.connectionService.getUserSocketCount(userId);
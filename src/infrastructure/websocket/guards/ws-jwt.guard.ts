@@ -1,5 +1,5 @@
 import { Injectable, CanActivate, ExecutionContext, Logger } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
 import { Socket } from 'socket.io';
 
 interface AuthenticatedSocket extends Socket {
@@ -14,7 +14,7 @@ interface AuthenticatedSocket extends Socket {
 export class WsJwtGuard implements CanActivate {
   private readonly logger = new Logger(WsJwtGuard.name);
 
-  constructor(private readonly jwtService: JwtService) {}
+  constructor(private readonly jwtVerifier: JwtVerifierService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     try {
@@ -74,12 +74,7 @@ export class WsJwtGuard implements CanActivate {
 
   private async verifyToken(token: string): Promise<any> {
     try {
-      // Use decode for external tokens in development
-      const payload = this.jwtService.decode(token);
-      if (!payload) {
-        throw new Error('Invalid token format');
-      }
-      return payload;
+      return await this.jwtVerifier.verify(token);
     } catch (error) {
       this.logger.warn('Token verification failed:', error.message);
       return null;
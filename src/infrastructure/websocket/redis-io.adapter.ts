@@ -0,0 +1,61 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import { Server, ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter that relays room broadcasts between backend instances
+ * over Redis pub/sub, so an emit on one node reaches sockets held by another.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+  private pubClient: Redis;
+  private subClient: Redis;
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly configService: ConfigService,
+  ) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    this.pubClient = new Redis({
+      host: this.configService.get('REDIS_HOST', 'localhost'),
+      port: this.configService.get('REDIS_PORT', 6379),
+      password: this.configService.get('REDIS_PASSWORD'),
+      lazyConnect: true,
+    });
+    this.subClient = this.pubClient.duplicate();
+
+    await Promise.all([this.pubClient.connect(), this.subClient.connect()]);
+
+    this.adapterConstructor = createAdapter(this.pubClient, this.subClient, {
+      key: this.configService.get('WEBSOCKET_REDIS_ADAPTER_KEY', 'socket.io'),
+    });
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+    if (!this.adapterConstructor) {
+      throw new Error('connectToRedis() must complete before the WebSocket server is created');
+    }
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+
+  async close(server: Server): Promise<void> {
+    await super.close(server);
+
+    // Nest may close once per namespace; only quit clients that are still open
+    await Promise.all(
+      [this.pubClient, this.subClient]
+        .filter(client => client && client.status === 'ready')
+        .map(client => client.quit()),
+    );
+  }
+}
@@ -89,14 +89,12 @@ export class ConversationAccessService {
         return { allowed: true };
       }
 
-      // For group conversations, check if user is admin/creator
-      // This would depend on your Participant entity having role information
-      // const participant = await this.participantRepository.findByConversationAndUser(conversationId, userId);
-      // if (participant.role === 'admin' || participant.role === 'creator') {
-      //   return { allowed: true };
-      // }
+      // Groups and business chats are managed by admins and the business side
+      const participant = await this.participantRepository.findByConversationAndUser(conversationId, userId);
+      if (!participant?.role.canManageParticipants()) {
+        return { allowed: false, reason: 'Only admins can manage this conversation' };
+      }
 
-      // For now, allow all participants to manage
       return { allowed: true };
     } catch (error) {
       this.logger.error(`Error checking management permissions:`, error);
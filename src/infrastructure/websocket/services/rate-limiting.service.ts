@@ -16,6 +16,7 @@ export interface RateLimitOptions {
   message?: Partial<RateLimitConfig>;
   typing?: Partial<RateLimitConfig>;
   join?: Partial<RateLimitConfig>;
+  reaction?: Partial<RateLimitConfig>;
 }
 
 @Injectable()
@@ -27,6 +28,7 @@ export class RateLimitingService {
     message: { windowMs: 60000, maxRequests: 30, burstAllowance: 5 }, // 30 messages per minute, 5 burst
     typing: { windowMs: 5000, maxRequests: 10 }, // 10 typing events per 5 seconds
     join: { windowMs: 10000, maxRequests: 5 }, // 5 joins per 10 seconds
+    reaction: { windowMs: 10000, maxRequests: 20 }, // 20 reaction toggles per 10 seconds
   };
 
   constructor() {
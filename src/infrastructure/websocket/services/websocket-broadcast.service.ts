@@ -1,5 +1,6 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { Server } from 'socket.io';
+import { PresenceService } from '@infrastructure/cache/presence.service';
 import { ServerToClientEvents } from '../types/websocket-events.types';
 import { WebSocketConnectionService } from './websocket-connection.service';
 
@@ -9,7 +10,8 @@ export class WebSocketBroadcastService {
   private server: Server;
 
   constructor(
-    private readonly connectionService: WebSocketConnectionService
+    private readonly connectionService: WebSocketConnectionService,
+    @Optional() private readonly presenceService?: PresenceService,
   ) {}
 
   setServer(server: Server): void {
@@ -17,28 +19,76 @@ export class WebSocketBroadcastService {
   }
 
   /**
-   * Send message to specific user across all their connected devices
+   * Send message to specific user across all their connected devices.
+   * Every socket joins its user's room, so the emit reaches devices on
+   * other instances through the Redis adapter; an offline user's room is
+   * simply empty, so delivery can't be known here.
    */
   async sendMessageToUser(
     userId: string,
     event: keyof ServerToClientEvents,
     data: any
-  ): Promise<boolean> {
-    const userSockets = this.connectionService.getUserSockets(userId);
+  ): Promise<void> {
+    if (!this.server) {
+      this.logger.warn('Server not initialized');
+      return;
+    }
+
+    this.server.to(`user_${userId}`).emit(event as any, data);
+    this.logger.debug(`Sent ${event} to user ${userId}`);
+  }
+
+  /**
+   * Send one event to many users with a single emit across their user rooms
+   */
+  async sendMessageToUsers(
+    userIds: string[],
+    event: keyof ServerToClientEvents,
+    data: any
+  ): Promise<void> {
+    if (!this.server) {
+      this.logger.warn('Server not initialized');
+      return;
+    }
+    if (userIds.length === 0) {
+      return;
+    }
+
+    this.server.to(userIds.map(userId => `user_${userId}`)).emit(event as any, data);
+    this.logger.debug(`Sent ${event} to ${userIds.length} users`);
+  }
 
-    if (userSockets.length === 0) {
-      this.logger.debug(`User ${userId} is not connected`);
+  /**
+   * Whether the user has a socket on any instance. Read from the presence
+   * store rather than asking every instance through the adapter.
+   */
+  async isUserConnected(userId: string): Promise<boolean> {
+    if (this.connectionService.getUserSocketCount(userId) > 0) {
+      return true;
+    }
+    if (this.presenceService) {
+      const presence = await this.presenceService.getPresence(userId);
+      return presence.status !== 'offline';
+    }
+    if (!this.server) {
       return false;
     }
 
-    userSockets.forEach((socket) => {
-      socket.emit(event, data);
-    });
+    const sockets = await this.server.in(`user_${userId}`).fetchSockets();
+    return sockets.length > 0;
+  }
 
-    this.logger.debug(
-      `Sent ${event} to user ${userId} (${userSockets.length} sockets)`
-    );
-    return true;
+  /**
+   * Distinct users connected across all instances, read from the presence
+   * index instead of fetching every socket through the adapter. Without
+   * presence only this instance's users are known.
+   */
+  async getConnectedUsersCount(): Promise<number> {
+    if (!this.presenceService) {
+      return this.connectionService.getConnectedUsersCount();
+    }
+
+    return this.presenceService.countConnectedUsers();
   }
 
   /**
@@ -74,23 +124,24 @@ export class WebSocketBroadcastService {
     }
 
     const roomName = `conversation_${conversationId}`;
-    const userSockets = this.connectionService.getUserSockets(excludeUserId);
-    
-    // Get all sockets in the room except the excluded user's sockets
-    const room = this.server.sockets.adapter.rooms.get(roomName);
-    if (room) {
-      const excludeSocketIds = new Set(userSockets.map(socket => socket.id));
-      
-      room.forEach(socketId => {
-        if (!excludeSocketIds.has(socketId)) {
-          this.server.to(socketId).emit(event as any, data);
-        }
-      });
-    }
+    this.server.to(roomName).except(`user_${excludeUserId}`).emit(event as any, data);
 
     this.logger.debug(`Sent ${event} to conversation ${conversationId} excluding user ${excludeUserId}`);
   }
 
+  /**
+   * Take every socket of a user out of a conversation room, on all instances
+   */
+  async removeUserFromConversation(userId: string, conversationId: string): Promise<void> {
+    if (!this.server) {
+      this.logger.warn('Server not initialized');
+      return;
+    }
+
+    this.server.in(`user_${userId}`).socketsLeave(`conversation_${conversationId}`);
+    this.logger.debug(`Removed user ${userId} from conversation room ${conversationId}`);
+  }
+
   /**
    * Broadcast system message to all connected users
    */
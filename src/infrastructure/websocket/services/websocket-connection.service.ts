@@ -1,21 +1,53 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Socket } from 'socket.io';
-import { JwtService } from '@nestjs/jwt';
+import { Injectable, Logger, Optional, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Server, Socket } from 'socket.io';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
+import { CACHE_SERVICE_TOKEN, ICacheService } from '@infrastructure/cache/cache.interface';
+import { isRevokedSession, sessionRoom } from '@infrastructure/auth/services/session-revocation';
+import {
+  ReauthenticatedEvent,
+  ReauthenticateErrorEvent,
+  SessionRevokedEvent,
+  TokenExpiredEvent,
+  TokenExpiringEvent,
+} from '../types/websocket-events.types';
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed when they fire
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
+  tokenExpiresAt?: number;
+  tokenExpiryWarned?: boolean;
   user?: {
     id: string;
     name?: string;
   };
 }
 
+export type ReauthenticateResult =
+  | ({ success: true } & ReauthenticatedEvent)
+  | ({ success: false } & ReauthenticateErrorEvent);
+
 @Injectable()
 export class WebSocketConnectionService {
   private readonly logger = new Logger(WebSocketConnectionService.name);
   private readonly connectedUsers = new Map<string, AuthenticatedSocket[]>();
+  private readonly expiryTimers = new Map<string, NodeJS.Timeout>();
+  private server?: Server;
 
-  constructor(private readonly jwtService: JwtService) {}
+  constructor(
+    private readonly jwtVerifier: JwtVerifierService,
+    private readonly configService: ConfigService,
+    @Inject('IAuthSessionRepository') private readonly sessionRepository: IAuthSessionRepository,
+    @Optional() @Inject(CACHE_SERVICE_TOKEN) private readonly cache?: ICacheService,
+  ) {}
+
+  setServer(server: Server): void {
+    this.server = server;
+  }
 
   async authenticateSocket(client: AuthenticatedSocket): Promise<boolean> {
     try {
@@ -31,12 +63,19 @@ export class WebSocketConnectionService {
         return false;
       }
 
+      if (payload.sid && (await this.isSessionRevoked(payload.sid))) {
+        this.logger.warn(`Revoked session ${payload.sid} tried to connect with client ${client.id}`);
+        return false;
+      }
+
       const userId = payload.userId || payload.id || payload.sub;
       client.userId = userId;
+      client.sessionId = payload.sid;
       client.user = {
         id: userId,
         name: payload.name,
       };
+      this.trackTokenExpiry(client, payload.exp);
 
       this.addUserConnection(userId, client);
       this.logger.log(`User ${userId} connected with socket ${client.id}`);
@@ -48,6 +87,7 @@ export class WebSocketConnectionService {
   }
 
   disconnectUser(client: AuthenticatedSocket): void {
+    this.clearTokenExpiry(client);
     if (client.userId) {
       this.removeUserConnection(client.userId, client);
       this.logger.log(`User ${client.userId} disconnected (socket ${client.id})`);
@@ -75,10 +115,83 @@ export class WebSocketConnectionService {
     }
   }
 
+  /**
+   * Tell every socket opened with the session why it is being dropped, then
+   * disconnect them on whichever instance holds them
+   */
+  async disconnectSession(sessionId: string, reason: SessionRevokedEvent['reason']): Promise<void> {
+    const event: SessionRevokedEvent = { session_id: sessionId, reason, timestamp: new Date().toISOString() };
+
+    if (this.server) {
+      this.server.to(sessionRoom(sessionId)).emit('session_revoked', event);
+      this.server.in(sessionRoom(sessionId)).disconnectSockets(true);
+      return;
+    }
+
+    for (const sockets of this.connectedUsers.values()) {
+      for (const socket of sockets.filter(s => s.sessionId === sessionId)) {
+        socket.emit('session_revoked', event);
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  /**
+   * Swap a fresh token into a connected socket so it keeps its rooms. The
+   * token must belong to the same user; a different session (after signing in
+   * again) moves the socket to that session's room.
+   */
+  async reauthenticate(client: AuthenticatedSocket, token: string): Promise<ReauthenticateResult> {
+    const payload = typeof token === 'string' && token ? await this.verifyToken(token) : null;
+    if (!payload) {
+      return { success: false, code: 'invalid_token', message: 'Token is invalid or has expired' };
+    }
+
+    const userId = payload.userId || payload.id || payload.sub;
+    if (userId !== client.userId) {
+      this.logger.warn(`Socket ${client.id} of user ${client.userId} tried to reauthenticate as ${userId}`);
+      return { success: false, code: 'user_mismatch', message: 'Token belongs to a different user' };
+    }
+
+    if (payload.sid && (await this.isSessionRevoked(payload.sid))) {
+      return { success: false, code: 'session_revoked', message: 'Session has ended' };
+    }
+
+    if (payload.sid !== client.sessionId) {
+      if (client.sessionId) {
+        await client.leave(sessionRoom(client.sessionId));
+      }
+      if (payload.sid) {
+        await client.join(sessionRoom(payload.sid));
+      }
+      client.sessionId = payload.sid;
+    }
+
+    this.trackTokenExpiry(client, payload.exp);
+    this.logger.log(`User ${userId} reauthenticated socket ${client.id}`);
+    return {
+      success: true,
+      expires_at: client.tokenExpiresAt ? new Date(client.tokenExpiresAt).toISOString() : null,
+    };
+  }
+
   getUserSockets(userId: string): AuthenticatedSocket[] {
     return this.connectedUsers.get(userId) || [];
   }
 
+  /**
+   * Sockets owned by this instance, for refreshing their presence heartbeat
+   */
+  getConnectedSockets(): Array<{ userId: string; socketId: string }> {
+    const sockets: Array<{ userId: string; socketId: string }> = [];
+    for (const [userId, userSockets] of this.connectedUsers.entries()) {
+      for (const socket of userSockets) {
+        sockets.push({ userId, socketId: socket.id });
+      }
+    }
+    return sockets;
+  }
+
   getConnectedUsersCount(): number {
     return this.connectedUsers.size;
   }
@@ -93,6 +206,86 @@ export class WebSocketConnectionService {
     return userSockets ? userSockets.length : 0;
   }
 
+  /**
+   * Warn the client WEBSOCKET_TOKEN_EXPIRY_WARNING_SECONDS before its token
+   * expires and drop the socket once it has. Tokens without `exp` are not
+   * tracked.
+   */
+  private trackTokenExpiry(client: AuthenticatedSocket, exp?: number): void {
+    client.tokenExpiresAt = exp ? exp * 1000 : undefined;
+    client.tokenExpiryWarned = false;
+    this.scheduleTokenExpiry(client);
+  }
+
+  private scheduleTokenExpiry(client: AuthenticatedSocket): void {
+    this.clearTokenExpiry(client);
+    if (!client.tokenExpiresAt) {
+      return;
+    }
+
+    const warnAt = client.tokenExpiresAt - this.getExpiryWarningMs();
+    const fireAt = client.tokenExpiryWarned ? client.tokenExpiresAt : warnAt;
+    const delay = Math.min(Math.max(fireAt - Date.now(), 0), MAX_TIMER_MS);
+
+    const timer = setTimeout(() => this.handleTokenTimer(client), delay);
+    timer.unref?.();
+    this.expiryTimers.set(client.id, timer);
+  }
+
+  private handleTokenTimer(client: AuthenticatedSocket): void {
+    this.expiryTimers.delete(client.id);
+    const expiresAt = client.tokenExpiresAt;
+    if (!expiresAt || client.disconnected) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now >= expiresAt) {
+      const event: TokenExpiredEvent = {
+        reason: 'token_expired',
+        expired_at: new Date(expiresAt).toISOString(),
+        timestamp: new Date(now).toISOString(),
+      };
+      this.logger.log(`Disconnecting socket ${client.id} of user ${client.userId}: token expired`);
+      client.emit('token_expired', event);
+      client.disconnect(true);
+      return;
+    }
+
+    if (!client.tokenExpiryWarned && now >= expiresAt - this.getExpiryWarningMs()) {
+      const event: TokenExpiringEvent = {
+        expires_at: new Date(expiresAt).toISOString(),
+        seconds_remaining: Math.floor((expiresAt - now) / 1000),
+      };
+      client.emit('token_expiring', event);
+      client.tokenExpiryWarned = true;
+    }
+
+    this.scheduleTokenExpiry(client);
+  }
+
+  private clearTokenExpiry(client: AuthenticatedSocket): void {
+    const timer = this.expiryTimers.get(client.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(client.id);
+    }
+  }
+
+  private getExpiryWarningMs(): number {
+    return this.configService.get<number>('WEBSOCKET_TOKEN_EXPIRY_WARNING_SECONDS', 60) * 1000;
+  }
+
+  private async isSessionRevoked(sessionId: string): Promise<boolean> {
+    try {
+      return await isRevokedSession(sessionId, this.sessionRepository, this.cache);
+    } catch (error) {
+      // Nothing could vouch for the session, so treat it as ended
+      this.logger.warn(`Could not check revocation for session ${sessionId}: ${error.message}`);
+      return true;
+    }
+  }
+
   private extractTokenFromClient(client: AuthenticatedSocket): string | null {
     const authHeader = client.handshake.headers.authorization;
     if (authHeader && authHeader.startsWith("Bearer ")) {
@@ -114,20 +307,10 @@ export class WebSocketConnectionService {
 
   private async verifyToken(token: string): Promise<any> {
     try {
-      const payload = this.jwtService.decode(token);
-      if (!payload || typeof payload !== 'object') {
-        throw new Error('Invalid token format');
-      }
-      
-      // Check token expiration
-      if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-        throw new Error('Token has expired');
-      }
-      
-      return payload;
+      return await this.jwtVerifier.verify(token);
     } catch (error) {
       this.logger.warn(`Token verification failed:`, error.message);
       return null;
     }
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Socket } from 'socket.io';
-import { MessagePayload, ServerToClientEvents } from '../types/websocket-events.types';
+import { MessagePayload, MessageErrorReason, ServerToClientEvents } from '../types/websocket-events.types';
 import { ConversationAccessService } from './conversation-access.service';
 import { InputSanitizationService } from './input-sanitization.service';
 import { RateLimitingService } from './rate-limiting.service';
@@ -33,6 +33,8 @@ export class WebSocketMessageHandlerService {
     data: MessagePayload
   ): Promise<{ isValid: boolean; error?: string; sanitizedContent?: string }> {
     const { conversation_id, content } = data;
+    const hasAttachments = Array.isArray(data.attachment_ids) && data.attachment_ids.length > 0;
+    const hasContent = !!content && content.trim().length > 0;
 
     // Check rate limiting
     if (!this.rateLimitingService.isWithinLimit(client.userId, 'message')) {
@@ -42,8 +44,8 @@ export class WebSocketMessageHandlerService {
       };
     }
 
-    // Validate input
-    if (!conversation_id || !content || content.trim().length === 0) {
+    // Validate input; attachments can stand in for text content
+    if (!conversation_id || (!hasContent && !hasAttachments)) {
       return {
         isValid: false,
         error: 'Invalid message data: conversation_id and content are required',
@@ -51,8 +53,8 @@ export class WebSocketMessageHandlerService {
     }
 
     // Sanitize content
-    const sanitizedContent = this.sanitizationService.sanitizeMessageContent(content);
-    if (!sanitizedContent) {
+    const sanitizedContent = hasContent ? this.sanitizationService.sanitizeMessageContent(content) : '';
+    if (!sanitizedContent && !hasAttachments) {
       return {
         isValid: false,
         error: 'Message content is invalid or empty after sanitization',
@@ -102,12 +104,14 @@ export class WebSocketMessageHandlerService {
   sendMessageError(
     client: AuthenticatedSocket,
     error: string,
-    conversationId?: string
+    conversationId?: string,
+    reason?: MessageErrorReason
   ): void {
     client.emit('message_error', {
       message: error,
       conversation_id: conversationId || 'unknown',
       timestamp: new Date().toISOString(),
+      reason,
     });
   }
 
@@ -124,7 +128,7 @@ export class WebSocketMessageHandlerService {
       message_id: messageId,
       conversation_id: conversationId,
       sent_at: typeof sentAt === 'string' ? sentAt : sentAt.toISOString(),
-      status: 'delivered' as const,
+      status: 'sent' as const,
     });
   }
 }
\ No newline at end of file
@@ -6,6 +6,25 @@ export interface ClientToServerEvents {
   typing_start: (data: TypingPayload) => void;
   typing_stop: (data: TypingPayload) => void;
   mark_as_read: (data: MarkAsReadPayload) => void;
+  add_reaction: (data: ReactionPayload) => void;
+  remove_reaction: (data: ReactionPayload) => void;
+  edit_message: (data: EditMessagePayload) => void;
+  delete_message: (data: DeleteMessagePayload) => void;
+  message_delivered: (data: MessageDeliveredPayload) => void;
+  set_presence: (data: SetPresencePayload) => void;
+  sync_request: (data: SyncRequestPayload) => void;
+  sync_ack: (data: SyncAckPayload) => void;
+  add_participant: (data: ParticipantPayload) => void;
+  remove_participant: (data: ParticipantPayload) => void;
+  update_participant_role: (data: ParticipantRolePayload) => void;
+  leave_group: (data: JoinRoomPayload) => void;
+  archive_conversation: (data: JoinRoomPayload) => void;
+  unarchive_conversation: (data: JoinRoomPayload) => void;
+  pin_conversation: (data: JoinRoomPayload) => void;
+  unpin_conversation: (data: JoinRoomPayload) => void;
+  mute_conversation: (data: MuteConversationPayload) => void;
+  unmute_conversation: (data: JoinRoomPayload) => void;
+  reauthenticate: (data: ReauthenticatePayload) => void;
 }
 
 // Server to Client Events
@@ -14,6 +33,22 @@ export interface ServerToClientEvents {
   joined_conversation: (data: ConversationJoinedEvent) => void;
   left_conversation: (data: ConversationLeftEvent) => void;
   new_message: (data: NewMessageEvent) => void;
+  thread_reply: (data: ThreadReplyEvent) => void;
+  reaction_updated: (data: ReactionUpdatedEvent) => void;
+  message_edited: (data: MessageEditedEvent) => void;
+  message_deleted: (data: MessageDeletedEvent) => void;
+  message_status: (data: MessageStatusEvent) => void;
+  presence_update: (data: PresenceUpdateEvent) => void;
+  profile_updated: (data: ProfileUpdatedEvent) => void;
+  sync_batch: (data: SyncBatchEvent) => void;
+  participant_added: (data: ParticipantAddedEventPayload) => void;
+  participant_removed: (data: ParticipantRemovedEventPayload) => void;
+  participant_role_changed: (data: ParticipantRoleChangedEventPayload) => void;
+  conversation_updated: (data: ConversationUpdatedEventPayload) => void;
+  conversation_state_updated: (data: ConversationStateUpdatedEvent) => void;
+  conversation_assigned: (data: ConversationAssignedEventPayload) => void;
+  messages_expired: (data: MessagesExpiredEventPayload) => void;
+  message_expired: (data: MessageExpiredEventPayload) => void;
   message_sent: (data: MessageSentConfirmation) => void;
   message_error: (data: MessageErrorEvent) => void;
   user_typing: (data: TypingEvent) => void;
@@ -22,6 +57,11 @@ export interface ServerToClientEvents {
   conversation_history: (data: ConversationHistoryEvent) => void;
   user_joined_conversation: (data: UserJoinedEvent) => void;
   join_error: (data: JoinErrorEvent) => void;
+  session_revoked: (data: SessionRevokedEvent) => void;
+  token_expiring: (data: TokenExpiringEvent) => void;
+  token_expired: (data: TokenExpiredEvent) => void;
+  reauthenticated: (data: ReauthenticatedEvent) => void;
+  reauthenticate_error: (data: ReauthenticateErrorEvent) => void;
   error: (data: ErrorEvent) => void;
 }
 
@@ -34,6 +74,10 @@ export interface MessagePayload {
   conversation_id: string;
   content: string;
   message_type?: string;
+  parent_message_id?: string;
+  attachment_ids?: string[];
+  /** Makes the message disappear this long after each recipient reads it */
+  expires_after_read_seconds?: number;
 }
 
 export interface TypingPayload {
@@ -45,6 +89,60 @@ export interface MarkAsReadPayload {
   message_id: string;
 }
 
+export interface EditMessagePayload {
+  conversation_id: string;
+  message_id: string;
+  content: string;
+}
+
+export interface DeleteMessagePayload {
+  conversation_id: string;
+  message_id: string;
+}
+
+export interface MessageDeliveredPayload {
+  message_ids: string[];
+  /** Set for live deliveries so the device's sync cursor moves past them */
+  device_id?: string;
+}
+
+export interface SyncRequestPayload {
+  device_id: string;
+  cursor?: string;
+}
+
+export interface SyncAckPayload {
+  device_id: string;
+  cursor: string;
+}
+
+export interface SetPresencePayload {
+  status: 'online' | 'away';
+}
+
+export interface ReactionPayload {
+  conversation_id: string;
+  message_id: string;
+  emoji: string;
+}
+
+export interface ParticipantPayload {
+  conversation_id: string;
+  user_id: string;
+}
+
+export interface MuteConversationPayload {
+  conversation_id: string;
+  /** ISO 8601; omit to mute until turned off */
+  muted_until?: string;
+}
+
+export interface ParticipantRolePayload {
+  conversation_id: string;
+  user_id: string;
+  role: 'admin' | 'member';
+}
+
 // Event Response Types
 export interface ConnectionConfirmation {
   message: string;
@@ -70,13 +168,203 @@ export interface NewMessageEvent {
   content: string;
   message_type: string;
   sent_at: string;
+  edited_at?: string | null;
+  parent_message_id?: string;
+  parent?: MessagePreview;
+  attachments?: AttachmentInfo[];
+  expires_after_read_seconds?: number | null;
+}
+
+export interface AttachmentInfo {
+  attachment_id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  checksum: string;
+  width?: number;
+  height?: number;
+  url: string;
+}
+
+export interface MessageEditedEvent {
+  message_id: string;
+  conversation_id: string;
+  content: string;
+  edited_by: string;
+  edited_at: string;
+}
+
+export interface MessageDeletedEvent {
+  message_id: string;
+  conversation_id: string;
+  deleted_by: string;
+  deleted_at: string;
+}
+
+// Trimmed copy of a parent message so clients can render a quoted reply
+export interface MessagePreview {
+  message_id: string;
+  sender_id: string;
+  content: string;
+  message_type: string;
+  sent_at: string;
+  is_deleted: boolean;
+}
+
+export interface ThreadReplyEvent {
+  conversation_id: string;
+  parent_message_id: string;
+  reply_count: number;
+  message: NewMessageEvent;
+}
+
+// Aggregated reactions for one emoji on a message
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  user_ids: string[];
+}
+
+export interface ReactionUpdatedEvent {
+  conversation_id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  action: 'added' | 'removed';
+  reactions: ReactionSummary[];
+  timestamp: string;
 }
 
 export interface MessageSentConfirmation {
   message_id: string;
   conversation_id: string;
   sent_at: string;
-  status: 'delivered' | 'failed';
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+}
+
+/**
+ * One page of missed messages. Ack `cursor` to receive the next page;
+ * an empty batch with a null cursor needs no ack. Batches can overlap
+ * with live `new_message` events, so clients dedupe by message_id.
+ */
+export interface SyncBatchEvent {
+  device_id: string;
+  messages: NewMessageEvent[];
+  cursor: string | null;
+  has_more: boolean;
+}
+
+export interface ParticipantAddedEventPayload {
+  event_id: string;
+  conversation_id: string;
+  user_id: string;
+  role: string;
+  added_by: string;
+  timestamp: string;
+}
+
+/**
+ * Also sent to the removed user, whose sockets are then taken out of the room
+ */
+export interface ParticipantRemovedEventPayload {
+  event_id: string;
+  conversation_id: string;
+  user_id: string;
+  removed_by: string;
+  reason?: string;
+  timestamp: string;
+}
+
+export interface ParticipantRoleChangedEventPayload {
+  conversation_id: string;
+  user_id: string;
+  role: string;
+  changed_by: string;
+  timestamp: string;
+}
+
+export interface ConversationUpdatedEventPayload {
+  conversation_id: string;
+  name: string | null;
+  description: string | null;
+  avatar_url: string | null;
+  settings: {
+    mute_notifications: boolean;
+    allow_file_sharing: boolean;
+    allow_image_sharing: boolean;
+    max_participants: number;
+    auto_delete_messages: boolean;
+    auto_delete_days: number | null;
+  };
+  updated_by: string;
+  timestamp: string;
+}
+
+export interface ConversationStateUpdatedEvent {
+  conversation_id: string;
+  archived_at: string | null;
+  pinned_at: string | null;
+  is_muted: boolean;
+  muted_until: string | null;
+  timestamp: string;
+}
+
+export interface ConversationAssignedEventPayload {
+  conversation_id: string;
+  business_id: string;
+  status: 'queued' | 'assigned' | 'closed';
+  agent_id: string | null;
+  previous_agent_id: string | null;
+  action: 'queued' | 'assigned' | 'claimed' | 'transferred' | 'closed' | 'reopened';
+  actor_id: string;
+  timestamp: string;
+}
+
+export interface MessageExpiredEventPayload {
+  message_id: string;
+  conversation_id: string;
+  timestamp: string;
+}
+
+export interface MessagesExpiredEventPayload {
+  conversation_id: string;
+  message_ids: string[];
+  timestamp: string;
+}
+
+export interface PresenceUpdateEvent {
+  user_id: string;
+  status: 'online' | 'away' | 'offline';
+  last_seen: string | null;
+  timestamp: string;
+}
+
+export interface ProfileUpdatedEvent {
+  user_id: string;
+  user_type: 'user' | 'business';
+  deleted: boolean;
+  /** Null when the profile was deleted or could not be loaded */
+  profile: { name: string; avatar_url: string | null } | null;
+  timestamp: string;
+}
+
+export interface MessageStatusUpdate {
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  status: 'sent' | 'delivered' | 'read';
+  aggregate_status: 'sent' | 'delivered' | 'read';
+  recipient_count: number;
+  delivered_count: number;
+  read_count: number;
+}
+
+/**
+ * Every status change of one sender's messages from a single delivery ack or read
+ */
+export interface MessageStatusEvent {
+  statuses: MessageStatusUpdate[];
+  timestamp: string;
 }
 
 export interface MessageErrorEvent {
@@ -84,6 +372,16 @@ export interface MessageErrorEvent {
   conversation_id: string;
   timestamp: string;
   error?: string;
+  reason?: MessageErrorReason;
+}
+
+/**
+ * Why the server refused a message, for clients that want to show more than the text
+ */
+export interface MessageErrorReason {
+  code: 'moderation_rejected';
+  rule: string;
+  detail: string;
 }
 
 export interface TypingEvent {
@@ -119,6 +417,37 @@ export interface UserJoinedEvent {
   timestamp: string;
 }
 
+export interface SessionRevokedEvent {
+  session_id: string;
+  reason: 'logout' | 'remote_logout' | 'replaced' | 'reuse_detected';
+  timestamp: string;
+}
+
+export interface ReauthenticatePayload {
+  token: string;
+}
+
+export interface TokenExpiringEvent {
+  expires_at: string;
+  seconds_remaining: number;
+}
+
+// Sent just before the server drops a socket whose token has lapsed
+export interface TokenExpiredEvent {
+  reason: 'token_expired';
+  expired_at: string;
+  timestamp: string;
+}
+
+export interface ReauthenticatedEvent {
+  expires_at: string | null;
+}
+
+export interface ReauthenticateErrorEvent {
+  code: 'invalid_token' | 'user_mismatch' | 'session_revoked';
+  message: string;
+}
+
 export interface JoinErrorEvent {
   message: string;
   conversation_id: string;
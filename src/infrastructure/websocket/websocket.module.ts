@@ -1,6 +1,4 @@
 import { Module } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ChatGateway } from './chat.gateway';
 import { WebSocketConnectionService } from './services/websocket-connection.service';
 import { WebSocketBroadcastService } from './services/websocket-broadcast.service';
@@ -13,17 +11,8 @@ import { WsJwtGuard } from './guards/ws-jwt.guard';
 import { RepositoryModule } from '@infrastructure/repositories/repository.module';
 
 @Module({
-  imports: [
-    RepositoryModule,
-    JwtModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: async (configService: ConfigService) => ({
-        secret: configService.get<string>('EXTERNAL_JWT_SECRET'),
-        signOptions: { expiresIn: '24h' },
-      }),
-      inject: [ConfigService],
-    }),
-  ],
+  // Token verification comes from the global JwtVerifierService
+  imports: [RepositoryModule],
   providers: [
     ChatGateway,
     WebSocketConnectionService,
@@ -40,6 +29,7 @@ import { RepositoryModule } from '@infrastructure/repositories/repository.module
     WebSocketConnectionService,
     WebSocketBroadcastService,
     ConversationAccessService,
+    InputSanitizationService,
   ],
 })
 export class WebSocketModule {}
\ No newline at end of file
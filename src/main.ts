@@ -4,12 +4,15 @@ import { ConfigService } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { LoggingInterceptor } from '@infrastructure/logging/logging.interceptor';
+import { RedisIoAdapter } from '@infrastructure/websocket/redis-io.adapter';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   
   try {
     const app = await NestFactory.create(AppModule, {
+      // Inbound webhooks verify their signature against the exact bytes sent
+      rawBody: true,
       logger: ['error', 'warn', 'log', 'debug', 'verbose'],
     });
 
@@ -31,6 +34,13 @@ async function bootstrap() {
     // Global interceptors
     app.useGlobalInterceptors(new LoggingInterceptor());
 
+    // Relay WebSocket broadcasts between instances through Redis
+    if (configService.get<boolean>('WEBSOCKET_REDIS_ADAPTER_ENABLED', true)) {
+      const redisIoAdapter = new RedisIoAdapter(app, configService);
+      await redisIoAdapter.connectToRedis();
+      app.useWebSocketAdapter(redisIoAdapter);
+    }
+
     // CORS configuration
     app.enableCors({
       origin: configService.get<string>('CORS_ORIGIN', '*'),
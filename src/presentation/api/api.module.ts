@@ -1,7 +1,20 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { ConversationsController } from './conversations/conversations.controller';
 import { SimpleConversationsController } from './conversations/simple-conversations.controller';
 import { HealthController } from './health/health.controller';
+import { AttachmentsController } from './attachments/attachments.controller';
+import { PresenceController } from './presence/presence.controller';
+import { SearchController } from './search/search.controller';
+import { WebhooksController } from './webhooks/webhooks.controller';
+import { RetentionController } from './retention/retention.controller';
+import { BlocksController } from './blocks/blocks.controller';
+import { ReportsController } from './reports/reports.controller';
+import { ModerationController } from './moderation/moderation.controller';
+import { BusinessInboxController } from './business-inbox/business-inbox.controller';
+import { AutoRepliesController } from './auto-replies/auto-replies.controller';
+import { ProfileEventsController } from './profile-events/profile-events.controller';
 import { ServicesModule } from '@application/services/services.module';
 import { RepositoryModule } from '@infrastructure/repositories/repository.module';
 import { ProfileModule } from '@infrastructure/profile/profile.module';
@@ -13,11 +26,29 @@ import { CacheModule } from '@infrastructure/cache/cache.module';
     RepositoryModule,
     ProfileModule,
     CacheModule,
+    // Multer stops reading an upload as soon as it passes the configured attachment size
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: Number(configService.get<number>('ATTACHMENT_MAX_SIZE_BYTES', 10485760)) },
+      }),
+    }),
   ],
   controllers: [
     ConversationsController,
     SimpleConversationsController,
     HealthController,
+    AttachmentsController,
+    PresenceController,
+    SearchController,
+    WebhooksController,
+    RetentionController,
+    BlocksController,
+    ReportsController,
+    ModerationController,
+    BusinessInboxController,
+    AutoRepliesController,
+    ProfileEventsController,
   ],
 })
 export class ApiModule {}
\ No newline at end of file
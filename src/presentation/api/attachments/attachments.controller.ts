@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpStatus,
+  HttpException,
+  StreamableFile,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { AttachmentService, UploadedFileData } from "@application/services/attachment.service";
+import { UploadAttachmentDto } from "./dto/attachment.dto";
+
+@ApiTags("attachments")
+@Controller("api/attachments")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class AttachmentsController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  /**
+   * Upload a file to attach to a later message
+   */
+  @Post()
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      required: ["file", "conversation_id"],
+      properties: {
+        file: { type: "string", format: "binary" },
+        conversation_id: { type: "string", format: "uuid" },
+      },
+    },
+  })
+  // The size limit comes from ATTACHMENT_MAX_SIZE_BYTES via MulterModule in ApiModule
+  @UseInterceptors(FileInterceptor("file"))
+  async upload(
+    @UploadedFile() file: UploadedFileData,
+    @Body() uploadDto: UploadAttachmentDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      if (!file) {
+        throw new HttpException("File is required", HttpStatus.BAD_REQUEST);
+      }
+
+      const result = await this.attachmentService.upload({
+        uploaderId: user.userId,
+        conversationId: uploadDto.conversation_id,
+        file,
+      });
+
+      if (!result.success) {
+        throw new HttpException(
+          result.error || "Failed to upload attachment",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      return {
+        attachment: result.attachment,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to upload attachment",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Download attachment content
+   */
+  @Get(":id/content")
+  async getContent(
+    @Param("id") attachmentId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.attachmentService.getContent(attachmentId, user.userId);
+      if (!result) {
+        throw new HttpException("Attachment not found", HttpStatus.NOT_FOUND);
+      }
+
+      const { attachment, data } = result;
+      const disposition = attachment.mimeType.startsWith("image/") ? "inline" : "attachment";
+
+      return new StreamableFile(data, {
+        type: attachment.mimeType,
+        length: data.length,
+        disposition: `${disposition}; filename="${encodeURIComponent(attachment.fileName)}"`,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch attachment",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
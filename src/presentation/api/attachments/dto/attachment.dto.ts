@@ -0,0 +1,9 @@
+import { IsString, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UploadAttachmentDto {
+  @ApiProperty({ description: 'Conversation the attachment will be posted to' })
+  @IsString()
+  @IsUUID()
+  conversation_id: string;
+}
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { BusinessAutoReplyService } from "@application/services/business-auto-reply.service";
+import { UpdateAutoRepliesDto } from "./dto/auto-replies.dto";
+
+@ApiTags("auto-replies")
+@Controller("api/businesses/:businessId/auto-replies")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class AutoRepliesController {
+  constructor(private readonly autoReplyService: BusinessAutoReplyService) {}
+
+  /**
+   * The business's greeting and away templates, with defaults filled in
+   */
+  @Get()
+  async getAutoReplies(
+    @Param("businessId") businessId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.autoReplyService.getSettings(user.userId, businessId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to get auto-replies",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Change the templates or turn either reply on or off
+   */
+  @Put()
+  async updateAutoReplies(
+    @Param("businessId") businessId: string,
+    @Body() body: UpdateAutoRepliesDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.autoReplyService.updateSettings(user.userId, businessId, {
+        greetingEnabled: body.greeting_enabled,
+        greetingMessage: body.greeting_message,
+        awayEnabled: body.away_enabled,
+        awayMessage: body.away_message,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to update auto-replies",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
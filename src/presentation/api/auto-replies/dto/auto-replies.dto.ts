@@ -0,0 +1,28 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+const TEMPLATE_HINT = 'May use {business_name}, {hours} and {timezone}; null restores the default';
+
+export class UpdateAutoRepliesDto {
+  @ApiPropertyOptional({ description: 'Greet customers on the first message of a new conversation' })
+  @IsOptional()
+  @IsBoolean()
+  greeting_enabled?: boolean;
+
+  @ApiPropertyOptional({ description: `Greeting template. ${TEMPLATE_HINT}`, nullable: true, maxLength: 1000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  greeting_message?: string | null;
+
+  @ApiPropertyOptional({ description: 'Reply to customers who write outside business hours' })
+  @IsOptional()
+  @IsBoolean()
+  away_enabled?: boolean;
+
+  @ApiPropertyOptional({ description: `Away template. ${TEMPLATE_HINT}`, nullable: true, maxLength: 1000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  away_message?: string | null;
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { UserBlockService } from "@application/services/user-block.service";
+import { BlockUserDto, BlockListQueryDto } from "./dto/block.dto";
+
+@ApiTags("blocks")
+@Controller("api/blocks")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class BlocksController {
+  constructor(private readonly blockService: UserBlockService) {}
+
+  /**
+   * Users the current user has blocked, most recent first
+   */
+  @Get()
+  async listBlocked(
+    @Query() query: BlockListQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.blockService.listBlocked(
+        user.userId,
+        query.limit ?? 50,
+        query.offset ?? 0
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to list blocked users",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post()
+  async blockUser(
+    @Body() body: BlockUserDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.blockService.block(user.userId, body.user_id);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to block user",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Delete(":userId")
+  async unblockUser(
+    @Param("userId") blockedUserId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      await this.blockService.unblock(user.userId, blockedUserId);
+      return {
+        success: true,
+        message: "User unblocked",
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to unblock user",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
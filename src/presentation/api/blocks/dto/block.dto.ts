@@ -0,0 +1,28 @@
+import { IsString, IsOptional, IsInt, MinLength, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class BlockUserDto {
+  @ApiProperty({ description: 'User to block' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  user_id: string;
+}
+
+export class BlockListQueryDto {
+  @ApiPropertyOptional({ description: 'Number of blocked users to return', default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Number of blocked users to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,261 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { BusinessInboxService } from "@application/services/business-inbox.service";
+import {
+  StartBusinessConversationDto,
+  TransferConversationDto,
+  SetBusinessAgentDto,
+  InboxPaginationQueryDto,
+  InboxConversationsQueryDto,
+} from "./dto/business-inbox.dto";
+
+@ApiTags("business-inbox")
+@Controller("api/businesses/:businessId/inbox")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class BusinessInboxController {
+  constructor(private readonly inboxService: BusinessInboxService) {}
+
+  /**
+   * Start a conversation with the business, or get back the open one
+   */
+  @Post("conversations")
+  async startConversation(
+    @Param("businessId") businessId: string,
+    @Body() body: StartBusinessConversationDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.startConversation(user.userId, businessId, body.agent_id);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to start conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Conversations waiting for an agent, oldest first. Supervisors only.
+   */
+  @Get("queue")
+  async getQueue(
+    @Param("businessId") businessId: string,
+    @Query() query: InboxPaginationQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.listQueue(
+        user.userId,
+        businessId,
+        query.limit,
+        query.offset
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch queue",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * All of the business's conversations by state or agent. Supervisors only.
+   */
+  @Get("conversations")
+  async listConversations(
+    @Param("businessId") businessId: string,
+    @Query() query: InboxConversationsQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.listConversations(user.userId, businessId, {
+        status: query.status,
+        agentId: query.agent_id,
+        limit: query.limit,
+        offset: query.offset,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch conversations",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * The calling agent's open conversations
+   */
+  @Get("mine")
+  async listMine(
+    @Param("businessId") businessId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const conversations = await this.inboxService.listMine(user.userId, businessId);
+      return { conversations };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch assigned conversations",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("conversations/:conversationId/claim")
+  async claimConversation(
+    @Param("businessId") businessId: string,
+    @Param("conversationId") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.claim(user.userId, businessId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to claim conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("conversations/:conversationId/transfer")
+  async transferConversation(
+    @Param("businessId") businessId: string,
+    @Param("conversationId") conversationId: string,
+    @Body() body: TransferConversationDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.transfer(
+        user.userId,
+        businessId,
+        conversationId,
+        body.agent_id
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to transfer conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("conversations/:conversationId/close")
+  async closeConversation(
+    @Param("businessId") businessId: string,
+    @Param("conversationId") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.close(user.userId, businessId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to close conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Agents with their presence and open conversation count. Supervisors only.
+   */
+  @Get("agents")
+  async listAgents(
+    @Param("businessId") businessId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const agents = await this.inboxService.listAgents(user.userId, businessId);
+      return { agents };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to list agents",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Put("agents/:agentId")
+  async setAgent(
+    @Param("businessId") businessId: string,
+    @Param("agentId") agentId: string,
+    @Body() body: SetBusinessAgentDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.setAgent(user.userId, businessId, agentId, body.role);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to save agent",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Remove an agent; their open conversations go back to the queue
+   */
+  @Delete("agents/:agentId")
+  async removeAgent(
+    @Param("businessId") businessId: string,
+    @Param("agentId") agentId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      await this.inboxService.removeAgent(user.userId, businessId, agentId);
+      return {
+        success: true,
+        message: "Agent removed",
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to remove agent",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { IsString, IsOptional, IsIn, IsInt, MinLength, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ASSIGNMENT_STATUSES, AssignmentStatus } from '@domain/entities/conversation-assignment.entity';
+import { BUSINESS_AGENT_ROLES, BusinessAgentRole } from '@domain/entities/business-agent.entity';
+
+export class StartBusinessConversationDto {
+  @ApiPropertyOptional({ description: 'Preferred agent; used only while they are online and taking conversations, otherwise the conversation is queued' })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  agent_id?: string;
+}
+
+export class TransferConversationDto {
+  @ApiPropertyOptional({ description: 'Agent to hand the conversation to; omit to return it to the queue' })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  agent_id?: string;
+}
+
+export class SetBusinessAgentDto {
+  @ApiProperty({ description: 'Agents are routed conversations; supervisors oversee the queue', enum: BUSINESS_AGENT_ROLES })
+  @IsIn(BUSINESS_AGENT_ROLES)
+  role: BusinessAgentRole;
+}
+
+export class InboxPaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Number of conversations to return', default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Number of conversations to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class InboxConversationsQueryDto extends InboxPaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Only conversations in this state', enum: ASSIGNMENT_STATUSES })
+  @IsOptional()
+  @IsIn(ASSIGNMENT_STATUSES)
+  status?: AssignmentStatus;
+
+  @ApiPropertyOptional({ description: 'Only conversations handled by this agent' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  agent_id?: string;
+}
@@ -0,0 +1,43 @@
+import { ConversationsController } from '../conversations.controller';
+
+describe('ConversationsController.getThread', () => {
+  let messageRepository: { findById: jest.Mock; findThreadReplies: jest.Mock; countThreadReplies: jest.Mock };
+  let controller: ConversationsController;
+
+  const user = { userId: 'alice' };
+
+  beforeEach(() => {
+    messageRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'parent-1', conversationId: 'conversation-1', senderId: 'bob' }),
+      findThreadReplies: jest.fn().mockResolvedValue([]),
+      countThreadReplies: jest.fn().mockResolvedValue(0),
+    };
+    controller = new ConversationsController(
+      {} as any,
+      { findByConversationAndUser: jest.fn().mockResolvedValue({ userId: 'alice' }) } as any,
+      messageRepository as any,
+      { getBatchProfiles: jest.fn().mockResolvedValue({ users: [], businesses: [] }) } as any,
+      { buildMessagePreview: jest.fn(() => ({ message_id: 'parent-1' })) } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it.each([
+    [undefined, 50],
+    ['20', 20],
+    ['100000', 100],
+    ['0', 50],
+    ['-5', 1],
+    ['lots', 50],
+  ])('reads limit %p as a page of %p replies', async (limit, expected) => {
+    await controller.getThread('conversation-1', 'parent-1', user, { limit, after_message_id: 'reply-3' });
+
+    expect(messageRepository.findThreadReplies).toHaveBeenCalledWith('parent-1', expected, 'reply-3');
+  });
+});
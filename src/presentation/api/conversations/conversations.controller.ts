@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
@@ -22,13 +24,30 @@ import { IMessageRepository } from "@domain/repositories/message.repository.inte
 import { SimpleProfileCacheService } from "@infrastructure/profile/simple-profile-cache.service";
 import { WebSocketMessageService } from "@application/services/websocket-message.service";
 import { ConversationService } from "@application/services/conversation.service";
+import { MessageReactionService } from "@application/services/message-reaction.service";
+import { MessageService } from "@application/services/message.service";
+import { AttachmentService } from "@application/services/attachment.service";
+import { MessageReceiptService } from "@application/services/message-receipt.service";
+import { GroupMembershipService } from "@application/services/group-membership.service";
+import { ConversationInboxService } from "@application/services/conversation-inbox.service";
 import { 
   SendMessageDto, 
   CreateDirectConversationDto,
-  PaginationQueryDto,
-  MessagePaginationQueryDto 
+  CreateGroupConversationDto,
+  UpdateConversationDto,
+  ConversationListQueryDto,
+  MuteConversationDto,
+  MessagePaginationQueryDto,
+  ThreadQueryDto,
+  ReactionDto,
+  EditMessageDto,
+  AddParticipantDto,
+  UpdateParticipantRoleDto
 } from "./dto/conversation.dto";
 
+const DEFAULT_THREAD_PAGE_SIZE = 50;
+const MAX_THREAD_PAGE_SIZE = 100;
+
 @ApiTags("conversations")
 @Controller("api/conversations")
 @UseGuards(JwtAuthGuard)
@@ -43,23 +62,34 @@ export class ConversationsController {
     private readonly messageRepository: IMessageRepository,
     private readonly profileService: SimpleProfileCacheService,
     private readonly messageService: WebSocketMessageService,
-    private readonly conversationService: ConversationService
+    private readonly conversationService: ConversationService,
+    private readonly reactionService: MessageReactionService,
+    private readonly coreMessageService: MessageService,
+    private readonly attachmentService: AttachmentService,
+    private readonly receiptService: MessageReceiptService,
+    private readonly groupService: GroupMembershipService,
+    private readonly inboxService: ConversationInboxService
   ) {}
 
   /**
-   * Get user's conversations (chat list)
+   * Get user's conversations (chat list), pinned first; ?archived=true lists the archive
    */
   @Get()
   async getConversations(
     @CurrentUser() user: any,
-    @Query() query: PaginationQueryDto
+    @Query() query: ConversationListQueryDto
   ) {
     try {
       const userId = user.userId;
       const limitNum = query.limit ? parseInt(query.limit, 10) : 20;
       const offsetNum = query.offset ? parseInt(query.offset, 10) : 0;
 
-      return await this.conversationService.getUserConversations(userId, limitNum, offsetNum);
+      return await this.conversationService.getUserConversations(
+        userId,
+        limitNum,
+        offsetNum,
+        query.archived === "true"
+      );
     } catch (error) {
       if (error instanceof HttpException) {
         throw error;
@@ -134,6 +164,13 @@ export class ConversationsController {
       const profiles = await this.profileService.getBatchProfiles({
         user_ids: senderIds,
       });
+      const parentPreviews = await this.messageService.getParentPreviews(messages);
+      const reactions = await this.reactionService.getReactionSummaries(
+        messages.map((m) => m.id)
+      );
+      const attachments = await this.attachmentService.getAttachmentSummaries(
+        messages.map((m) => m.id)
+      );
 
       // Build message response
       const messagesWithSenders = messages.map((message) => {
@@ -150,7 +187,12 @@ export class ConversationsController {
           content: message.content.content,
           message_type: message.type.value,
           sent_at: message.sentAt,
+          edited_at: message.editedAt || null,
           is_deleted: !!message.deletedAt,
+          parent_message_id: message.parentMessageId,
+          parent: parentPreviews.get(message.parentMessageId),
+          reactions: reactions.get(message.id) || [],
+          attachments: attachments.get(message.id) || [],
         };
       });
 
@@ -169,6 +211,383 @@ export class ConversationsController {
     }
   }
 
+  /**
+   * Get replies in a message thread
+   */
+  @Get(":id/messages/:messageId/thread")
+  async getThread(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @CurrentUser() user: any,
+    @Query() query: ThreadQueryDto
+  ) {
+    try {
+      const userId = user.userId;
+      const limitNum = Math.min(
+        Math.max(parseInt(query.limit ?? "", 10) || DEFAULT_THREAD_PAGE_SIZE, 1),
+        MAX_THREAD_PAGE_SIZE
+      );
+
+      const participant =
+        await this.participantRepository.findByConversationAndUser(
+          conversationId,
+          userId
+        );
+
+      if (!participant) {
+        throw new HttpException(
+          "Conversation not found or access denied",
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      const parentMessage = await this.messageRepository.findById(messageId);
+      if (!parentMessage || parentMessage.conversationId !== conversationId) {
+        throw new HttpException("Message not found", HttpStatus.NOT_FOUND);
+      }
+
+      const [replies, replyCount] = await Promise.all([
+        this.messageRepository.findThreadReplies(
+          messageId,
+          limitNum,
+          query.after_message_id
+        ),
+        this.messageRepository.countThreadReplies(messageId),
+      ]);
+
+      const senderIds = [
+        ...new Set([parentMessage.senderId, ...replies.map((m) => m.senderId)]),
+      ];
+      const profiles = await this.profileService.getBatchProfiles({
+        user_ids: senderIds,
+      });
+      const findSender = (senderId: string) =>
+        profiles.users.find((u) => u.id === senderId) ||
+        profiles.businesses.find((b) => b.id === senderId);
+
+      const parentSender = findSender(parentMessage.senderId);
+
+      return {
+        parent: {
+          ...this.messageService.buildMessagePreview(parentMessage),
+          sender_name: parentSender?.name || "Unknown User",
+          sender_avatar: parentSender?.avatar_url,
+        },
+        replies: replies.map((message) => {
+          const senderProfile = findSender(message.senderId);
+
+          return {
+            message_id: message.id,
+            conversation_id: message.conversationId,
+            sender_id: message.senderId,
+            sender_name: senderProfile?.name || "Unknown User",
+            sender_avatar: senderProfile?.avatar_url,
+            content: message.content.content,
+            message_type: message.type.value,
+            sent_at: message.sentAt,
+            edited_at: message.editedAt || null,
+            parent_message_id: message.parentMessageId,
+          };
+        }),
+        reply_count: replyCount,
+        has_more: replies.length === limitNum,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch thread",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Edit a message
+   */
+  @Patch(":id/messages/:messageId")
+  async editMessage(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @Body() editMessageDto: EditMessageDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.messageService.editMessage({
+        userId: user.userId,
+        conversationId,
+        messageId,
+        content: editMessageDto.content,
+      });
+
+      if (!result.success) {
+        throw new HttpException(
+          result.reason
+            ? { message: result.error, reason: result.reason }
+            : result.error || "Failed to edit message",
+          result.error === "Message not found"
+            ? HttpStatus.NOT_FOUND
+            : HttpStatus.BAD_REQUEST
+        );
+      }
+
+      return {
+        message: result.message,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to edit message",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Delete a message
+   */
+  @Delete(":id/messages/:messageId")
+  async deleteMessage(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.messageService.deleteMessage({
+        userId: user.userId,
+        conversationId,
+        messageId,
+      });
+
+      if (!result.success) {
+        throw new HttpException(
+          result.error || "Failed to delete message",
+          result.error === "Message not found"
+            ? HttpStatus.NOT_FOUND
+            : HttpStatus.BAD_REQUEST
+        );
+      }
+
+      return {
+        success: true,
+        message: "Message deleted",
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to delete message",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Get a message's edit history
+   */
+  @Get(":id/messages/:messageId/history")
+  async getMessageHistory(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const { message, revisions } =
+        await this.coreMessageService.getMessageHistory(messageId, user.userId);
+
+      if (message.conversationId !== conversationId) {
+        throw new HttpException("Message not found", HttpStatus.NOT_FOUND);
+      }
+
+      return {
+        message_id: message.id,
+        content: message.content.content,
+        edited_at: message.editedAt || null,
+        revisions: revisions.map((revision) => ({
+          revision_id: revision.id,
+          content: revision.content,
+          edited_by: revision.editedBy,
+          edited_at: revision.editedAt,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error.message === "Message not found") {
+        throw new HttpException("Message not found", HttpStatus.NOT_FOUND);
+      }
+      if (error.message?.includes("not authorized")) {
+        throw new HttpException(
+          "Conversation not found or access denied",
+          HttpStatus.NOT_FOUND
+        );
+      }
+      throw new HttpException(
+        "Failed to fetch message history",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Get delivery and read receipts for a message
+   */
+  @Get(":id/messages/:messageId/receipts")
+  async getReceipts(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const summary = await this.receiptService.getReceiptSummary(
+        messageId,
+        user.userId
+      );
+
+      if (!summary || summary.conversation_id !== conversationId) {
+        throw new HttpException("Message not found", HttpStatus.NOT_FOUND);
+      }
+
+      return summary;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch receipts",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Get aggregated reactions for a message
+   */
+  @Get(":id/messages/:messageId/reactions")
+  async getReactions(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const participant =
+        await this.participantRepository.findByConversationAndUser(
+          conversationId,
+          user.userId
+        );
+
+      if (!participant) {
+        throw new HttpException(
+          "Conversation not found or access denied",
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      const message = await this.messageRepository.findById(messageId);
+      if (!message || message.conversationId !== conversationId) {
+        throw new HttpException("Message not found", HttpStatus.NOT_FOUND);
+      }
+
+      return {
+        message_id: messageId,
+        reactions: await this.reactionService.getReactions(messageId),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch reactions",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Add a reaction to a message
+   */
+  @Post(":id/messages/:messageId/reactions")
+  async addReaction(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @Body() reactionDto: ReactionDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.reactionService.addReaction({
+        userId: user.userId,
+        conversationId,
+        messageId,
+        emoji: reactionDto.emoji,
+      });
+
+      if (!result.success) {
+        throw new HttpException(
+          result.error || "Failed to add reaction",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      return {
+        message_id: messageId,
+        reactions: result.reactions,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to add reaction",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Remove the caller's reaction from a message
+   */
+  @Delete(":id/messages/:messageId/reactions/:emoji")
+  async removeReaction(
+    @Param("id") conversationId: string,
+    @Param("messageId") messageId: string,
+    @Param("emoji") emoji: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.reactionService.removeReaction({
+        userId: user.userId,
+        conversationId,
+        messageId,
+        emoji,
+      });
+
+      if (!result.success) {
+        throw new HttpException(
+          result.error || "Failed to remove reaction",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      return {
+        message_id: messageId,
+        reactions: result.reactions,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to remove reaction",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   /**
    * Send message to conversation
    */
@@ -187,11 +606,15 @@ export class ConversationsController {
         conversationId: convId,
         content: sendMessageDto.content,
         messageType: sendMessageDto.message_type || "text",
+        parentMessageId: sendMessageDto.parent_message_id,
+        attachmentIds: sendMessageDto.attachment_ids,
       });
 
       if (!result.success) {
         throw new HttpException(
-          result.error || "Failed to send message",
+          result.reason
+            ? { message: result.error, reason: result.reason }
+            : result.error || "Failed to send message",
           HttpStatus.BAD_REQUEST
         );
       }
@@ -246,65 +669,276 @@ export class ConversationsController {
    */
   @Post('group')
   async createGroupConversation(
-    @Body() body: { name: string; participants: string[] },
+    @Body() createGroupDto: CreateGroupConversationDto,
     @CurrentUser() user: any,
   ) {
     try {
       const userId = user.userId;
-      const { participants } = body;
 
-      if (!participants || participants.length === 0) {
-        throw new HttpException(
-          'At least one participant is required',
-          HttpStatus.BAD_REQUEST,
-        );
+      const result = await this.conversationService.createGroupConversation(
+        userId,
+        createGroupDto.participants,
+        createGroupDto.name,
+      );
+
+      return {
+        ...result,
+        message: 'Group conversation created successfully',
+      };
+
+    } catch (error) {
+      console.error('Failed to create group conversation:', error);
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new HttpException(
+        'Failed to create group conversation',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 
-      if (participants.length > 7) {
-        throw new HttpException(
-          'Maximum 7 participants allowed (8 total including creator)',
-          HttpStatus.BAD_REQUEST,
-        );
+  /**
+   * Rename a conversation, change its avatar or update its settings (admins only)
+   */
+  @Patch(":id")
+  async updateConversation(
+    @Param("id") conversationId: string,
+    @Body() body: UpdateConversationDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const settings = body.settings;
+      return await this.conversationService.updateConversation(user.userId, conversationId, {
+        name: body.name,
+        description: body.description,
+        avatarUrl: body.avatar_url,
+        settings: settings && {
+          muteNotifications: settings.mute_notifications,
+          allowFileSharing: settings.allow_file_sharing,
+          allowImageSharing: settings.allow_image_sharing,
+          maxParticipants: settings.max_participants,
+          autoDeleteMessages: settings.auto_delete_messages,
+          autoDeleteDays: settings.auto_delete_days,
+        },
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new HttpException(
+        "Failed to update conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
 
-      // Create group conversation
-      const conversation = await this.conversationRepository.save({
-        type: { value: 'group' },
-        createdAt: new Date(),
-        lastActivity: new Date(),
-      } as any);
+  /**
+   * Add a member to a group (admins only)
+   */
+  @Post(":id/participants")
+  async addParticipant(
+    @Param("id") conversationId: string,
+    @Body() body: AddParticipantDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.groupService.addParticipant(user.userId, conversationId, body.user_id);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to add participant",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
 
-      // Add creator as admin
-      await this.participantRepository.save({
-        conversationId: conversation.id,
-        userId: userId,
-        role: { value: 'admin' },
-        isMuted: false,
-      } as any);
+  /**
+   * Remove a member from a group (admins only)
+   */
+  @Delete(":id/participants/:userId")
+  async removeParticipant(
+    @Param("id") conversationId: string,
+    @Param("userId") targetUserId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.groupService.removeParticipant(user.userId, conversationId, targetUserId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to remove participant",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
 
-      // Add other participants as members
-      for (const participantId of participants) {
-        await this.participantRepository.save({
-          conversationId: conversation.id,
-          userId: participantId,
-          role: { value: 'member' },
-          isMuted: false,
-        } as any);
+  /**
+   * Promote a member to admin or demote an admin (admins only)
+   */
+  @Patch(":id/participants/:userId")
+  async updateParticipantRole(
+    @Param("id") conversationId: string,
+    @Param("userId") targetUserId: string,
+    @Body() body: UpdateParticipantRoleDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.groupService.changeRole(user.userId, conversationId, targetUserId, body.role);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new HttpException(
+        "Failed to update participant role",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
 
-      return {
-        conversation_id: conversation.id,
-        message: 'Group conversation created successfully',
-      };
+  /**
+   * Leave a group
+   */
+  @Post(":id/leave")
+  async leaveGroup(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.groupService.leave(user.userId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to leave group",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
 
+  /**
+   * Move a conversation out of the inbox (for the current user only)
+   */
+  @Post(":id/archive")
+  async archiveConversation(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.archive(user.userId, conversationId);
     } catch (error) {
-      console.error('Failed to create group conversation:', error);
       if (error instanceof HttpException) {
         throw error;
       }
       throw new HttpException(
-        'Failed to create group conversation',
-        HttpStatus.INTERNAL_SERVER_ERROR,
+        "Failed to archive conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Delete(":id/archive")
+  async unarchiveConversation(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.unarchive(user.userId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to unarchive conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Keep a conversation at the top of the chat list
+   */
+  @Post(":id/pin")
+  async pinConversation(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.pin(user.userId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to pin conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Delete(":id/pin")
+  async unpinConversation(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.unpin(user.userId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to unpin conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Silence notifications, optionally until a given time
+   */
+  @Post(":id/mute")
+  async muteConversation(
+    @Param("id") conversationId: string,
+    @Body() body: MuteConversationDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.mute(
+        user.userId,
+        conversationId,
+        body.muted_until ? new Date(body.muted_until) : undefined
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to mute conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Delete(":id/mute")
+  async unmuteConversation(
+    @Param("id") conversationId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.inboxService.unmute(user.userId, conversationId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to unmute conversation",
+        HttpStatus.INTERNAL_SERVER_ERROR
       );
     }
   }
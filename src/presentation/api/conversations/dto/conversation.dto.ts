@@ -1,8 +1,27 @@
-import { IsString, IsOptional, IsArray, IsEnum, IsUUID, MaxLength, ArrayMaxSize } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsEnum,
+  IsUUID,
+  IsBoolean,
+  IsInt,
+  IsUrl,
+  MaxLength,
+  ArrayMaxSize,
+  ValidateIf,
+  ValidateNested,
+  Min,
+  Max,
+  IsIn,
+  IsISO8601,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class SendMessageDto {
-  @ApiProperty({ description: 'Message content' })
+  @ApiProperty({ description: 'Message content (optional when attachments are sent)' })
+  @ValidateIf((dto: SendMessageDto) => !dto.attachment_ids?.length || dto.content !== undefined)
   @IsString()
   @MaxLength(4000)
   content: string;
@@ -11,6 +30,25 @@ export class SendMessageDto {
   @IsOptional()
   @IsEnum(['text', 'image', 'file'])
   message_type?: string = 'text';
+
+  @ApiPropertyOptional({ description: 'ID of the message this one replies to' })
+  @IsOptional()
+  @IsUUID()
+  parent_message_id?: string;
+
+  @ApiPropertyOptional({ description: 'IDs of previously uploaded attachments', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID(undefined, { each: true })
+  @ArrayMaxSize(10)
+  attachment_ids?: string[];
+}
+
+export class EditMessageDto {
+  @ApiProperty({ description: 'New message content' })
+  @IsString()
+  @MaxLength(4000)
+  content: string;
 }
 
 export class CreateDirectConversationDto {
@@ -21,10 +59,11 @@ export class CreateDirectConversationDto {
 }
 
 export class CreateGroupConversationDto {
-  @ApiProperty({ description: 'Group name' })
+  @ApiPropertyOptional({ description: 'Group name' })
+  @IsOptional()
   @IsString()
   @MaxLength(100)
-  name: string;
+  name?: string;
 
   @ApiProperty({ description: 'Participant user IDs', type: [String] })
   @IsArray()
@@ -34,6 +73,81 @@ export class CreateGroupConversationDto {
   participants: string[];
 }
 
+export class ConversationSettingsDto {
+  @ApiPropertyOptional({ description: 'Mute notifications for everyone by default' })
+  @IsOptional()
+  @IsBoolean()
+  mute_notifications?: boolean;
+
+  @ApiPropertyOptional({ description: 'Allow file attachments' })
+  @IsOptional()
+  @IsBoolean()
+  allow_file_sharing?: boolean;
+
+  @ApiPropertyOptional({ description: 'Allow image attachments' })
+  @IsOptional()
+  @IsBoolean()
+  allow_image_sharing?: boolean;
+
+  @ApiPropertyOptional({ description: 'Participant cap', minimum: 2, maximum: 8 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(8)
+  max_participants?: number;
+
+  @ApiPropertyOptional({ description: 'Delete messages automatically after auto_delete_days' })
+  @IsOptional()
+  @IsBoolean()
+  auto_delete_messages?: boolean;
+
+  @ApiPropertyOptional({ description: 'Days to keep messages when auto delete is on', minimum: 1, maximum: 365 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  auto_delete_days?: number;
+}
+
+export class UpdateConversationDto {
+  @ApiPropertyOptional({ description: 'Conversation name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Conversation description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Avatar image URL; an empty string removes it' })
+  @IsOptional()
+  @ValidateIf((dto: UpdateConversationDto) => dto.avatar_url !== '')
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(2048)
+  avatar_url?: string;
+
+  @ApiPropertyOptional({ description: 'Settings to change', type: ConversationSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ConversationSettingsDto)
+  settings?: ConversationSettingsDto;
+}
+
+export class AddParticipantDto {
+  @ApiProperty({ description: 'User to add to the group' })
+  @IsString()
+  user_id: string;
+}
+
+export class UpdateParticipantRoleDto {
+  @ApiProperty({ description: 'New role', enum: ['admin', 'member'] })
+  @IsEnum(['admin', 'member'])
+  role: string;
+}
+
 export class MarkAsReadDto {
   @ApiProperty({ description: 'Message ID to mark as read up to' })
   @IsString()
@@ -51,6 +165,20 @@ export class PaginationQueryDto {
   offset?: string;
 }
 
+export class ConversationListQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'List archived conversations instead of the inbox', enum: ['true', 'false'] })
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  archived?: string;
+}
+
+export class MuteConversationDto {
+  @ApiPropertyOptional({ description: 'Unmute automatically at this time (ISO 8601); omit to mute until turned off' })
+  @IsOptional()
+  @IsISO8601()
+  muted_until?: string;
+}
+
 export class MessagePaginationQueryDto {
   @ApiPropertyOptional({ description: 'Number of messages to return', default: 50 })
   @IsOptional()
@@ -60,4 +188,22 @@ export class MessagePaginationQueryDto {
   @IsOptional()
   @IsUUID()
   before_message_id?: string;
-}
\ No newline at end of file
+}
+
+export class ThreadQueryDto {
+  @ApiPropertyOptional({ description: 'Number of replies to return', default: 50, maximum: 100 })
+  @IsOptional()
+  limit?: string;
+
+  @ApiPropertyOptional({ description: 'Get replies after this message ID' })
+  @IsOptional()
+  @IsUUID()
+  after_message_id?: string;
+}
+
+export class ReactionDto {
+  @ApiProperty({ description: 'Unicode emoji or :shortcode:', example: '👍' })
+  @IsString()
+  @MaxLength(64)
+  emoji: string;
+}
@@ -1,9 +1,11 @@
 import { Controller, Get } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Public } from '@infrastructure/auth/decorators/public.decorator';
 
 import { CacheHealthService } from '@infrastructure/cache/cache-health.service';
 import { ProfileMockService } from '@infrastructure/profile/profile-mock.service';
+import { KahaMainV3ProfileService } from '@infrastructure/profile/kaha-main-v3-profile.service';
 
 @ApiTags('health')
 @Controller('api/health')
@@ -12,6 +14,8 @@ export class HealthController {
   constructor(
     private readonly cacheHealthService: CacheHealthService,
     private readonly profileService: ProfileMockService,
+    private readonly upstreamProfileService: KahaMainV3ProfileService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -42,7 +46,9 @@ export class HealthController {
       const cacheOperations = await this.cacheHealthService.testBasicOperations();
 
       // Check profile service
-      const profileStats = this.profileService.getStats();
+      const profiles = this.configService.get<string>('PROFILE_SERVICE_MODE', 'mock') === 'http'
+        ? { source: 'kaha-main-v3', ...this.upstreamProfileService.getHealth() }
+        : this.getMockProfileHealth();
 
       return {
         status: 'healthy',
@@ -59,13 +65,7 @@ export class HealthController {
               delete: cacheOperations.operations.delete,
             },
           },
-          profiles: {
-            status: 'healthy',
-            total_users: profileStats.totalUsers,
-            total_businesses: profileStats.totalBusinesses,
-            online_users: profileStats.onlineUsers,
-            online_businesses: profileStats.onlineBusinesses,
-          },
+          profiles,
         },
       };
     } catch (error) {
@@ -103,4 +103,16 @@ export class HealthController {
       };
     }
   }
-}
\ No newline at end of file
+
+  private getMockProfileHealth() {
+    const profileStats = this.profileService.getStats();
+    return {
+      source: 'mock',
+      status: 'healthy',
+      total_users: profileStats.totalUsers,
+      total_businesses: profileStats.totalBusinesses,
+      online_users: profileStats.onlineUsers,
+      online_businesses: profileStats.onlineBusinesses,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { IsString, IsOptional, IsIn, IsInt, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { USER_REPORT_STATUSES, UserReportStatus } from '@domain/entities/user-report.entity';
+
+export class ReportListQueryDto {
+  @ApiPropertyOptional({ description: 'Only reports in this state', enum: USER_REPORT_STATUSES })
+  @IsOptional()
+  @IsIn(USER_REPORT_STATUSES)
+  status?: UserReportStatus;
+
+  @ApiPropertyOptional({ description: 'Only reports about this user' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reported_user_id?: string;
+
+  @ApiPropertyOptional({ description: 'Number of reports to return', default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Number of reports to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class UpdateReportStatusDto {
+  @ApiProperty({ description: 'New review state', enum: USER_REPORT_STATUSES })
+  @IsIn(USER_REPORT_STATUSES)
+  status: UserReportStatus;
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { ModeratorGuard } from "@infrastructure/auth/guards/moderator.guard";
+import { UserReportService } from "@application/services/user-report.service";
+import { ReportListQueryDto, UpdateReportStatusDto } from "./dto/moderation.dto";
+
+/**
+ * Moderation queue of user reports, open to the users in MODERATION_ADMIN_IDS
+ */
+@ApiTags("moderation")
+@Controller("api/moderation/reports")
+@UseGuards(JwtAuthGuard, ModeratorGuard)
+@ApiBearerAuth("JWT-auth")
+export class ModerationController {
+  constructor(private readonly reportService: UserReportService) {}
+
+  /**
+   * Reports oldest first, optionally narrowed by status or reported user
+   */
+  @Get()
+  async listReports(@Query() query: ReportListQueryDto) {
+    try {
+      return await this.reportService.listReports({
+        status: query.status,
+        reportedUserId: query.reported_user_id,
+        limit: query.limit,
+        offset: query.offset,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to list reports",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get(":id")
+  async getReport(@Param("id") reportId: string) {
+    try {
+      return await this.reportService.getReport(reportId);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch report",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Patch(":id")
+  async updateReportStatus(
+    @Param("id") reportId: string,
+    @Body() body: UpdateReportStatusDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      return await this.reportService.updateStatus(reportId, user.userId, body.status);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to update report",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
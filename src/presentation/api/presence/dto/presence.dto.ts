@@ -0,0 +1,11 @@
+import { IsArray, IsString, ArrayMaxSize, ArrayNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BatchPresenceDto {
+  @ApiProperty({ description: 'User IDs to look up', type: [String] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @ArrayMaxSize(100)
+  user_ids: string[];
+}
@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { UserPresenceService } from "@application/services/user-presence.service";
+import { BatchPresenceDto } from "./dto/presence.dto";
+
+@ApiTags("presence")
+@Controller("api/presence")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class PresenceController {
+  constructor(private readonly presenceService: UserPresenceService) {}
+
+  /**
+   * Look up presence for several users at once.
+   * Users who share no conversation with the caller are left out.
+   */
+  @Post("batch")
+  @HttpCode(HttpStatus.OK)
+  async getBatchPresence(
+    @Body() batchDto: BatchPresenceDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const presence = await this.presenceService.getPresenceForUser(
+        user.userId,
+        batchDto.user_ids
+      );
+
+      return { presence };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to fetch presence",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { request as httpRequest } from 'http';
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { ProfileEventIngestionService } from '@application/services/profile-event-ingestion.service';
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@infrastructure/webhooks/webhook-signature';
+import { ProfileEventsController } from '../profile-events.controller';
+
+interface Response {
+  status: number;
+  body: any;
+}
+
+describe('ProfileEventsController', () => {
+  const secret = 'profile-events-secret';
+
+  let app: INestApplication;
+  let baseUrl: string;
+  let config: Record<string, unknown>;
+  let ingestionService: { ingest: jest.Mock };
+
+  const event = {
+    event_id: 'evt-1',
+    type: 'user.profile.updated',
+    id: 'user-1',
+    timestamp: '2024-05-01T10:00:00Z',
+  };
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  // Real HTTP so the signature is checked against the raw bytes on the wire
+  const post = (body: string, headers: Record<string, string | number> = {}): Promise<Response> =>
+    new Promise((resolve, reject) => {
+      const req = httpRequest(
+        `${baseUrl}/api/profile-events`,
+        { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } },
+        res => {
+          let data = '';
+          res.on('data', chunk => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode, body: data ? JSON.parse(data) : null }));
+        },
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  const signed = (body: string, timestamp: number = now(), key: string = secret) => ({
+    [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(key, timestamp, body),
+  });
+
+  beforeAll(async () => {
+    ingestionService = { ingest: jest.fn() };
+    config = {};
+
+    const moduleRef = await Test.createTestingModule({
+      controllers: [ProfileEventsController],
+      providers: [
+        { provide: ProfileEventIngestionService, useValue: ingestionService },
+        { provide: ConfigService, useValue: { get: (key: string, fallback?: unknown) => config[key] ?? fallback } },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication({ rawBody: true, logger: false });
+    await app.listen(0, '127.0.0.1');
+    baseUrl = (await app.getUrl()).replace('[::1]', '127.0.0.1');
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    ingestionService.ingest.mockReset().mockResolvedValue('processed');
+    config = { PROFILE_EVENTS_WEBHOOK_SECRET: secret, PROFILE_EVENTS_WEBHOOK_TOLERANCE_SECONDS: 300 };
+  });
+
+  it('applies an event signed with the shared secret', async () => {
+    const body = JSON.stringify(event);
+
+    const response = await post(body, signed(body));
+
+    expect(response).toEqual({ status: 200, body: { event_id: 'evt-1', status: 'processed' } });
+    expect(ingestionService.ingest).toHaveBeenCalledWith(event);
+  });
+
+  it('reports duplicates and stale events without failing the request', async () => {
+    ingestionService.ingest.mockResolvedValue('duplicate');
+    const body = JSON.stringify(event);
+
+    const response = await post(body, signed(body));
+
+    expect(response).toEqual({ status: 200, body: { event_id: 'evt-1', status: 'duplicate' } });
+  });
+
+  describe('signature', () => {
+    it('rejects a request without a signature', async () => {
+      const response = await post(JSON.stringify(event), { [WEBHOOK_TIMESTAMP_HEADER]: now() });
+
+      expect(response.status).toBe(401);
+      expect(ingestionService.ingest).not.toHaveBeenCalled();
+    });
+
+    it('rejects a signature made with another secret', async () => {
+      const body = JSON.stringify(event);
+
+      const response = await post(body, signed(body, now(), 'someone-elses-secret'));
+
+      expect(response.status).toBe(401);
+      expect(ingestionService.ingest).not.toHaveBeenCalled();
+    });
+
+    it('rejects a body changed after signing', async () => {
+      const body = JSON.stringify(event);
+
+      const response = await post(JSON.stringify({ ...event, id: 'user-2' }), signed(body));
+
+      expect(response.status).toBe(401);
+      expect(ingestionService.ingest).not.toHaveBeenCalled();
+    });
+
+    it('answers 503 while no secret is configured', async () => {
+      config = {};
+      const body = JSON.stringify(event);
+
+      const response = await post(body, signed(body));
+
+      expect(response.status).toBe(503);
+      expect(ingestionService.ingest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timestamp window', () => {
+    it.each([
+      ['too old', -301],
+      ['too far ahead', 301],
+    ])('rejects a correctly signed request whose timestamp is %s', async (_label, offset) => {
+      const body = JSON.stringify(event);
+
+      const response = await post(body, signed(body, now() + offset));
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe('Webhook timestamp is outside the allowed window');
+      expect(ingestionService.ingest).not.toHaveBeenCalled();
+    });
+
+    it('accepts a request signed just inside the window', async () => {
+      const body = JSON.stringify(event);
+
+      const response = await post(body, signed(body, now() - 290));
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  it('rejects a signed body that is not a profile event', async () => {
+    const body = JSON.stringify({ ...event, type: 'user.password.changed' });
+
+    const response = await post(body, signed(body));
+
+    expect(response.status).toBe(400);
+    expect(ingestionService.ingest).not.toHaveBeenCalled();
+  });
+
+  it('hides ingestion errors behind a 500 so the sender retries', async () => {
+    ingestionService.ingest.mockRejectedValue(new Error('Redis unavailable'));
+    const body = JSON.stringify(event);
+
+    const response = await post(body, signed(body));
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('Failed to process profile event');
+  });
+});
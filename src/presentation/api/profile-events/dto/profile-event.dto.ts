@@ -0,0 +1,29 @@
+import { IsArray, IsDefined, IsIn, IsISO8601, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ProfileEvent, PROFILE_EVENT_TYPES } from '@infrastructure/cache/profile-cache-event.handler';
+
+export class ProfileEventDto {
+  @ApiProperty({ description: 'Unique event ID; redeliveries must reuse it' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  event_id: string;
+
+  @ApiProperty({ enum: PROFILE_EVENT_TYPES })
+  @IsIn(PROFILE_EVENT_TYPES)
+  type: ProfileEvent['type'];
+
+  @ApiProperty({ description: 'User or business ID', oneOf: [{ type: 'string' }, { type: 'integer' }] })
+  @IsDefined()
+  id: string | number;
+
+  @ApiProperty({ description: 'When the change happened in kaha-main-v3' })
+  @IsISO8601()
+  timestamp: string;
+
+  @ApiPropertyOptional({ description: 'Fields that changed', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  changes?: string[];
+}
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Req,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  HttpException,
+  RawBodyRequest,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ApiTags, ApiHeader } from "@nestjs/swagger";
+import { Request } from "express";
+import { Public } from "@infrastructure/auth/decorators/public.decorator";
+import {
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "@infrastructure/webhooks/webhook-signature";
+import {
+  isProfileEvent,
+  ProfileEventIngestionService,
+} from "@application/services/profile-event-ingestion.service";
+import { ProfileEventDto } from "./dto/profile-event.dto";
+
+/**
+ * Inbound profile change notifications from kaha-main-v3. Requests are
+ * signed the same way as our outgoing webhooks, with a shared secret.
+ */
+@ApiTags("profile-events")
+@Controller("api/profile-events")
+export class ProfileEventsController {
+  constructor(
+    private readonly ingestionService: ProfileEventIngestionService,
+    private readonly configService: ConfigService
+  ) {}
+
+  @Public()
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: WEBHOOK_SIGNATURE_HEADER, description: "sha256=<hex HMAC of `<timestamp>.<body>`>" })
+  @ApiHeader({ name: WEBHOOK_TIMESTAMP_HEADER, description: "Unix time in seconds" })
+  async receiveProfileEvent(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers(WEBHOOK_SIGNATURE_HEADER.toLowerCase()) signature: string,
+    @Headers(WEBHOOK_TIMESTAMP_HEADER.toLowerCase()) timestamp: string,
+    @Body() body: ProfileEventDto
+  ) {
+    try {
+      this.verifySignature(req.rawBody, signature, timestamp);
+
+      if (!isProfileEvent(body)) {
+        throw new HttpException("Invalid profile event", HttpStatus.BAD_REQUEST);
+      }
+
+      const status = await this.ingestionService.ingest(body);
+      return { event_id: body.event_id, status };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to process profile event",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  private verifySignature(rawBody: Buffer | undefined, signature: string, timestamp: string): void {
+    const secret = this.configService.get<string>("PROFILE_EVENTS_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new HttpException("Profile event webhook is not configured", HttpStatus.SERVICE_UNAVAILABLE);
+    }
+
+    const sentAt = Number(timestamp);
+    const tolerance = this.configService.get<number>("PROFILE_EVENTS_WEBHOOK_TOLERANCE_SECONDS", 300);
+    if (!rawBody || !signature || !Number.isInteger(sentAt)) {
+      throw new HttpException("Missing webhook signature", HttpStatus.UNAUTHORIZED);
+    }
+    // Old signatures are refused so a captured request can't be replayed later
+    if (Math.abs(Date.now() / 1000 - sentAt) > tolerance) {
+      throw new HttpException("Webhook timestamp is outside the allowed window", HttpStatus.UNAUTHORIZED);
+    }
+    if (!verifyWebhookSignature(secret, sentAt, rawBody.toString("utf8"), signature)) {
+      throw new HttpException("Invalid webhook signature", HttpStatus.UNAUTHORIZED);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { USER_REPORT_REASONS, UserReportReason } from '@domain/entities/user-report.entity';
+
+export class CreateReportDto {
+  @ApiProperty({ description: 'User being reported' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  reported_user_id: string;
+
+  @ApiProperty({ description: 'Why the user is being reported', enum: USER_REPORT_REASONS })
+  @IsIn(USER_REPORT_REASONS)
+  reason: UserReportReason;
+
+  @ApiPropertyOptional({ description: 'Free-text explanation for moderators' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  details?: string;
+
+  @ApiPropertyOptional({
+    description: 'Conversation the abuse happened in; without message_ids the reported user\'s latest messages there are attached',
+  })
+  @IsOptional()
+  @IsUUID()
+  conversation_id?: string;
+
+  @ApiPropertyOptional({ description: 'Specific messages to attach to the report', type: [String], maxItems: 20 })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  message_ids?: string[];
+}
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { UserReportService } from "@application/services/user-report.service";
+import { CreateReportDto } from "./dto/report.dto";
+
+@ApiTags("reports")
+@Controller("api/reports")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class ReportsController {
+  constructor(private readonly reportService: UserReportService) {}
+
+  /**
+   * Report a user. The offending messages are copied into the moderation
+   * queue as they are now.
+   */
+  @Post()
+  async createReport(
+    @Body() body: CreateReportDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const report = await this.reportService.report(user.userId, {
+        reportedUserId: body.reported_user_id,
+        reason: body.reason,
+        details: body.details,
+        conversationId: body.conversation_id,
+        messageIds: body.message_ids,
+      });
+
+      return {
+        id: report.id,
+        status: report.status,
+        message_count: report.messages.length,
+        created_at: report.created_at,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to report user",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RetentionReportQueryDto {
+  @ApiPropertyOptional({ description: 'Limit the report to one conversation' })
+  @IsOptional()
+  @IsUUID()
+  conversation_id?: string;
+}
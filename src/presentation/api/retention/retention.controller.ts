@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { EnhancedMessageService } from "@application/services/enhanced-message.service";
+import { RetentionReportQueryDto } from "./dto/retention.dto";
+
+@ApiTags("retention")
+@Controller("api/retention")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class RetentionController {
+  constructor(private readonly messageService: EnhancedMessageService) {}
+
+  /**
+   * Dry run of the retention job for the user's conversations: how many
+   * messages would expire next and which policy level applies.
+   */
+  @Get("report")
+  async getReport(
+    @Query() query: RetentionReportQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const report = await this.messageService.getRetentionReport(
+        user.userId,
+        query.conversation_id
+      );
+
+      return {
+        enabled: report.enabled,
+        purge_after_days: report.purgeAfterDays,
+        default_days: report.policy.defaultDays,
+        days_by_type: {
+          direct: report.policy.daysByType.direct ?? null,
+          group: report.policy.daysByType.group ?? null,
+          business: report.policy.daysByType.business ?? null,
+        },
+        conversations: report.conversations.map((entry) => ({
+          conversation_id: entry.conversationId,
+          conversation_type: entry.conversationType,
+          retention_days: entry.retentionDays,
+          source: entry.source,
+          expiring_count: entry.expiringCount,
+          oldest_expiring_at: entry.oldestExpiringAt,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to build retention report",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
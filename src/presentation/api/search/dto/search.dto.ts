@@ -0,0 +1,49 @@
+import { IsString, IsOptional, IsEnum, IsISO8601, IsInt, Min, Max, MaxLength, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SearchMessagesQueryDto {
+  @ApiProperty({ description: 'Search terms; supports "quoted phrases", OR and -exclusions' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({ description: 'Only messages from this sender' })
+  @IsOptional()
+  @IsString()
+  sender_id?: string;
+
+  @ApiPropertyOptional({ description: 'Conversation type', enum: ['direct', 'group', 'business'] })
+  @IsOptional()
+  @IsEnum(['direct', 'group', 'business'])
+  conversation_type?: string;
+
+  @ApiPropertyOptional({ description: 'Message type', enum: ['text', 'image', 'file', 'system'] })
+  @IsOptional()
+  @IsEnum(['text', 'image', 'file', 'system'])
+  message_type?: string;
+
+  @ApiPropertyOptional({ description: 'Only messages sent at or after this time (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Only messages sent at or before this time (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Cursor from a previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ description: 'Number of results to return', default: 20, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { SimpleProfileCacheService } from "@infrastructure/profile/simple-profile-cache.service";
+import { MessageSearchService } from "@application/services/message-search.service";
+import { SearchMessagesQueryDto } from "./dto/search.dto";
+
+@ApiTags("search")
+@Controller("api/search")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class SearchController {
+  constructor(
+    private readonly searchService: MessageSearchService,
+    private readonly profileService: SimpleProfileCacheService
+  ) {}
+
+  /**
+   * Search messages in every conversation the user belongs to.
+   * Results are ordered by relevance, newest first among equal ranks.
+   */
+  @Get("messages")
+  async searchMessages(
+    @Query() query: SearchMessagesQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const result = await this.searchService.search({
+        userId: user.userId,
+        query: query.q,
+        senderId: query.sender_id,
+        conversationType: query.conversation_type,
+        messageType: query.message_type,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+
+      const senderIds = [...new Set(result.hits.map((hit) => hit.message.senderId))];
+      const profiles = senderIds.length
+        ? await this.profileService.getBatchProfiles({ user_ids: senderIds })
+        : { users: [], businesses: [] };
+
+      const results = result.hits.map(({ message, conversationType, rank, snippet }) => {
+        const senderProfile =
+          profiles.users.find((u) => u.id === message.senderId) ||
+          profiles.businesses.find((b) => b.id === message.senderId);
+
+        return {
+          message_id: message.id,
+          conversation_id: message.conversationId,
+          conversation_type: conversationType,
+          sender_id: message.senderId,
+          sender_name: senderProfile?.name || "Unknown User",
+          sender_avatar: senderProfile?.avatar_url,
+          content: message.content.content,
+          snippet,
+          rank,
+          message_type: message.type.value,
+          sent_at: message.sentAt,
+          edited_at: message.editedAt || null,
+          parent_message_id: message.parentMessageId,
+        };
+      });
+
+      return {
+        results,
+        next_cursor: result.nextCursor,
+        has_more: result.hasMore,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to search messages",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
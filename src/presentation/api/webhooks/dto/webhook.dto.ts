@@ -0,0 +1,52 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsUrl,
+  IsInt,
+  IsEnum,
+  ArrayNotEmpty,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WEBHOOK_EVENT_TYPES } from '@domain/entities/webhook-subscription.entity';
+
+export class CreateWebhookDto {
+  @ApiProperty({ description: 'Endpoint that receives the POSTed events' })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({ description: 'Events to deliver', enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  event_types: string[];
+
+  @ApiPropertyOptional({ description: 'Signing secret; generated when omitted' })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  secret?: string;
+}
+
+export class WebhookDeliveriesQueryDto {
+  @ApiPropertyOptional({ description: 'Delivery status', enum: ['pending', 'processing', 'delivered', 'failed'] })
+  @IsOptional()
+  @IsEnum(['pending', 'processing', 'delivered', 'failed'])
+  status?: 'pending' | 'processing' | 'delivered' | 'failed';
+
+  @ApiPropertyOptional({ description: 'Number of deliveries to return', default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpException,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { CurrentUser } from "@infrastructure/auth/decorators/current-user.decorator";
+import { JwtAuthGuard } from "@infrastructure/auth/guards/jwt-auth.guard";
+import { WebhookSubscriptionService } from "@application/services/webhook-subscription.service";
+import { WebhookSubscription } from "@domain/entities/webhook-subscription.entity";
+import { WebhookDelivery } from "@domain/entities/webhook-delivery.entity";
+import { CreateWebhookDto, WebhookDeliveriesQueryDto } from "./dto/webhook.dto";
+
+@ApiTags("webhooks")
+@Controller("api/businesses/:businessId/webhooks")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class WebhooksController {
+  constructor(private readonly webhookService: WebhookSubscriptionService) {}
+
+  /**
+   * Register a webhook. The signing secret is only returned here.
+   */
+  @Post()
+  async createWebhook(
+    @Param("businessId") businessId: string,
+    @Body() body: CreateWebhookDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const subscription = await this.webhookService.create(user.userId, {
+        businessId,
+        url: body.url,
+        eventTypes: body.event_types,
+        secret: body.secret,
+      });
+
+      return {
+        ...this.toSubscriptionResponse(subscription),
+        secret: subscription.secret,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to create webhook",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get()
+  async listWebhooks(
+    @Param("businessId") businessId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const subscriptions = await this.webhookService.list(user.userId, businessId);
+      return {
+        webhooks: subscriptions.map((subscription) => this.toSubscriptionResponse(subscription)),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to list webhooks",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Delete(":id")
+  async deleteWebhook(
+    @Param("businessId") businessId: string,
+    @Param("id") subscriptionId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      await this.webhookService.remove(user.userId, businessId, subscriptionId);
+      return {
+        success: true,
+        message: "Webhook deleted",
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to delete webhook",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Delivery log for a webhook, newest first
+   */
+  @Get(":id/deliveries")
+  async getDeliveries(
+    @Param("businessId") businessId: string,
+    @Param("id") subscriptionId: string,
+    @Query() query: WebhookDeliveriesQueryDto,
+    @CurrentUser() user: any
+  ) {
+    try {
+      const deliveries = await this.webhookService.getDeliveries(
+        user.userId,
+        businessId,
+        subscriptionId,
+        query.status,
+        query.limit
+      );
+
+      return {
+        deliveries: deliveries.map((delivery) => this.toDeliveryResponse(delivery)),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to get webhook deliveries",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Queue a logged delivery to be sent again
+   */
+  @Post(":id/deliveries/:deliveryId/replay")
+  async replayDelivery(
+    @Param("businessId") businessId: string,
+    @Param("id") subscriptionId: string,
+    @Param("deliveryId") deliveryId: string,
+    @CurrentUser() user: any
+  ) {
+    try {
+      await this.webhookService.replay(user.userId, businessId, subscriptionId, deliveryId);
+      return {
+        success: true,
+        message: "Delivery queued for replay",
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        "Failed to replay webhook delivery",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  private toSubscriptionResponse(subscription: WebhookSubscription) {
+    return {
+      webhook_id: subscription.id,
+      business_id: subscription.businessId,
+      url: subscription.url,
+      event_types: subscription.eventTypes,
+      is_active: subscription.isActive,
+      created_at: subscription.createdAt,
+    };
+  }
+
+  private toDeliveryResponse(delivery: WebhookDelivery) {
+    return {
+      delivery_id: delivery.id,
+      event_id: delivery.eventId,
+      event_name: delivery.eventName,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      response_status: delivery.responseStatus ?? null,
+      last_error: delivery.lastError ?? null,
+      next_attempt_at: delivery.status === "pending" ? delivery.nextAttemptAt : null,
+      created_at: delivery.createdAt,
+      delivered_at: delivery.deliveredAt ?? null,
+    };
+  }
+}
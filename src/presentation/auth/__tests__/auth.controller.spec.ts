@@ -0,0 +1,86 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AuthSession } from '@domain/entities/auth-session.entity';
+import { IAuthSessionRepository } from '@domain/repositories/auth-session.repository.interface';
+import { AuthService } from '@infrastructure/auth/services/auth.service';
+import { JwtVerifierService } from '@infrastructure/auth/services/jwt-verifier.service';
+import { SessionService } from '@infrastructure/auth/services/session.service';
+import { TokenService } from '@infrastructure/auth/services/token.service';
+import { AuthController } from '../auth.controller';
+
+describe('AuthController', () => {
+  const userId = '7a3e1f52-4c1d-4b8e-9f0a-2d6c5b8e1a90';
+
+  let sessions: Map<string, AuthSession>;
+  let authService: AuthService;
+  let controller: AuthController;
+
+  beforeEach(() => {
+    sessions = new Map();
+    const repository: IAuthSessionRepository = {
+      findById: jest.fn(async (id: string) => sessions.get(id) ?? null),
+      findActiveByUser: jest.fn(async () => []),
+      findActiveByUserAndDevice: jest.fn(async (user: string, device: string) =>
+        [...sessions.values()].filter(s => s.userId === user && s.deviceId === device && s.isActive()),
+      ),
+      save: jest.fn(async (session: AuthSession) => {
+        sessions.set(session.id, session);
+        return session;
+      }),
+      rotateToken: jest.fn(async (id: string, expected: string, next: string, expiresAt: Date) => {
+        const session = sessions.get(id);
+        if (!session?.isActive() || session.currentTokenId !== expected) {
+          return false;
+        }
+        Object.assign(session, { currentTokenId: next, expiresAt });
+        return true;
+      }),
+      revoke: jest.fn(async (id: string) => {
+        Object.assign(sessions.get(id)!, { revokedAt: new Date() });
+      }),
+    };
+    const logger = { log: jest.fn(), debug: jest.fn(), audit: jest.fn(), security: jest.fn(), error: jest.fn() } as any;
+    const config = new ConfigService({ JWT_SECRET: 'access-secret', JWT_REFRESH_SECRET: 'refresh-secret' });
+    const jwtService = new JwtService();
+
+    authService = new AuthService(
+      config,
+      new TokenService(jwtService),
+      new SessionService(
+        repository,
+        { set: jest.fn(), exists: jest.fn().mockResolvedValue(false) } as any,
+        { disconnectSession: jest.fn() } as any,
+        logger,
+      ),
+      new JwtVerifierService(config, jwtService),
+      logger,
+    );
+    controller = new AuthController(authService, logger);
+  });
+
+  it('refreshes with the refresh token issued at login', async () => {
+    const login = await controller.login({ userId, deviceId: 'browser-1' }, 'jest', '127.0.0.1');
+
+    const refreshed = await controller.refresh({ refreshToken: login.data.refreshToken });
+
+    expect(refreshed.data).toEqual(expect.objectContaining({ sessionId: login.data.sessionId, deviceId: 'browser-1' }));
+    expect(refreshed.data.refreshToken).not.toBe(login.data.refreshToken);
+    const payload = await authService.verifyToken(refreshed.data.accessToken);
+    expect(await authService.validateUser(payload)).toEqual({
+      userId,
+      sessionId: login.data.sessionId,
+      deviceId: 'browser-1',
+    });
+  });
+
+  it('refuses a refresh token that was already exchanged', async () => {
+    const login = await controller.login({ userId, deviceId: 'browser-1' }, 'jest', '127.0.0.1');
+    await controller.refresh({ refreshToken: login.data.refreshToken });
+
+    await expect(controller.refresh({ refreshToken: login.data.refreshToken })).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(sessions.get(login.data.sessionId)?.revokedAt).toBeInstanceOf(Date);
+  });
+});
@@ -1,4 +1,4 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Body, HttpCode, HttpStatus, Headers, Ip } from '@nestjs/common';
 import { AuthService } from '@infrastructure/auth/services/auth.service';
 import { Public } from '@infrastructure/auth/decorators/public.decorator';
 import { StructuredLoggerService } from '@infrastructure/logging/structured-logger.service';
@@ -14,16 +14,25 @@ export class AuthController {
   @Public()
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginDto) {
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
     this.logger.log('Login attempt', {
       service: 'AuthController',
       operation: 'login',
       userId: loginDto.userId,
     });
 
-    const tokens = await this.authService.generateTokens(loginDto.userId);
+    const tokens = await this.authService.generateTokens(loginDto.userId, {
+      deviceId: loginDto.deviceId,
+      deviceName: loginDto.deviceName,
+      userAgent,
+      ipAddress,
+    });
     
-    this.logger.audit('User logged in', { userId: loginDto.userId }, {
+    this.logger.audit('User logged in', { userId: loginDto.userId, deviceId: tokens.deviceId }, {
       service: 'AuthController',
       operation: 'login',
     });
@@ -1,7 +1,8 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
+import { SessionsController } from './sessions.controller';
 
 @Module({
-  controllers: [AuthController],
+  controllers: [AuthController, SessionsController],
 })
-export class AuthModule {}
\ No newline at end of file
+export class AuthModule {}
@@ -1,12 +1,24 @@
-import { IsUUID, IsString, IsNotEmpty } from 'class-validator';
+import { IsUUID, IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
 
 export class LoginDto {
   @IsUUID(4, { message: 'User ID must be a valid UUID' })
   userId: string;
+
+  // Stable per install; signing in again with it replaces that device's session
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  deviceId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceName?: string;
 }
 
 export class RefreshTokenDto {
   @IsString()
   @IsNotEmpty({ message: 'Refresh token is required' })
   refreshToken: string;
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { Controller, Get, Post, Delete, Param, HttpCode, HttpStatus, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthService } from '@infrastructure/auth/services/auth.service';
+import { SessionService } from '@infrastructure/auth/services/session.service';
+import { CurrentUser } from '@infrastructure/auth/decorators/current-user.decorator';
+import { AuthUser } from '@infrastructure/auth/interfaces/auth.interface';
+import { AuthSession } from '@domain/entities/auth-session.entity';
+
+/**
+ * The caller's signed-in devices. Ending a session also drops that device's
+ * live sockets.
+ */
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@Controller('api/auth')
+export class SessionsController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  @Get('sessions')
+  async listSessions(@CurrentUser() user: AuthUser) {
+    const sessions = await this.sessionService.list(user.userId);
+    return {
+      sessions: sessions.map(session => this.toSessionResponse(session, user)),
+    };
+  }
+
+  /**
+   * Sign out every device except the one making the request
+   */
+  @Delete('sessions')
+  async revokeOtherSessions(@CurrentUser() user: AuthUser) {
+    const revoked = await this.sessionService.revokeOthers(user.userId, user.sessionId);
+    return { revoked };
+  }
+
+  @Delete('sessions/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const reason = sessionId === user.sessionId ? 'logout' : 'remote_logout';
+    await this.sessionService.revoke(user.userId, sessionId, reason);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@CurrentUser() user: AuthUser) {
+    await this.authService.logout(user);
+  }
+
+  private toSessionResponse(session: AuthSession, user: AuthUser) {
+    return {
+      id: session.id,
+      device_id: session.deviceId,
+      device_name: session.deviceName || null,
+      user_agent: session.userAgent || null,
+      ip_address: session.ipAddress || null,
+      created_at: session.createdAt,
+      last_used_at: session.lastUsedAt,
+      expires_at: session.expiresAt,
+      current: session.id === user.sessionId,
+    };
+  }
+}
@@ -5,7 +5,7 @@ import { StructuredLoggerService } from '@infrastructure/logging/structured-logg
 import { JwtAuthGuard } from '@infrastructure/auth/guards/jwt-auth.guard';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { IUserQueryRepository } from '@domain/repositories/user.repository.interface';
-import { ProfileMockService } from '@infrastructure/profile/profile-mock.service';
+import { SimpleProfileCacheService } from '@infrastructure/profile/simple-profile-cache.service';
 
 @ApiTags('users')
 @ApiBearerAuth('JWT-auth')
@@ -15,7 +15,7 @@ export class UsersController {
   constructor(
     private readonly logger: StructuredLoggerService,
     @Inject('IUserQueryRepository') private readonly users: IUserQueryRepository,
-    private readonly profileService: ProfileMockService,
+    private readonly profileService: SimpleProfileCacheService,
   ) {}
 
   @Get('profile')
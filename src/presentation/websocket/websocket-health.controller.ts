@@ -21,9 +21,9 @@ export class WebSocketHealthController {
   @Get('stats')
   @ApiOperation({ summary: 'Get WebSocket connection statistics' })
   @ApiResponse({ status: 200, description: 'Connection statistics' })
-  getStats() {
+  async getStats() {
     return {
-      connectedUsers: this.chatGateway.getConnectedUsersCount(),
+      connectedUsers: await this.chatGateway.getConnectedUsersCount(),
       timestamp: new Date().toISOString(),
     };
   }